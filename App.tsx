@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { 
   ShoppingCart, 
   DollarSign, 
@@ -9,235 +9,904 @@ import {
   RefreshCcw,
   TrendingUp,
   Upload,
-  FileSpreadsheet,
-  X,
   Tag,
   PieChart as PieChartIcon,
   Percent,
-  ArrowRightLeft,
-  Trophy
+  Wallet,
+  UserPlus,
+  Target,
+  PiggyBank,
+  Database,
+  Settings,
+  Sparkles,
+  Network,
+  ChevronRight,
+  Languages,
+  Coins
 } from 'lucide-react';
 import { 
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area,
-  BarChart, Bar, Cell, PieChart, Pie, Legend, Sector
+  BarChart, Bar, Cell, PieChart, Pie, Legend, Sector, ComposedChart, ReferenceDot, ReferenceArea
 } from 'recharts';
-import { SaleRecord, DashboardStats } from './types';
-import { fetchSalesData, parseCSV } from './services/spreadsheetService';
-import { formatCurrency, formatNumber, getMonthName } from './utils/formatters';
+import { SaleRecord, CSVTable, ColumnMapping, ParseOptions, DataSource, DateRange, Granularity, BaselineConfig, ForecastConfig, AlertRule, ComparisonSelection, PivotConfig, DashboardFilters, DashboardView, BaselineMode, SavedView, Target as SalesTarget, TargetMetric, ChannelTaxonomy, DedupKey, UploadedDataset, AbcConfig, ComparisonDimension, Locale, CurrencySettings, EditableField, RecordCorrection, RecordValues, RecordsDrill } from './types';
+import { jsonToTable, parseCSVTable } from './services/spreadsheetService';
+import { WorkbookSheet, readWorkbook } from './services/workbookService';
+import { buildAggregateSheets, buildCorrectionsSheet, buildExportFileName, buildRecordsSheet, exportCSV, exportReport, exportXLSX } from './services/exportService';
+import { detectColumnMapping, emptyMapping, getHeaderSignature } from './services/columnMapping';
+import { findMappingProfile, saveMappingProfile } from './services/mappingProfiles';
+import { createSourceId, loadActiveSourceIds, loadDataSources, saveActiveSourceIds, saveDataSources } from './services/dataSources';
+import { loadAlertRules, saveAlertRules } from './services/alertRules';
+import { AnalyticsClient, createAnalyticsClient } from './services/analyticsClient';
+import { DashboardQuery, DashboardResult, DatasetSummary, EMPTY_DATASET_SUMMARY, EMPTY_RECORDS_PAGE, RecordsPage, RecordsPageRequest, SourceErrorInfo } from './services/analyticsEngine';
+import { loadSavedViews, saveSavedViews, upsertSavedView } from './services/savedViews';
+import { loadAutoRefreshInterval, saveAutoRefreshInterval } from './services/autoRefresh';
+import { loadTargets, saveTargets } from './services/targets';
+import { loadChannelTaxonomy, saveChannelTaxonomy } from './services/channelTaxonomy';
+import { createUploadId, loadDedupKey, saveDedupKey } from './services/uploads';
+import { loadAbcConfig, saveAbcConfig } from './services/abcSettings';
+import { loadCurrencySettings, loadLocale, saveCurrencySettings, saveLocale } from './services/displaySettings';
+import { getInsightProviders } from './services/insightProviders';
+import { loadRecordCorrections, saveRecordCorrections } from './services/recordCorrections';
+import { formatCompactCurrency, formatCurrency, formatDateTime, formatNumber, formatPercent, formatRoas, setFormatSettings } from './utils/formatters';
+import { LOCALES, setLocale, t, tn } from './utils/i18n';
+import { parseISODate } from './utils/parsers';
+import { DateBounds, GRANULARITIES, addBuckets, describeDateRange, formatBucketLabel, formatDateBounds, getBucketStart, isWithinBounds, resolveDateRange, toISODate } from './utils/dateRanges';
+import { DEFAULT_FORECAST, SEASON_LENGTHS, forecastSeries } from './utils/forecast';
+import { buildTrend } from './utils/periodComparison';
+import { EMPTY_ANALYTICS_RESULT } from './utils/analytics';
+import { reconcileComparison } from './utils/comparison';
+import { DEFAULT_PIVOT } from './utils/pivot';
+import { buildPeriodFilter, describeFilterValues, matchesFilters, reconcileFilters, toggleFilterValue, togglePeriod } from './utils/filters';
+import { SourceDefinition, buildDefaultView, findViewSources, parseView, serializeView } from './utils/viewState';
+import { describeRecordsDiff } from './utils/dataDiff';
+import { buildChannelLevel, getChannelDescendants, getChannelPath, normalizeChannels } from './utils/channels';
+import { buildAbcClassMap } from './utils/pareto';
+import { upsertCorrection } from './utils/corrections';
+import { TARGET_STATUS_LABELS, buildTargetLine, findCurrentProgress, formatTargetPeriod, isPositiveStatus, selectScopeTargets } from './utils/targets';
 import KPICard from './components/KPICard';
 import InsightCard from './components/InsightCard';
+import ProfitabilityRanking from './components/ProfitabilityRanking';
+import ColumnMappingWizard from './components/ColumnMappingWizard';
+import DataSourceSettings from './components/DataSourceSettings';
+import SheetPicker from './components/SheetPicker';
+import ExportMenu, { ExportFormat } from './components/ExportMenu';
+import DateRangePicker from './components/DateRangePicker';
+import BaselinePicker from './components/BaselinePicker';
+import ForecastControls from './components/ForecastControls';
+import ComparisonSection from './components/ComparisonSection';
+import PivotTable from './components/PivotTable';
+import AlertsPanel from './components/AlertsPanel';
+import AlertRulesEditor from './components/AlertRulesEditor';
+import FilterBar from './components/FilterBar';
+import FilterChips from './components/FilterChips';
+import SavedViewsMenu from './components/SavedViewsMenu';
+import DataStatusBadge from './components/DataStatusBadge';
+import LoadErrorBanner from './components/LoadErrorBanner';
+import AutoRefreshControl from './components/AutoRefreshControl';
+import UpdateToast, { UpdateNotice } from './components/UpdateToast';
+import TargetsPanel from './components/TargetsPanel';
+import InsightsPanel from './components/InsightsPanel';
+import RecordsTable from './components/RecordsTable';
+import TargetsEditor from './components/TargetsEditor';
+import ChannelTaxonomyEditor from './components/ChannelTaxonomyEditor';
+import UploadsMenu from './components/UploadsMenu';
+import SeasonalitySection from './components/SeasonalitySection';
+import ParetoSection from './components/ParetoSection';
+import AbcBadge from './components/AbcBadge';
+import CurrencySettingsEditor from './components/CurrencySettingsEditor';
+import SharedSourcesPrompt from './components/SharedSourcesPrompt';
 
 const COLORS = ['#3b82f6', '#6366f1', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981', '#ef4444'];
+const COMBINED_SOURCES = '__combined__';
+
+interface ImportState {
+  fileName: string;
+  table: CSVTable;
+  mapping: ColumnMapping;
+  options: ParseOptions;
+  profileName?: string;
+  issues?: string[];
+  // Arquivo já carregado que está sendo remapeado
+  uploadId?: string;
+}
+
+interface LoadedUpload extends UploadedDataset {
+  importState: ImportState;
+}
+
+interface TimelineRow {
+  key: string;
+  name: string;
+  value?: number;
+  baseline?: number;
+  baselineName?: string;
+  forecast?: number;
+  forecastRange?: [number, number];
+  anomalies?: number;
+  target?: number;
+}
+
+// Blocos que recebem destaque quando a atualização traz registros visíveis nos filtros atuais
+type HighlightWidget = 'kpis' | 'timeline' | 'channels' | 'products' | 'comparison' | 'pivot' | 'seasonality' | 'pareto';
+
+const HIGHLIGHT_MS = 6000;
+
+const readViewFromUrl = (sources: DataSource[], search: string = window.location.search): DashboardView => {
+  return parseView(search, buildDefaultView(loadActiveSourceIds(sources)), sources);
+};
+
+// Fontes de um link compartilhado aceitas pelo usuário são cadastradas com um nome provisório
+const getSharedSourceName = (definition: SourceDefinition): string => {
+  if (!definition.url) return definition.sheetId || '';
+  try {
+    return new URL(definition.url).hostname;
+  } catch {
+    return definition.url;
+  }
+};
+
+const createSharedSource = (definition: SourceDefinition): DataSource => {
+  return { id: createSourceId(), name: t('sources.shared', { name: getSharedSourceName(definition) }), ...definition };
+};
+
+interface SharedSourcesState {
+  search: string;
+  definitions: SourceDefinition[];
+}
+
+// Fontes que o link pede e este navegador não conhece aguardam confirmação antes de qualquer busca
+const findSharedSources = (sources: DataSource[], search: string = window.location.search): SharedSourcesState | null => {
+  const definitions = findViewSources(search, sources);
+  return definitions.length > 0 ? { search, definitions } : null;
+};
 
 const App: React.FC = () => {
-  const [data, setData] = useState<SaleRecord[]>([]);
+  // Resumo do conjunto montado pelo motor de análise: fontes ao vivo, arquivos, correções, canais e moeda
+  const [dataset, setDataset] = useState<DatasetSummary>(EMPTY_DATASET_SUMMARY);
   const [loading, setLoading] = useState(true);
   const [refreshKey, setRefreshKey] = useState(0);
-  const [isManualUpload, setIsManualUpload] = useState(false);
-  const [fileName, setFileName] = useState<string | null>(null);
+
+  // Uploaded Files
+  const [uploads, setUploads] = useState<LoadedUpload[]>([]);
+  const [includeLive, setIncludeLive] = useState(true);
+  const [dedupKey, setDedupKey] = useState<DedupKey>(loadDedupKey);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  // Dados em exibição vieram do cache local e ainda não foram revalidados com sucesso
+  const [isStale, setIsStale] = useState(false);
+  const [loadErrors, setLoadErrors] = useState<SourceErrorInfo[]>([]);
+
+  // Auto Refresh
+  const [autoRefresh, setAutoRefresh] = useState<number>(loadAutoRefreshInterval);
+  const [updateNotice, setUpdateNotice] = useState<UpdateNotice | null>(null);
+  const [recentChanges, setRecentChanges] = useState<{ id: number; records: SaleRecord[] } | null>(null);
+  const [importProgress, setImportProgress] = useState<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const reportRef = useRef<HTMLDivElement>(null);
+  const recordsRef = useRef<HTMLDivElement>(null);
+
+  // Analytics Engine (Web Worker)
+  const [analytics, setAnalytics] = useState<AnalyticsClient | null>(null);
+  const [analyticsState, setAnalyticsState] = useState<{ query: DashboardQuery; result: DashboardResult } | null>(null);
+
+  // Data Sources
+  const [sources, setSources] = useState<DataSource[]>(loadDataSources);
+  // Estado inicial vindo da URL compartilhada; sem parâmetros, valem os padrões
+  const [initialView] = useState<DashboardView>(() => readViewFromUrl(sources));
+  const [sharedSources, setSharedSources] = useState<SharedSourcesState | null>(() => findSharedSources(sources));
+  const [activeSourceIds, setActiveSourceIds] = useState<string[]>(initialView.sourceIds);
+  const [showSourceSettings, setShowSourceSettings] = useState(false);
+
+  // Column Mapping
+  const [pendingImport, setPendingImport] = useState<ImportState | null>(null);
+  const [pendingWorkbook, setPendingWorkbook] = useState<{ fileName: string; sheets: WorkbookSheet[] } | null>(null);
 
   // Main Filters
-  const [productFilter, setProductFilter] = useState('All');
-  const [monthFilter, setMonthFilter] = useState('All');
+  const [filters, setFilters] = useState<DashboardFilters>(initialView.filters);
+  const [dateRange, setDateRange] = useState<DateRange>(initialView.dateRange);
+  const [granularity, setGranularity] = useState<Granularity>(initialView.granularity);
+
+  // Period Comparison
+  const [baseline, setBaseline] = useState<BaselineConfig>(initialView.baseline);
+  const [showBaselineOverlay, setShowBaselineOverlay] = useState(false);
+  const [forecast, setForecast] = useState<ForecastConfig>(DEFAULT_FORECAST);
+
+  // Alerts
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const [showAlertRules, setShowAlertRules] = useState(false);
+
+  // Channel Taxonomy
+  const [channelTaxonomy, setChannelTaxonomy] = useState<ChannelTaxonomy>(loadChannelTaxonomy);
+  const [showChannelTaxonomy, setShowChannelTaxonomy] = useState(false);
+  // Canal cujo nível abaixo é exibido no gráfico de canais; vazio mostra o primeiro nível
+  const [channelLevel, setChannelLevel] = useState('');
+
+  // Targets
+  const [targets, setTargets] = useState<SalesTarget[]>(loadTargets);
+  const [showTargetsEditor, setShowTargetsEditor] = useState(false);
+
+  // Cortes da curva ABC e dias sem venda da cauda longa
+  const [abcConfig, setAbcConfig] = useState<AbcConfig>(loadAbcConfig);
+
+  // Idioma da interface e moeda de exibição, com a tabela de câmbio
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(loadCurrencySettings);
+  const [showCurrencySettings, setShowCurrencySettings] = useState(false);
+
+  // Correções locais de registros e o agregado cujos registros estão abertos na tabela
+  const [corrections, setCorrections] = useState<RecordCorrection[]>(loadRecordCorrections);
+  const [recordsDrill, setRecordsDrill] = useState<RecordsDrill | null>(null);
 
   // Comparison State
-  const [compareA, setCompareA] = useState<string>('');
-  const [compareB, setCompareB] = useState<string>('');
+  const [comparison, setComparison] = useState<ComparisonSelection>(initialView.comparison);
+  const [pivot, setPivot] = useState<PivotConfig>(DEFAULT_PIVOT);
+
+  // Shared URL & Saved Views
+  const [savedViews, setSavedViews] = useState<SavedView[]>(loadSavedViews);
+  const urlReady = useRef(false);
+  // Ajustes automáticos (itens que sumiram dos dados) substituem a entrada do histórico em vez de criar outra
+  const replaceUrl = useRef(false);
 
+  const activeSources = useMemo(() => {
+    return sources.filter(source => activeSourceIds.includes(source.id));
+  }, [sources, activeSourceIds]);
+
+  useEffect(() => {
+    const client = createAnalyticsClient();
+    setAnalytics(client);
+    return () => client.dispose();
+  }, []);
+
+  // Mensagens de erro e rótulos montados pelo motor seguem o idioma e a moeda da página
   useEffect(() => {
+    analytics?.setFormat({ locale, currency: currencySettings.display });
+  }, [analytics, locale, currencySettings.display]);
+
+  // Exibe a última cópia salva na hora e revalida com a fonte em segundo plano
+  useEffect(() => {
+    if (!analytics) return;
+    let cancelled = false;
     const loadData = async () => {
-      if (!isManualUpload) {
-        setLoading(true);
-        const result = await fetchSalesData();
-        setData(result);
-        if (result.length > 0) {
-          const uniqueProds = Array.from(new Set(result.map(i => i.produto))).filter(Boolean).sort();
-          setCompareA(uniqueProds[0] || '');
-          setCompareB(uniqueProds[1] || uniqueProds[0] || '');
+      setLoading(true);
+      try {
+        const cached = await analytics.loadCachedSources(activeSources);
+        if (cancelled) return;
+        if (cached) {
+          setDataset(cached.dataset);
+          setLastUpdated(cached.fetchedAt);
+          setIsStale(true);
         }
-        setLoading(false);
+        const result = await analytics.fetchSources(activeSources);
+        if (cancelled || !result) return;
+        // A diferença já vem na moeda de exibição e só existe quando as fontes eram as mesmas
+        if (result.diff) {
+          const id = Date.now();
+          setUpdateNotice({ id, ...describeRecordsDiff(result.diff) });
+          setRecentChanges({ id, records: [...result.diff.added, ...result.diff.changed, ...result.diff.removed] });
+        }
+        setDataset(result.dataset);
+        setLastUpdated(result.fetchedAt);
+        setIsStale(result.errors.length > 0);
+        setLoadErrors(result.errors);
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Error loading data:', error);
+        // Falha fora das fontes (worker, cache local): o que estiver em exibição fica, marcado como desatualizado
+        const source = activeSources.map(item => item.name).join(' + ');
+        setLoadErrors([{ sourceName: source, kind: 'malformed', message: t('source.error.read', { source }) }]);
+        setIsStale(true);
+      } finally {
+        if (!cancelled) setLoading(false);
       }
     };
     loadData();
-  }, [refreshKey, isManualUpload]);
+    return () => { cancelled = true; };
+  }, [analytics, refreshKey, activeSources]);
+
+  // Filtros e comparativo ficam no estado e sobrevivem à troca dos dados
+  useEffect(() => {
+    if (autoRefresh <= 0) return;
+    const timer = setInterval(() => {
+      if (!document.hidden) setRefreshKey(prev => prev + 1);
+    }, autoRefresh * 60 * 1000);
+    return () => clearInterval(timer);
+  }, [autoRefresh]);
+
+  useEffect(() => {
+    if (!recentChanges) return;
+    const timeout = setTimeout(() => setRecentChanges(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [recentChanges]);
+
+  // Cada arquivo importado se soma aos dados ao vivo; remapear um arquivo substitui só os registros dele
+  const applyImport = (importState: ImportState) => {
+    if (!analytics) return;
+    const { uploadId } = importState;
+    const id = uploadId || createUploadId();
+    analytics.setUpload(id, importState.table, importState.mapping, importState.options)
+      .then(({ count, dataset: next }) => {
+        if (count === 0) {
+          alert(t('import.invalid'));
+          return;
+        }
+        setDataset(next);
+        setUploads(prev => uploadId
+          ? prev.map(upload => upload.id === uploadId ? { ...upload, count, importState } : upload)
+          : [...prev, { id, fileName: importState.fileName, count, enabled: true, importedAt: new Date().toISOString(), importState }]);
+      })
+      .catch(error => {
+        console.error('Error reading file:', error);
+        alert(t('import.unreadable'));
+      });
+  };
+
+  const processImportTable = (fileName: string, table: CSVTable) => {
+    if (table.rows.length === 0) {
+      alert(t('import.invalid'));
+      return;
+    }
+    // Perfil salvo para o mesmo cabeçalho é aplicado direto; cabeçalho ambíguo abre o mapeamento
+    const profile = findMappingProfile(table.headers);
+    if (profile) {
+      const { name, mapping, dateFormat, decimalSeparator } = profile;
+      // Perfis salvos antes de um campo novo existir não trazem a coluna dele
+      applyImport({ fileName, table, mapping: { ...emptyMapping(), ...mapping }, options: { dateFormat, decimalSeparator }, profileName: name });
+      return;
+    }
+    const detection = detectColumnMapping(table.headers);
+    const importState = { fileName, table, mapping: detection.mapping, options: {}, issues: detection.issues };
+    if (detection.ambiguous) {
+      setPendingImport(importState);
+    } else {
+      applyImport(importState);
+    }
+  };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      setFileName(file.name);
       setLoading(true);
+      const extension = file.name.split('.').pop()?.toLowerCase();
+      const isWorkbook = extension === 'xlsx' || extension === 'xls';
+      if (!isWorkbook && extension !== 'json' && analytics) {
+        // CSV é lido em blocos no worker de análise, sem travar a interface
+        setImportProgress(0);
+        analytics.parseCSVFile(file, setImportProgress)
+          .then(table => processImportTable(file.name, table))
+          .catch(error => {
+            console.error('Error reading file:', error);
+            alert(t('import.unreadable'));
+          })
+          .finally(() => {
+            if (fileInputRef.current) fileInputRef.current.value = '';
+            setImportProgress(null);
+            setLoading(false);
+          });
+        return;
+      }
       const reader = new FileReader();
       reader.onload = (e) => {
-        const text = e.target?.result as string;
-        const parsedData = parseCSV(text);
-        if (parsedData.length > 0) {
-            setData(parsedData);
-            const uniqueProds = Array.from(new Set(parsedData.map(i => i.produto))).filter(Boolean).sort();
-            setCompareA(uniqueProds[0] || '');
-            setCompareB(uniqueProds[1] || uniqueProds[0] || '');
-            setIsManualUpload(true);
-        } else {
-            alert("Não foi possível extrair dados válidos desta planilha. Verifique o formato.");
+        try {
+          if (isWorkbook) {
+            const sheets = readWorkbook(e.target?.result as ArrayBuffer);
+            if (sheets.length === 1) {
+              processImportTable(`${file.name} • ${sheets[0].name}`, sheets[0].table);
+            } else if (sheets.length > 1) {
+              setPendingWorkbook({ fileName: file.name, sheets });
+            } else {
+              alert(t('import.noSheets'));
+            }
+          } else if (extension === 'json') {
+            processImportTable(file.name, jsonToTable(JSON.parse(e.target?.result as string)));
+          } else {
+            processImportTable(file.name, parseCSVTable(e.target?.result as string));
+          }
+        } catch (error) {
+          console.error('Error reading file:', error);
+          alert(t('import.unreadable'));
         }
+        if (fileInputRef.current) fileInputRef.current.value = '';
         setLoading(false);
       };
-      reader.readAsText(file);
+      if (isWorkbook) {
+        reader.readAsArrayBuffer(file);
+      } else {
+        reader.readAsText(file);
+      }
     }
   };
 
-  const resetToLive = () => {
-    setIsManualUpload(false);
-    setFileName(null);
-    if (fileInputRef.current) fileInputRef.current.value = '';
-    setRefreshKey(prev => prev + 1);
+  const handleSelectSheet = (sheet: WorkbookSheet) => {
+    if (!pendingWorkbook) return;
+    processImportTable(`${pendingWorkbook.fileName} • ${sheet.name}`, sheet.table);
+    setPendingWorkbook(null);
+  };
+
+  const handleApplyMapping = (mapping: ColumnMapping, options: ParseOptions, profileName: string | null) => {
+    if (!pendingImport) return;
+    if (profileName) {
+      saveMappingProfile({ name: profileName, signature: getHeaderSignature(pendingImport.table.headers), mapping, ...options });
+    }
+    applyImport({ ...pendingImport, mapping, options, profileName: profileName || undefined, issues: [] });
+    setPendingImport(null);
   };
 
-  const products = useMemo(() => {
-    const unique = Array.from(new Set(data.map(item => item.produto))).filter(Boolean);
-    return ['All', ...unique.sort()];
-  }, [data]);
-
-  const months = useMemo(() => {
-    const unique = Array.from(new Set(data.map(item => {
-      if (!item.data) return '';
-      const d = new Date(item.data);
-      if (isNaN(d.getTime())) return '';
-      return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
-    }))).filter(Boolean);
-    return ['All', ...unique.sort().reverse()];
-  }, [data]);
-
-  const filteredData = useMemo(() => {
-    return data.filter(item => {
-      const matchesProduct = productFilter === 'All' || item.produto === productFilter;
-      if (!item.data) return matchesProduct;
-      const d = new Date(item.data);
-      const monthStr = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
-      const matchesMonth = monthFilter === 'All' || monthStr === monthFilter;
-      return matchesProduct && matchesMonth;
+  const handleSourceChange = (value: string) => {
+    if (value === COMBINED_SOURCES) return;
+    setActiveSourceIds(saveActiveSourceIds([value]));
+  };
+
+  const handleSaveAlertRules = (rules: AlertRule[]) => {
+    setAlertRules(saveAlertRules(rules));
+    setShowAlertRules(false);
+  };
+
+  const handleSaveChannelTaxonomy = (taxonomy: ChannelTaxonomy) => {
+    setChannelTaxonomy(saveChannelTaxonomy(taxonomy));
+    setShowChannelTaxonomy(false);
+  };
+
+  // Idioma e moeda da página mudam antes da nova renderização, que já formata tudo com eles
+  const handleLocaleChange = (value: Locale) => {
+    setLocale(value);
+    setFormatSettings({ locale: value, currency: currencySettings.display });
+    setLocaleState(saveLocale(value));
+  };
+
+  const handleSaveCurrencySettings = (settings: CurrencySettings) => {
+    setFormatSettings({ locale, currency: settings.display });
+    setCurrencySettings(saveCurrencySettings(settings));
+    setShowCurrencySettings(false);
+  };
+
+  const handleSaveTargets = (nextTargets: SalesTarget[]) => {
+    setTargets(saveTargets(nextTargets));
+    setShowTargetsEditor(false);
+  };
+
+  const handleSaveSources = (nextSources: DataSource[], nextActiveIds: string[]) => {
+    setSources(saveDataSources(nextSources));
+    setActiveSourceIds(saveActiveSourceIds(nextActiveIds));
+    setShowSourceSettings(false);
+  };
+
+  const handleToggleUpload = (id: string) => {
+    setUploads(prev => prev.map(upload => upload.id === id ? { ...upload, enabled: !upload.enabled } : upload));
+  };
+
+  const handleRemapUpload = (id: string) => {
+    const upload = uploads.find(item => item.id === id);
+    if (upload) setPendingImport({ ...upload.importState, uploadId: id, issues: [] });
+  };
+
+  const handleRemoveUpload = (id: string) => {
+    analytics?.removeUploads([id]);
+    setUploads(prev => prev.filter(upload => upload.id !== id));
+  };
+
+  // Sem arquivos, a fonte ao vivo volta a ser exibida mesmo que tenha sido desmarcada
+  const handleRemoveAllUploads = () => {
+    analytics?.removeUploads(uploads.map(upload => upload.id));
+    setUploads([]);
+    setIncludeLive(true);
+  };
+
+  const handleDedupKeyChange = (key: DedupKey) => setDedupKey(saveDedupKey(key));
+
+  const liveLabel = activeSources.map(source => source.name).join(' + ');
+
+  // O motor remonta o conjunto (mescla, correções, regras de canal e conversão) a cada mudança
+  useEffect(() => {
+    if (!analytics) return;
+    let cancelled = false;
+    analytics.configure({
+      includeLive,
+      liveLabel,
+      uploads: uploads.map(upload => ({ id: upload.id, label: upload.fileName, enabled: upload.enabled })),
+      dedupKey,
+      corrections,
+      channelRules: channelTaxonomy.rules,
+      currency: currencySettings,
+    }).then(next => {
+      if (!cancelled) setDataset(next);
+    }).catch(error => console.error('Error building dataset:', error));
+    return () => { cancelled = true; };
+  }, [analytics, includeLive, liveLabel, uploads, dedupKey, corrections, channelTaxonomy.rules, currencySettings]);
+
+  const datasetLabel = [
+    ...(includeLive || uploads.length === 0 ? [liveLabel] : []),
+    ...uploads.filter(upload => upload.enabled).map(upload => t('sources.local', { name: upload.fileName })),
+  ].join(' + ');
+
+  // Moedas sem taxa seguem sem conversão e geram aviso
+  const missingRates = Object.keys(dataset.missing);
+  const { products, channels, months } = dataset;
+
+  // Valores que não existem mais nos dados saem dos filtros; sem dados ainda, os da URL são mantidos
+  useEffect(() => {
+    if (products.length === 0 && channels.length === 0) return;
+    setFilters(prev => {
+      const next = reconcileFilters(prev, products, channels);
+      if (next !== prev) replaceUrl.current = true;
+      return next;
     });
-  }, [data, productFilter, monthFilter]);
-
-  const comparisonStats = useMemo(() => {
-    const getStatsForProduct = (prodName: string) => {
-      const prodData = data.filter(item => {
-        const matchesProduct = item.produto === prodName;
-        if (!item.data) return matchesProduct;
-        const d = new Date(item.data);
-        const monthStr = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
-        const matchesMonth = monthFilter === 'All' || monthStr === monthFilter;
-        return matchesProduct && matchesMonth;
-      });
+  }, [products, channels]);
 
-      const revenue = prodData.reduce((acc, curr) => acc + curr.receita, 0);
-      const sales = prodData.reduce((acc, curr) => acc + curr.quantidade_vendida, 0);
-      return { revenue, sales, ticket: sales > 0 ? revenue / sales : 0 };
-    };
+  // Com filtro numa dimensão, o comparativo dela fica restrito aos valores filtrados
+  const comparisonOptions = useMemo(() => ({
+    produto: filters.products.length > 0 ? products.filter(p => filters.products.includes(p)) : products,
+    origem: filters.channels.length > 0 ? channels.filter(c => filters.channels.includes(c)) : channels
+  }), [products, channels, filters.products, filters.channels]);
 
-    return {
-      productA: getStatsForProduct(compareA),
-      productB: getStatsForProduct(compareB)
+  // A cada nova carga o comparativo mantém os itens que ainda existem nos dados
+  useEffect(() => {
+    if (comparisonOptions.produto.length === 0 && comparisonOptions.origem.length === 0) return;
+    setComparison(prev => {
+      const next = reconcileComparison(prev, comparisonOptions[prev.dimension]);
+      if (next !== prev) replaceUrl.current = true;
+      return next;
+    });
+  }, [comparisonOptions]);
+
+  const dateBounds = useMemo(() => resolveDateRange(dateRange), [dateRange]);
+
+  const currentView = useMemo<DashboardView>(() => ({
+    sourceIds: activeSourceIds,
+    filters,
+    dateRange,
+    baseline,
+    granularity,
+    comparison
+  }), [activeSourceIds, filters, dateRange, baseline, granularity, comparison]);
+
+  const viewQuery = useMemo(() => serializeView(currentView, sources), [currentView, sources]);
+
+  // Cada mudança de visão vira uma entrada no histórico, permitindo voltar e avançar
+  useEffect(() => {
+    const search = viewQuery ? `?${viewQuery}` : '';
+    const replace = !urlReady.current || replaceUrl.current;
+    urlReady.current = true;
+    replaceUrl.current = false;
+    if (window.location.search === search) return;
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (replace) window.history.replaceState(null, '', url);
+    else window.history.pushState(null, '', url);
+  }, [viewQuery]);
+
+  const applyView = (view: DashboardView) => {
+    // Mesma lista de fontes mantém a referência para não recarregar os dados
+    setActiveSourceIds(prev => prev.join('\n') === view.sourceIds.join('\n') ? prev : view.sourceIds);
+    setFilters(view.filters);
+    setDateRange(view.dateRange);
+    setBaseline(view.baseline);
+    setGranularity(view.granularity);
+    setComparison(view.comparison);
+  };
+
+  const applyViewQuery = (search: string) => {
+    applyView(readViewFromUrl(sources, search));
+    setSharedSources(findSharedSources(sources, search));
+  };
+
+  // Aceitas, as fontes do link entram no cadastro e a visão é reaplicada já com elas
+  const handleAcceptSharedSources = () => {
+    if (!sharedSources) return;
+    const nextSources = saveDataSources([...sources, ...sharedSources.definitions.map(createSharedSource)]);
+    setSources(nextSources);
+    applyView(readViewFromUrl(nextSources, sharedSources.search));
+    setSharedSources(null);
+  };
+
+  useEffect(() => {
+    const handlePopState = () => applyViewQuery(window.location.search);
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [sources]);
+
+  const handleApplySavedView = (view: SavedView) => applyViewQuery(view.query);
+  const handleSaveView = (name: string) => setSavedViews(saveSavedViews(upsertSavedView(savedViews, name, viewQuery)));
+  const handleDeleteView = (id: string) => setSavedViews(saveSavedViews(savedViews.filter(view => view.id !== id)));
+
+  const highlighted = useMemo(() => {
+    const widgets = new Set<HighlightWidget>();
+    const records = recentChanges ? normalizeChannels(recentChanges.records, channelTaxonomy.rules) : [];
+    const visible = records.filter(item => matchesFilters(item, filters, dateBounds));
+    if (visible.length === 0) return widgets;
+    (['kpis', 'timeline', 'channels', 'products', 'pivot', 'seasonality', 'pareto'] as HighlightWidget[]).forEach(widget => widgets.add(widget));
+    const touchesComparison = visible.some(item => comparison.items.includes(comparison.dimension === 'produto' ? item.produto : (item.origem || '').trim()));
+    if (touchesComparison) widgets.add('comparison');
+    return widgets;
+  }, [recentChanges, channelTaxonomy.rules, filters, dateBounds, comparison]);
+
+  const highlightClass = (widget: HighlightWidget) => {
+    return `transition-shadow duration-700 ${highlighted.has(widget) ? 'ring-4 ring-emerald-200 ring-offset-4 rounded-3xl' : ''}`;
+  };
+
+  const handleAutoRefreshChange = (minutes: number) => setAutoRefresh(saveAutoRefreshInterval(minutes));
+
+  const result = analyticsState?.result || EMPTY_ANALYTICS_RESULT;
+  const resultGranularity = analyticsState?.query.granularity || granularity;
+  const recordsCount = result.rows.length;
+
+  // Registros ficam no motor: a tabela e a exportação pedem páginas no recorte da consulta exibida
+  const fetchRecords = useCallback((request: RecordsPageRequest): Promise<RecordsPage> => {
+    if (!analytics || !analyticsState) return Promise.resolve(EMPTY_RECORDS_PAGE);
+    const { filters: queryFilters, bounds } = analyticsState.query;
+    return analytics.records({ ...request, filters: queryFilters, bounds });
+  }, [analytics, analyticsState]);
+
+  const { stats, baselineBounds, anomalies, ruleAlerts } = result;
+
+  const visibleAnomalies = useMemo(() => {
+    const matches = (values: string[], dimension: string, anomaly: { dimension: string; name: string }) => {
+      return values.length === 0 || (anomaly.dimension === dimension && values.includes(anomaly.name));
     };
-  }, [data, monthFilter, compareA, compareB]);
-
-  const stats = useMemo(() => {
-    const totals = filteredData.reduce((acc, curr) => {
-      acc.totalSales += curr.quantidade_vendida;
-      acc.totalRevenue += curr.receita;
-      return acc;
-    }, { totalSales: 0, totalRevenue: 0 });
-
-    const averageTicket = totals.totalSales > 0 ? totals.totalRevenue / totals.totalSales : 0;
-
-    const byMonth: Record<string, { value: number, count: number }> = {};
-    const byProduct: Record<string, number> = {};
-    const byProductQty: Record<string, number> = {};
-    const bySource: Record<string, number> = {};
-
-    filteredData.forEach(item => {
-      const monthKey = getMonthName(item.data);
-      byMonth[monthKey] = {
-        value: (byMonth[monthKey]?.value || 0) + item.receita,
-        count: (byMonth[monthKey]?.count || 0) + item.quantidade_vendida
-      };
-      if (item.produto) {
-        byProduct[item.produto] = (byProduct[item.produto] || 0) + item.receita;
-        byProductQty[item.produto] = (byProductQty[item.produto] || 0) + item.quantidade_vendida;
-      }
-      if (item.origem) bySource[item.origem] = (bySource[item.origem] || 0) + item.receita;
+    // Anomalias semanais aparecem quando a semana toca o período filtrado
+    const touches = (anomaly: { date: string; end: string }, bounds: DateBounds) => {
+      return isWithinBounds(anomaly.date, bounds) || isWithinBounds(anomaly.end, bounds) || isWithinBounds(bounds.start, { start: anomaly.date, end: anomaly.end });
+    };
+    return anomalies.filter(anomaly => {
+      const matchesPeriod = filters.periods.length === 0 || filters.periods.some(period => touches(anomaly, period));
+      return matches(filters.products, 'produto', anomaly) && matches(filters.channels, 'origem', anomaly) && matchesPeriod && touches(anomaly, dateBounds);
     });
+  }, [anomalies, filters, dateBounds]);
 
-    const sortedByVal = (obj: any) => Object.entries(obj).sort((a: any, b: any) => (b[1].value || b[1]) - (a[1].value || a[1]))[0];
-    const sortedByQty = (obj: any) => Object.entries(obj).sort((a: any, b: any) => (b[1]) - (a[1]))[0];
-    
-    const bestMonthEntry = sortedByVal(byMonth);
-    const bestProductEntry = sortedByVal(byProduct);
-    const bestProductQtyEntry = sortedByQty(byProductQty);
-    const bestSourceEntry = sortedByVal(bySource);
+  const productClasses = useMemo(() => buildAbcClassMap(result.pareto.produto), [result.pareto.produto]);
 
-    const topProductShare = bestProductEntry ? (bestProductEntry[1] as number / (totals.totalRevenue || 1)) * 100 : 0;
+  // Metas do recorte atual (geral, ou do único produto ou canal filtrado)
+  const scopeTargets = useMemo(() => selectScopeTargets(result.targets.progress, filters), [result.targets.progress, filters]);
 
+  const targetProgressBar = (metric: TargetMetric) => {
+    const item = findCurrentProgress(scopeTargets, metric, result.targets.anchor);
+    if (!item) return undefined;
     return {
-      ...totals,
-      averageTicket,
-      topProductShare,
-      bestMonth: bestMonthEntry ? { month: bestMonthEntry[0], value: (bestMonthEntry[1] as any).value, count: (bestMonthEntry[1] as any).count } : { month: 'N/A', value: 0, count: 0 },
-      bestProduct: bestProductEntry ? { name: bestProductEntry[0], value: bestProductEntry[1] as number } : { name: 'N/A', value: 0 },
-      bestProductQty: bestProductQtyEntry ? { name: bestProductQtyEntry[0], count: bestProductQtyEntry[1] } : { name: 'N/A', count: 0 },
-      bestSource: bestSourceEntry ? { name: bestSourceEntry[0], value: bestSourceEntry[1] as number } : { name: 'N/A', value: 0 },
+      percent: item.percent,
+      positive: isPositiveStatus(item.status),
+      label: metric === 'cac'
+        ? t('kpi.targetLimit', { period: formatTargetPeriod(item.target), percent: formatPercent(item.percent), status: t(TARGET_STATUS_LABELS[item.status]) })
+        : t('kpi.targetProgress', { period: formatTargetPeriod(item.target), percent: formatPercent(item.percent), expected: formatPercent(item.expectedPercent), status: t(TARGET_STATUS_LABELS[item.status]) }),
     };
-  }, [filteredData]);
+  };
 
   const timelineData = useMemo(() => {
-    const grouped: Record<string, number> = {};
-    filteredData.forEach(item => {
-      const d = new Date(item.data);
-      if (isNaN(d.getTime())) return;
-      const label = d.toLocaleDateString('pt-BR', { month: 'short' });
-      grouped[label] = (grouped[label] || 0) + item.receita;
+    const current = result.timeline;
+    const anomalyCounts: Record<string, number> = {};
+    visibleAnomalies.forEach(anomaly => {
+      // Na visão diária, as semanas viram faixas no gráfico em vez de um ponto
+      if (anomaly.period === 'week' && resultGranularity === 'day') return;
+      const date = parseISODate(anomaly.date);
+      if (!date) return;
+      const key = toISODate(getBucketStart(date, resultGranularity));
+      anomalyCounts[key] = (anomalyCounts[key] || 0) + 1;
     });
-    return Object.entries(grouped).map(([name, value]) => ({ name, value }));
-  }, [filteredData]);
+    let rows: TimelineRow[] = current.map(point => anomalyCounts[point.key] ? { ...point, anomalies: anomalyCounts[point.key] } : point);
 
-  const sourceData = useMemo(() => {
-    const grouped: Record<string, { revenue: number, sales: number }> = {};
-    filteredData.forEach(item => {
-      const label = (item.origem || 'Desconhecido').trim();
-      if (!grouped[label]) {
-        grouped[label] = { revenue: 0, sales: 0 };
+    if (baselineBounds && showBaselineOverlay) {
+      // A série base é alinhada por posição: o 1º período atual contra o 1º período da base
+      const previous = result.baselineTimeline;
+      const length = Math.max(current.length, previous.length);
+      rows = Array.from({ length }, (_, index) => ({
+        key: current[index]?.key || previous[index].key,
+        name: current[index]?.name || '',
+        value: current[index]?.value,
+        anomalies: current[index] ? anomalyCounts[current[index].key] : undefined,
+        baseline: previous[index]?.value,
+        baselineName: previous[index]?.name
+      }));
+    }
+
+    if (forecast.enabled && current.length >= 2) {
+      const projection = forecastSeries(current.map(point => point.value), forecast, SEASON_LENGTHS[resultGranularity]);
+      const last = current[current.length - 1];
+      const lastStart = parseISODate(last.key);
+      if (lastStart && projection.length > 0) {
+        // O último ponto real também recebe a previsão para a linha tracejada partir dele
+        rows = rows.map(row => row.key === last.key ? { ...row, forecast: last.value, forecastRange: [last.value, last.value] } : row);
+        projection.forEach((point, index) => {
+          const bucket = addBuckets(lastStart, resultGranularity, index + 1);
+          rows.push({
+            key: toISODate(bucket),
+            name: formatBucketLabel(bucket, resultGranularity),
+            forecast: point.value,
+            forecastRange: [point.lower, point.upper]
+          });
+        });
       }
-      grouped[label].revenue += item.receita;
-      grouped[label].sales += item.quantidade_vendida;
+    }
+
+    const targetLine = buildTargetLine(scopeTargets.map(item => item.target), rows.map(row => row.key), resultGranularity);
+    if (Object.keys(targetLine).length > 0) {
+      rows = rows.map(row => targetLine[row.key] !== undefined ? { ...row, target: targetLine[row.key] } : row);
+    }
+    return rows;
+  }, [result, resultGranularity, baselineBounds, showBaselineOverlay, forecast, visibleAnomalies, scopeTargets, locale]);
+
+  const hasTargetLine = timelineData.some(row => row.target !== undefined);
+
+  // Semanas anômalas na visão diária, do primeiro ao último dia exibido de cada uma
+  const anomalyWeeks = useMemo(() => {
+    if (resultGranularity !== 'day') return [];
+    const spans = new Map<string, { key: string; x1: string; x2: string }>();
+    visibleAnomalies.forEach(anomaly => {
+      if (anomaly.period !== 'week' || spans.has(anomaly.date)) return;
+      const days = timelineData.filter(row => row.value !== undefined && row.key >= anomaly.date && row.key <= anomaly.end);
+      if (days.length > 0) spans.set(anomaly.date, { key: anomaly.date, x1: days[0].name, x2: days[days.length - 1].name });
     });
-    return Object.entries(grouped)
-      .map(([name, data]) => ({ 
-        name, 
-        value: data.revenue, 
-        sales: data.sales 
+    return Array.from(spans.values());
+  }, [visibleAnomalies, timelineData, resultGranularity]);
+
+  const periodProjection = analyticsState?.result.projection || null;
+
+  const { profitability, baselineProfitability } = result;
+
+  const trends = useMemo(() => {
+    const base = baselineProfitability;
+    const ticket = (row: { revenue: number; sales: number }) => row.sales > 0 ? row.revenue / row.sales : 0;
+    return {
+      sales: buildTrend(profitability.sales, base?.sales),
+      revenue: buildTrend(profitability.revenue, base?.revenue),
+      ticket: buildTrend(ticket(profitability), base ? ticket(base) : undefined),
+      cost: buildTrend(profitability.cost, base?.cost, false),
+      cac: buildTrend(profitability.cac, base?.cac, false),
+      roas: buildTrend(profitability.roas, base?.roas),
+      profit: buildTrend(profitability.profit, base?.profit),
+    };
+  }, [profitability, baselineProfitability]);
+
+  const trendTitle = baselineBounds
+    ? t('kpi.trendVs', { baseline: t(`baseline.${baseline.mode as BaselineMode}`), bounds: formatDateBounds(baselineBounds) })
+    : undefined;
+
+  const { channels: channelProfitability, products: productProfitability } = result;
+
+  const activeChannelLevel = channelTaxonomy.nodes.some(node => node.name === channelLevel) ? channelLevel : '';
+  const channelPath = activeChannelLevel ? getChannelPath(channelTaxonomy.nodes, activeChannelLevel) : [];
+
+  const sourceData = useMemo(() => {
+    return buildChannelLevel(channelProfitability, channelTaxonomy.nodes, activeChannelLevel)
+      .map(row => ({ 
+        name: row.name, 
+        value: row.revenue, 
+        sales: row.sales,
+        cost: row.cost,
+        cac: row.cac,
+        roas: row.roas,
+        profit: row.profit,
+        margin: row.margin,
+        drillable: row.drillable
       }))
-      .sort((a, b) => b.value - a.value)
       .slice(0, 10);
-  }, [filteredData]);
+  }, [channelProfitability, channelTaxonomy.nodes, activeChannelLevel]);
 
   const productChartData = useMemo(() => {
-    const grouped: Record<string, number> = {};
-    filteredData.forEach(item => {
-      const label = (item.produto || 'Produto Indefinido').trim();
-      grouped[label] = (grouped[label] || 0) + item.receita;
-    });
-    return Object.entries(grouped)
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value);
-  }, [filteredData]);
+    return productProfitability.map(row => ({ name: row.name, value: row.revenue }));
+  }, [productProfitability]);
 
   const handleRefresh = () => setRefreshKey(prev => prev + 1);
 
-  if (loading && data.length === 0) {
+  const openRecords = (drill: RecordsDrill) => {
+    setRecordsDrill(drill);
+    recordsRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+  const openKpiRecords = (label: string, key: EditableField) => {
+    openRecords({ label, products: [], channels: [], period: null, sort: { key, desc: true } });
+  };
+  // Canais incluem os subníveis da hierarquia, como na barra consolidada
+  const openDimensionRecords = (dimension: ComparisonDimension, name: string) => {
+    const isChannel = dimension === 'origem';
+    openRecords({
+      label: `${t(isChannel ? 'filters.channel' : 'filters.product')}: ${name}`,
+      products: isChannel ? [] : [name],
+      channels: isChannel ? [name, ...getChannelDescendants(channelTaxonomy.nodes, name)] : [],
+      period: null,
+    });
+  };
+
+  // Cliques nos gráficos acrescentam (ou removem) o valor dos filtros; com Shift abrem os registros
+  // Canais com subníveis abrem o nível abaixo em vez de filtrar
+  const handleChannelClick = (entry: any, _index?: number, event?: { shiftKey?: boolean }) => {
+    if (event?.shiftKey && entry?.name) openDimensionRecords('origem', entry.name);
+    else if (entry?.drillable) setChannelLevel(entry.name);
+    else setFilters(prev => toggleFilterValue(prev, 'channels', entry?.name));
+  };
+  const handleProductClick = (entry: any, _index?: number, event?: { shiftKey?: boolean }) => {
+    if (event?.shiftKey && entry?.name) openDimensionRecords('produto', entry.name);
+    else setFilters(prev => toggleFilterValue(prev, 'products', entry?.name));
+  };
+  const handleParetoSelect = (dimension: ComparisonDimension, name: string) => {
+    setFilters(prev => toggleFilterValue(prev, dimension === 'produto' ? 'products' : 'channels', name));
+  };
+
+  const handleTimelineClick = (state: any, event?: { shiftKey?: boolean }) => {
+    const row = state?.activePayload?.[0]?.payload as TimelineRow | undefined;
+    // Pontos só de previsão não têm registros para filtrar
+    if (!row || row.value === undefined) return;
+    const period = buildPeriodFilter(row.key, resultGranularity);
+    if (!period) return;
+    if (event?.shiftKey) openRecords({ label: `${t('filters.period')}: ${period.label}`, products: [], channels: [], period });
+    else setFilters(prev => togglePeriod(prev, period));
+  };
+
+  const handleCorrectRecord = (source: SaleRecord, update: { excluded?: boolean; values?: RecordValues }) => {
+    setCorrections(saveRecordCorrections(upsertCorrection(corrections, source, update)));
+  };
+  const handleRevertCorrection = (key: string) => {
+    setCorrections(saveRecordCorrections(corrections.filter(correction => correction.key !== key)));
+  };
+  const handleRevertAllCorrections = () => setCorrections(saveRecordCorrections([]));
+  const handleExportCorrections = () => exportCSV([buildCorrectionsSheet(corrections)], buildExportFileName('correcoes', 'csv'));
+
+  const activeFilters = [
+    { label: t('filters.source'), value: datasetLabel },
+    { label: t('filters.product'), value: describeFilterValues(filters.products, t('filters.allProducts')) },
+    { label: t('filters.channel'), value: describeFilterValues(filters.channels, t('filters.allChannels')) },
+    { label: t('filters.period'), value: describeDateRange(dateRange) },
+    ...(filters.periods.length > 0 ? [{ label: t('filters.periods'), value: describeFilterValues(filters.periods.map(period => period.label), '') }] : []),
+  ];
+
+  const filtersSummary = activeFilters.map(filter => `${filter.label}: ${filter.value}`).join(' • ');
+
+  // Idioma e moeda entram nas dependências porque mudam os rótulos gerados pelo motor
+  useEffect(() => {
+    if (!analytics) return;
+    let cancelled = false;
+    const query: DashboardQuery = {
+      filters,
+      bounds: dateBounds,
+      baseline,
+      granularity,
+      comparison: { dimension: comparison.dimension, items: comparison.items },
+      pivot: { rows: pivot.rows, columns: pivot.columns },
+      alertRules,
+      targets,
+      abc: abcConfig,
+      forecast,
+      scope: filtersSummary,
+      locale,
+      currency: currencySettings.display
+    };
+    analytics.query(query).then(result => {
+      if (result && !cancelled) setAnalyticsState({ query, result });
+    }).catch(error => console.error('Error running analytics:', error));
+    return () => { cancelled = true; };
+  }, [analytics, dataset.revision, filters, dateBounds, baseline, granularity, comparison.dimension, comparison.items, pivot.rows, pivot.columns, alertRules, targets, abcConfig, forecast, filtersSummary, locale, currencySettings.display]);
+
+  const insightsContext = analyticsState?.result.insights || null;
+
+  // Rótulos dos provedores vêm do catálogo do idioma atual
+  const insightProviders = useMemo(() => getInsightProviders(), [locale]);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (format === 'png' || format === 'pdf') {
+      if (reportRef.current) await exportReport(reportRef.current, format, buildExportFileName('relatorio', format));
+      return;
+    }
+    const { records } = await fetchRecords({ drill: null, search: '', offset: 0 });
+    const recordsSheet = buildRecordsSheet(records);
+    const aggregateSheets = buildAggregateSheets({
+      filters: activeFilters,
+      records,
+      stats,
+      profitability,
+      channels: channelProfitability,
+      products: productChartData,
+      comparison: result.comparison.items
+    });
+    if (format === 'records-csv') exportCSV([recordsSheet], buildExportFileName('registros', 'csv'));
+    if (format === 'aggregates-csv') exportCSV(aggregateSheets, buildExportFileName('indicadores', 'csv'));
+    if (format === 'xlsx') {
+      const correctionSheets = corrections.length > 0 ? [buildCorrectionsSheet(corrections)] : [];
+      exportXLSX([recordsSheet, ...aggregateSheets, ...correctionSheets], buildExportFileName('dashboard', 'xlsx'));
+    }
+  };
+
+  // Com fontes de um link aguardando confirmação, o painel vazio fica atrás da pergunta
+  if (loading && dataset.count === 0 && !sharedSources) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen bg-white">
         <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
-        <p className="mt-4 text-slate-500 font-medium animate-pulse">Carregando Dashboard...</p>
+        <p className="mt-4 text-slate-500 font-medium animate-pulse">
+          {importProgress !== null ? t('import.reading', { percent: Math.round(importProgress * 100) }) : t('app.loading')}
+        </p>
       </div>
     );
   }
@@ -246,259 +915,459 @@ const App: React.FC = () => {
     <div className="max-w-7xl mx-auto px-4 py-8 md:px-8">
       <header className="flex flex-col md:flex-row md:items-center justify-between mb-8 gap-4">
         <div>
-          <h1 className="text-3xl font-extrabold text-slate-900 tracking-tight">Dashboard de Performance</h1>
-          <p className="text-slate-500 font-medium">Gestão baseada em dados reais</p>
+          <h1 className="text-3xl font-extrabold text-slate-900 tracking-tight">{t('app.title')}</h1>
+          <div className="flex flex-wrap items-center gap-3">
+            <p className="text-slate-500 font-medium">{t('app.subtitle')}</p>
+            {(includeLive || uploads.length === 0) && <DataStatusBadge fetchedAt={lastUpdated} stale={isStale} refreshing={loading} />}
+          </div>
         </div>
         
         <div className="flex flex-wrap items-center gap-3">
+          <div className={`flex items-center gap-2 bg-white pl-3 pr-1 py-1 rounded-xl border border-slate-200 shadow-sm focus-within:ring-2 focus-within:ring-blue-500 transition-all ${includeLive || uploads.length === 0 ? '' : 'opacity-60'}`}>
+            <Database size={18} className="text-blue-500" />
+            <select
+              value={activeSourceIds.length > 1 ? COMBINED_SOURCES : activeSourceIds[0]}
+              onChange={(e) => handleSourceChange(e.target.value)}
+              className="bg-transparent border-none text-sm font-semibold text-slate-700 outline-none pr-2 max-w-[180px]"
+            >
+              {activeSourceIds.length > 1 && <option value={COMBINED_SOURCES}>{t('sources.combined', { count: activeSourceIds.length })}</option>}
+              {sources.map(source => <option key={source.id} value={source.id}>{source.name}</option>)}
+            </select>
+            <button onClick={() => setShowSourceSettings(true)} title={t('sources.manage')} className="p-1.5 rounded-lg text-slate-400 hover:text-blue-500 hover:bg-blue-50"><Settings size={16} /></button>
+          </div>
           <div className="relative">
-            <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept=".csv" className="hidden" id="csv-upload" />
-            {isManualUpload ? (
-              <div className="flex items-center gap-2 bg-blue-50 border border-blue-100 px-4 py-2 rounded-xl">
-                <FileSpreadsheet size={18} className="text-blue-600" />
-                <span className="text-sm font-semibold text-blue-700 max-w-[120px] truncate">{fileName}</span>
-                <button onClick={resetToLive} className="ml-1 p-0.5 hover:bg-blue-100 rounded-full text-blue-600"><X size={14} /></button>
-              </div>
-            ) : (
-              <label htmlFor="csv-upload" className="flex items-center gap-2 bg-white px-4 py-2 rounded-xl border border-dashed border-slate-300 shadow-sm hover:border-blue-400 hover:bg-blue-50 cursor-pointer transition-all group">
-                <Upload size={18} className="text-slate-400 group-hover:text-blue-500" />
-                <span className="text-sm font-semibold text-slate-600 group-hover:text-blue-600">Importar CSV</span>
-              </label>
-            )}
+            <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept=".csv,.txt,.xlsx,.xls,.json" className="hidden" id="csv-upload" />
+            <label htmlFor="csv-upload" className="flex items-center gap-2 bg-white px-4 py-2 rounded-xl border border-dashed border-slate-300 shadow-sm hover:border-blue-400 hover:bg-blue-50 cursor-pointer transition-all group">
+              <Upload size={18} className={`text-slate-400 group-hover:text-blue-500 ${importProgress !== null ? 'animate-bounce' : ''}`} />
+              <span className="text-sm font-semibold text-slate-600 group-hover:text-blue-600">
+                {importProgress !== null ? t('import.reading', { percent: Math.round(importProgress * 100) }) : uploads.length > 0 ? t('import.add') : t('import.start')}
+              </span>
+            </label>
           </div>
-          <button onClick={handleRefresh} disabled={isManualUpload} className={`p-2.5 rounded-xl bg-white border border-slate-200 shadow-sm transition-all ${isManualUpload ? 'opacity-30 cursor-not-allowed' : 'text-slate-400 hover:text-blue-500 hover:border-blue-200'}`}>
+          {uploads.length > 0 && (
+            <UploadsMenu
+              liveLabel={liveLabel}
+              liveCount={dataset.liveCount}
+              includeLive={includeLive}
+              uploads={uploads}
+              stats={dataset.mergeStats}
+              dedupKey={dedupKey}
+              onToggleLive={() => setIncludeLive(prev => !prev)}
+              onToggleUpload={handleToggleUpload}
+              onRemapUpload={handleRemapUpload}
+              onRemoveUpload={handleRemoveUpload}
+              onRemoveAll={handleRemoveAllUploads}
+              onDedupKeyChange={handleDedupKeyChange}
+            />
+          )}
+          <SavedViewsMenu views={savedViews} currentQuery={viewQuery} onApply={handleApplySavedView} onSave={handleSaveView} onDelete={handleDeleteView} />
+          <ExportMenu onExport={handleExport} disabled={recordsCount === 0} />
+          <AutoRefreshControl minutes={autoRefresh} onChange={handleAutoRefreshChange} />
+          <div className="flex items-center gap-2 bg-white pl-3 pr-1 py-1 rounded-xl border border-slate-200 shadow-sm" title={t('display.language')}>
+            <Languages size={18} className="text-blue-500" />
+            <select
+              value={locale}
+              onChange={(e) => handleLocaleChange(e.target.value as Locale)}
+              className="bg-transparent border-none text-sm font-semibold text-slate-700 outline-none pr-2"
+            >
+              {LOCALES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </div>
+          <button
+            onClick={() => setShowCurrencySettings(true)}
+            title={missingRates.length > 0 ? t('display.missing', { codes: missingRates.join(', ') }) : t('display.title')}
+            className={`flex items-center gap-2 px-3 py-2 rounded-xl border shadow-sm text-sm font-semibold transition-all ${missingRates.length > 0 ? 'bg-amber-50 border-amber-200 text-amber-700' : 'bg-white border-slate-200 text-slate-600 hover:border-blue-200 hover:text-blue-600'}`}
+          >
+            <Coins size={18} className={missingRates.length > 0 ? 'text-amber-500' : 'text-blue-500'} />
+            {currencySettings.display}
+          </button>
+          <button onClick={handleRefresh} className="p-2.5 rounded-xl bg-white border border-slate-200 shadow-sm transition-all text-slate-400 hover:text-blue-500 hover:border-blue-200">
             <RefreshCcw size={20} className={loading ? 'animate-spin' : ''} />
           </button>
         </div>
       </header>
 
+      {(includeLive || uploads.length === 0) && (
+        <LoadErrorBanner errors={loadErrors} hasFallback={dataset.count > 0} retrying={loading} onRetry={handleRefresh} />
+      )}
+
       {/* Seção de Filtros */}
       <div className="flex flex-wrap items-center gap-3 mb-8 bg-slate-50 p-4 rounded-2xl border border-slate-100">
-        <div className="flex items-center gap-2 bg-white px-3 py-2 rounded-xl border border-slate-200 shadow-sm focus-within:ring-2 focus-within:ring-blue-500 transition-all">
-          <BookOpen size={18} className="text-blue-500" />
-          <select value={productFilter} onChange={(e) => setProductFilter(e.target.value)} className="bg-transparent border-none text-sm font-semibold text-slate-700 outline-none pr-4">
-            {products.map(p => <option key={p} value={p}>{p === 'All' ? 'Todos os Produtos' : p}</option>)}
-          </select>
+        <FilterBar filters={filters} products={products} channels={channels} months={months} onChange={setFilters} />
+        <DateRangePicker range={dateRange} months={months} onChange={setDateRange} />
+        <BaselinePicker baseline={baseline} onChange={setBaseline} />
+        <div className="ml-auto text-xs font-medium text-slate-400">{tn('filters.recordsShown', recordsCount, { count: formatNumber(recordsCount) })}</div>
+      </div>
+      <FilterChips filters={filters} productClasses={productClasses} onChange={setFilters} />
+
+      <div ref={reportRef}>
+        <div data-report-only className="hidden mb-8">
+          <h2 className="text-2xl font-extrabold text-slate-900">{t('report.title')}</h2>
+          <p className="text-sm font-medium text-slate-500">
+            {filtersSummary} • {t('report.generatedAt', { date: formatDateTime(new Date()) })}
+          </p>
         </div>
-        <div className="flex items-center gap-2 bg-white px-3 py-2 rounded-xl border border-slate-200 shadow-sm focus-within:ring-2 focus-within:ring-blue-500 transition-all">
-          <Calendar size={18} className="text-blue-500" />
-          <select value={monthFilter} onChange={(e) => setMonthFilter(e.target.value)} className="bg-transparent border-none text-sm font-semibold text-slate-700 outline-none pr-4">
-            <option value="All">Todos os Meses</option>
-            {months.filter(m => m !== 'All').map(m => <option key={m} value={m}>{m}</option>)}
-          </select>
+
+        {/* Comparativo Direto */}
+        <div className={highlightClass('comparison')}>
+          <ComparisonSection
+            selection={comparison}
+            options={comparisonOptions}
+            items={result.comparison.items}
+            timeline={result.comparison.timeline}
+            productClasses={productClasses}
+            onChange={setComparison}
+          />
         </div>
-        <div className="ml-auto text-xs font-medium text-slate-400">{filteredData.length} registros exibidos</div>
-      </div>
 
-      {/* Comparativo Direto */}
-      <section className="mb-12 bg-white rounded-3xl p-8 border border-slate-100 shadow-sm">
-        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-8">
-          <div className="flex items-center gap-3">
-            <div className="p-2.5 bg-blue-50 rounded-xl">
-              <ArrowRightLeft className="text-blue-600" size={24} />
-            </div>
-            <div>
-              <h2 className="text-xl font-bold text-slate-800">Comparativo de Produtos</h2>
-              <p className="text-sm text-slate-400 font-medium">Comparação direta no período selecionado</p>
+        {/* Principais KPIs */}
+        <div className={`grid grid-cols-1 md:grid-cols-3 gap-6 mb-8 ${highlightClass('kpis')}`}>
+          <KPICard title={t('kpi.totalSales')} onClick={() => openKpiRecords(t('kpi.totalSales'), 'quantidade_vendida')} value={formatNumber(stats.totalSales)} icon={<ShoppingCart size={22} className="text-emerald-500" />} {...trends.sales} trendTitle={trendTitle} progress={targetProgressBar('sales')} />
+          <KPICard title={t('kpi.revenue')} onClick={() => openKpiRecords(t('kpi.revenue'), 'receita')} value={formatCurrency(stats.totalRevenue)} icon={<DollarSign size={22} className="text-blue-500" />} {...trends.revenue} trendTitle={trendTitle} progress={targetProgressBar('revenue')} />
+          <KPICard title={t('kpi.ticket')} onClick={() => openKpiRecords(t('kpi.ticket'), 'receita')} value={formatCurrency(stats.averageTicket)} icon={<Tag size={22} className="text-indigo-500" />} {...trends.ticket} trendTitle={trendTitle} />
+        </div>
+
+        {/* Rentabilidade */}
+        <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8 ${highlightClass('kpis')}`}>
+          <KPICard title={t('kpi.cost')} onClick={() => openKpiRecords(t('kpi.cost'), 'custo_aquisicao')} value={formatCurrency(profitability.cost)} icon={<Wallet size={22} className="text-rose-500" />} {...trends.cost} trendTitle={trendTitle} />
+          <KPICard title={t('kpi.cac')} onClick={() => openKpiRecords(t('kpi.cac'), 'custo_aquisicao')} value={profitability.sales > 0 ? formatCurrency(profitability.cac) : t('common.notAvailable')} subtitle={t('kpi.cacSubtitle')} icon={<UserPlus size={22} className="text-amber-500" />} {...trends.cac} trendTitle={trendTitle} progress={targetProgressBar('cac')} />
+          <KPICard title={t('kpi.roas')} onClick={() => openKpiRecords(t('kpi.roas'), 'receita')} value={formatRoas(profitability.roas)} subtitle={t('kpi.roasSubtitle')} icon={<Target size={22} className="text-violet-500" />} {...trends.roas} trendTitle={trendTitle} />
+          <KPICard title={t('kpi.profit')} onClick={() => openKpiRecords(t('kpi.profit'), 'receita')} value={formatCurrency(profitability.profit)} subtitle={t('kpi.margin', { value: formatPercent(profitability.margin) })} icon={<PiggyBank size={22} className="text-emerald-500" />} {...trends.profit} trendTitle={trendTitle} />
+        </div>
+
+        <div className={`grid grid-cols-1 md:grid-cols-3 gap-6 mb-10 ${periodProjection ? 'lg:grid-cols-4' : ''}`}>
+          <InsightCard title={t('insight.bestMonth')} mainValue={stats.bestMonth.month} subValue={formatCurrency(stats.bestMonth.value)} icon={<Calendar size={20} className="text-amber-500" />} />
+          <InsightCard title={t('insight.bestSeller')} mainValue={stats.bestProductQty.name} badge={<AbcBadge abcClass={productClasses[stats.bestProductQty.name]} />} subValue={tn('insight.units', stats.bestProductQty.count, { count: formatNumber(stats.bestProductQty.count) })} icon={<BookOpen size={20} className="text-blue-500" />} />
+          <InsightCard title={t('insight.leaderShare')} mainValue={formatPercent(stats.topProductShare)} subValue={t('insight.ofRevenue')} icon={<Percent size={20} className="text-indigo-500" />} />
+          {periodProjection && (
+            <InsightCard
+              title={t('insight.forecast', { period: periodProjection.month.label })}
+              mainValue={formatCurrency(periodProjection.month.projected)}
+              subValue={`${periodProjection.quarter.label}: ${formatCurrency(periodProjection.quarter.projected)}`}
+              icon={<Sparkles size={20} className="text-violet-500" />}
+            />
+          )}
+        </div>
+
+        <AlertsPanel
+          anomalies={visibleAnomalies}
+          ruleAlerts={ruleAlerts}
+          rulesCount={alertRules.filter(rule => rule.enabled).length}
+          evaluatedAt={lastUpdated}
+          onManageRules={() => setShowAlertRules(true)}
+        />
+
+        <TargetsPanel
+          progress={scopeTargets}
+          anchor={result.targets.anchor}
+          targetsCount={targets.length}
+          onManageTargets={() => setShowTargetsEditor(true)}
+        />
+
+        {insightsContext && <InsightsPanel context={insightsContext} providers={insightProviders} />}
+
+        <div className={`bg-white rounded-3xl p-8 border border-slate-100 shadow-sm mb-8 ${highlightClass('timeline')}`}>
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+            <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2"><TrendingUp size={22} className="text-blue-500" /> {t('timeline.title')}</h3>
+            <div className="flex flex-wrap items-center gap-3">
+              <ForecastControls config={forecast} onChange={setForecast} />
+              {baselineBounds && (
+                <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+                  <input type="checkbox" checked={showBaselineOverlay} onChange={(e) => setShowBaselineOverlay(e.target.checked)} />
+                  {t('timeline.overlayBaseline')}
+                </label>
+              )}
+              <div className="flex bg-slate-50 border border-slate-200 rounded-xl p-1">
+                {GRANULARITIES.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setGranularity(option.value)}
+                    className={`px-3 py-1.5 text-xs font-bold rounded-lg transition-all ${granularity === option.value ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                  >
+                    {t(option.label)}
+                  </button>
+                ))}
+              </div>
             </div>
           </div>
-          <div className="flex flex-wrap items-center gap-3 w-full md:w-auto">
-             <select 
-              value={compareA} 
-              onChange={(e) => setCompareA(e.target.value)} 
-              className="bg-slate-50 border border-slate-200 text-sm font-bold text-slate-700 p-2.5 rounded-xl outline-none focus:ring-2 focus:ring-blue-500 w-full md:w-48"
-            >
-              {products.filter(p => p !== 'All').map(p => <option key={p} value={p}>{p}</option>)}
-            </select>
-            <span className="text-slate-300 font-bold hidden md:inline">X</span>
-            <select 
-              value={compareB} 
-              onChange={(e) => setCompareB(e.target.value)} 
-              className="bg-slate-50 border border-slate-200 text-sm font-bold text-slate-700 p-2.5 rounded-xl outline-none focus:ring-2 focus:ring-blue-500 w-full md:w-48"
-            >
-              {products.filter(p => p !== 'All').map(p => <option key={p} value={p}>{p}</option>)}
-            </select>
+          <div className="h-[350px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={timelineData} onClick={handleTimelineClick} className="cursor-pointer">
+                <defs><linearGradient id="colorValue" x1="0" y1="0" x2="0" y2="1"><stop offset="5%" stopColor="#3b82f6" stopOpacity={0.1}/><stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/></linearGradient></defs>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 12}} dy={10} />
+                <YAxis axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 12}} tickFormatter={(val) => formatCompactCurrency(val)} />
+                <Tooltip
+                  contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgba(0,0,0,0.1)' }}
+                  labelFormatter={(label: any, payload: any[]) => {
+                    const count = payload?.[0]?.payload?.anomalies;
+                    return count ? `${label} • ${tn('timeline.anomalies', count)}` : label;
+                  }}
+                  formatter={(value: any, name: any, item: any) => {
+                    if (name === 'forecastRange') return [`${formatCurrency(value[0])} – ${formatCurrency(value[1])}`, t('timeline.range', { confidence: forecast.confidence })];
+                    if (name === 'forecast') return [formatCurrency(value as number), t('timeline.forecast')];
+                    if (name === 'target') return [formatCurrency(value as number), t('timeline.target')];
+                    return [
+                      formatCurrency(value as number),
+                      name === 'baseline' ? `${t('timeline.baseline')}${item.payload.baselineName ? ` (${item.payload.baselineName})` : ''}` : t('metric.revenue')
+                    ];
+                  }}
+                />
+                <Area type="monotone" dataKey="value" stroke="#3b82f6" strokeWidth={3} fillOpacity={1} fill="url(#colorValue)" animationDuration={1500} />
+                {forecast.enabled && (
+                  <Area type="monotone" dataKey="forecastRange" stroke="none" fill="#8b5cf6" fillOpacity={0.1} animationDuration={1500} />
+                )}
+                {forecast.enabled && (
+                  <Line type="monotone" dataKey="forecast" stroke="#8b5cf6" strokeWidth={2} strokeDasharray="6 4" dot={false} animationDuration={1500} />
+                )}
+                {anomalyWeeks.map(week => (
+                  <ReferenceArea key={`anomaly-week-${week.key}`} x1={week.x1} x2={week.x2} fill="#f43f5e" fillOpacity={0.08} stroke="#f43f5e" strokeOpacity={0.3} strokeDasharray="3 3" />
+                ))}
+                {timelineData.filter(row => row.anomalies && row.value !== undefined).map(row => (
+                  <ReferenceDot key={`anomaly-${row.key}`} x={row.name} y={row.value} r={6} fill="#f43f5e" stroke="#fff" strokeWidth={2} />
+                ))}
+                {hasTargetLine && (
+                  <Line type="stepAfter" dataKey="target" stroke="#f59e0b" strokeWidth={2} strokeDasharray="4 4" dot={false} animationDuration={1500} />
+                )}
+                {showBaselineOverlay && baselineBounds && (
+                  <Line type="monotone" dataKey="baseline" stroke="#94a3b8" strokeWidth={2} strokeDasharray="6 4" dot={false} animationDuration={1500} />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
           </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          <div className="grid grid-cols-2 gap-4">
-             <div className="space-y-4">
-               <div className="p-1 text-center font-bold text-blue-600 truncate text-xs uppercase">{compareA}</div>
-               <div className={`p-4 rounded-2xl border ${comparisonStats.productA.revenue >= comparisonStats.productB.revenue && comparisonStats.productA.revenue > 0 ? 'bg-emerald-50 border-emerald-100' : 'bg-slate-50 border-slate-100'}`}>
-                  <p className="text-[10px] text-slate-400 font-bold mb-1 uppercase tracking-tighter">Receita</p>
-                  <div className="flex items-center justify-between">
-                    <span className="text-base font-bold text-slate-800">{formatCurrency(comparisonStats.productA.revenue)}</span>
-                    {comparisonStats.productA.revenue > comparisonStats.productB.revenue && <Trophy size={14} className="text-emerald-500" />}
-                  </div>
-               </div>
-               <div className={`p-4 rounded-2xl border ${comparisonStats.productA.sales >= comparisonStats.productB.sales && comparisonStats.productA.sales > 0 ? 'bg-emerald-50 border-emerald-100' : 'bg-slate-50 border-slate-100'}`}>
-                  <p className="text-[10px] text-slate-400 font-bold mb-1 uppercase tracking-tighter">Vendas</p>
-                  <div className="flex items-center justify-between">
-                    <span className="text-base font-bold text-slate-800">{formatNumber(comparisonStats.productA.sales)}</span>
-                    {comparisonStats.productA.sales > comparisonStats.productB.sales && <Trophy size={14} className="text-emerald-500" />}
-                  </div>
-               </div>
-             </div>
-             <div className="space-y-4">
-               <div className="p-1 text-center font-bold text-indigo-600 truncate text-xs uppercase">{compareB}</div>
-               <div className={`p-4 rounded-2xl border ${comparisonStats.productB.revenue > comparisonStats.productA.revenue ? 'bg-emerald-50 border-emerald-100' : 'bg-slate-50 border-slate-100'}`}>
-                  <p className="text-[10px] text-slate-400 font-bold mb-1 uppercase tracking-tighter">Receita</p>
-                  <div className="flex items-center justify-between">
-                    <span className="text-base font-bold text-slate-800">{formatCurrency(comparisonStats.productB.revenue)}</span>
-                    {comparisonStats.productB.revenue > comparisonStats.productA.revenue && <Trophy size={14} className="text-emerald-500" />}
+          <div className={`bg-white rounded-3xl p-8 border border-slate-100 shadow-sm ${highlightClass('channels')}`}>
+            <div className="flex items-start justify-between gap-4 mb-6">
+              <div>
+                <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                  <Share2 size={18} className="text-blue-500" />
+                  {t('channels.title')}
+                </h3>
+                {channelTaxonomy.nodes.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-1 mt-1 text-xs font-semibold">
+                    <button onClick={() => setChannelLevel('')} className={activeChannelLevel ? 'text-blue-600 hover:text-blue-700' : 'text-slate-400'}>{t('channels.all')}</button>
+                    {channelPath.map((name, index) => (
+                      <React.Fragment key={name}>
+                        <ChevronRight size={12} className="text-slate-300" />
+                        <button
+                          onClick={() => setChannelLevel(name)}
+                          className={index < channelPath.length - 1 ? 'text-blue-600 hover:text-blue-700' : 'text-slate-400'}
+                        >
+                          {name}
+                        </button>
+                      </React.Fragment>
+                    ))}
                   </div>
-               </div>
-               <div className={`p-4 rounded-2xl border ${comparisonStats.productB.sales > comparisonStats.productA.sales ? 'bg-emerald-50 border-emerald-100' : 'bg-slate-50 border-slate-100'}`}>
-                  <p className="text-[10px] text-slate-400 font-bold mb-1 uppercase tracking-tighter">Vendas</p>
-                  <div className="flex items-center justify-between">
-                    <span className="text-base font-bold text-slate-800">{formatNumber(comparisonStats.productB.sales)}</span>
-                    {comparisonStats.productB.sales > comparisonStats.productA.sales && <Trophy size={14} className="text-emerald-500" />}
-                  </div>
-               </div>
-             </div>
+                )}
+              </div>
+              <button
+                onClick={() => setShowChannelTaxonomy(true)}
+                title={t('channels.manage')}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-slate-50 border border-slate-200 text-xs font-semibold text-slate-600 hover:border-blue-200 hover:text-blue-600 transition-all"
+              >
+                <Network size={14} /> {t('channels.button')}
+              </button>
+            </div>
+            <div className="h-[400px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={sourceData} layout="vertical" margin={{ left: 10, right: 30 }}>
+                  <XAxis type="number" hide />
+                  <YAxis 
+                    dataKey="name" 
+                    type="category" 
+                    axisLine={false} 
+                    tickLine={false} 
+                    tick={{fill: '#64748b', fontSize: 12, fontWeight: 600}}
+                    width={140}
+                    interval={0}
+                  />
+                  <Tooltip 
+                    cursor={{fill: 'transparent'}} 
+                    contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0,0,0,0.1)' }} 
+                    content={({ active, payload }) => {
+                      if (active && payload && payload.length) {
+                        const data = payload[0].payload as any;
+                        return (
+                          <div className="bg-white p-3 rounded-xl shadow-lg border border-slate-100">
+                            <p className="font-bold text-slate-800 mb-1">{data.name}</p>
+                            {data.drillable && <p className="text-xs text-slate-400 font-medium mb-1">{t('channels.drillHint')}</p>}
+                            <p className="text-sm text-blue-600 font-semibold">{t('metric.revenue')}: {formatCurrency(data.value as number)}</p>
+                            <p className="text-sm text-slate-500 font-medium">{t('metric.sales')}: {formatNumber(data.sales as number)}</p>
+                            <p className="text-sm text-slate-500 font-medium">{t('metric.cost')}: {formatCurrency(data.cost as number)}</p>
+                            <p className="text-sm text-slate-500 font-medium">{t('kpi.cac')}: {data.sales > 0 ? formatCurrency(data.cac as number) : t('common.notAvailable')} • {t('kpi.roas')}: {formatRoas(data.roas as number)}</p>
+                            <p className={`text-sm font-semibold ${data.profit >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>{t('metric.profit')}: {formatCurrency(data.profit as number)} ({formatPercent(data.margin as number)})</p>
+                          </div>
+                        );
+                      }
+                      return null;
+                    }}
+                  />
+                  <Bar dataKey="value" radius={[0, 8, 8, 0]} barSize={20} animationDuration={1000} onClick={handleChannelClick} className="cursor-pointer">
+                    {sourceData.map((entry, index) => (
+                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
           </div>
-          <div className="bg-slate-50 rounded-2xl p-4 flex flex-col justify-center">
-            <h4 className="text-[10px] font-bold text-slate-500 mb-4 text-center uppercase tracking-widest">Market Share (Entre os dois)</h4>
-            <div className="h-[200px] w-full">
-               <ResponsiveContainer width="100%" height="100%">
-                 <PieChart>
-                    <Pie
-                      data={[
-                        { name: compareA, value: comparisonStats.productA.revenue || 0.0001 },
-                        { name: compareB, value: comparisonStats.productB.revenue || 0.0001 }
-                      ]}
-                      cx="50%"
-                      cy="50%"
-                      innerRadius={50}
-                      outerRadius={75}
-                      paddingAngle={5}
-                      dataKey="value"
-                    >
-                      <Cell fill="#3b82f6" />
-                      <Cell fill="#6366f1" />
-                    </Pie>
-                    <Tooltip formatter={(val: any) => formatCurrency(val as number)} />
-                    <Legend iconType="circle" />
-                 </PieChart>
-               </ResponsiveContainer>
+
+          <div className={`bg-white rounded-3xl p-8 border border-slate-100 shadow-sm ${highlightClass('products')}`}>
+            <h3 className="text-lg font-bold text-slate-800 mb-6 flex items-center gap-2">
+              <PieChartIcon size={18} className="text-blue-500" />
+              {t('products.title')}
+            </h3>
+            <div className="h-[400px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart>
+                  <Pie
+                    data={productChartData}
+                    cx="50%"
+                    cy="50%"
+                    innerRadius={80}
+                    outerRadius={120}
+                    paddingAngle={5}
+                    dataKey="value"
+                    animationDuration={1500}
+                    onClick={handleProductClick}
+                    className="cursor-pointer"
+                  >
+                    {productChartData.map((entry, index) => (
+                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                    ))}
+                  </Pie>
+                  <Tooltip 
+                    formatter={(value: any, name: any) => [formatCurrency(value as number), productClasses[name] ? t('products.withClass', { name, abcClass: productClasses[name] }) : name]}
+                    contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0,0,0,0.1)' }}
+                  />
+                  <Legend 
+                    verticalAlign="bottom" 
+                    height={80} 
+                    formatter={(value: any) => (
+                      <span className="inline-flex items-center gap-1 text-xs font-semibold text-slate-600">
+                        {value}
+                        <AbcBadge abcClass={productClasses[value]} />
+                      </span>
+                    )}
+                  />
+                </PieChart>
+              </ResponsiveContainer>
             </div>
           </div>
         </div>
-      </section>
-
-      {/* Principais KPIs */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-        <KPICard title="Vendas Totais" value={formatNumber(stats.totalSales)} icon={<ShoppingCart size={22} className="text-emerald-500" />} />
-        <KPICard title="Receita Bruta" value={formatCurrency(stats.totalRevenue)} icon={<DollarSign size={22} className="text-blue-500" />} />
-        <KPICard title="Ticket Médio" value={formatCurrency(stats.averageTicket)} icon={<Tag size={22} className="text-indigo-500" />} />
-      </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-10">
-        <InsightCard title="Recorde Mensal" mainValue={stats.bestMonth.month} subValue={formatCurrency(stats.bestMonth.value)} icon={<Calendar size={20} className="text-amber-500" />} />
-        <InsightCard title="Mais Vendido" mainValue={stats.bestProductQty.name} subValue={`${formatNumber(stats.bestProductQty.count)} unidades`} icon={<BookOpen size={20} className="text-blue-500" />} />
-        <InsightCard title="Share do Líder" mainValue={`${stats.topProductShare.toFixed(1)}%`} subValue={`do faturamento total`} icon={<Percent size={20} className="text-indigo-500" />} />
-      </div>
+        <div className={`mt-8 ${highlightClass('pivot')}`}>
+          <PivotTable config={pivot} data={result.pivot} productClasses={productClasses} onChange={setPivot} />
+        </div>
 
-      <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm mb-8">
-        <h3 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-2"><TrendingUp size={22} className="text-blue-500" /> Evolução de Receita</h3>
-        <div className="h-[350px] w-full">
-          <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={timelineData}>
-              <defs><linearGradient id="colorValue" x1="0" y1="0" x2="0" y2="1"><stop offset="5%" stopColor="#3b82f6" stopOpacity={0.1}/><stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/></linearGradient></defs>
-              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-              <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 12}} dy={10} />
-              <YAxis axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 12}} tickFormatter={(val) => `R$ ${val / 1000}k`} />
-              <Tooltip contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgba(0,0,0,0.1)' }} formatter={(value: any) => [formatCurrency(value as number), 'Receita']} />
-              <Area type="monotone" dataKey="value" stroke="#3b82f6" strokeWidth={3} fillOpacity={1} fill="url(#colorValue)" animationDuration={1500} />
-            </AreaChart>
-          </ResponsiveContainer>
+        <div className={highlightClass('seasonality')}>
+          <SeasonalitySection data={result.seasonality} />
         </div>
-      </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-        <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm">
-          <h3 className="text-lg font-bold text-slate-800 mb-6 flex items-center gap-2">
-            <Share2 size={18} className="text-blue-500" />
-            Vendas e Receita por Canal
-          </h3>
-          <div className="h-[400px]">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={sourceData} layout="vertical" margin={{ left: 10, right: 30 }}>
-                <XAxis type="number" hide />
-                <YAxis 
-                  dataKey="name" 
-                  type="category" 
-                  axisLine={false} 
-                  tickLine={false} 
-                  tick={{fill: '#64748b', fontSize: 12, fontWeight: 600}}
-                  width={140}
-                  interval={0}
-                />
-                <Tooltip 
-                  cursor={{fill: 'transparent'}} 
-                  contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0,0,0,0.1)' }} 
-                  content={({ active, payload }) => {
-                    if (active && payload && payload.length) {
-                      const data = payload[0].payload as any;
-                      return (
-                        <div className="bg-white p-3 rounded-xl shadow-lg border border-slate-100">
-                          <p className="font-bold text-slate-800 mb-1">{data.name}</p>
-                          <p className="text-sm text-blue-600 font-semibold">Receita: {formatCurrency(data.value as number)}</p>
-                          <p className="text-sm text-slate-500 font-medium">Vendas: {formatNumber(data.sales as number)}</p>
-                        </div>
-                      );
-                    }
-                    return null;
-                  }}
-                />
-                <Bar dataKey="value" radius={[0, 8, 8, 0]} barSize={20} animationDuration={1000}>
-                  {sourceData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                  ))}
-                </Bar>
-              </BarChart>
-            </ResponsiveContainer>
-          </div>
+        <div className={highlightClass('pareto')}>
+          <ParetoSection
+            pareto={result.pareto}
+            stale={result.stale}
+            config={abcConfig}
+            onConfigChange={(config) => setAbcConfig(saveAbcConfig(config))}
+            onSelectItem={handleParetoSelect}
+          />
         </div>
 
-        <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm">
-          <h3 className="text-lg font-bold text-slate-800 mb-6 flex items-center gap-2">
-            <PieChartIcon size={18} className="text-blue-500" />
-            Share de Receita por Produto
-          </h3>
-          <div className="h-[400px]">
-            <ResponsiveContainer width="100%" height="100%">
-              <PieChart>
-                <Pie
-                  data={productChartData}
-                  cx="50%"
-                  cy="50%"
-                  innerRadius={80}
-                  outerRadius={120}
-                  paddingAngle={5}
-                  dataKey="value"
-                  animationDuration={1500}
-                >
-                  {productChartData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                  ))}
-                </Pie>
-                <Tooltip 
-                  formatter={(value: any) => formatCurrency(value as number)}
-                  contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0,0,0,0.1)' }}
-                />
-                <Legend 
-                  verticalAlign="bottom" 
-                  height={80} 
-                  formatter={(value: any) => <span className="text-xs font-semibold text-slate-600">{value}</span>}
-                />
-              </PieChart>
-            </ResponsiveContainer>
-          </div>
+        <div className="mt-8">
+          <ProfitabilityRanking channels={channelProfitability} products={productProfitability} productClasses={productClasses} onSelectRow={openDimensionRecords} />
         </div>
       </div>
-      <footer className="mt-16 mb-8 text-center text-slate-400 text-sm font-medium">Versão Produção • {isManualUpload ? `Local: ${fileName}` : 'Sincronizado via Google Sheets'}</footer>
+
+      <div ref={recordsRef}>
+        <RecordsTable
+          fetchRecords={fetchRecords}
+          corrections={corrections}
+          unmatched={dataset.unmatched}
+          baseCurrency={currencySettings.base}
+          productClasses={productClasses}
+          drill={recordsDrill}
+          onClearDrill={() => setRecordsDrill(null)}
+          onCorrect={handleCorrectRecord}
+          onRevert={handleRevertCorrection}
+          onRevertAll={handleRevertAllCorrections}
+          onExportCorrections={handleExportCorrections}
+        />
+      </div>
+      {showSourceSettings && (
+        <DataSourceSettings
+          sources={sources}
+          activeIds={activeSourceIds}
+          onSave={handleSaveSources}
+          onClose={() => setShowSourceSettings(false)}
+        />
+      )}
+      {showAlertRules && (
+        <AlertRulesEditor
+          rules={alertRules}
+          channels={channels}
+          products={products}
+          onSave={handleSaveAlertRules}
+          onClose={() => setShowAlertRules(false)}
+        />
+      )}
+      {showChannelTaxonomy && (
+        <ChannelTaxonomyEditor
+          taxonomy={channelTaxonomy}
+          rawChannels={dataset.rawChannels}
+          onSave={handleSaveChannelTaxonomy}
+          onClose={() => setShowChannelTaxonomy(false)}
+        />
+      )}
+      {showTargetsEditor && (
+        <TargetsEditor
+          targets={targets}
+          channels={channels}
+          products={products}
+          onSave={handleSaveTargets}
+          onClose={() => setShowTargetsEditor(false)}
+        />
+      )}
+      {showCurrencySettings && (
+        <CurrencySettingsEditor
+          settings={currencySettings}
+          dataCurrencies={dataset.currencies}
+          missing={dataset.missing}
+          onSave={handleSaveCurrencySettings}
+          onClose={() => setShowCurrencySettings(false)}
+        />
+      )}
+      {sharedSources && (
+        <SharedSourcesPrompt
+          definitions={sharedSources.definitions}
+          onAccept={handleAcceptSharedSources}
+          onDecline={() => setSharedSources(null)}
+        />
+      )}
+      {pendingWorkbook && (
+        <SheetPicker
+          fileName={pendingWorkbook.fileName}
+          sheets={pendingWorkbook.sheets}
+          onSelect={handleSelectSheet}
+          onCancel={() => setPendingWorkbook(null)}
+        />
+      )}
+      {pendingImport && (
+        <ColumnMappingWizard
+          fileName={pendingImport.fileName}
+          table={pendingImport.table}
+          initialMapping={pendingImport.mapping}
+          initialOptions={pendingImport.options}
+          initialProfileName={pendingImport.profileName}
+          issues={pendingImport.issues}
+          onApply={handleApplyMapping}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+      <UpdateToast notice={updateNotice} onDismiss={() => setUpdateNotice(null)} />
+      <footer className="mt-16 mb-8 text-center text-slate-400 text-sm font-medium">{t('app.footer')} • {uploads.length > 0 ? datasetLabel : t('app.syncedVia', { source: liveLabel })}</footer>
     </div>
   );
 };
@@ -0,0 +1,25 @@
+import React from 'react';
+import { AbcClass } from '../types';
+import { t } from '../utils/i18n';
+
+interface AbcBadgeProps {
+  abcClass?: AbcClass;
+}
+
+const CLASS_STYLES: Record<AbcClass, string> = {
+  A: 'bg-emerald-50 border-emerald-200 text-emerald-700',
+  B: 'bg-amber-50 border-amber-200 text-amber-700',
+  C: 'bg-slate-50 border-slate-200 text-slate-500',
+};
+
+// Sem classe (item fora da curva ABC do recorte), não mostra nada
+const AbcBadge: React.FC<AbcBadgeProps> = ({ abcClass }) => {
+  if (!abcClass) return null;
+  return (
+    <span title={t('pareto.badge', { abcClass })} className={`inline-flex items-center justify-center shrink-0 w-5 h-5 rounded-md border text-[10px] font-extrabold ${CLASS_STYLES[abcClass]}`}>
+      {abcClass}
+    </span>
+  );
+};
+
+export default AbcBadge;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { BellPlus, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { AlertDimension, AlertMetric, AlertRule } from '../types';
+import { ALERT_DIMENSIONS, ALERT_METRICS, describeAlertRule } from '../utils/anomalies';
+import { createRuleId } from '../services/alertRules';
+import { t } from '../utils/i18n';
+
+interface AlertRulesEditorProps {
+  rules: AlertRule[];
+  channels: string[];
+  products: string[];
+  onSave: (rules: AlertRule[]) => void;
+  onClose: () => void;
+}
+
+const emptyDraft = (): AlertRule => ({ id: '', metric: 'roas', operator: 'below', threshold: 2, days: 3, dimension: 'origem', target: '', enabled: true });
+
+const AlertRulesEditor: React.FC<AlertRulesEditorProps> = ({ rules, channels, products, onSave, onClose }) => {
+  const [items, setItems] = useState<AlertRule[]>(rules);
+  const [draft, setDraft] = useState<AlertRule>(emptyDraft);
+
+  const targets = draft.dimension === 'origem' ? channels : products;
+  const isDraftValid = Number.isFinite(draft.threshold) && draft.days >= 1;
+
+  const handleSubmitDraft = () => {
+    if (!isDraftValid) return;
+    const rule: AlertRule = { ...draft, id: draft.id || createRuleId() };
+    setItems(prev => draft.id ? prev.map(r => r.id === draft.id ? rule : r) : [...prev, rule]);
+    setDraft(emptyDraft());
+  };
+
+  const handleDelete = (id: string) => {
+    setItems(prev => prev.filter(r => r.id !== id));
+    if (draft.id === id) setDraft(emptyDraft());
+  };
+
+  const toggleEnabled = (id: string) => {
+    setItems(prev => prev.map(r => r.id === id ? { ...r, enabled: !r.enabled } : r));
+  };
+
+  const fieldClass = 'bg-white border border-slate-200 text-sm font-semibold text-slate-700 px-3 py-2.5 rounded-xl outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-xl border border-slate-100 w-full max-w-3xl max-h-[90vh] overflow-y-auto p-8">
+        <div className="flex items-start justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 bg-blue-50 rounded-xl">
+              <BellPlus className="text-blue-600" size={24} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-800">{t('alerts.rules.title')}</h2>
+              <p className="text-sm text-slate-400 font-medium">{t('alerts.rules.subtitle')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:bg-slate-100"><X size={18} /></button>
+        </div>
+
+        <div className="space-y-2 mb-8">
+          {items.map(rule => (
+            <div key={rule.id} className={`flex items-center gap-3 p-3 rounded-2xl border ${rule.enabled ? 'bg-blue-50 border-blue-100' : 'bg-slate-50 border-slate-100'}`}>
+              <input type="checkbox" checked={rule.enabled} onChange={() => toggleEnabled(rule.id)} />
+              <p className="flex-1 min-w-0 text-sm font-bold text-slate-700 truncate">{describeAlertRule(rule)}</p>
+              <button onClick={() => setDraft(rule)} className="p-1.5 rounded-lg text-slate-400 hover:text-blue-500 hover:bg-white"><Pencil size={14} /></button>
+              <button onClick={() => handleDelete(rule.id)} className="p-1.5 rounded-lg text-slate-400 hover:text-rose-500 hover:bg-white"><Trash2 size={14} /></button>
+            </div>
+          ))}
+          {items.length === 0 && <p className="text-sm text-slate-400 text-center py-4">{t('alerts.rules.empty')}</p>}
+        </div>
+
+        <div className="bg-slate-50 rounded-2xl p-5 border border-slate-100 mb-6">
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-3">{t(draft.id ? 'alerts.rules.edit' : 'alerts.rules.new')}</p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select value={draft.metric} onChange={(e) => setDraft(prev => ({ ...prev, metric: e.target.value as AlertMetric }))} className={fieldClass}>
+              {ALERT_METRICS.map(metric => <option key={metric.value} value={metric.value}>{t(metric.label)}</option>)}
+            </select>
+            <select value={draft.dimension} onChange={(e) => setDraft(prev => ({ ...prev, dimension: e.target.value as AlertDimension, target: '' }))} className={fieldClass}>
+              {ALERT_DIMENSIONS.map(dimension => <option key={dimension.value} value={dimension.value}>{t(dimension.label)}</option>)}
+            </select>
+            <select value={draft.target} onChange={(e) => setDraft(prev => ({ ...prev, target: e.target.value }))} className={fieldClass}>
+              <option value="">{t(draft.dimension === 'origem' ? 'alerts.allChannels' : 'alerts.allProducts')}</option>
+              {targets.map(target => <option key={target} value={target}>{target}</option>)}
+              {draft.target && !targets.includes(draft.target) && <option value={draft.target}>{draft.target}</option>}
+            </select>
+            <select value={draft.operator} onChange={(e) => setDraft(prev => ({ ...prev, operator: e.target.value as AlertRule['operator'] }))} className={fieldClass}>
+              <option value="below">{t('alerts.rules.below')}</option>
+              <option value="above">{t('alerts.rules.above')}</option>
+            </select>
+            <input
+              type="number"
+              step="any"
+              value={Number.isFinite(draft.threshold) ? draft.threshold : ''}
+              onChange={(e) => setDraft(prev => ({ ...prev, threshold: parseFloat(e.target.value) }))}
+              placeholder={t('alerts.rules.threshold')}
+              className={fieldClass}
+            />
+            <label className={`${fieldClass} flex items-center gap-2`}>
+              {t('alerts.rules.for')}
+              <input
+                type="number"
+                min={1}
+                value={draft.days}
+                onChange={(e) => setDraft(prev => ({ ...prev, days: Math.max(1, parseInt(e.target.value) || 1) }))}
+                className="w-14 bg-transparent outline-none"
+              />
+              {t('alerts.rules.days')}
+            </label>
+          </div>
+          <div className="flex justify-end gap-2 mt-3">
+            {draft.id && <button onClick={() => setDraft(emptyDraft())} className="px-3 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-white">{t('alerts.rules.cancelEdit')}</button>}
+            <button
+              onClick={handleSubmitDraft}
+              disabled={!isDraftValid}
+              className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-semibold transition-all ${isDraftValid ? 'bg-white border border-slate-200 text-blue-600 hover:border-blue-200' : 'text-slate-300 cursor-not-allowed'}`}
+            >
+              <Plus size={14} /> {t(draft.id ? 'alerts.rules.update' : 'alerts.rules.add')}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-slate-50">{t('common.cancel')}</button>
+          <button onClick={() => onSave(items)} className="px-4 py-2 rounded-xl text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 transition-all">
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertRulesEditor;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { AlertTriangle, BellRing, Settings, TrendingDown, TrendingUp } from 'lucide-react';
+import { Anomaly, RuleAlert } from '../types';
+import { ALERT_DIMENSIONS, describeAlertRule, formatMetricValue } from '../utils/anomalies';
+import { formatDateBounds, formatISODay } from '../utils/dateRanges';
+import { formatDateTime } from '../utils/formatters';
+import { t, tn } from '../utils/i18n';
+
+interface AlertsPanelProps {
+  anomalies: Anomaly[];
+  ruleAlerts: RuleAlert[];
+  rulesCount: number;
+  evaluatedAt: Date | null;
+  onManageRules: () => void;
+}
+
+const COLLAPSED_LIMIT = 6;
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({ anomalies, ruleAlerts, rulesCount, evaluatedAt, onManageRules }) => {
+  const [expanded, setExpanded] = useState(false);
+  const visibleAnomalies = expanded ? anomalies : anomalies.slice(0, COLLAPSED_LIMIT);
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm mb-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <BellRing size={22} className={ruleAlerts.length > 0 ? 'text-rose-500' : 'text-blue-500'} /> {t('alerts.title')}
+          </h3>
+          <p className="text-sm text-slate-400 font-medium">
+            {tn('alerts.activeRules', rulesCount)}
+            {evaluatedAt && ` • ${t('alerts.evaluatedAt', { time: formatDateTime(evaluatedAt, { hour: '2-digit', minute: '2-digit' }) })}`}
+          </p>
+        </div>
+        <button onClick={onManageRules} className="flex items-center gap-2 bg-slate-50 px-3 py-2 rounded-xl border border-slate-200 text-sm font-semibold text-slate-600 hover:border-blue-200 hover:text-blue-600 transition-all">
+          <Settings size={16} /> {t('alerts.manage')}
+        </button>
+      </div>
+
+      {ruleAlerts.length > 0 && (
+        <div className="space-y-2 mb-6">
+          {ruleAlerts.map(alert => (
+            <div key={alert.rule.id} className="flex items-start gap-3 p-4 rounded-2xl bg-rose-50 border border-rose-100">
+              <AlertTriangle size={18} className="text-rose-500 mt-0.5 shrink-0" />
+              <div>
+                <p className="text-sm font-bold text-rose-700">{describeAlertRule(alert.rule)}</p>
+                <p className="text-xs text-rose-500 font-medium">
+                  {tn('alerts.streak', alert.streak, { bounds: formatDateBounds(alert), value: formatMetricValue(alert.rule.metric, alert.lastValue) })}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {anomalies.length > 0 ? (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {visibleAnomalies.map(anomaly => {
+              const dimension = ALERT_DIMENSIONS.find(option => option.value === anomaly.dimension);
+              const isBad = anomaly.metric === 'cost' || anomaly.direction === 'drop';
+              return (
+                <div key={`${anomaly.period}-${anomaly.date}-${anomaly.dimension}-${anomaly.name}-${anomaly.metric}`} className="flex items-start gap-3 p-3 rounded-2xl bg-slate-50 border border-slate-100">
+                  <div className={`p-2 rounded-xl ${isBad ? 'bg-rose-100 text-rose-600' : 'bg-emerald-100 text-emerald-600'}`}>
+                    {anomaly.direction === 'spike' ? <TrendingUp size={16} /> : <TrendingDown size={16} />}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{anomaly.period === 'week' ? t('alerts.week', { bounds: formatDateBounds({ start: anomaly.date, end: anomaly.end }) }) : formatISODay(anomaly.date)} • {dimension && t(dimension.label)}</p>
+                    <p className="text-sm font-bold text-slate-700 truncate">{anomaly.name}</p>
+                    <p className="text-xs text-slate-500 font-medium">
+                      {t('alerts.anomalyValue', {
+                        metric: t(anomaly.metric === 'cost' ? 'metric.cost' : 'metric.revenue'),
+                        value: formatMetricValue(anomaly.metric, anomaly.value),
+                        expected: formatMetricValue(anomaly.metric, anomaly.expected),
+                      })}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          {anomalies.length > COLLAPSED_LIMIT && (
+            <button onClick={() => setExpanded(prev => !prev)} className="mt-4 text-sm font-semibold text-blue-600 hover:text-blue-700">
+              {expanded ? t('records.showLess') : t('records.showAll', { count: anomalies.length })}
+            </button>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-slate-400 text-center py-4">{t('alerts.noAnomalies')}</p>
+      )}
+    </div>
+  );
+};
+
+export default AlertsPanel;
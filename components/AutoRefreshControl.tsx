@@ -0,0 +1,31 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { AUTO_REFRESH_OPTIONS } from '../services/autoRefresh';
+import { t } from '../utils/i18n';
+
+interface AutoRefreshControlProps {
+  minutes: number;
+  disabled?: boolean;
+  onChange: (minutes: number) => void;
+}
+
+const AutoRefreshControl: React.FC<AutoRefreshControlProps> = ({ minutes, disabled, onChange }) => (
+  <div
+    title={t(disabled ? 'autoRefresh.unavailable' : 'autoRefresh.title')}
+    className={`flex items-center gap-2 bg-white pl-3 pr-1 py-2 rounded-xl border border-slate-200 shadow-sm transition-all ${disabled ? 'opacity-30' : 'focus-within:ring-2 focus-within:ring-blue-500'}`}
+  >
+    <Timer size={18} className={minutes > 0 && !disabled ? 'text-emerald-500' : 'text-slate-400'} />
+    <select
+      value={minutes}
+      disabled={disabled}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="bg-transparent border-none text-sm font-semibold text-slate-700 outline-none pr-2"
+    >
+      {AUTO_REFRESH_OPTIONS.map(option => (
+        <option key={option} value={option}>{option === 0 ? t('autoRefresh.off') : t('autoRefresh.every', { minutes: option })}</option>
+      ))}
+    </select>
+  </div>
+);
+
+export default AutoRefreshControl;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { GitCompareArrows } from 'lucide-react';
+import { BaselineConfig, BaselineMode } from '../types';
+import { BASELINE_MODES } from '../utils/periodComparison';
+import { t } from '../utils/i18n';
+
+interface BaselinePickerProps {
+  baseline: BaselineConfig;
+  onChange: (baseline: BaselineConfig) => void;
+}
+
+const BaselinePicker: React.FC<BaselinePickerProps> = ({ baseline, onChange }) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-white px-3 py-2 rounded-xl border border-slate-200 shadow-sm focus-within:ring-2 focus-within:ring-blue-500 transition-all">
+      <GitCompareArrows size={18} className="text-blue-500" />
+      <select value={baseline.mode} onChange={(e) => onChange({ ...baseline, mode: e.target.value as BaselineMode })} className="bg-transparent border-none text-sm font-semibold text-slate-700 outline-none pr-4">
+        {BASELINE_MODES.map(mode => <option key={mode.value} value={mode.value}>{t(mode.label)}</option>)}
+      </select>
+      {baseline.mode === 'custom' && (
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={baseline.start}
+            max={baseline.end || undefined}
+            onChange={(e) => onChange({ ...baseline, start: e.target.value })}
+            className="bg-slate-50 rounded-lg text-sm font-semibold text-slate-700 outline-none px-2 py-1"
+          />
+          <span className="text-xs font-bold text-slate-300">{t('dateRange.until')}</span>
+          <input
+            type="date"
+            value={baseline.end}
+            min={baseline.start || undefined}
+            onChange={(e) => onChange({ ...baseline, end: e.target.value })}
+            className="bg-slate-50 rounded-lg text-sm font-semibold text-slate-700 outline-none px-2 py-1"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BaselinePicker;
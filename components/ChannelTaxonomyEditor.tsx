@@ -0,0 +1,293 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, CornerDownRight, Network, Pencil, Plus, Trash2, Wand2, X } from 'lucide-react';
+import { ChannelNode, ChannelRule, ChannelRuleMatch, ChannelTaxonomy } from '../types';
+import { CHANNEL_RULE_MATCHES, RawChannelSummary, createChannelResolver, findUnmappedChannels, getChannelDescendants, getChannelPath, getChannelRuleError } from '../utils/channels';
+import { createChannelRuleId } from '../services/channelTaxonomy';
+import { formatCurrency, formatNumber } from '../utils/formatters';
+import { t, tn } from '../utils/i18n';
+
+interface ChannelTaxonomyEditorProps {
+  taxonomy: ChannelTaxonomy;
+  // Origens como chegam das fontes, antes das regras
+  rawChannels: RawChannelSummary[];
+  onSave: (taxonomy: ChannelTaxonomy) => void;
+  onClose: () => void;
+}
+
+const UNMAPPED_LIMIT = 12;
+
+const emptyRule = (): ChannelRule => ({ id: '', match: 'ignore-case', pattern: '', medium: '', channel: '', enabled: true });
+
+const describeRule = (rule: ChannelRule): string => {
+  const option = CHANNEL_RULE_MATCHES.find(item => item.value === rule.match);
+  const match = option ? t(option.label) : rule.match;
+  const pattern = rule.match === 'utm'
+    ? t(rule.medium ? 'channels.rule.utmMedium' : 'channels.rule.utm', { source: rule.pattern, medium: rule.medium })
+    : `"${rule.pattern}"`;
+  return `${match} ${pattern}`;
+};
+
+const ChannelTaxonomyEditor: React.FC<ChannelTaxonomyEditorProps> = ({ taxonomy, rawChannels, onSave, onClose }) => {
+  const [rules, setRules] = useState<ChannelRule[]>(taxonomy.rules);
+  const [nodes, setNodes] = useState<ChannelNode[]>(taxonomy.nodes);
+  const [draft, setDraft] = useState<ChannelRule>(emptyRule);
+  const [nodeDraft, setNodeDraft] = useState<ChannelNode>({ name: '', parent: '' });
+
+  const draftError = getChannelRuleError(draft);
+  const unmapped = useMemo(() => findUnmappedChannels(rawChannels, { rules, nodes }), [rawChannels, rules, nodes]);
+
+  // Quantas origens brutas cada regra captura (a primeira regra que casa leva a origem)
+  const ruleHits = useMemo(() => {
+    const hits: Record<string, number> = {};
+    rules.forEach((rule, index) => {
+      const before = createChannelResolver(rules.slice(0, index));
+      const current = createChannelResolver([{ ...rule, enabled: true }]);
+      hits[rule.id] = rawChannels.filter(item => before(item.value) === null && current(item.value) !== null).length;
+    });
+    return hits;
+  }, [rules, rawChannels]);
+
+  // Canais em ordem de árvore, com a profundidade para o recuo
+  const tree = useMemo(() => {
+    const names = new Set(nodes.map(node => node.name));
+    const ordered: { node: ChannelNode; depth: number }[] = [];
+    const visit = (parent: string, depth: number) => {
+      nodes
+        .filter(node => node.parent === parent || (depth === 0 && !!node.parent && !names.has(node.parent)))
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .forEach(node => {
+          if (ordered.some(item => item.node.name === node.name)) return;
+          ordered.push({ node, depth });
+          visit(node.name, depth + 1);
+        });
+    };
+    visit('', 0);
+    // Nós presos em ciclos não são alcançados a partir do topo
+    nodes.filter(node => !ordered.some(item => item.node.name === node.name)).forEach(node => ordered.push({ node, depth: 0 }));
+    return ordered;
+  }, [nodes]);
+
+  const handleSubmitRule = () => {
+    if (draftError) return;
+    const channel = draft.channel.trim();
+    const rule: ChannelRule = { ...draft, id: draft.id || createChannelRuleId(), channel, medium: draft.match === 'utm' ? draft.medium.trim() : '' };
+    setRules(prev => draft.id ? prev.map(r => r.id === draft.id ? rule : r) : [...prev, rule]);
+    // Canal novo digitado na regra entra no primeiro nível da hierarquia
+    if (!nodes.some(node => node.name === channel)) setNodes(prev => [...prev, { name: channel, parent: '' }]);
+    setDraft(emptyRule());
+  };
+
+  const handleDeleteRule = (id: string) => {
+    setRules(prev => prev.filter(r => r.id !== id));
+    if (draft.id === id) setDraft(emptyRule());
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    setRules(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const toggleRule = (id: string) => {
+    setRules(prev => prev.map(r => r.id === id ? { ...r, enabled: !r.enabled } : r));
+  };
+
+  const handleAddNode = () => {
+    const name = nodeDraft.name.trim();
+    if (!name) return;
+    setNodes(prev => prev.some(node => node.name === name)
+      ? prev.map(node => node.name === name ? { name, parent: nodeDraft.parent } : node)
+      : [...prev, { name, parent: nodeDraft.parent }]);
+    setNodeDraft({ name: '', parent: '' });
+  };
+
+  // Filhos do canal removido sobem para o nível dele
+  const handleDeleteNode = (name: string) => {
+    setNodes(prev => {
+      const parent = prev.find(node => node.name === name)?.parent || '';
+      return prev.filter(node => node.name !== name).map(node => node.parent === name ? { ...node, parent } : node);
+    });
+  };
+
+  const nodeNames = nodes.map(node => node.name).sort((a, b) => a.localeCompare(b));
+  // Um canal não pode ficar abaixo dele mesmo nem de um descendente
+  const parentOptions = nodeDraft.name.trim()
+    ? nodeNames.filter(name => name !== nodeDraft.name.trim() && !getChannelDescendants(nodes, nodeDraft.name.trim()).includes(name))
+    : nodeNames;
+
+  const fieldClass = 'bg-white border border-slate-200 text-sm font-semibold text-slate-700 px-3 py-2.5 rounded-xl outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-xl border border-slate-100 w-full max-w-4xl max-h-[90vh] overflow-y-auto p-8">
+        <div className="flex items-start justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 bg-blue-50 rounded-xl">
+              <Network className="text-blue-600" size={24} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-800">{t('channels.taxonomy.title')}</h2>
+              <p className="text-sm text-slate-400 font-medium">{t('channels.taxonomy.subtitle')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:bg-slate-100"><X size={18} /></button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-6">
+          <div>
+            <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-3">{t('channels.rules')}</p>
+            <div className="space-y-2 mb-4">
+              {rules.map((rule, index) => (
+                <div key={rule.id} className={`flex items-center gap-2 p-3 rounded-2xl border ${rule.enabled ? 'bg-blue-50 border-blue-100' : 'bg-slate-50 border-slate-100'}`}>
+                  <input type="checkbox" checked={rule.enabled} onChange={() => toggleRule(rule.id)} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-bold text-slate-700 truncate" title={describeRule(rule)}>{describeRule(rule)}</p>
+                    <p className="text-xs font-medium text-slate-500 truncate">
+                      → {rule.channel} • {tn('channels.origins', ruleHits[rule.id] || 0)}
+                      {getChannelRuleError(rule) && <span className="text-rose-500"> • {getChannelRuleError(rule)}</span>}
+                    </p>
+                  </div>
+                  <button onClick={() => moveRule(index, -1)} disabled={index === 0} className="p-1 rounded-lg text-slate-400 hover:text-blue-500 hover:bg-white disabled:opacity-30"><ArrowUp size={14} /></button>
+                  <button onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1} className="p-1 rounded-lg text-slate-400 hover:text-blue-500 hover:bg-white disabled:opacity-30"><ArrowDown size={14} /></button>
+                  <button onClick={() => setDraft(rule)} className="p-1 rounded-lg text-slate-400 hover:text-blue-500 hover:bg-white"><Pencil size={14} /></button>
+                  <button onClick={() => handleDeleteRule(rule.id)} className="p-1 rounded-lg text-slate-400 hover:text-rose-500 hover:bg-white"><Trash2 size={14} /></button>
+                </div>
+              ))}
+              {rules.length === 0 && <p className="text-sm text-slate-400 text-center py-4">{t('alerts.rules.empty')}</p>}
+            </div>
+
+            <div className="bg-slate-50 rounded-2xl p-5 border border-slate-100">
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-3">{t(draft.id ? 'alerts.rules.edit' : 'alerts.rules.new')}</p>
+              <div className="grid grid-cols-1 gap-3">
+                <select value={draft.match} onChange={(e) => setDraft(prev => ({ ...prev, match: e.target.value as ChannelRuleMatch }))} className={fieldClass}>
+                  {CHANNEL_RULE_MATCHES.map(option => <option key={option.value} value={option.value}>{t(option.label)}</option>)}
+                </select>
+                <div className="flex gap-3">
+                  <input
+                    value={draft.pattern}
+                    onChange={(e) => setDraft(prev => ({ ...prev, pattern: e.target.value }))}
+                    placeholder={t(draft.match === 'utm' ? 'channels.placeholder.utmSource' : draft.match === 'regex' ? 'channels.placeholder.regex' : 'channels.placeholder.raw')}
+                    className={`${fieldClass} flex-1 min-w-0`}
+                  />
+                  {draft.match === 'utm' && (
+                    <input
+                      value={draft.medium}
+                      onChange={(e) => setDraft(prev => ({ ...prev, medium: e.target.value }))}
+                      placeholder={t('channels.placeholder.utmMedium')}
+                      className={`${fieldClass} flex-1 min-w-0`}
+                    />
+                  )}
+                </div>
+                <input
+                  list="channel-taxonomy-nodes"
+                  value={draft.channel}
+                  onChange={(e) => setDraft(prev => ({ ...prev, channel: e.target.value }))}
+                  placeholder={t('channels.placeholder.channel')}
+                  className={fieldClass}
+                />
+                <datalist id="channel-taxonomy-nodes">
+                  {nodeNames.map(name => <option key={name} value={name} />)}
+                </datalist>
+              </div>
+              <div className="flex items-center justify-end gap-2 mt-3">
+                {draftError && (draft.pattern || draft.channel) && <p className="flex-1 text-xs font-semibold text-rose-500">{draftError}</p>}
+                {draft.id && <button onClick={() => setDraft(emptyRule())} className="px-3 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-white">{t('alerts.rules.cancelEdit')}</button>}
+                <button
+                  onClick={handleSubmitRule}
+                  disabled={!!draftError}
+                  className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-semibold transition-all ${!draftError ? 'bg-white border border-slate-200 text-blue-600 hover:border-blue-200' : 'text-slate-300 cursor-not-allowed'}`}
+                >
+                  <Plus size={14} /> {t(draft.id ? 'alerts.rules.update' : 'alerts.rules.add')}
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-3">{t('channels.hierarchy')}</p>
+            <div className="space-y-1 mb-4">
+              {tree.map(({ node, depth }) => (
+                <div key={node.name} className="group flex items-center gap-2 px-3 py-2 rounded-xl hover:bg-slate-50" style={{ paddingLeft: `${0.75 + depth * 1.25}rem` }}>
+                  {depth > 0 && <CornerDownRight size={14} className="text-slate-300 shrink-0" />}
+                  <button onClick={() => setNodeDraft(node)} className="flex-1 min-w-0 text-left text-sm font-semibold text-slate-700 truncate" title={getChannelPath(nodes, node.name).join(' → ')}>
+                    {node.name}
+                  </button>
+                  <button onClick={() => handleDeleteNode(node.name)} title={t('channels.removeNode')} className="p-1 rounded-lg text-slate-300 opacity-0 group-hover:opacity-100 hover:text-rose-500 hover:bg-white">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+              {nodes.length === 0 && <p className="text-sm text-slate-400 text-center py-4">{t('channels.hierarchyEmpty')}</p>}
+            </div>
+            <div className="bg-slate-50 rounded-2xl p-5 border border-slate-100 mb-6">
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-3">{t('channels.node')}</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <input
+                  value={nodeDraft.name}
+                  onChange={(e) => setNodeDraft(prev => ({ ...prev, name: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAddNode()}
+                  placeholder={t('channels.placeholder.node')}
+                  className={fieldClass}
+                />
+                <select value={nodeDraft.parent} onChange={(e) => setNodeDraft(prev => ({ ...prev, parent: e.target.value }))} className={fieldClass}>
+                  <option value="">{t('channels.topLevel')}</option>
+                  {parentOptions.map(name => <option key={name} value={name}>{t('channels.below', { name })}</option>)}
+                </select>
+              </div>
+              <div className="flex justify-end mt-3">
+                <button
+                  onClick={handleAddNode}
+                  disabled={!nodeDraft.name.trim()}
+                  className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-semibold transition-all ${nodeDraft.name.trim() ? 'bg-white border border-slate-200 text-blue-600 hover:border-blue-200' : 'text-slate-300 cursor-not-allowed'}`}
+                >
+                  <Plus size={14} /> {t(nodes.some(node => node.name === nodeDraft.name.trim()) ? 'channels.updateNode' : 'channels.addNode')}
+                </button>
+              </div>
+            </div>
+
+            <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-3">
+              {t('channels.unmapped', { count: unmapped.length })}
+            </p>
+            {unmapped.length > 0 ? (
+              <div className="space-y-1">
+                {unmapped.slice(0, UNMAPPED_LIMIT).map(item => (
+                  <div key={item.value} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-amber-50 border border-amber-100">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-slate-700 truncate" title={item.value}>{item.value}</p>
+                      <p className="text-xs font-medium text-slate-500">{tn('records.count', item.count, { count: formatNumber(item.count) })} • {formatCurrency(item.revenue)}</p>
+                    </div>
+                    <button
+                      onClick={() => setDraft({ ...emptyRule(), match: 'exact', pattern: item.value })}
+                      title={t('channels.createRule')}
+                      className="p-1.5 rounded-lg text-amber-600 hover:bg-white"
+                    >
+                      <Wand2 size={14} />
+                    </button>
+                  </div>
+                ))}
+                {unmapped.length > UNMAPPED_LIMIT && (
+                  <p className="text-xs font-medium text-slate-400 px-3 pt-1">{tn('channels.moreOrigins', unmapped.length - UNMAPPED_LIMIT)}</p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-400 text-center py-4">{t('channels.allMapped')}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-slate-50">{t('common.cancel')}</button>
+          <button onClick={() => onSave({ rules, nodes })} className="px-4 py-2 rounded-xl text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 transition-all">
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChannelTaxonomyEditor;
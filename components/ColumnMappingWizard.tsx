@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Columns, Save, Trash2, X } from 'lucide-react';
+import { CSVTable, ColumnMapping, DateFormat, DecimalSeparator, MappedField, MappingProfile, ParseOptions } from '../types';
+import { MAPPED_FIELDS, applyColumnMapping, getMappedFieldLabel } from '../services/columnMapping';
+import { deleteMappingProfile, loadMappingProfiles } from '../services/mappingProfiles';
+import { formatNumber } from '../utils/formatters';
+import { t, tn } from '../utils/i18n';
+
+interface ColumnMappingWizardProps {
+  fileName: string;
+  table: CSVTable;
+  initialMapping: ColumnMapping;
+  initialOptions?: ParseOptions;
+  initialProfileName?: string;
+  issues?: string[];
+  onApply: (mapping: ColumnMapping, options: ParseOptions, profileName: string | null) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({
+  fileName, table, initialMapping, initialOptions = {}, initialProfileName = '', issues = [], onApply, onCancel
+}) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [options, setOptions] = useState<ParseOptions>(initialOptions);
+  const [saveProfile, setSaveProfile] = useState(true);
+  const [profileName, setProfileName] = useState(initialProfileName || fileName.replace(/\.[^.]+$/, ''));
+  const [profiles, setProfiles] = useState<MappingProfile[]>(loadMappingProfiles);
+
+  const fieldByColumn = useMemo(() => {
+    const result: Record<string, MappedField[]> = {};
+    MAPPED_FIELDS.forEach(({ key }) => {
+      const column = mapping[key];
+      if (column >= 0) result[column] = [...(result[column] || []), key];
+    });
+    return result;
+  }, [mapping]);
+
+  const missingRequired = MAPPED_FIELDS.filter(f => f.required && mapping[f.key] < 0);
+  const duplicatedColumns = Object.keys(fieldByColumn).some(column => fieldByColumn[column].length > 1);
+
+  const previewRecords = useMemo(() => {
+    if (missingRequired.length > 0) return [];
+    return applyColumnMapping(table, mapping, options);
+  }, [table, mapping, options, missingRequired.length]);
+
+  const canApply = missingRequired.length === 0 && previewRecords.length > 0 && (!saveProfile || profileName.trim() !== '');
+
+  const handleDeleteProfile = (name: string) => {
+    setProfiles(deleteMappingProfile(name));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-xl border border-slate-100 w-full max-w-5xl max-h-[90vh] overflow-y-auto p-8">
+        <div className="flex items-start justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 bg-blue-50 rounded-xl">
+              <Columns className="text-blue-600" size={24} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-800">{t('mapping.title')}</h2>
+              <p className="text-sm text-slate-400 font-medium truncate max-w-md">{fileName}</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-1.5 rounded-full text-slate-400 hover:bg-slate-100"><X size={18} /></button>
+        </div>
+
+        {issues.length > 0 && (
+          <div className="mb-6 p-4 rounded-2xl bg-amber-50 border border-amber-100">
+            <p className="text-sm font-bold text-amber-700 flex items-center gap-2 mb-1"><AlertTriangle size={16} /> {t('mapping.ambiguous')}</p>
+            {issues.map(issue => <p key={issue} className="text-xs font-medium text-amber-700">{issue}</p>)}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          {MAPPED_FIELDS.map(field => (
+            <label key={field.key} className="flex flex-col gap-1">
+              <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{t(field.label)}{field.required && ' *'}</span>
+              <select
+                value={mapping[field.key]}
+                onChange={(e) => setMapping(prev => ({ ...prev, [field.key]: parseInt(e.target.value) }))}
+                className={`bg-slate-50 border text-sm font-semibold text-slate-700 p-2.5 rounded-xl outline-none focus:ring-2 focus:ring-blue-500 ${field.required && mapping[field.key] < 0 ? 'border-rose-200' : 'border-slate-200'}`}
+              >
+                <option value={-1}>{t('mapping.none')}</option>
+                {table.headers.map((header, index) => <option key={index} value={index}>{header || t('mapping.column', { index: index + 1 })}</option>)}
+              </select>
+            </label>
+          ))}
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{t('mapping.dateFormat')}</span>
+            <select
+              value={options.dateFormat || ''}
+              onChange={(e) => setOptions(prev => ({ ...prev, dateFormat: (e.target.value || undefined) as DateFormat | undefined }))}
+              className="bg-slate-50 border border-slate-200 text-sm font-semibold text-slate-700 p-2.5 rounded-xl outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">{t('mapping.autoDetect')}</option>
+              <option value="DMY">{t('mapping.dateFormat.DMY')}</option>
+              <option value="MDY">{t('mapping.dateFormat.MDY')}</option>
+              <option value="YMD">{t('mapping.dateFormat.YMD')}</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{t('mapping.decimalSeparator')}</span>
+            <select
+              value={options.decimalSeparator || ''}
+              onChange={(e) => setOptions(prev => ({ ...prev, decimalSeparator: (e.target.value || undefined) as DecimalSeparator | undefined }))}
+              className="bg-slate-50 border border-slate-200 text-sm font-semibold text-slate-700 p-2.5 rounded-xl outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">{t('mapping.autoDetect')}</option>
+              <option value=",">{t('mapping.decimal.comma')}</option>
+              <option value=".">{t('mapping.decimal.dot')}</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="overflow-x-auto rounded-2xl border border-slate-100 mb-6">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50">
+              <tr>
+                {table.headers.map((header, index) => (
+                  <th key={index} className="text-left p-3 align-top">
+                    <p className="font-bold text-slate-700 whitespace-nowrap">{header || t('mapping.column', { index: index + 1 })}</p>
+                    {(fieldByColumn[index] || []).map(field => (
+                      <span key={field} className={`inline-block mt-1 mr-1 px-2 py-0.5 rounded-full text-[10px] font-bold ${fieldByColumn[index].length > 1 ? 'bg-rose-50 text-rose-600' : 'bg-blue-50 text-blue-600'}`}>
+                        {getMappedFieldLabel(field)}
+                      </span>
+                    ))}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-t border-slate-50">
+                  {table.headers.map((_, index) => (
+                    <td key={index} className={`p-3 whitespace-nowrap ${fieldByColumn[index] ? 'text-slate-700 font-medium' : 'text-slate-300'}`}>{row[index]}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {duplicatedColumns && <p className="text-xs font-semibold text-rose-600 mb-4">{t('mapping.duplicated')}</p>}
+
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-600">
+              <input type="checkbox" checked={saveProfile} onChange={(e) => setSaveProfile(e.target.checked)} />
+              <Save size={16} className="text-slate-400" /> {t('mapping.saveProfile')}
+            </label>
+            {saveProfile && (
+              <input
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder={t('mapping.profileName')}
+                className="bg-slate-50 border border-slate-200 text-sm font-semibold text-slate-700 px-3 py-2 rounded-xl outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="text-xs font-medium text-slate-400">{tn('mapping.validRecords', previewRecords.length, { count: formatNumber(previewRecords.length) })}</span>
+            <button onClick={onCancel} className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-slate-50">{t('common.cancel')}</button>
+            <button
+              onClick={() => onApply(mapping, options, saveProfile ? profileName.trim() : null)}
+              disabled={!canApply}
+              className={`px-4 py-2 rounded-xl text-sm font-semibold text-white transition-all ${canApply ? 'bg-blue-600 hover:bg-blue-700' : 'bg-slate-300 cursor-not-allowed'}`}
+            >
+              {t('mapping.apply')}
+            </button>
+          </div>
+        </div>
+
+        {profiles.length > 0 && (
+          <div className="mt-8 pt-6 border-t border-slate-100">
+            <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-3">{t('mapping.profiles')}</p>
+            <div className="flex flex-wrap gap-2">
+              {profiles.map(profile => (
+                <span key={profile.name} className="flex items-center gap-2 bg-slate-50 border border-slate-100 px-3 py-1.5 rounded-xl text-xs font-semibold text-slate-600">
+                  {profile.name}
+                  <button onClick={() => handleDeleteProfile(profile.name)} className="text-slate-300 hover:text-rose-500"><Trash2 size={12} /></button>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingWizard;
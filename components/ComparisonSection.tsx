@@ -0,0 +1,234 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRightLeft, ListPlus, Star, Trophy, X } from 'lucide-react';
+import {
+  ResponsiveContainer, RadarChart, PolarGrid, PolarAngleAxis, Radar, Legend, Tooltip,
+  LineChart, Line, XAxis, YAxis, CartesianGrid
+} from 'recharts';
+import { AbcClass, ComparisonDimension, ComparisonItem, ComparisonSelection, ComparisonTimelineRow } from '../types';
+import { COMPARISON_DIMENSIONS, COMPARISON_METRICS, buildComparisonDelta } from '../utils/comparison';
+import { formatCompactCurrency, formatCurrency } from '../utils/formatters';
+import { t } from '../utils/i18n';
+import AbcBadge from './AbcBadge';
+
+interface ComparisonSectionProps {
+  selection: ComparisonSelection;
+  options: Record<ComparisonDimension, string[]>;
+  items: ComparisonItem[];
+  timeline: ComparisonTimelineRow[];
+  productClasses: Record<string, AbcClass>;
+  onChange: (selection: ComparisonSelection) => void;
+}
+
+const COLORS = ['#3b82f6', '#6366f1', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981', '#ef4444'];
+
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const ComparisonSection: React.FC<ComparisonSectionProps> = ({ selection, options, items, timeline, productClasses, onChange }) => {
+  const [search, setSearch] = useState('');
+  const available = options[selection.dimension].filter(option => !selection.items.includes(option));
+  const reference = items.find(item => item.name === selection.reference);
+  const colorOf = (name: string) => COLORS[Math.max(0, selection.items.indexOf(name)) % COLORS.length];
+  const isProduct = selection.dimension === 'produto';
+
+  const setItems = (nextItems: string[]) => {
+    const nextReference = nextItems.includes(selection.reference) ? selection.reference : nextItems[0] || '';
+    onChange({ ...selection, items: nextItems, reference: nextReference });
+  };
+
+  const handleDimensionChange = (dimension: ComparisonDimension) => {
+    if (dimension === selection.dimension) return;
+    const nextItems = options[dimension].slice(0, 2);
+    onChange({ dimension, items: nextItems, reference: nextItems[0] || '' });
+  };
+
+  // Adiciona de uma vez todos os itens cujo nome contém o termo (ex: uma família de cursos)
+  const handleAddMatching = () => {
+    const term = normalize(search.trim());
+    if (!term) return;
+    const matches = available.filter(option => normalize(option).includes(term));
+    if (matches.length > 0) setItems([...selection.items, ...matches]);
+    setSearch('');
+  };
+
+  const bestByMetric = useMemo(() => {
+    const best: Record<string, string> = {};
+    if (items.length < 2) return best;
+    COMPARISON_METRICS.forEach(metric => {
+      const winner = items.reduce((acc, item) => {
+        const better = metric.higherIsBetter ? item[metric.key] > acc[metric.key] : item[metric.key] < acc[metric.key];
+        return better ? item : acc;
+      });
+      if (winner[metric.key] > 0 || !metric.higherIsBetter) best[metric.key] = winner.name;
+    });
+    return best;
+  }, [items]);
+
+  // Cada eixo do radar é relativo ao maior valor entre os itens (0 a 100)
+  const radarData = useMemo(() => {
+    return COMPARISON_METRICS.map(metric => {
+      const max = Math.max(...items.map(item => item[metric.key]), 0);
+      const row: Record<string, string | number> = { metric: t(metric.label) };
+      items.forEach(item => { row[item.name] = max > 0 ? (item[metric.key] / max) * 100 : 0; });
+      return row;
+    });
+  }, [items]);
+
+  return (
+    <section className="mb-12 bg-white rounded-3xl p-8 border border-slate-100 shadow-sm">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2.5 bg-blue-50 rounded-xl">
+            <ArrowRightLeft className="text-blue-600" size={24} />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">{t(isProduct ? 'comparison.title.products' : 'comparison.title.channels')}</h2>
+            <p className="text-sm text-slate-400 font-medium">{t('comparison.subtitle')}</p>
+          </div>
+        </div>
+        <div className="flex bg-slate-50 border border-slate-200 rounded-xl p-1">
+          {COMPARISON_DIMENSIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => handleDimensionChange(option.value)}
+              className={`px-3 py-1.5 text-xs font-bold rounded-lg transition-all ${selection.dimension === option.value ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {t(option.label)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        {selection.items.map(name => (
+          <span key={name} className={`flex items-center gap-1.5 pl-3 pr-1 py-1 rounded-full border text-xs font-bold ${name === selection.reference ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-slate-50 border-slate-200 text-slate-600'}`}>
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: colorOf(name) }} />
+            <span className="max-w-[180px] truncate">{name}</span>
+            {isProduct && <AbcBadge abcClass={productClasses[name]} />}
+            <button onClick={() => onChange({ ...selection, reference: name })} title={t('comparison.setReference')} className="p-0.5 rounded-full hover:bg-white">
+              <Star size={12} className={name === selection.reference ? 'fill-blue-500 text-blue-500' : 'text-slate-400'} />
+            </button>
+            <button onClick={() => setItems(selection.items.filter(item => item !== name))} title={t('common.remove')} className="p-0.5 rounded-full text-slate-400 hover:text-rose-500 hover:bg-white">
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+        {available.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && setItems([...selection.items, e.target.value])}
+            className="bg-slate-50 border border-slate-200 text-xs font-bold text-slate-600 px-2 py-1.5 rounded-full outline-none"
+          >
+            <option value="">{t(isProduct ? 'comparison.addProduct' : 'comparison.addChannel')}</option>
+            {available.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        )}
+        <div className="flex items-center gap-1 bg-slate-50 border border-slate-200 rounded-full pl-3 pr-1 py-0.5">
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddMatching()}
+            placeholder={t('comparison.addMatching')}
+            className="bg-transparent text-xs font-semibold text-slate-600 outline-none w-44"
+          />
+          <button onClick={handleAddMatching} title={t('comparison.addMatches')} className="p-1 rounded-full text-slate-400 hover:text-blue-500 hover:bg-white"><ListPlus size={14} /></button>
+        </div>
+        {selection.items.length > 0 && (
+          <button onClick={() => setItems([])} className="text-xs font-semibold text-slate-400 hover:text-rose-500">{t('comparison.clear')}</button>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-8">{t(isProduct ? 'comparison.empty.product' : 'comparison.empty.channel')}</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto mb-8">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">
+                  <th className="text-left py-2 pr-4">{t(isProduct ? 'filters.product' : 'filters.channel')}</th>
+                  {COMPARISON_METRICS.map(metric => <th key={metric.key} className="text-right py-2 px-3">{t(metric.label)}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(item => (
+                  <tr key={item.name} className={`border-t border-slate-100 ${item.name === selection.reference ? 'bg-blue-50/50' : ''}`}>
+                    <td className="py-3 pr-4">
+                      <div className="flex items-center gap-2 font-bold text-slate-700">
+                        <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: colorOf(item.name) }} />
+                        <span className="truncate max-w-[220px]">{item.name}</span>
+                        {isProduct && <AbcBadge abcClass={productClasses[item.name]} />}
+                        {item.name === selection.reference && <span className="text-[10px] font-bold text-blue-500 uppercase">{t('comparison.reference')}</span>}
+                      </div>
+                    </td>
+                    {COMPARISON_METRICS.map(metric => {
+                      const delta = reference && item.name !== reference.name ? buildComparisonDelta(metric.key, item[metric.key], reference[metric.key]) : null;
+                      return (
+                        <td key={metric.key} className="py-3 px-3 text-right align-top">
+                          <div className="flex items-center justify-end gap-1.5 font-bold text-slate-800">
+                            {bestByMetric[metric.key] === item.name && <Trophy size={12} className="text-emerald-500" />}
+                            {metric.format(item[metric.key])}
+                          </div>
+                          {delta && (
+                            <p className={`text-[11px] font-semibold ${delta.positive ? 'text-emerald-600' : 'text-rose-500'}`}>
+                              {delta.absolute}{delta.percent && ` (${delta.percent})`}
+                            </p>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="bg-slate-50 rounded-2xl p-4">
+              <h4 className="text-[10px] font-bold text-slate-500 mb-2 text-center uppercase tracking-widest">{t('comparison.radar')}</h4>
+              <div className="h-[280px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <RadarChart data={radarData} outerRadius="70%">
+                    <PolarGrid stroke="#e2e8f0" />
+                    <PolarAngleAxis dataKey="metric" tick={{ fill: '#64748b', fontSize: 11, fontWeight: 600 }} />
+                    {items.map(item => (
+                      <Radar key={item.name} name={item.name} dataKey={item.name} stroke={colorOf(item.name)} fill={colorOf(item.name)} fillOpacity={item.name === selection.reference ? 0.25 : 0.08} />
+                    ))}
+                    <Tooltip formatter={(val: any) => `${Math.round(val as number)}`} />
+                    <Legend iconType="circle" />
+                  </RadarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+            <div className="bg-slate-50 rounded-2xl p-4">
+              <h4 className="text-[10px] font-bold text-slate-500 mb-2 text-center uppercase tracking-widest">{t('comparison.timeline')}</h4>
+              <div className="h-[280px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={timeline}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                    <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#94a3b8', fontSize: 11 }} />
+                    <YAxis axisLine={false} tickLine={false} tick={{ fill: '#94a3b8', fontSize: 11 }} tickFormatter={(val) => formatCompactCurrency(val)} />
+                    <Tooltip formatter={(val: any) => formatCurrency(val as number)} />
+                    {items.map(item => (
+                      <Line
+                        key={item.name}
+                        type="monotone"
+                        name={item.name}
+                        dataKey={(row: ComparisonTimelineRow) => row.values[item.name] || 0}
+                        stroke={colorOf(item.name)}
+                        strokeWidth={item.name === selection.reference ? 3 : 2}
+                        dot={false}
+                      />
+                    ))}
+                    <Legend iconType="circle" />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default ComparisonSection;
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Coins, Plus, Trash2, X } from 'lucide-react';
+import { CurrencySettings } from '../types';
+import { CURRENCIES, getCurrencySettingsError, normalizeCurrencyCode } from '../utils/currency';
+import { formatNumber } from '../utils/formatters';
+import { t, tn } from '../utils/i18n';
+
+interface CurrencySettingsEditorProps {
+  settings: CurrencySettings;
+  // Moedas presentes nos registros e registros sem taxa por moeda, calculados com as configurações atuais
+  dataCurrencies: string[];
+  missing: Record<string, number>;
+  onSave: (settings: CurrencySettings) => void;
+  onClose: () => void;
+}
+
+// Taxas ficam como texto durante a edição para aceitar vírgula e campos vazios
+const toRateInputs = (rates: Record<string, number>): Record<string, string> => {
+  return Object.fromEntries(Object.entries(rates).map(([code, rate]) => [code, String(rate)]));
+};
+
+const CurrencySettingsEditor: React.FC<CurrencySettingsEditorProps> = ({ settings, dataCurrencies, missing, onSave, onClose }) => {
+  const [display, setDisplay] = useState(settings.display);
+  const [base, setBase] = useState(settings.base);
+  const [rateInputs, setRateInputs] = useState<Record<string, string>>(() => toRateInputs(settings.rates));
+  const [newCode, setNewCode] = useState('');
+
+  // Moedas dos dados e a de exibição sempre aparecem na tabela, mesmo sem taxa
+  const rateCodes = Array.from(new Set([...dataCurrencies, ...Object.keys(rateInputs), display]))
+    .filter(code => code && code !== base)
+    .sort();
+  const currencyOptions = Array.from(new Set([...CURRENCIES, ...dataCurrencies, ...Object.keys(rateInputs), display, base])).sort();
+
+  const rates = Object.fromEntries(
+    Object.entries<string>(rateInputs)
+      .filter(([code, value]) => code !== base && value.trim() !== '')
+      .map(([code, value]) => [code, parseFloat(value.replace(',', '.'))])
+  );
+  const draft: CurrencySettings = { display, base, rates };
+  const error = getCurrencySettingsError(draft);
+  const missingCodes = Object.keys(missing);
+
+  const handleAddCode = () => {
+    const code = normalizeCurrencyCode(newCode);
+    if (!code || code === base) return;
+    setRateInputs(prev => ({ ...prev, [code]: prev[code] || '' }));
+    setNewCode('');
+  };
+
+  const handleRemoveCode = (code: string) => {
+    setRateInputs(prev => {
+      const next = { ...prev };
+      delete next[code];
+      return next;
+    });
+  };
+
+  const fieldClass = 'bg-white border border-slate-200 text-sm font-semibold text-slate-700 px-3 py-2.5 rounded-xl outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-xl border border-slate-100 w-full max-w-xl max-h-[90vh] overflow-y-auto p-8">
+        <div className="flex items-start justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 bg-blue-50 rounded-xl">
+              <Coins className="text-blue-600" size={24} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-800">{t('display.title')}</h2>
+              <p className="text-sm text-slate-400 font-medium">{t('display.subtitle')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:bg-slate-100"><X size={18} /></button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <label className="flex flex-col gap-1.5">
+            <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{t('display.currency')}</span>
+            <select value={display} onChange={(e) => setDisplay(e.target.value)} className={fieldClass}>
+              {currencyOptions.map(code => <option key={code} value={code}>{code}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1.5">
+            <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{t('display.baseCurrency')}</span>
+            <select value={base} onChange={(e) => setBase(e.target.value)} className={fieldClass}>
+              {currencyOptions.map(code => <option key={code} value={code}>{code}</option>)}
+            </select>
+            <span className="text-[11px] font-medium text-slate-400">{t('display.baseHint')}</span>
+          </label>
+        </div>
+
+        <div className="bg-slate-50 rounded-2xl p-5 border border-slate-100 mb-6">
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-1">{t('display.rates')}</p>
+          <p className="text-xs font-medium text-slate-400 mb-3">{t('display.ratesHint', { base })}</p>
+          {rateCodes.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-3">{t('display.noRates', { base })}</p>
+          ) : (
+            <div className="space-y-2">
+              {rateCodes.map(code => (
+                <div key={code} className="flex items-center gap-3">
+                  <span className="w-24 text-sm font-bold text-slate-700">1 {code} =</span>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={rateInputs[code] || ''}
+                    onChange={(e) => setRateInputs(prev => ({ ...prev, [code]: e.target.value }))}
+                    className={`${fieldClass} flex-1 ${missing[code] && !rateInputs[code] ? 'border-amber-300' : ''}`}
+                  />
+                  <span className="w-12 text-sm font-semibold text-slate-500">{base}</span>
+                  <button onClick={() => handleRemoveCode(code)} title={t('common.remove')} className="p-1.5 rounded-lg text-slate-400 hover:text-rose-500 hover:bg-white">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-2 mt-4">
+            <input
+              type="text"
+              value={newCode}
+              maxLength={3}
+              onChange={(e) => setNewCode(e.target.value.toUpperCase())}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddCode()}
+              placeholder="USD"
+              className={`${fieldClass} w-24 uppercase`}
+            />
+            <button
+              onClick={handleAddCode}
+              disabled={!normalizeCurrencyCode(newCode)}
+              className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-semibold transition-all ${normalizeCurrencyCode(newCode) ? 'bg-white border border-slate-200 text-blue-600 hover:border-blue-200' : 'text-slate-300 cursor-not-allowed'}`}
+            >
+              <Plus size={14} /> {t('display.addRate')}
+            </button>
+          </div>
+          {dataCurrencies.length > 0 && (
+            <p className="text-[11px] font-medium text-slate-400 mt-3">{t('display.dataCurrencies', { codes: dataCurrencies.join(', ') })}</p>
+          )}
+        </div>
+
+        {missingCodes.length > 0 && (
+          <div className="flex items-start gap-2 mb-6 px-4 py-3 rounded-2xl bg-amber-50 border border-amber-100 text-xs font-semibold text-amber-700">
+            <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+            <div className="space-y-0.5">
+              {missingCodes.map(code => (
+                <p key={code}>{tn('display.missingDetail', missing[code], { count: formatNumber(missing[code]), code })}</p>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-xs font-semibold text-rose-500 mb-4 text-right">{error}</p>}
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-slate-50">{t('common.cancel')}</button>
+          <button
+            onClick={() => !error && onSave(draft)}
+            disabled={!!error}
+            className={`px-4 py-2 rounded-xl text-sm font-semibold transition-all ${error ? 'bg-slate-100 text-slate-300 cursor-not-allowed' : 'text-white bg-blue-600 hover:bg-blue-700'}`}
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CurrencySettingsEditor;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Database, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { DataSource, DataSourceType } from '../types';
+import { buildSourceUrl, createSourceId } from '../services/dataSources';
+import { t } from '../utils/i18n';
+
+interface DataSourceSettingsProps {
+  sources: DataSource[];
+  activeIds: string[];
+  onSave: (sources: DataSource[], activeIds: string[]) => void;
+  onClose: () => void;
+}
+
+const TYPE_LABELS: Record<DataSourceType, string> = {
+  'google-sheet': 'Google Sheets',
+  'csv-url': 'CSV (URL)',
+  'json-url': 'JSON (API)',
+};
+
+const emptyDraft = (): DataSource => ({ id: '', name: '', type: 'google-sheet', sheetId: '', sheet: '', url: '' });
+
+const DataSourceSettings: React.FC<DataSourceSettingsProps> = ({ sources, activeIds, onSave, onClose }) => {
+  const [items, setItems] = useState<DataSource[]>(sources);
+  const [active, setActive] = useState<string[]>(activeIds);
+  const [draft, setDraft] = useState<DataSource>(emptyDraft);
+
+  const isDraftValid = draft.name.trim() !== '' && (draft.type === 'google-sheet' ? !!draft.sheetId?.trim() : !!draft.url?.trim());
+
+  const handleSubmitDraft = () => {
+    if (!isDraftValid) return;
+    const source: DataSource = {
+      id: draft.id || createSourceId(),
+      name: draft.name.trim(),
+      type: draft.type,
+      ...(draft.type === 'google-sheet'
+        ? { sheetId: draft.sheetId?.trim(), sheet: draft.sheet?.trim() }
+        : { url: draft.url?.trim() })
+    };
+    setItems(prev => draft.id ? prev.map(s => s.id === draft.id ? source : s) : [...prev, source]);
+    setDraft(emptyDraft());
+  };
+
+  const handleDelete = (id: string) => {
+    setItems(prev => prev.filter(s => s.id !== id));
+    setActive(prev => prev.filter(activeId => activeId !== id));
+    if (draft.id === id) setDraft(emptyDraft());
+  };
+
+  const toggleActive = (id: string) => {
+    setActive(prev => prev.includes(id) ? prev.filter(activeId => activeId !== id) : [...prev, id]);
+  };
+
+  const canSave = items.length > 0 && active.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-xl border border-slate-100 w-full max-w-3xl max-h-[90vh] overflow-y-auto p-8">
+        <div className="flex items-start justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 bg-blue-50 rounded-xl">
+              <Database className="text-blue-600" size={24} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-800">{t('sources.title')}</h2>
+              <p className="text-sm text-slate-400 font-medium">{t('sources.subtitle')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:bg-slate-100"><X size={18} /></button>
+        </div>
+
+        <div className="space-y-2 mb-8">
+          {items.map(source => (
+            <div key={source.id} className={`flex items-center gap-3 p-3 rounded-2xl border ${active.includes(source.id) ? 'bg-blue-50 border-blue-100' : 'bg-slate-50 border-slate-100'}`}>
+              <input type="checkbox" checked={active.includes(source.id)} onChange={() => toggleActive(source.id)} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-bold text-slate-700">{source.name}</p>
+                <p className="text-xs text-slate-400 font-medium truncate">{TYPE_LABELS[source.type]} • {buildSourceUrl(source)}</p>
+              </div>
+              <button onClick={() => setDraft({ ...emptyDraft(), ...source })} className="p-1.5 rounded-lg text-slate-400 hover:text-blue-500 hover:bg-white"><Pencil size={14} /></button>
+              <button onClick={() => handleDelete(source.id)} className="p-1.5 rounded-lg text-slate-400 hover:text-rose-500 hover:bg-white"><Trash2 size={14} /></button>
+            </div>
+          ))}
+          {items.length === 0 && <p className="text-sm text-slate-400 text-center py-4">{t('sources.empty')}</p>}
+        </div>
+
+        <div className="bg-slate-50 rounded-2xl p-5 border border-slate-100 mb-6">
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-3">{draft.id ? t('sources.edit') : t('sources.new')}</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              placeholder={t('sources.name')}
+              className="bg-white border border-slate-200 text-sm font-semibold text-slate-700 px-3 py-2.5 rounded-xl outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+              value={draft.type}
+              onChange={(e) => setDraft(prev => ({ ...prev, type: e.target.value as DataSourceType }))}
+              className="bg-white border border-slate-200 text-sm font-semibold text-slate-700 px-3 py-2.5 rounded-xl outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(TYPE_LABELS) as DataSourceType[]).map(type => <option key={type} value={type}>{TYPE_LABELS[type]}</option>)}
+            </select>
+            {draft.type === 'google-sheet' ? (
+              <>
+                <input
+                  value={draft.sheetId || ''}
+                  onChange={(e) => setDraft(prev => ({ ...prev, sheetId: e.target.value }))}
+                  placeholder={t('sources.sheetId')}
+                  className="bg-white border border-slate-200 text-sm font-semibold text-slate-700 px-3 py-2.5 rounded-xl outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <input
+                  value={draft.sheet || ''}
+                  onChange={(e) => setDraft(prev => ({ ...prev, sheet: e.target.value }))}
+                  placeholder={t('sources.sheet')}
+                  className="bg-white border border-slate-200 text-sm font-semibold text-slate-700 px-3 py-2.5 rounded-xl outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </>
+            ) : (
+              <input
+                value={draft.url || ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, url: e.target.value }))}
+                placeholder={draft.type === 'csv-url' ? t('sources.csvUrl') : t('sources.jsonUrl')}
+                className="md:col-span-2 bg-white border border-slate-200 text-sm font-semibold text-slate-700 px-3 py-2.5 rounded-xl outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            )}
+          </div>
+          <div className="flex justify-end gap-2 mt-3">
+            {draft.id && <button onClick={() => setDraft(emptyDraft())} className="px-3 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-white">{t('sources.cancelEdit')}</button>}
+            <button
+              onClick={handleSubmitDraft}
+              disabled={!isDraftValid}
+              className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-semibold transition-all ${isDraftValid ? 'bg-white border border-slate-200 text-blue-600 hover:border-blue-200' : 'text-slate-300 cursor-not-allowed'}`}
+            >
+              <Plus size={14} /> {draft.id ? t('sources.update') : t('sources.add')}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-slate-50">{t('common.cancel')}</button>
+          <button
+            onClick={() => onSave(items, active)}
+            disabled={!canSave}
+            className={`px-4 py-2 rounded-xl text-sm font-semibold text-white transition-all ${canSave ? 'bg-blue-600 hover:bg-blue-700' : 'bg-slate-300 cursor-not-allowed'}`}
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataSourceSettings;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Clock, RefreshCcw } from 'lucide-react';
+import { formatDateTime } from '../utils/formatters';
+import { t } from '../utils/i18n';
+
+interface DataStatusBadgeProps {
+  fetchedAt: Date | null;
+  // Dados exibidos vieram do cache e ainda não foram confirmados pela fonte
+  stale: boolean;
+  refreshing: boolean;
+}
+
+const formatFetchedAt = (date: Date): string => {
+  const time = formatDateTime(date, { hour: '2-digit', minute: '2-digit' });
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday ? time : `${formatDateTime(date, { day: '2-digit', month: '2-digit' })} ${time}`;
+};
+
+const DataStatusBadge: React.FC<DataStatusBadgeProps> = ({ fetchedAt, stale, refreshing }) => {
+  if (!fetchedAt) return null;
+  const title = t(refreshing ? 'dataStatus.refreshing' : stale ? 'dataStatus.stale' : 'dataStatus.synced');
+
+  return (
+    <span
+      title={title}
+      className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-bold border ${stale ? 'bg-amber-50 border-amber-200 text-amber-700' : 'bg-emerald-50 border-emerald-100 text-emerald-700'}`}
+    >
+      {refreshing ? <RefreshCcw size={12} className="animate-spin" /> : <Clock size={12} />}
+      {t('dataStatus.fetchedAt', { date: formatFetchedAt(fetchedAt) })}
+    </span>
+  );
+};
+
+export default DataStatusBadge;
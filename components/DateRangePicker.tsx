@@ -0,0 +1,53 @@
+import React from 'react';
+import { Calendar } from 'lucide-react';
+import { DatePreset, DateRange } from '../types';
+import { DATE_PRESETS } from '../utils/dateRanges';
+import { getMonthName } from '../utils/formatters';
+import { t } from '../utils/i18n';
+
+interface DateRangePickerProps {
+  range: DateRange;
+  months: string[];
+  onChange: (range: DateRange) => void;
+}
+
+const DateRangePicker: React.FC<DateRangePickerProps> = ({ range, months, onChange }) => {
+  const handlePresetChange = (preset: DatePreset) => {
+    onChange({ ...range, preset, month: preset === 'month' && !range.month ? months[0] || '' : range.month });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-white px-3 py-2 rounded-xl border border-slate-200 shadow-sm focus-within:ring-2 focus-within:ring-blue-500 transition-all">
+      <Calendar size={18} className="text-blue-500" />
+      <select value={range.preset} onChange={(e) => handlePresetChange(e.target.value as DatePreset)} className="bg-transparent border-none text-sm font-semibold text-slate-700 outline-none pr-4">
+        {DATE_PRESETS.map(preset => <option key={preset.value} value={preset.value}>{t(preset.label)}</option>)}
+      </select>
+      {range.preset === 'month' && (
+        <select value={range.month} onChange={(e) => onChange({ ...range, month: e.target.value })} className="bg-slate-50 rounded-lg border-none text-sm font-semibold text-slate-700 outline-none px-2 py-1">
+          {months.map(m => <option key={m} value={m}>{getMonthName(`${m}-01`)}</option>)}
+        </select>
+      )}
+      {range.preset === 'custom' && (
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={range.start}
+            max={range.end || undefined}
+            onChange={(e) => onChange({ ...range, start: e.target.value })}
+            className="bg-slate-50 rounded-lg text-sm font-semibold text-slate-700 outline-none px-2 py-1"
+          />
+          <span className="text-xs font-bold text-slate-300">{t('dateRange.until')}</span>
+          <input
+            type="date"
+            value={range.end}
+            min={range.start || undefined}
+            onChange={(e) => onChange({ ...range, end: e.target.value })}
+            className="bg-slate-50 rounded-lg text-sm font-semibold text-slate-700 outline-none px-2 py-1"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DateRangePicker;
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FileImage, FileSpreadsheet, FileText, Table } from 'lucide-react';
+import { MessageKey, t } from '../utils/i18n';
+
+export type ExportFormat = 'records-csv' | 'aggregates-csv' | 'xlsx' | 'png' | 'pdf';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => Promise<void> | void;
+  disabled?: boolean;
+}
+
+const OPTIONS: { format: ExportFormat; label: MessageKey; icon: React.ReactNode }[] = [
+  { format: 'records-csv', label: 'export.records-csv', icon: <Table size={16} className="text-slate-400" /> },
+  { format: 'aggregates-csv', label: 'export.aggregates-csv', icon: <Table size={16} className="text-slate-400" /> },
+  { format: 'xlsx', label: 'export.xlsx', icon: <FileSpreadsheet size={16} className="text-emerald-500" /> },
+  { format: 'png', label: 'export.png', icon: <FileImage size={16} className="text-blue-500" /> },
+  { format: 'pdf', label: 'export.pdf', icon: <FileText size={16} className="text-rose-500" /> },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const handleSelect = async (format: ExportFormat) => {
+    setOpen(false);
+    setBusy(true);
+    try {
+      await onExport(format);
+    } catch (error) {
+      console.error('Error exporting dashboard:', error);
+      alert(t('export.error'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        disabled={disabled || busy}
+        className={`flex items-center gap-2 bg-white px-4 py-2 rounded-xl border border-slate-200 shadow-sm transition-all ${disabled || busy ? 'opacity-50 cursor-not-allowed' : 'hover:border-blue-200 hover:text-blue-600'}`}
+      >
+        <Download size={18} className={`text-slate-400 ${busy ? 'animate-bounce' : ''}`} />
+        <span className="text-sm font-semibold text-slate-600">{t(busy ? 'export.busy' : 'export.button')}</span>
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 bg-white rounded-2xl shadow-lg border border-slate-100 p-2 z-40">
+          {OPTIONS.map(option => (
+            <button
+              key={option.format}
+              onClick={() => handleSelect(option.format)}
+              className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-sm font-semibold text-slate-600 hover:bg-slate-50 text-left"
+            >
+              {option.icon}
+              {t(option.label)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
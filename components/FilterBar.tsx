@@ -0,0 +1,60 @@
+import React from 'react';
+import { BookOpen, CalendarRange, Share2 } from 'lucide-react';
+import { DashboardFilters } from '../types';
+import { ValueFilterKey, buildPeriodFilter, toggleFilterValue, togglePeriod } from '../utils/filters';
+import { getMonthName } from '../utils/formatters';
+import { t } from '../utils/i18n';
+
+interface FilterBarProps {
+  filters: DashboardFilters;
+  products: string[];
+  channels: string[];
+  months: string[];
+  onChange: (filters: DashboardFilters) => void;
+}
+
+const selectClass = 'bg-transparent border-none text-sm font-semibold text-slate-700 outline-none pr-4 max-w-[180px]';
+const wrapperClass = 'flex items-center gap-2 bg-white px-3 py-2 rounded-xl border border-slate-200 shadow-sm focus-within:ring-2 focus-within:ring-blue-500 transition-all';
+
+// Seletores que acrescentam valores aos filtros; os valores ativos aparecem como chips
+const FilterBar: React.FC<FilterBarProps> = ({ filters, products, channels, months, onChange }) => {
+  const addValue = (key: ValueFilterKey, value: string) => {
+    if (value && !filters[key].includes(value)) onChange(toggleFilterValue(filters, key, value));
+  };
+
+  const addMonth = (month: string) => {
+    const period = buildPeriodFilter(`${month}-01`, 'month');
+    if (period && !filters.periods.some(item => item.start === period.start && item.end === period.end)) onChange(togglePeriod(filters, period));
+  };
+
+  const availableProducts = products.filter(product => !filters.products.includes(product));
+  const availableChannels = channels.filter(channel => !filters.channels.includes(channel));
+
+  return (
+    <>
+      <div className={wrapperClass}>
+        <BookOpen size={18} className="text-blue-500" />
+        <select value="" onChange={(e) => addValue('products', e.target.value)} className={selectClass} disabled={availableProducts.length === 0}>
+          <option value="">{t(filters.products.length > 0 ? 'filters.addProduct' : 'filters.allProducts')}</option>
+          {availableProducts.map(product => <option key={product} value={product}>{product}</option>)}
+        </select>
+      </div>
+      <div className={wrapperClass}>
+        <Share2 size={18} className="text-blue-500" />
+        <select value="" onChange={(e) => addValue('channels', e.target.value)} className={selectClass} disabled={availableChannels.length === 0}>
+          <option value="">{t(filters.channels.length > 0 ? 'filters.addChannel' : 'filters.allChannels')}</option>
+          {availableChannels.map(channel => <option key={channel} value={channel}>{channel}</option>)}
+        </select>
+      </div>
+      <div className={wrapperClass}>
+        <CalendarRange size={18} className="text-blue-500" />
+        <select value="" onChange={(e) => e.target.value && addMonth(e.target.value)} className={selectClass} disabled={months.length === 0}>
+          <option value="">{t(filters.periods.length > 0 ? 'filters.addMonth' : 'filters.allMonths')}</option>
+          {months.map(month => <option key={month} value={month}>{getMonthName(`${month}-01`)}</option>)}
+        </select>
+      </div>
+    </>
+  );
+};
+
+export default FilterBar;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { BookOpen, CalendarRange, FilterX, Share2, X } from 'lucide-react';
+import { AbcClass, DashboardFilters, PeriodFilter } from '../types';
+import { EMPTY_FILTERS, ValueFilterKey, hasActiveFilters, toggleFilterValue, togglePeriod } from '../utils/filters';
+import { formatDateBounds } from '../utils/dateRanges';
+import { t } from '../utils/i18n';
+import AbcBadge from './AbcBadge';
+
+interface FilterChipsProps {
+  filters: DashboardFilters;
+  productClasses: Record<string, AbcClass>;
+  onChange: (filters: DashboardFilters) => void;
+}
+
+const Chip: React.FC<{ icon: React.ReactNode; label: string; title?: string; badge?: React.ReactNode; onRemove: () => void }> = ({ icon, label, title, badge, onRemove }) => (
+  <span title={title} className="flex items-center gap-1.5 pl-2.5 pr-1 py-1 rounded-full border bg-blue-50 border-blue-200 text-blue-700 text-xs font-bold">
+    {icon}
+    <span className="max-w-[180px] truncate">{label}</span>
+    {badge}
+    <button onClick={onRemove} title={t('filters.remove')} className="p-0.5 rounded-full text-blue-400 hover:text-rose-500 hover:bg-white">
+      <X size={12} />
+    </button>
+  </span>
+);
+
+const FilterChips: React.FC<FilterChipsProps> = ({ filters, productClasses, onChange }) => {
+  if (!hasActiveFilters(filters)) return null;
+
+  const removeValue = (key: ValueFilterKey, value: string) => onChange(toggleFilterValue(filters, key, value));
+  const removePeriod = (period: PeriodFilter) => onChange(togglePeriod(filters, period));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 -mt-5 mb-8 px-1">
+      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mr-1">{t('filters.active')}</span>
+      {filters.products.map(product => (
+        <Chip key={`product-${product}`} icon={<BookOpen size={12} />} label={product} badge={<AbcBadge abcClass={productClasses[product]} />} onRemove={() => removeValue('products', product)} />
+      ))}
+      {filters.channels.map(channel => (
+        <Chip key={`channel-${channel}`} icon={<Share2 size={12} />} label={channel} onRemove={() => removeValue('channels', channel)} />
+      ))}
+      {filters.periods.map(period => (
+        <Chip key={`period-${period.start}-${period.end}`} icon={<CalendarRange size={12} />} label={period.label} title={formatDateBounds(period)} onRemove={() => removePeriod(period)} />
+      ))}
+      <button onClick={() => onChange(EMPTY_FILTERS)} className="flex items-center gap-1 text-xs font-semibold text-slate-400 hover:text-rose-500 ml-1">
+        <FilterX size={14} /> {t('filters.clear')}
+      </button>
+    </div>
+  );
+};
+
+export default FilterChips;
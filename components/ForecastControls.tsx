@@ -0,0 +1,58 @@
+import React from 'react';
+import { Sparkles } from 'lucide-react';
+import { ForecastConfig, ForecastMethod } from '../types';
+import { FORECAST_METHODS } from '../utils/forecast';
+import { t } from '../utils/i18n';
+
+interface ForecastControlsProps {
+  config: ForecastConfig;
+  onChange: (config: ForecastConfig) => void;
+}
+
+const MAX_HORIZON = 24;
+
+const ForecastControls: React.FC<ForecastControlsProps> = ({ config, onChange }) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <button
+        onClick={() => onChange({ ...config, enabled: !config.enabled })}
+        className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg border transition-all ${config.enabled ? 'bg-violet-50 border-violet-100 text-violet-600' : 'bg-slate-50 border-slate-200 text-slate-500 hover:text-slate-700'}`}
+      >
+        <Sparkles size={14} /> {t('timeline.forecast')}
+      </button>
+      {config.enabled && (
+        <>
+          <select
+            value={config.method}
+            onChange={(e) => onChange({ ...config, method: e.target.value as ForecastMethod })}
+            className="bg-slate-50 border border-slate-200 text-xs font-bold text-slate-600 px-2 py-1.5 rounded-lg outline-none"
+          >
+            {FORECAST_METHODS.map(method => <option key={method.value} value={method.value}>{t(method.label)}</option>)}
+          </select>
+          <label className="flex items-center gap-1 bg-slate-50 border border-slate-200 text-xs font-bold text-slate-600 px-2 py-1 rounded-lg">
+            +
+            <input
+              type="number"
+              min={1}
+              max={MAX_HORIZON}
+              value={config.horizon}
+              onChange={(e) => onChange({ ...config, horizon: Math.min(MAX_HORIZON, Math.max(1, parseInt(e.target.value) || 1)) })}
+              className="w-10 bg-transparent outline-none"
+            />
+            {t('forecast.periods')}
+          </label>
+          <select
+            value={config.confidence}
+            onChange={(e) => onChange({ ...config, confidence: parseInt(e.target.value) as ForecastConfig['confidence'] })}
+            className="bg-slate-50 border border-slate-200 text-xs font-bold text-slate-600 px-2 py-1.5 rounded-lg outline-none"
+          >
+            <option value={80}>{t('forecast.confidence', { confidence: 80 })}</option>
+            <option value={95}>{t('forecast.confidence', { confidence: 95 })}</option>
+          </select>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ForecastControls;
@@ -5,18 +5,23 @@ interface InsightCardProps {
   title: string;
   mainValue: string;
   subValue: string;
+  // Selo ao lado do valor principal (classe ABC do produto, por exemplo)
+  badge?: React.ReactNode;
   icon: React.ReactNode;
 }
 
-const InsightCard: React.FC<InsightCardProps> = ({ title, mainValue, subValue, icon }) => {
+const InsightCard: React.FC<InsightCardProps> = ({ title, mainValue, subValue, badge, icon }) => {
   return (
     <div className="bg-white rounded-2xl p-5 shadow-sm border border-slate-100 transition-all hover:shadow-md flex items-start gap-4">
       <div className="p-2.5 rounded-xl bg-slate-50 mt-1">
         {icon}
       </div>
-      <div>
+      <div className="min-w-0">
         <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-1">{title}</p>
-        <h4 className="text-base font-bold text-slate-800 line-clamp-1">{mainValue}</h4>
+        <div className="flex items-center gap-1.5">
+          {badge}
+          <h4 className="text-base font-bold text-slate-800 line-clamp-1">{mainValue}</h4>
+        </div>
         <p className="text-sm text-slate-500 font-medium">{subValue}</p>
       </div>
     </div>
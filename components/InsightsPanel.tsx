@@ -0,0 +1,187 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bot, Loader2, MessageSquare, RefreshCw, Send, Trash2 } from 'lucide-react';
+import { InsightsContext } from '../types';
+import { InsightProvider } from '../services/insightProviders';
+import { INSIGHT_EXAMPLES } from '../utils/insights';
+import { t } from '../utils/i18n';
+
+interface InsightsPanelProps {
+  context: InsightsContext;
+  // O primeiro provedor é o padrão
+  providers: InsightProvider[];
+}
+
+interface SummaryState {
+  text: string;
+  error: string;
+  loading: boolean;
+  // Contexto usado no último resumo, para avisar quando os filtros mudaram
+  context: InsightsContext | null;
+}
+
+interface QuestionEntry {
+  id: string;
+  question: string;
+  providerLabel: string;
+  answer: string;
+  error: string;
+  loading: boolean;
+}
+
+const QUESTION_LIMIT = 10;
+
+const EMPTY_SUMMARY: SummaryState = { text: '', error: '', loading: false, context: null };
+
+const InsightsPanel: React.FC<InsightsPanelProps> = ({ context, providers }) => {
+  const [providerId, setProviderId] = useState(providers[0]?.id || '');
+  const [summary, setSummary] = useState<SummaryState>(EMPTY_SUMMARY);
+  const [question, setQuestion] = useState('');
+  const [entries, setEntries] = useState<QuestionEntry[]>([]);
+  // Só a resposta do pedido de resumo mais recente é exibida
+  const summaryRequest = useRef(0);
+
+  const provider = providers.find(item => item.id === providerId) || providers[0];
+
+  const generateSummary = () => {
+    if (!provider) return;
+    const requestId = ++summaryRequest.current;
+    setSummary(prev => ({ ...prev, loading: true, error: '' }));
+    provider.generate({ task: 'summary', context })
+      .then(text => {
+        if (requestId === summaryRequest.current) setSummary({ text, error: '', loading: false, context });
+      })
+      .catch(error => {
+        if (requestId === summaryRequest.current) setSummary(prev => ({ ...prev, error: error.message, loading: false }));
+      });
+  };
+
+  // O provedor local é instantâneo e acompanha os filtros; os remotos esperam o clique
+  useEffect(() => {
+    if (provider && !provider.remote) generateSummary();
+  }, [context, providerId]);
+
+  const askQuestion = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || !provider) return;
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    const update = (changes: Partial<QuestionEntry>) => {
+      setEntries(prev => prev.map(entry => entry.id === id ? { ...entry, ...changes } : entry));
+    };
+    setEntries(prev => [{ id, question: trimmed, providerLabel: provider.label, answer: '', error: '', loading: true }, ...prev].slice(0, QUESTION_LIMIT));
+    setQuestion('');
+    provider.generate({ task: 'question', question: trimmed, context })
+      .then(answer => update({ answer, loading: false }))
+      .catch(error => update({ error: error.message, loading: false }));
+  };
+
+  const isStale = !!summary.text && summary.context !== context;
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm mb-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Bot size={22} className="text-violet-500" /> {t('insights.title')}
+          </h3>
+          <p className="text-sm text-slate-400 font-medium">{t('insights.subtitle')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {providers.length > 1 && (
+            <select
+              value={provider?.id}
+              onChange={(e) => setProviderId(e.target.value)}
+              title={t('insights.provider')}
+              className="bg-slate-50 border border-slate-200 text-sm font-semibold text-slate-600 px-3 py-2 rounded-xl outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {providers.map(item => <option key={item.id} value={item.id}>{item.label}</option>)}
+            </select>
+          )}
+          <button
+            onClick={generateSummary}
+            disabled={summary.loading}
+            className="flex items-center gap-2 bg-slate-50 px-3 py-2 rounded-xl border border-slate-200 text-sm font-semibold text-slate-600 hover:border-blue-200 hover:text-blue-600 transition-all"
+          >
+            <RefreshCw size={16} className={summary.loading ? 'animate-spin' : ''} /> {t('insights.generate')}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-slate-50 rounded-2xl p-5 border border-slate-100 mb-6">
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{t('insights.summaryTitle')}</p>
+          {isStale && !summary.loading && <span className="text-[11px] font-semibold text-amber-600">{t('insights.stale')}</span>}
+        </div>
+        {summary.loading && !summary.text ? (
+          <p className="flex items-center gap-2 text-sm font-medium text-slate-400"><Loader2 size={14} className="animate-spin" /> {t('insights.loading')}</p>
+        ) : summary.text ? (
+          <p className={`text-sm font-medium leading-relaxed whitespace-pre-line ${summary.loading ? 'text-slate-400' : 'text-slate-700'}`}>{summary.text}</p>
+        ) : null}
+        {summary.error && <p className="text-xs font-semibold text-rose-500 mt-2">{summary.error}</p>}
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); askQuestion(question); }}
+        className="flex items-center gap-2 mb-3"
+      >
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder={t('insights.ask')}
+          className="flex-1 bg-white border border-slate-200 text-sm font-semibold text-slate-700 px-3 py-2.5 rounded-xl outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!question.trim()}
+          className={`flex items-center gap-1.5 px-4 py-2.5 rounded-xl text-sm font-semibold transition-all ${question.trim() ? 'text-white bg-blue-600 hover:bg-blue-700' : 'bg-slate-100 text-slate-300 cursor-not-allowed'}`}
+        >
+          <Send size={14} /> {t('insights.send')}
+        </button>
+      </form>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{t('insights.examples')}</span>
+        {INSIGHT_EXAMPLES.map(key => (
+          <button
+            key={key}
+            onClick={() => askQuestion(t(key))}
+            className="px-3 py-1 rounded-full bg-slate-50 border border-slate-200 text-xs font-semibold text-slate-500 hover:border-blue-200 hover:text-blue-600 transition-all"
+          >
+            {t(key)}
+          </button>
+        ))}
+      </div>
+
+      {entries.length > 0 && (
+        <div className="space-y-3">
+          {entries.map(entry => (
+            <div key={entry.id} className="p-4 rounded-2xl border border-slate-100">
+              <p className="flex items-start gap-2 text-sm font-bold text-slate-700 mb-1.5">
+                <MessageSquare size={14} className="shrink-0 mt-0.5 text-blue-500" /> {entry.question}
+              </p>
+              {entry.loading ? (
+                <p className="flex items-center gap-2 text-sm font-medium text-slate-400"><Loader2 size={14} className="animate-spin" /> {t('insights.loading')}</p>
+              ) : entry.error ? (
+                <p className="text-xs font-semibold text-rose-500">{entry.error}</p>
+              ) : (
+                <p className="text-sm font-medium text-slate-600 leading-relaxed whitespace-pre-line">{entry.answer}</p>
+              )}
+              <p className="text-[10px] font-bold uppercase tracking-wider text-slate-300 mt-2">{entry.providerLabel}</p>
+            </div>
+          ))}
+          <div className="flex justify-end">
+            <button onClick={() => setEntries([])} className="flex items-center gap-1.5 text-xs font-semibold text-slate-400 hover:text-rose-500">
+              <Trash2 size={12} /> {t('insights.clear')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!providers.some(item => item.remote) && (
+        <p className="text-[11px] font-medium text-slate-400 mt-4">{t('insights.localHint')}</p>
+      )}
+    </div>
+  );
+};
+
+export default InsightsPanel;
@@ -7,11 +7,19 @@ interface KPICardProps {
   icon: React.ReactNode;
   trend?: string;
   trendPositive?: boolean;
+  // Direção da seta quando ela difere do sinal de "bom" (ex: custo subindo é negativo)
+  trendUp?: boolean;
+  trendTitle?: string;
+  subtitle?: string;
+  // Barra de progresso da meta do período em andamento
+  progress?: { percent: number; label: string; positive: boolean };
+  // Abre os registros por trás do indicador
+  onClick?: () => void;
 }
 
-const KPICard: React.FC<KPICardProps> = ({ title, value, icon, trend, trendPositive }) => {
+const KPICard: React.FC<KPICardProps> = ({ title, value, icon, trend, trendPositive, trendUp, trendTitle, subtitle, progress, onClick }) => {
   return (
-    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100 transition-all hover:shadow-md flex flex-col justify-between h-36">
+    <div onClick={onClick} className={`bg-white rounded-2xl p-6 shadow-sm border border-slate-100 transition-all hover:shadow-md flex flex-col justify-between min-h-[9rem] ${onClick ? 'cursor-pointer' : ''}`}>
       <div className="flex items-center gap-3 text-slate-500 font-medium">
         <div className="p-2 rounded-lg bg-slate-50">
           {icon}
@@ -19,13 +27,27 @@ const KPICard: React.FC<KPICardProps> = ({ title, value, icon, trend, trendPosit
         <span className="text-sm">{title}</span>
       </div>
       <div className="flex items-baseline justify-between mt-2">
-        <h3 className="text-2xl font-bold text-slate-900">{value}</h3>
+        <div>
+          <h3 className="text-2xl font-bold text-slate-900">{value}</h3>
+          {subtitle && <p className="text-xs font-medium text-slate-400">{subtitle}</p>}
+        </div>
         {trend && (
-          <span className={`text-xs font-semibold px-2 py-1 rounded-full flex items-center gap-1 ${trendPositive ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>
-            {trendPositive ? '↑' : '↓'} {trend}
+          <span title={trendTitle} className={`text-xs font-semibold px-2 py-1 rounded-full flex items-center gap-1 ${trendPositive ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>
+            {(trendUp ?? trendPositive) ? '↑' : '↓'} {trend}
           </span>
         )}
       </div>
+      {progress && (
+        <div className="mt-3" title={progress.label}>
+          <div className="h-1.5 w-full bg-slate-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${progress.positive ? 'bg-emerald-500' : 'bg-amber-500'}`}
+              style={{ width: `${Math.min(100, Math.max(0, progress.percent))}%` }}
+            />
+          </div>
+          <p className="text-[10px] font-semibold text-slate-400 mt-1 truncate">{progress.label}</p>
+        </div>
+      )}
     </div>
   );
 };
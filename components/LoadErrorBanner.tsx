@@ -0,0 +1,46 @@
+import React from 'react';
+import { RotateCw, WifiOff } from 'lucide-react';
+import { SourceErrorInfo } from '../services/analyticsEngine';
+import { t } from '../utils/i18n';
+
+interface LoadErrorBannerProps {
+  errors: SourceErrorInfo[];
+  // Há dados salvos em exibição no lugar das fontes que falharam
+  hasFallback: boolean;
+  retrying: boolean;
+  onRetry: () => void;
+}
+
+const LoadErrorBanner: React.FC<LoadErrorBannerProps> = ({ errors, hasFallback, retrying, onRetry }) => {
+  if (errors.length === 0) return null;
+  const offline = errors.every(error => error.kind === 'network');
+
+  return (
+    <div role="alert" className="flex flex-col sm:flex-row sm:items-center gap-4 mb-8 bg-rose-50 border border-rose-200 rounded-2xl p-4">
+      <div className="p-2 bg-white rounded-xl shrink-0 self-start">
+        <WifiOff size={20} className="text-rose-500" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-bold text-rose-700">
+          {t(offline ? 'loadError.offline' : 'loadError.failed')}
+          {hasFallback ? ` • ${t('loadError.fallback')}` : ''}
+        </p>
+        <ul className="mt-1 space-y-0.5">
+          {errors.map((error, index) => (
+            <li key={index} className="text-xs font-medium text-rose-600">{error.message}</li>
+          ))}
+        </ul>
+      </div>
+      <button
+        onClick={onRetry}
+        disabled={retrying}
+        className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white border border-rose-200 text-sm font-bold text-rose-600 hover:bg-rose-100 disabled:opacity-50 shrink-0"
+      >
+        <RotateCw size={16} className={retrying ? 'animate-spin' : ''} />
+        {t(retrying ? 'loadError.retrying' : 'loadError.retry')}
+      </button>
+    </div>
+  );
+};
+
+export default LoadErrorBanner;
@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart3, Hourglass } from 'lucide-react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine } from 'recharts';
+import { AbcConfig, ComparisonDimension, ParetoItem, StaleItem } from '../types';
+import { ABC_CLASSES, buildAbcClassMap, countAbcClasses, normalizeAbcConfig } from '../utils/pareto';
+import { formatISODay } from '../utils/dateRanges';
+import { formatCompactNumber, formatCurrency, formatNumber, formatPercent } from '../utils/formatters';
+import AbcBadge from './AbcBadge';
+import { MessageKey, t, tn } from '../utils/i18n';
+
+interface ParetoSectionProps {
+  pareto: Record<ComparisonDimension, ParetoItem[]>;
+  stale: StaleItem[];
+  config: AbcConfig;
+  onConfigChange: (config: AbcConfig) => void;
+  onSelectItem: (dimension: ComparisonDimension, name: string) => void;
+}
+
+const DIMENSIONS: { value: ComparisonDimension; label: MessageKey }[] = [
+  { value: 'produto', label: 'comparison.products' },
+  { value: 'origem', label: 'comparison.channels' },
+];
+
+// Acima disso o gráfico mostra só os primeiros itens; a lista continua completa
+const CHART_LIMIT = 40;
+
+const ParetoSection: React.FC<ParetoSectionProps> = ({ pareto, stale, config, onConfigChange, onSelectItem }) => {
+  const [dimension, setDimension] = useState<ComparisonDimension>('produto');
+  const items = pareto[dimension];
+  const chartItems = items.slice(0, CHART_LIMIT);
+  const counts = useMemo(() => countAbcClasses(items), [items]);
+  const classes = useMemo(() => buildAbcClassMap(items), [items]);
+  const total = items.reduce((sum, item) => sum + item.revenue, 0);
+  const staleItems = stale.filter(item => item.dimension === dimension);
+
+  const updateConfig = (changes: Partial<AbcConfig>) => onConfigChange(normalizeAbcConfig({ ...config, ...changes }));
+
+  const inputClass = 'w-16 bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-bold text-slate-700 outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm mt-8">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <BarChart3 size={18} className="text-blue-500" />
+            {t('pareto.title')}
+          </h3>
+          <p className="text-sm text-slate-400 font-medium">{t(dimension === 'produto' ? 'pareto.subtitle.product' : 'pareto.subtitle.channel')}</p>
+        </div>
+        <div className="flex bg-slate-50 border border-slate-200 rounded-xl p-1">
+          {DIMENSIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setDimension(option.value)}
+              className={`px-3 py-1.5 text-xs font-bold rounded-lg transition-all ${dimension === option.value ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {t(option.label)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-6 bg-slate-50 border border-slate-100 rounded-2xl px-4 py-3 text-xs font-semibold text-slate-500">
+        <label className="flex items-center gap-2">
+          <AbcBadge abcClass="A" /> {t('pareto.upTo')}
+          <input type="number" min={1} max={100} value={config.a} onChange={(e) => updateConfig({ a: parseFloat(e.target.value) })} className={inputClass} />%
+        </label>
+        <label className="flex items-center gap-2">
+          <AbcBadge abcClass="B" /> {t('pareto.next')}
+          <input type="number" min={0} max={100 - config.a} value={config.b} onChange={(e) => updateConfig({ b: parseFloat(e.target.value) })} className={inputClass} />%
+        </label>
+        <span className="flex items-center gap-2">
+          <AbcBadge abcClass="C" /> {t('pareto.rest', { percent: formatPercent(Math.max(0, 100 - config.a - config.b), 0) })}
+        </span>
+        <label className="flex items-center gap-2 md:ml-auto">
+          <Hourglass size={14} className="text-slate-400" /> {t('pareto.staleFor')}
+          <input type="number" min={1} value={config.staleDays} onChange={(e) => updateConfig({ staleDays: parseInt(e.target.value) })} className={inputClass} />
+          {t('pareto.days')}
+        </label>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-8">{t('common.noRecords')}</p>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-5 gap-8">
+          <div className="xl:col-span-3">
+            <div className="grid grid-cols-3 gap-3 mb-6">
+              {ABC_CLASSES.map(abcClass => (
+                <div key={abcClass} className="border border-slate-100 rounded-2xl px-4 py-3">
+                  <div className="flex items-center gap-2 mb-1">
+                    <AbcBadge abcClass={abcClass} />
+                    <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{t('pareto.class', { abcClass })}</span>
+                  </div>
+                  <p className="text-sm font-bold text-slate-800">
+                    {tn('pareto.items', counts[abcClass].items, { count: formatNumber(counts[abcClass].items) })}
+                    <span className="text-slate-400 font-semibold"> • {t('pareto.revenueShare', { percent: formatPercent(total > 0 ? (counts[abcClass].revenue / total) * 100 : 0) })}</span>
+                  </p>
+                </div>
+              ))}
+            </div>
+            <div className="h-[320px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartItems}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="name" axisLine={false} tickLine={false} tick={false} />
+                  <YAxis yAxisId="revenue" axisLine={false} tickLine={false} width={56} tick={{ fill: '#94a3b8', fontSize: 10 }} tickFormatter={(value) => formatCompactNumber(value)} />
+                  <YAxis yAxisId="share" orientation="right" domain={[0, 100]} axisLine={false} tickLine={false} width={40} tick={{ fill: '#94a3b8', fontSize: 10 }} tickFormatter={(value) => `${value}%`} />
+                  <Tooltip
+                    cursor={{ fill: '#f8fafc' }}
+                    contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0,0,0,0.1)' }}
+                    labelFormatter={(label: any) => t('products.withClass', { name: label, abcClass: classes[label] || '-' })}
+                    formatter={(value: any, name: any) => name === 'cumulativeShare' ? [formatPercent(value as number), t('pareto.cumulative')] : [formatCurrency(value as number), t('metric.revenue')]}
+                  />
+                  <ReferenceLine yAxisId="share" y={config.a} stroke="#10b981" strokeDasharray="4 4" />
+                  <ReferenceLine yAxisId="share" y={Math.min(100, config.a + config.b)} stroke="#f59e0b" strokeDasharray="4 4" />
+                  <Bar yAxisId="revenue" dataKey="revenue" fill="#3b82f6" radius={[4, 4, 0, 0]} className="cursor-pointer" onClick={(entry: any) => entry?.name && onSelectItem(dimension, entry.name)} />
+                  <Line yAxisId="share" type="monotone" dataKey="cumulativeShare" stroke="#6366f1" strokeWidth={2} dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+            {items.length > CHART_LIMIT && (
+              <p className="text-[11px] font-medium text-slate-400 mt-2">{t('pareto.chartLimit', { limit: CHART_LIMIT, count: formatNumber(items.length) })}</p>
+            )}
+          </div>
+
+          <div className="xl:col-span-2 space-y-6">
+            <div>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-3">{t('pareto.ranking')}</p>
+              <div className="max-h-[260px] overflow-y-auto pr-1">
+                <table className="w-full text-sm">
+                  <tbody>
+                    {items.map((item, index) => (
+                      <tr key={item.name} onClick={() => onSelectItem(dimension, item.name)} title={t('pareto.filterBy', { name: item.name })} className="border-b border-slate-50 last:border-none hover:bg-slate-50 cursor-pointer">
+                        <td className="py-2 pr-2 text-slate-300 font-bold w-8">{index + 1}</td>
+                        <td className="py-2 pr-2 w-6"><AbcBadge abcClass={item.abcClass} /></td>
+                        <td className="py-2 pr-2 font-semibold text-slate-700 max-w-[160px] truncate">{item.name}</td>
+                        <td className="py-2 px-2 text-right font-medium text-slate-600 whitespace-nowrap">{formatCurrency(item.revenue)}</td>
+                        <td className="py-2 pl-2 text-right text-xs font-semibold text-slate-400 whitespace-nowrap">{formatPercent(item.cumulativeShare)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-3">
+                {t('pareto.staleTitle', { days: config.staleDays })}
+              </p>
+              {staleItems.length === 0 ? (
+                <p className="text-xs font-medium text-slate-400">{t('pareto.noStale', { days: config.staleDays })}</p>
+              ) : (
+                <div className="max-h-[180px] overflow-y-auto space-y-1 pr-1">
+                  {staleItems.map(item => (
+                    <div key={item.name} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-amber-50/60 text-sm">
+                      <AbcBadge abcClass={classes[item.name]} />
+                      <span className="flex-1 font-semibold text-slate-700 truncate" title={item.name}>{item.name}</span>
+                      <span className="text-xs font-semibold text-amber-700 whitespace-nowrap" title={t('pareto.lastSale', { date: formatISODay(item.lastSale) })}>
+                        {t('pareto.daysAgo', { days: formatNumber(item.days) })}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParetoSection;
@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Grid3x3 } from 'lucide-react';
+import { AbcClass, PivotConfig, PivotData, PivotDimension, PivotMeasure, PivotTotals } from '../types';
+import { PIVOT_DIMENSIONS, PIVOT_MEASURES, addTotals, emptyTotals, formatPivotKey, getMeasureValue } from '../utils/pivot';
+import AbcBadge from './AbcBadge';
+import { t } from '../utils/i18n';
+
+interface PivotTableProps {
+  config: PivotConfig;
+  data: PivotData;
+  productClasses: Record<string, AbcClass>;
+  onChange: (config: PivotConfig) => void;
+}
+
+// Coluna usada na ordenação: nome da linha, total ou uma coluna específica
+type SortTarget = { type: 'name' } | { type: 'total' } | { type: 'column'; key: string } | null;
+
+const ROW_LIMITS = [5, 10, 20, 0];
+const OTHERS_ROW = '__others__';
+
+const PivotTable: React.FC<PivotTableProps> = ({ config, data, productClasses, onChange }) => {
+  const [sort, setSort] = useState<SortTarget>(null);
+  const [sortDesc, setSortDesc] = useState(true);
+  const [rowLimit, setRowLimit] = useState(10);
+  const measure = PIVOT_MEASURES.find(option => option.value === config.measure) || PIVOT_MEASURES[0];
+  const dimensionLabel = (dimension: PivotDimension) => t((PIVOT_DIMENSIONS.find(option => option.value === dimension) || PIVOT_DIMENSIONS[0]).label);
+
+  const handleDimensionChange = (axis: 'rows' | 'columns', dimension: PivotDimension) => {
+    const other = axis === 'rows' ? 'columns' : 'rows';
+    // Escolher no eixo a mesma dimensão do outro inverte os dois
+    const swapped = config[other] === dimension ? { [other]: config[axis] } : {};
+    onChange({ ...config, [axis]: dimension, ...swapped });
+    setSort(null);
+  };
+
+  const handleSort = (target: Exclude<SortTarget, null>) => {
+    const isSame = sort && sort.type === target.type && (target.type !== 'column' || (sort.type === 'column' && sort.key === target.key));
+    if (isSame) {
+      setSortDesc(prev => !prev);
+    } else {
+      setSort(target);
+      setSortDesc(target.type !== 'name');
+    }
+  };
+
+  const sortedRows = useMemo(() => {
+    if (!sort) return data.rows;
+    const valueOf = (row: string) => sort.type === 'total'
+      ? getMeasureValue(data.rowTotals[row], config.measure)
+      : sort.type === 'column' ? getMeasureValue(data.cells[row]?.[sort.key], config.measure) : 0;
+    return [...data.rows].sort((a, b) => {
+      const diff = sort.type === 'name' ? formatPivotKey(config.rows, a).localeCompare(formatPivotKey(config.rows, b)) : valueOf(a) - valueOf(b);
+      return sortDesc ? -diff : diff;
+    });
+  }, [data, sort, sortDesc, config.measure, config.rows]);
+
+  // Linhas além do limite são somadas em "Outros"
+  const { visibleRows, others } = useMemo(() => {
+    if (!rowLimit || sortedRows.length <= rowLimit) return { visibleRows: sortedRows, others: null };
+    const hidden = sortedRows.slice(rowLimit);
+    const cells: Record<string, PivotTotals> = {};
+    const total = emptyTotals();
+    hidden.forEach(row => {
+      const rowCells = data.cells[row] || {};
+      Object.keys(rowCells).forEach(column => addTotals(cells[column] || (cells[column] = emptyTotals()), rowCells[column]));
+      addTotals(total, data.rowTotals[row]);
+    });
+    return { visibleRows: sortedRows.slice(0, rowLimit), others: { count: hidden.length, cells, total } };
+  }, [sortedRows, rowLimit, data]);
+
+  const maxCell = useMemo(() => {
+    let max = 0;
+    visibleRows.forEach(row => data.columns.forEach(column => {
+      max = Math.max(max, getMeasureValue(data.cells[row]?.[column], config.measure));
+    }));
+    return max;
+  }, [visibleRows, data, config.measure]);
+
+  const heatStyle = (value: number): React.CSSProperties => {
+    const ratio = maxCell > 0 ? Math.max(0, value) / maxCell : 0;
+    return {
+      backgroundColor: `rgba(59, 130, 246, ${ratio > 0 ? 0.06 + ratio * 0.64 : 0})`,
+      color: ratio > 0.6 ? '#fff' : undefined,
+    };
+  };
+
+  const formatCell = (totals: PivotTotals | undefined) => totals ? measure.format(getMeasureValue(totals, config.measure)) : '–';
+
+  const sortIcon = (active: boolean) => active ? (sortDesc ? <ArrowDown size={12} /> : <ArrowUp size={12} />) : null;
+
+  const renderRow = (key: string, label: string, cells: Record<string, PivotTotals>, total: PivotTotals, muted = false) => (
+    <tr key={key} className="border-b border-slate-50">
+      <td className={`sticky left-0 bg-white py-2.5 pr-4 font-semibold max-w-[220px] truncate ${muted ? 'text-slate-400 italic' : 'text-slate-700'}`}>
+        {!muted && config.rows === 'produto' && <span className="inline-flex align-middle mr-1.5"><AbcBadge abcClass={productClasses[key]} /></span>}
+        {label}
+      </td>
+      {data.columns.map(column => (
+        <td key={column} className="py-2.5 px-3 text-right font-semibold text-slate-700 whitespace-nowrap rounded-md" style={muted ? undefined : heatStyle(getMeasureValue(cells[column], config.measure))}>
+          {formatCell(cells[column])}
+        </td>
+      ))}
+      <td className="py-2.5 pl-3 text-right font-bold text-slate-800 whitespace-nowrap bg-slate-50">{formatCell(total)}</td>
+    </tr>
+  );
+
+  const selectClass = 'bg-slate-50 border border-slate-200 text-xs font-bold text-slate-600 px-2 py-1.5 rounded-lg outline-none';
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm">
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4 mb-6">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Grid3x3 size={18} className="text-blue-500" />
+          {t('pivot.title')}
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={config.rows} onChange={(e) => handleDimensionChange('rows', e.target.value as PivotDimension)} className={selectClass}>
+            {PIVOT_DIMENSIONS.map(option => <option key={option.value} value={option.value}>{t('pivot.rows', { dimension: t(option.label) })}</option>)}
+          </select>
+          <span className="text-xs font-bold text-slate-300">×</span>
+          <select value={config.columns} onChange={(e) => handleDimensionChange('columns', e.target.value as PivotDimension)} className={selectClass}>
+            {PIVOT_DIMENSIONS.map(option => <option key={option.value} value={option.value}>{t('pivot.columns', { dimension: t(option.label) })}</option>)}
+          </select>
+          <select value={rowLimit} onChange={(e) => setRowLimit(parseInt(e.target.value))} className={selectClass}>
+            {ROW_LIMITS.map(limit => <option key={limit} value={limit}>{limit ? t('pivot.topRows', { limit }) : t('pivot.allRows')}</option>)}
+          </select>
+          <div className="flex bg-slate-50 border border-slate-200 rounded-xl p-1">
+            {PIVOT_MEASURES.map(option => (
+              <button
+                key={option.value}
+                onClick={() => onChange({ ...config, measure: option.value as PivotMeasure })}
+                className={`px-3 py-1.5 text-xs font-bold rounded-lg transition-all ${config.measure === option.value ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {t(option.label)}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {data.rows.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-8">{t('common.noRecords')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm border-separate border-spacing-y-0.5">
+            <thead>
+              <tr className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">
+                <th className="sticky left-0 bg-white text-left py-3 pr-4">
+                  <button onClick={() => handleSort({ type: 'name' })} className={`inline-flex items-center gap-1 uppercase ${sort?.type === 'name' ? 'text-blue-600' : 'hover:text-slate-600'}`}>
+                    {dimensionLabel(config.rows)} / {dimensionLabel(config.columns)}
+                    {sortIcon(sort?.type === 'name')}
+                  </button>
+                </th>
+                {data.columns.map(column => (
+                  <th key={column} className="text-right py-3 px-3 max-w-[140px]">
+                    <button onClick={() => handleSort({ type: 'column', key: column })} title={formatPivotKey(config.columns, column)} className={`inline-flex items-center gap-1 uppercase truncate max-w-full ${sort?.type === 'column' && sort.key === column ? 'text-blue-600' : 'hover:text-slate-600'}`}>
+                      {config.columns === 'produto' && <AbcBadge abcClass={productClasses[column]} />}
+                      <span className="truncate">{formatPivotKey(config.columns, column)}</span>
+                      {sortIcon(sort?.type === 'column' && sort.key === column)}
+                    </button>
+                  </th>
+                ))}
+                <th className="text-right py-3 pl-3">
+                  <button onClick={() => handleSort({ type: 'total' })} className={`inline-flex items-center gap-1 uppercase ${sort?.type === 'total' ? 'text-blue-600' : 'hover:text-slate-600'}`}>
+                    {t('common.total')} {sortIcon(sort?.type === 'total')}
+                  </button>
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map(row => renderRow(row, formatPivotKey(config.rows, row), data.cells[row] || {}, data.rowTotals[row]))}
+              {others && renderRow(OTHERS_ROW, t('common.others', { count: others.count }), others.cells, others.total, true)}
+              <tr className="border-t border-slate-200">
+                <td className="sticky left-0 bg-slate-50 py-2.5 pr-4 font-bold text-slate-800">{t('common.total')}</td>
+                {data.columns.map(column => (
+                  <td key={column} className="py-2.5 px-3 text-right font-bold text-slate-800 whitespace-nowrap bg-slate-50">{formatCell(data.columnTotals[column])}</td>
+                ))}
+                <td className="py-2.5 pl-3 text-right font-extrabold text-blue-700 whitespace-nowrap bg-slate-100">{formatCell(data.total)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PivotTable;
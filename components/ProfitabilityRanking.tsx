@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Medal } from 'lucide-react';
+import { AbcClass, ComparisonDimension, ProfitabilityRow } from '../types';
+import { formatCurrency, formatNumber, formatPercent, formatRoas } from '../utils/formatters';
+import AbcBadge from './AbcBadge';
+import { MessageKey, t } from '../utils/i18n';
+
+type SortKey = keyof Omit<ProfitabilityRow, 'name'>;
+type Dimension = 'channel' | 'product';
+
+interface ProfitabilityRankingProps {
+  channels: ProfitabilityRow[];
+  products: ProfitabilityRow[];
+  productClasses: Record<string, AbcClass>;
+  // Clique numa linha abre os registros do canal ou produto
+  onSelectRow?: (dimension: ComparisonDimension, name: string) => void;
+}
+
+const COLUMNS: { key: SortKey; label: MessageKey; format: (row: ProfitabilityRow) => string }[] = [
+  { key: 'revenue', label: 'metric.revenue', format: row => formatCurrency(row.revenue) },
+  { key: 'sales', label: 'metric.sales', format: row => formatNumber(row.sales) },
+  { key: 'cost', label: 'metric.cost', format: row => formatCurrency(row.cost) },
+  { key: 'cac', label: 'kpi.cac', format: row => row.sales > 0 ? formatCurrency(row.cac) : t('common.notAvailable') },
+  { key: 'roas', label: 'kpi.roas', format: row => formatRoas(row.roas) },
+  { key: 'profit', label: 'metric.profit', format: row => formatCurrency(row.profit) },
+  { key: 'margin', label: 'metric.margin', format: row => formatPercent(row.margin) },
+];
+
+const ProfitabilityRanking: React.FC<ProfitabilityRankingProps> = ({ channels, products, productClasses, onSelectRow }) => {
+  const [dimension, setDimension] = useState<Dimension>('channel');
+  const [sortKey, setSortKey] = useState<SortKey>('profit');
+  const [sortDesc, setSortDesc] = useState(true);
+
+  const rows = useMemo(() => {
+    const source = dimension === 'channel' ? channels : products;
+    return [...source].sort((a, b) => sortDesc ? b[sortKey] - a[sortKey] : a[sortKey] - b[sortKey]);
+  }, [channels, products, dimension, sortKey, sortDesc]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDesc(prev => !prev);
+    } else {
+      setSortKey(key);
+      setSortDesc(true);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Medal size={18} className="text-blue-500" />
+          {t('profitability.title')}
+        </h3>
+        <div className="flex bg-slate-50 border border-slate-200 rounded-xl p-1">
+          {(['channel', 'product'] as Dimension[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setDimension(option)}
+              className={`px-3 py-1.5 text-xs font-bold rounded-lg transition-all ${dimension === option ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {t(option === 'channel' ? 'profitability.byChannel' : 'profitability.byProduct')}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[10px] text-slate-400 font-bold uppercase tracking-wider border-b border-slate-100">
+              <th className="text-left py-3 pr-4">{t(dimension === 'channel' ? 'filters.channel' : 'filters.product')}</th>
+              {COLUMNS.map(column => (
+                <th key={column.key} className="text-right py-3 px-2">
+                  <button onClick={() => handleSort(column.key)} className={`inline-flex items-center gap-1 uppercase ${sortKey === column.key ? 'text-blue-600' : 'hover:text-slate-600'}`}>
+                    {t(column.label)}
+                    {sortKey === column.key && (sortDesc ? <ArrowDown size={12} /> : <ArrowUp size={12} />)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr
+                key={row.name}
+                onClick={() => onSelectRow?.(dimension === 'channel' ? 'origem' : 'produto', row.name)}
+                className={`border-b border-slate-50 last:border-none hover:bg-slate-50 transition-colors ${onSelectRow ? 'cursor-pointer' : ''}`}
+              >
+                <td className="py-3 pr-4 font-semibold text-slate-700 max-w-[220px] truncate">
+                  <span className="text-slate-300 font-bold mr-2">{index + 1}</span>
+                  {dimension === 'product' && <span className="inline-flex align-middle mr-1.5"><AbcBadge abcClass={productClasses[row.name]} /></span>}
+                  {row.name}
+                </td>
+                {COLUMNS.map(column => (
+                  <td key={column.key} className={`text-right py-3 px-2 font-medium whitespace-nowrap ${column.key === 'profit' || column.key === 'margin' ? (row.profit >= 0 ? 'text-emerald-600' : 'text-rose-600') : 'text-slate-600'}`}>
+                    {column.format(row)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && <p className="text-center text-sm text-slate-400 py-8">{t('common.noRecords')}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ProfitabilityRanking;
@@ -0,0 +1,350 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, ArrowDown, ArrowUp, Ban, Check, ChevronLeft, ChevronRight, Download, Pencil, RotateCcw, Search, TableProperties, Undo2, X } from 'lucide-react';
+import { AbcClass, EditableField, RecordCorrection, RecordValues, RecordsDrill, RecordsSort, RecordsSortKey, SaleRecord } from '../types';
+import { EMPTY_RECORDS_PAGE, RecordsPage, RecordsPageRequest } from '../services/analyticsEngine';
+import { EDITABLE_FIELDS, isNumericField, parseRecordValues } from '../utils/corrections';
+import { formatCurrency, formatDateTime, formatNumber, getDecimalSeparator } from '../utils/formatters';
+import { MessageKey, t, tn } from '../utils/i18n';
+import { parseISODate } from '../utils/parsers';
+import AbcBadge from './AbcBadge';
+
+interface RecordsTableProps {
+  // Busca uma página dos registros filtrados no motor de análise; muda a cada nova consulta
+  fetchRecords: (request: RecordsPageRequest) => Promise<RecordsPage>;
+  corrections: RecordCorrection[];
+  // Correções cujo registro não existe mais nos dados
+  unmatched: string[];
+  baseCurrency: string;
+  productClasses: Record<string, AbcClass>;
+  drill: RecordsDrill | null;
+  onClearDrill: () => void;
+  onCorrect: (source: SaleRecord, update: { excluded?: boolean; values?: RecordValues }) => void;
+  onRevert: (key: string) => void;
+  onRevertAll: () => void;
+  onExportCorrections: () => void;
+}
+
+// Altura fixa das linhas: a lista só renderiza o trecho visível da página
+const ROW_HEIGHT = 44;
+const VIEWPORT_HEIGHT = 480;
+const OVERSCAN = 8;
+const PAGE_SIZES = [100, 500, 1000, 5000];
+const COLLAPSED_LIMIT = 5;
+
+const GRID = 'grid grid-cols-[6.5rem_minmax(0,1.4fr)_minmax(0,1fr)_4.5rem_7.5rem_7.5rem_minmax(0,1fr)_4.5rem] gap-3 items-center px-3';
+
+const FIELD_LABELS: Record<RecordsSortKey, MessageKey> = {
+  data: 'records.column.date',
+  produto: 'filters.product',
+  origem: 'filters.channel',
+  quantidade_vendida: 'records.column.quantity',
+  receita: 'metric.revenue',
+  custo_aquisicao: 'metric.cost',
+  fonte: 'filters.source',
+};
+
+const COLUMNS: RecordsSortKey[] = [...EDITABLE_FIELDS, 'fonte'];
+
+const formatDay = (iso: string) => {
+  const date = parseISODate(iso);
+  return date ? formatDateTime(date, { dateStyle: 'short' }) : t('common.notAvailable');
+};
+
+const formatField = (item: SaleRecord, key: RecordsSortKey): string => {
+  if (key === 'data') return formatDay(item.data);
+  if (key === 'quantidade_vendida') return formatNumber(item.quantidade_vendida);
+  if (key === 'receita' || key === 'custo_aquisicao') return formatCurrency(item[key]);
+  return item[key] || '';
+};
+
+// Valores originais ficam na moeda do registro, sem a conversão para a moeda de exibição
+const formatOriginal = (value: string | number, field: EditableField) => {
+  if (field === 'data') return formatDay(String(value));
+  return typeof value === 'number' ? formatNumber(value) : value;
+};
+
+const toDraft = (item: SaleRecord): Record<EditableField, string> => ({
+  data: item.data,
+  produto: item.produto,
+  origem: item.origem,
+  quantidade_vendida: String(item.quantidade_vendida),
+  receita: String(item.receita).replace('.', getDecimalSeparator()),
+  custo_aquisicao: String(item.custo_aquisicao).replace('.', getDecimalSeparator()),
+});
+
+const RecordsTable: React.FC<RecordsTableProps> = ({
+  fetchRecords, corrections, unmatched, baseCurrency, productClasses, drill, onClearDrill, onCorrect, onRevert, onRevertAll, onExportCorrections
+}) => {
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<RecordsSort>({ key: 'data', desc: true });
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [editing, setEditing] = useState<{ key: string; draft: Record<EditableField, string> } | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const [data, setData] = useState<RecordsPage>(EMPTY_RECORDS_PAGE);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  const correctionsByKey = useMemo(() => new Map(corrections.map(correction => [correction.key, correction])), [corrections]);
+
+  // O agregado clicado pode pedir uma ordenação (ex.: receita ao clicar no KPI de receita)
+  useEffect(() => {
+    if (drill?.sort) setSort(drill.sort);
+  }, [drill]);
+
+  const pageCount = Math.max(1, Math.ceil(data.total / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = data.records;
+
+  // Busca, ordenação e paginação rodam no motor; só a página exibida atravessa para a interface
+  useEffect(() => {
+    let cancelled = false;
+    fetchRecords({ drill, search, sort, offset: currentPage * pageSize, limit: pageSize })
+      .then(next => {
+        if (!cancelled) setData(next);
+      })
+      .catch(error => console.error('Error loading records:', error));
+    return () => { cancelled = true; };
+  }, [fetchRecords, drill, search, sort, currentPage, pageSize]);
+
+  // Registros corrigidos antes das regras de canal e da conversão de moeda, por chave
+  const sourceRecords = useMemo(() => {
+    return new Map(data.sources.map(item => [item.registro as string, item]));
+  }, [data]);
+
+  // Correções mudam os registros mas não devem tirar o usuário da posição em que estava
+  useEffect(() => {
+    setPage(0);
+  }, [drill, search, sort, pageSize]);
+
+  useEffect(() => {
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [currentPage, drill, search, sort]);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(pageRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = pageRows.slice(first, last);
+
+  const handleSort = (key: RecordsSortKey) => {
+    setSort(prev => prev.key === key ? { key, desc: !prev.desc } : { key, desc: isNumericField(key as EditableField) || key === 'data' });
+  };
+
+  const startEditing = (item: SaleRecord) => {
+    const source = item.registro ? sourceRecords.get(item.registro) : undefined;
+    if (source) setEditing({ key: item.registro as string, draft: toDraft(source) });
+  };
+
+  const editingSource = editing ? sourceRecords.get(editing.key) : undefined;
+  const parsedDraft = editing ? parseRecordValues(editing.draft, getDecimalSeparator()) : null;
+
+  const saveEditing = () => {
+    if (!editingSource || !parsedDraft?.values) return;
+    onCorrect(editingSource, { values: parsedDraft.values });
+    setEditing(null);
+  };
+
+  const excludeRecord = (item: SaleRecord) => {
+    const source = item.registro ? sourceRecords.get(item.registro) : undefined;
+    if (source) onCorrect(source, { excluded: true });
+  };
+
+  const visibleCorrections = expanded ? [...corrections].reverse() : [...corrections].reverse().slice(0, COLLAPSED_LIMIT);
+  const fieldClass = 'w-full min-w-0 bg-white border border-slate-200 text-xs font-semibold text-slate-700 px-2 py-1.5 rounded-lg outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm mt-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <TableProperties size={22} className="text-blue-500" /> {t('records.title')}
+          </h3>
+          <p className="text-sm text-slate-400 font-medium">{t('records.subtitle')}</p>
+        </div>
+        <div className="relative">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('records.search')}
+            className="w-full md:w-72 bg-slate-50 border border-slate-200 text-sm font-semibold text-slate-700 pl-9 pr-3 py-2 rounded-xl outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      {drill && (
+        <div className="flex items-center gap-2 mb-4">
+          <span className="flex items-center gap-1.5 pl-3 pr-1.5 py-1 rounded-full bg-blue-50 border border-blue-100 text-xs font-bold text-blue-700">
+            {t('records.drill', { label: drill.label })}
+            <button onClick={onClearDrill} title={t('records.clearDrill')} className="p-0.5 rounded-full hover:bg-blue-100"><X size={12} /></button>
+          </span>
+        </div>
+      )}
+
+      <div className="border border-slate-100 rounded-2xl overflow-hidden">
+        <div className={`${GRID} py-2.5 bg-slate-50 border-b border-slate-100 text-[10px] font-bold uppercase tracking-wider text-slate-400`}>
+          {COLUMNS.map(key => (
+            <button
+              key={key}
+              onClick={() => handleSort(key)}
+              className={`inline-flex items-center gap-1 uppercase truncate ${key === 'quantidade_vendida' || key === 'receita' || key === 'custo_aquisicao' ? 'justify-end' : ''} ${sort.key === key ? 'text-blue-600' : 'hover:text-slate-600'}`}
+            >
+              {t(FIELD_LABELS[key])}
+              {sort.key === key && (sort.desc ? <ArrowDown size={10} /> : <ArrowUp size={10} />)}
+            </button>
+          ))}
+          <span />
+        </div>
+
+        {pageRows.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-10">{t('records.empty')}</p>
+        ) : (
+          <div ref={viewportRef} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)} className="overflow-y-auto" style={{ maxHeight: VIEWPORT_HEIGHT }}>
+            <div style={{ height: pageRows.length * ROW_HEIGHT, position: 'relative' }}>
+              {visibleRows.map((item, offset) => {
+                const index = first + offset;
+                const correction = item.registro ? correctionsByKey.get(item.registro) : undefined;
+                const isEditing = !!editing && editing.key === item.registro;
+                return (
+                  <div
+                    key={item.registro || index}
+                    className={`${GRID} absolute left-0 right-0 border-b border-slate-50 text-sm ${isEditing ? 'bg-blue-50/60' : 'hover:bg-slate-50'}`}
+                    style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                  >
+                    {COLUMNS.map(key => {
+                      const numeric = key === 'quantidade_vendida' || key === 'receita' || key === 'custo_aquisicao';
+                      if (isEditing && editing && key !== 'fonte') {
+                        return (
+                          <input
+                            key={key}
+                            type="text"
+                            inputMode={numeric ? 'decimal' : undefined}
+                            value={editing.draft[key]}
+                            onChange={(e) => setEditing({ ...editing, draft: { ...editing.draft, [key]: e.target.value } })}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') saveEditing();
+                              if (e.key === 'Escape') setEditing(null);
+                            }}
+                            className={`${fieldClass} ${numeric ? 'text-right' : ''}`}
+                          />
+                        );
+                      }
+                      const changed = key !== 'fonte' && correction?.changes[key] !== undefined;
+                      return (
+                        <span
+                          key={key}
+                          title={changed && correction ? t('records.original', { value: formatOriginal(correction.original[key as EditableField], key as EditableField) }) : formatField(item, key)}
+                          className={`truncate ${numeric ? 'text-right tabular-nums' : ''} ${changed ? 'font-bold text-amber-600' : key === 'fonte' ? 'text-xs font-medium text-slate-400' : 'font-medium text-slate-700'}`}
+                        >
+                          {key === 'produto' && <span className="inline-flex align-middle mr-1.5"><AbcBadge abcClass={productClasses[item.produto]} /></span>}
+                          {formatField(item, key)}
+                        </span>
+                      );
+                    })}
+                    <div className="flex justify-end gap-1">
+                      {isEditing ? (
+                        <>
+                          <button onClick={saveEditing} disabled={!parsedDraft?.values} title={parsedDraft?.error || t('common.save')} className={`p-1.5 rounded-lg ${parsedDraft?.values ? 'text-emerald-600 hover:bg-white' : 'text-slate-300 cursor-not-allowed'}`}>
+                            <Check size={14} />
+                          </button>
+                          <button onClick={() => setEditing(null)} title={t('common.cancel')} className="p-1.5 rounded-lg text-slate-400 hover:bg-white">
+                            <X size={14} />
+                          </button>
+                        </>
+                      ) : item.registro && (
+                        <>
+                          <button onClick={() => startEditing(item)} title={t('records.edit')} className="p-1.5 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-white">
+                            <Pencil size={14} />
+                          </button>
+                          <button onClick={() => excludeRecord(item)} title={t('records.exclude')} className="p-1.5 rounded-lg text-slate-400 hover:text-rose-500 hover:bg-white">
+                            <Ban size={14} />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {editing && editingSource && (
+        parsedDraft?.error ? (
+          <p className="flex items-center gap-1.5 text-[11px] font-semibold text-rose-500 mt-2"><AlertTriangle size={12} /> {parsedDraft.error}</p>
+        ) : (
+          <p className="text-[11px] font-medium text-slate-400 mt-2">{t('records.editHint', { currency: editingSource.moeda || baseCurrency })}</p>
+        )
+      )}
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mt-4 text-xs font-semibold text-slate-500">
+        <span>{tn('records.count', data.total, { count: formatNumber(data.total) })}</span>
+        <div className="flex items-center gap-3">
+          <select value={pageSize} onChange={(e) => setPageSize(Number(e.target.value))} className="bg-slate-50 border border-slate-200 text-xs font-semibold text-slate-600 px-2 py-1.5 rounded-lg outline-none">
+            {PAGE_SIZES.map(size => <option key={size} value={size}>{t('records.pageSize', { size: formatNumber(size) })}</option>)}
+          </select>
+          <button onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0} className={`p-1.5 rounded-lg border border-slate-200 ${currentPage === 0 ? 'text-slate-300 cursor-not-allowed' : 'text-slate-600 hover:border-blue-200 hover:text-blue-600'}`}>
+            <ChevronLeft size={14} />
+          </button>
+          <span>{t('records.page', { page: formatNumber(currentPage + 1), total: formatNumber(pageCount) })}</span>
+          <button onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1} className={`p-1.5 rounded-lg border border-slate-200 ${currentPage >= pageCount - 1 ? 'text-slate-300 cursor-not-allowed' : 'text-slate-600 hover:border-blue-200 hover:text-blue-600'}`}>
+            <ChevronRight size={14} />
+          </button>
+        </div>
+      </div>
+      <p className="text-[11px] font-medium text-slate-400 mt-2">{t('records.drillHint')}</p>
+
+      {corrections.length > 0 && (
+        <div className="bg-slate-50 rounded-2xl p-5 border border-slate-100 mt-6">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-3">
+            <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{tn('records.corrections', corrections.length, { count: formatNumber(corrections.length) })}</p>
+            <div className="flex items-center gap-2">
+              <button onClick={onExportCorrections} className="flex items-center gap-1.5 bg-white px-3 py-1.5 rounded-xl border border-slate-200 text-xs font-semibold text-slate-600 hover:border-blue-200 hover:text-blue-600 transition-all">
+                <Download size={12} /> {t('records.exportCorrections')}
+              </button>
+              <button onClick={onRevertAll} className="flex items-center gap-1.5 bg-white px-3 py-1.5 rounded-xl border border-slate-200 text-xs font-semibold text-slate-600 hover:border-rose-200 hover:text-rose-500 transition-all">
+                <RotateCcw size={12} /> {t('records.revertAll')}
+              </button>
+            </div>
+          </div>
+          <div className="space-y-2">
+            {visibleCorrections.map(correction => {
+              const { original } = correction;
+              const changedFields = Object.keys(correction.changes) as EditableField[];
+              return (
+                <div key={correction.key} className="flex items-start justify-between gap-3 px-4 py-3 rounded-xl bg-white border border-slate-100">
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-slate-700 truncate">{formatDay(original.data)} • {original.produto} • {original.origem}</p>
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-xs font-medium text-slate-500">
+                      {correction.excluded && <span className="px-2 py-0.5 rounded-full bg-rose-100 text-rose-700 text-[10px] font-bold uppercase tracking-wider">{t('records.excluded')}</span>}
+                      {changedFields.map(field => (
+                        <span key={field}>
+                          {t(FIELD_LABELS[field])}: <span className="line-through">{formatOriginal(original[field], field)}</span> → <span className="font-bold text-amber-600">{formatOriginal(correction.changes[field] as string | number, field)}</span>
+                        </span>
+                      ))}
+                      {unmatched.includes(correction.key) && (
+                        <span className="flex items-center gap-1 text-amber-600"><AlertTriangle size={12} /> {t('records.unmatched')}</span>
+                      )}
+                    </div>
+                  </div>
+                  <button onClick={() => onRevert(correction.key)} title={t('records.revert')} className="shrink-0 flex items-center gap-1 p-1.5 rounded-lg text-xs font-semibold text-slate-400 hover:text-blue-600 hover:bg-slate-50">
+                    <Undo2 size={14} /> {t('records.revert')}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          {corrections.length > COLLAPSED_LIMIT && (
+            <button onClick={() => setExpanded(prev => !prev)} className="mt-3 text-xs font-bold text-blue-600 hover:text-blue-700">
+              {expanded ? t('records.showLess') : t('records.showAll', { count: formatNumber(corrections.length) })}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecordsTable;
@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark, BookmarkPlus, Check, Link2, Trash2 } from 'lucide-react';
+import { SavedView } from '../types';
+import { t } from '../utils/i18n';
+
+interface SavedViewsMenuProps {
+  views: SavedView[];
+  // Query string da visão atual, usada para destacar a visão aplicada
+  currentQuery: string;
+  onApply: (view: SavedView) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ views, currentQuery, onApply, onSave, onDelete }) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [copied, setCopied] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeView = views.find(view => view.query === currentQuery);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+    } catch (error) {
+      console.error('Error copying link:', error);
+      alert(t('views.copyError'));
+    }
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSave(trimmed);
+    setName('');
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="flex items-center gap-2 bg-white px-4 py-2 rounded-xl border border-slate-200 shadow-sm transition-all hover:border-blue-200 hover:text-blue-600"
+      >
+        <Bookmark size={18} className={activeView ? 'text-blue-500 fill-blue-100' : 'text-slate-400'} />
+        <span className="text-sm font-semibold text-slate-600 max-w-[140px] truncate">{activeView ? activeView.name : t('views.button')}</span>
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-white rounded-2xl shadow-lg border border-slate-100 p-2 z-40">
+          <button
+            onClick={handleCopyLink}
+            className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-sm font-semibold text-slate-600 hover:bg-slate-50 text-left"
+          >
+            {copied ? <Check size={16} className="text-emerald-500" /> : <Link2 size={16} className="text-blue-500" />}
+            {t(copied ? 'views.copied' : 'views.copyLink')}
+          </button>
+          <div className="border-t border-slate-100 my-2" />
+          {views.length === 0 ? (
+            <p className="px-3 py-2 text-xs font-medium text-slate-400">{t('views.empty')}</p>
+          ) : (
+            <div className="max-h-60 overflow-y-auto">
+              {views.map(view => (
+                <div key={view.id} className={`group flex items-center gap-2 rounded-xl ${view.id === activeView?.id ? 'bg-blue-50' : 'hover:bg-slate-50'}`}>
+                  <button
+                    onClick={() => { onApply(view); setOpen(false); }}
+                    className="flex-1 flex items-center gap-3 px-3 py-2.5 text-sm font-semibold text-slate-600 text-left min-w-0"
+                  >
+                    <Bookmark size={16} className={view.id === activeView?.id ? 'text-blue-500 fill-blue-100' : 'text-slate-400'} />
+                    <span className="truncate">{view.name}</span>
+                  </button>
+                  <button onClick={() => onDelete(view.id)} title={t('views.delete')} className="p-1.5 mr-1 rounded-lg text-slate-300 opacity-0 group-hover:opacity-100 hover:text-rose-500 hover:bg-white">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="border-t border-slate-100 my-2" />
+          <div className="flex items-center gap-2 px-1 pb-1">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder={t('views.name')}
+              className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-semibold text-slate-600 outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button onClick={handleSave} disabled={!name.trim()} title={t('views.save')} className="p-1.5 rounded-lg text-blue-600 hover:bg-blue-50 disabled:opacity-30">
+              <BookmarkPlus size={18} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedViewsMenu;
@@ -0,0 +1,209 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarDays } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
+import { SeasonalityData, SeasonalityMeasure } from '../types';
+import { SEASONALITY_MEASURES, buildCalendarWeeks, getMonthLabels, getSeasonalityAverage, getWeekdayLabels } from '../utils/seasonality';
+import { formatISODay } from '../utils/dateRanges';
+import { formatCompactNumber, formatPercent } from '../utils/formatters';
+import { t, tn } from '../utils/i18n';
+
+interface SeasonalitySectionProps {
+  data: SeasonalityData;
+}
+
+// Cerca de um ano de calendário; períodos maiores mostram as semanas mais recentes
+const CALENDAR_WEEKS = 53;
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const heatStyle = (value: number, max: number): React.CSSProperties => {
+  const ratio = max > 0 ? Math.max(0, value) / max : 0;
+  return { backgroundColor: ratio > 0 ? `rgba(59, 130, 246, ${0.08 + ratio * 0.72})` : '#f8fafc' };
+};
+
+const SeasonalitySection: React.FC<SeasonalitySectionProps> = ({ data }) => {
+  const [measure, setMeasure] = useState<SeasonalityMeasure>('revenue');
+  const option = SEASONALITY_MEASURES.find(item => item.value === measure) || SEASONALITY_MEASURES[0];
+  const weekdays = getWeekdayLabels();
+  const months = getMonthLabels();
+
+  const weeks = useMemo(() => buildCalendarWeeks(data.start, data.end, CALENDAR_WEEKS), [data.start, data.end]);
+
+  const dailyMax = useMemo(() => {
+    return weeks.reduce((max, week) => week.reduce((weekMax, day) => Math.max(weekMax, day ? data.daily[day]?.[measure] || 0 : 0), max), 0);
+  }, [weeks, data.daily, measure]);
+
+  const weekdayMonthMax = useMemo(() => {
+    return Math.max(0, ...data.weekdayMonth.flat().map(cell => getSeasonalityAverage(cell, measure)));
+  }, [data.weekdayMonth, measure]);
+
+  const hourMax = useMemo(() => {
+    return data.hourWeekday ? Math.max(0, ...data.hourWeekday.flat().map(cell => cell[measure])) : 0;
+  }, [data.hourWeekday, measure]);
+
+  const dayOfMonthData = useMemo(() => {
+    return data.dayOfMonth.map((cell, index) => ({ name: String(index + 1), value: getSeasonalityAverage(cell, measure), days: cell.days }));
+  }, [data.dayOfMonth, measure]);
+
+  const hasData = !!data.start;
+  const firstShown = weeks[0]?.find(day => day !== null);
+  const truncated = !!firstShown && firstShown !== data.start;
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm mt-8">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <CalendarDays size={18} className="text-blue-500" />
+            {t('seasonality.title')}
+          </h3>
+          <p className="text-sm text-slate-400 font-medium">{t('seasonality.subtitle')}</p>
+        </div>
+        <div className="flex bg-slate-50 border border-slate-200 rounded-xl p-1">
+          {SEASONALITY_MEASURES.map(item => (
+            <button
+              key={item.value}
+              onClick={() => setMeasure(item.value)}
+              className={`px-3 py-1.5 text-xs font-bold rounded-lg transition-all ${measure === item.value ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {t(item.label)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!hasData ? (
+        <p className="text-sm text-slate-400 text-center py-8">{t('common.noRecords')}</p>
+      ) : (
+        <div className="space-y-10">
+          <div>
+            <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-3">
+              {t('seasonality.calendar')}{truncated && ` • ${t('seasonality.lastWeeks', { count: CALENDAR_WEEKS })}`}
+            </p>
+            <div className="overflow-x-auto pb-2">
+              <div className="inline-flex gap-[3px]">
+                <div className="flex flex-col gap-[3px] pr-1 pt-4">
+                  {weekdays.map((label, index) => (
+                    <span key={label} className="h-3 text-[9px] leading-3 font-semibold text-slate-400">{index % 2 === 1 ? label : ''}</span>
+                  ))}
+                </div>
+                {weeks.map((week, weekIndex) => {
+                  const firstDay = week.find(day => day !== null) || '';
+                  const previous = weekIndex > 0 ? weeks[weekIndex - 1].find(day => day !== null) || '' : '';
+                  const showMonth = firstDay && firstDay.slice(0, 7) !== previous.slice(0, 7);
+                  return (
+                    <div key={firstDay || weekIndex} className="flex flex-col gap-[3px]">
+                      <span className="h-4 text-[9px] leading-4 font-semibold text-slate-400 whitespace-nowrap">
+                        {showMonth ? months[parseInt(firstDay.slice(5, 7)) - 1] : ''}
+                      </span>
+                      {week.map((day, index) => (
+                        <div
+                          key={day || `empty-${index}`}
+                          className="w-3 h-3 rounded-sm"
+                          style={day ? heatStyle(data.daily[day]?.[measure] || 0, dailyMax) : undefined}
+                          title={day ? `${formatISODay(day)}: ${option.format(data.daily[day]?.[measure] || 0)}` : undefined}
+                        />
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-10">
+            <div>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-3">{t('seasonality.weekdayMonth')}</p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs border-separate border-spacing-0.5">
+                  <thead>
+                    <tr className="text-[10px] text-slate-400 font-bold uppercase">
+                      <th />
+                      {months.map(label => <th key={label} className="py-1 font-bold">{label}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.weekdayMonth.map((row, weekday) => (
+                      <tr key={weekdays[weekday]}>
+                        <td className="pr-2 font-semibold text-slate-500">{weekdays[weekday]}</td>
+                        {row.map((cell, month) => {
+                          const value = getSeasonalityAverage(cell, measure);
+                          const ratio = weekdayMonthMax > 0 ? value / weekdayMonthMax : 0;
+                          return (
+                            <td
+                              key={month}
+                              className={`py-1.5 px-1 text-center font-semibold rounded-md ${ratio > 0.6 ? 'text-white' : 'text-slate-600'}`}
+                              style={cell.days > 0 ? heatStyle(value, weekdayMonthMax) : undefined}
+                              title={cell.days > 0 ? tn('seasonality.cell', cell.days, { weekday: weekdays[weekday], month: months[month], value: option.format(value) }) : t('seasonality.outside')}
+                            >
+                              {cell.days > 0 ? formatCompactNumber(value) : ''}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-3">{t('seasonality.dayOfMonth')}</p>
+              <div className="h-[220px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={dayOfMonthData}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="name" axisLine={false} tickLine={false} interval={1} tick={{ fill: '#94a3b8', fontSize: 10 }} />
+                    <YAxis axisLine={false} tickLine={false} width={48} tick={{ fill: '#94a3b8', fontSize: 10 }} tickFormatter={(value) => formatCompactNumber(value)} />
+                    <Tooltip
+                      cursor={{ fill: '#f8fafc' }}
+                      contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0,0,0,0.1)' }}
+                      labelFormatter={(label: any) => t('seasonality.day', { day: label })}
+                      formatter={(value: any, _name: any, item: any) => [t('seasonality.perDay', { value: option.format(value as number) }), tn('seasonality.occurrences', item.payload.days)]}
+                    />
+                    <Bar dataKey="value" fill="#3b82f6" radius={[4, 4, 0, 0]} animationDuration={1000} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+
+          {data.hourWeekday && (
+            <div>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-3">
+                {t('seasonality.hourWeekday')}
+                {data.timedShare < 1 && ` • ${t('seasonality.timedShare', { percent: formatPercent(data.timedShare * 100, 0) })}`}
+              </p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs border-separate border-spacing-0.5">
+                  <thead>
+                    <tr className="text-[10px] text-slate-400 font-bold">
+                      <th />
+                      {HOURS.map(hour => <th key={hour} className="py-1 font-bold">{hour}h</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.hourWeekday.map((row, weekday) => (
+                      <tr key={weekdays[weekday]}>
+                        <td className="pr-2 font-semibold text-slate-500">{weekdays[weekday]}</td>
+                        {row.map((cell, hour) => (
+                          <td
+                            key={hour}
+                            className="h-6 min-w-[1.5rem] rounded-md"
+                            style={heatStyle(cell[measure], hourMax)}
+                            title={`${weekdays[weekday]}, ${hour}h: ${option.format(cell[measure])}`}
+                          />
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SeasonalitySection;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { ShieldAlert, X } from 'lucide-react';
+import { buildSourceUrl } from '../services/dataSources';
+import { SourceDefinition } from '../utils/viewState';
+import { t, tn } from '../utils/i18n';
+
+interface SharedSourcesPromptProps {
+  definitions: SourceDefinition[];
+  onAccept: () => void;
+  onDecline: () => void;
+}
+
+// Fontes que vieram de um link: nada é buscado nem salvo antes de o usuário conferir os endereços
+const SharedSourcesPrompt: React.FC<SharedSourcesPromptProps> = ({ definitions, onAccept, onDecline }) => {
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-xl border border-slate-100 w-full max-w-lg p-8">
+        <div className="flex items-start justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 bg-amber-50 rounded-xl">
+              <ShieldAlert className="text-amber-600" size={24} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-800">{tn('sources.sharedTitle', definitions.length)}</h2>
+              <p className="text-sm text-slate-400 font-medium">{t('sources.sharedSubtitle')}</p>
+            </div>
+          </div>
+          <button onClick={onDecline} title={t('sources.sharedDecline')} className="p-1.5 rounded-full text-slate-400 hover:bg-slate-100"><X size={18} /></button>
+        </div>
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {definitions.map(definition => {
+            const url = buildSourceUrl({ id: '', name: '', ...definition });
+            return (
+              <p key={url} className="p-4 rounded-2xl border border-slate-100 bg-slate-50 text-xs font-semibold text-slate-600 break-all">{url}</p>
+            );
+          })}
+        </div>
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={onDecline} className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-slate-50">{t('sources.sharedDecline')}</button>
+          <button onClick={onAccept} className="px-4 py-2 rounded-xl bg-blue-600 text-sm font-semibold text-white hover:bg-blue-700">{t('sources.sharedAccept')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharedSourcesPrompt;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Sheet, X } from 'lucide-react';
+import { WorkbookSheet } from '../services/workbookService';
+import { formatNumber } from '../utils/formatters';
+import { t, tn } from '../utils/i18n';
+
+interface SheetPickerProps {
+  fileName: string;
+  sheets: WorkbookSheet[];
+  onSelect: (sheet: WorkbookSheet) => void;
+  onCancel: () => void;
+}
+
+const SheetPicker: React.FC<SheetPickerProps> = ({ fileName, sheets, onSelect, onCancel }) => {
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-xl border border-slate-100 w-full max-w-md p-8">
+        <div className="flex items-start justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 bg-blue-50 rounded-xl">
+              <Sheet className="text-blue-600" size={24} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-800">{t('sheets.title')}</h2>
+              <p className="text-sm text-slate-400 font-medium truncate max-w-[260px]">{fileName}</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-1.5 rounded-full text-slate-400 hover:bg-slate-100"><X size={18} /></button>
+        </div>
+        <div className="space-y-2">
+          {sheets.map(sheet => (
+            <button
+              key={sheet.name}
+              onClick={() => onSelect(sheet)}
+              className="w-full flex items-center justify-between p-4 rounded-2xl border border-slate-100 bg-slate-50 hover:bg-blue-50 hover:border-blue-100 transition-all text-left"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-bold text-slate-700 truncate">{sheet.name}</p>
+                <p className="text-xs text-slate-400 font-medium truncate">{sheet.table.headers.filter(Boolean).join(', ')}</p>
+              </div>
+              <span className="text-xs font-semibold text-slate-500 whitespace-nowrap ml-3">{tn('sheets.rows', sheet.table.rows.length, { count: formatNumber(sheet.table.rows.length) })}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SheetPicker;
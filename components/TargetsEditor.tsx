@@ -0,0 +1,175 @@
+import React, { useRef, useState } from 'react';
+import { Download, Goal, Pencil, Plus, Trash2, Upload, X } from 'lucide-react';
+import { Target, TargetDimension, TargetMetric, TargetPeriod } from '../types';
+import { TARGET_DIMENSIONS, TARGET_METRICS, TARGET_PERIODS, describeTarget, formatTargetValue, getTargetBounds, parseTargetsJSON, serializeTargets } from '../utils/targets';
+import { toISODate } from '../utils/dateRanges';
+import { createTargetId } from '../services/targets';
+import { downloadBlob } from '../services/exportService';
+import { t } from '../utils/i18n';
+
+interface TargetsEditorProps {
+  targets: Target[];
+  channels: string[];
+  products: string[];
+  onSave: (targets: Target[]) => void;
+  onClose: () => void;
+}
+
+const emptyDraft = (): Target => ({
+  id: '',
+  metric: 'revenue',
+  period: 'month',
+  start: getTargetBounds({ period: 'month', start: toISODate(new Date()) }).start,
+  dimension: 'global',
+  target: '',
+  value: NaN,
+});
+
+const TargetsEditor: React.FC<TargetsEditorProps> = ({ targets, channels, products, onSave, onClose }) => {
+  const [items, setItems] = useState<Target[]>(targets);
+  const [draft, setDraft] = useState<Target>(emptyDraft);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const options = draft.dimension === 'origem' ? channels : products;
+  const isDraftValid = Number.isFinite(draft.value) && draft.value > 0 && !!draft.start && (draft.dimension === 'global' || !!draft.target);
+
+  const handleSubmitDraft = () => {
+    if (!isDraftValid) return;
+    const target: Target = { ...draft, id: draft.id || createTargetId() };
+    setItems(prev => draft.id ? prev.map(item => item.id === draft.id ? target : item) : [...prev, target]);
+    setDraft(emptyDraft());
+  };
+
+  const handleDelete = (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+    if (draft.id === id) setDraft(emptyDraft());
+  };
+
+  // Mês escolhido é ajustado para o início do período (no trimestral, o primeiro mês do trimestre)
+  const handleStartChange = (month: string, period: TargetPeriod) => {
+    setDraft(prev => ({ ...prev, period, start: month ? getTargetBounds({ period, start: `${month}-01` }).start : '' }));
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([serializeTargets(items)], { type: 'application/json' }), 'metas.json');
+  };
+
+  // Metas importadas substituem as de mesmo id e se somam às demais
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseTargetsJSON(await file.text(), createTargetId);
+      const importedIds = new Set(imported.map(item => item.id));
+      setItems(prev => [...prev.filter(item => !importedIds.has(item.id)), ...imported]);
+    } catch (error) {
+      console.error('Error importing targets:', error);
+      alert(t('targets.error.import', { reason: error instanceof Error ? error.message : t('targets.error.invalidFile') }));
+    }
+  };
+
+  const fieldClass = 'bg-white border border-slate-200 text-sm font-semibold text-slate-700 px-3 py-2.5 rounded-xl outline-none focus:ring-2 focus:ring-blue-500';
+  const sortedItems = [...items].sort((a, b) => b.start.localeCompare(a.start) || a.metric.localeCompare(b.metric));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-xl border border-slate-100 w-full max-w-3xl max-h-[90vh] overflow-y-auto p-8">
+        <div className="flex items-start justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 bg-blue-50 rounded-xl">
+              <Goal className="text-blue-600" size={24} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-800">{t('targets.title')}</h2>
+              <p className="text-sm text-slate-400 font-medium">{t('targets.editor.subtitle')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:bg-slate-100"><X size={18} /></button>
+        </div>
+
+        <div className="flex justify-end gap-2 mb-3">
+          <input type="file" ref={fileInputRef} onChange={handleImport} accept=".json,application/json" className="hidden" />
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-slate-50">
+            <Upload size={14} /> {t('targets.import')}
+          </button>
+          <button onClick={handleExport} disabled={items.length === 0} className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-slate-50 disabled:opacity-30">
+            <Download size={14} /> {t('targets.export')}
+          </button>
+        </div>
+
+        <div className="space-y-2 mb-8">
+          {sortedItems.map(target => (
+            <div key={target.id} className="flex items-center gap-3 p-3 rounded-2xl border bg-blue-50 border-blue-100">
+              <p className="flex-1 min-w-0 text-sm font-bold text-slate-700 truncate">{describeTarget(target)}</p>
+              <p className="text-sm font-semibold text-slate-500 shrink-0">{target.metric === 'cac' ? t('targets.upTo', { value: formatTargetValue(target.metric, target.value) }) : formatTargetValue(target.metric, target.value)}</p>
+              <button onClick={() => setDraft(target)} className="p-1.5 rounded-lg text-slate-400 hover:text-blue-500 hover:bg-white"><Pencil size={14} /></button>
+              <button onClick={() => handleDelete(target.id)} className="p-1.5 rounded-lg text-slate-400 hover:text-rose-500 hover:bg-white"><Trash2 size={14} /></button>
+            </div>
+          ))}
+          {items.length === 0 && <p className="text-sm text-slate-400 text-center py-4">{t('targets.empty')}</p>}
+        </div>
+
+        <div className="bg-slate-50 rounded-2xl p-5 border border-slate-100 mb-6">
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-3">{t(draft.id ? 'targets.edit' : 'targets.new')}</p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select value={draft.metric} onChange={(e) => setDraft(prev => ({ ...prev, metric: e.target.value as TargetMetric }))} className={fieldClass}>
+              {TARGET_METRICS.map(metric => <option key={metric.value} value={metric.value}>{t(metric.label)}</option>)}
+            </select>
+            <select value={draft.period} onChange={(e) => handleStartChange(draft.start.slice(0, 7), e.target.value as TargetPeriod)} className={fieldClass}>
+              {TARGET_PERIODS.map(period => <option key={period.value} value={period.value}>{t(period.label)}</option>)}
+            </select>
+            <input
+              type="month"
+              value={draft.start.slice(0, 7)}
+              onChange={(e) => handleStartChange(e.target.value, draft.period)}
+              title={t(draft.period === 'quarter' ? 'targets.anyQuarterMonth' : 'targets.month')}
+              className={fieldClass}
+            />
+            <select value={draft.dimension} onChange={(e) => setDraft(prev => ({ ...prev, dimension: e.target.value as TargetDimension, target: '' }))} className={fieldClass}>
+              {TARGET_DIMENSIONS.map(dimension => <option key={dimension.value} value={dimension.value}>{t(dimension.label)}</option>)}
+            </select>
+            <select
+              value={draft.target}
+              disabled={draft.dimension === 'global'}
+              onChange={(e) => setDraft(prev => ({ ...prev, target: e.target.value }))}
+              className={`${fieldClass} disabled:opacity-50`}
+            >
+              <option value="">{t(draft.dimension === 'global' ? 'targets.allData' : draft.dimension === 'origem' ? 'targets.chooseChannel' : 'targets.chooseProduct')}</option>
+              {draft.dimension !== 'global' && options.map(option => <option key={option} value={option}>{option}</option>)}
+              {draft.target && !options.includes(draft.target) && <option value={draft.target}>{draft.target}</option>}
+            </select>
+            <input
+              type="number"
+              step="any"
+              min={0}
+              value={Number.isFinite(draft.value) ? draft.value : ''}
+              onChange={(e) => setDraft(prev => ({ ...prev, value: parseFloat(e.target.value) }))}
+              placeholder={t(draft.metric === 'cac' ? 'targets.maxCac' : 'targets.value')}
+              className={fieldClass}
+            />
+          </div>
+          <div className="flex justify-end gap-2 mt-3">
+            {draft.id && <button onClick={() => setDraft(emptyDraft())} className="px-3 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-white">{t('targets.cancelEdit')}</button>}
+            <button
+              onClick={handleSubmitDraft}
+              disabled={!isDraftValid}
+              className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-semibold transition-all ${isDraftValid ? 'bg-white border border-slate-200 text-blue-600 hover:border-blue-200' : 'text-slate-300 cursor-not-allowed'}`}
+            >
+              <Plus size={14} /> {t(draft.id ? 'targets.update' : 'targets.add')}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-slate-50">{t('common.cancel')}</button>
+          <button onClick={() => onSave(items)} className="px-4 py-2 rounded-xl text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 transition-all">
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TargetsEditor;
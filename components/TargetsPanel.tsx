@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Goal, Settings } from 'lucide-react';
+import { TargetProgress } from '../types';
+import { TARGET_STATUS_LABELS, describeTarget, formatTargetValue, isPositiveStatus } from '../utils/targets';
+import { formatISODay } from '../utils/dateRanges';
+import { formatPercent } from '../utils/formatters';
+import { t, tn } from '../utils/i18n';
+
+interface TargetsPanelProps {
+  progress: TargetProgress[];
+  // Último dia com dados, usado como "hoje" no cálculo do ritmo
+  anchor: string;
+  // Total de metas cadastradas, inclusive as de outros recortes
+  targetsCount: number;
+  onManageTargets: () => void;
+}
+
+const STATUS_STYLES: Record<TargetProgress['status'], string> = {
+  upcoming: 'bg-slate-100 text-slate-500',
+  'on-track': 'bg-emerald-100 text-emerald-700',
+  behind: 'bg-amber-100 text-amber-700',
+  achieved: 'bg-emerald-100 text-emerald-700',
+  missed: 'bg-rose-100 text-rose-700',
+};
+
+const TargetCard: React.FC<{ item: TargetProgress }> = ({ item }) => {
+  const { target } = item;
+  const isCac = target.metric === 'cac';
+  const positive = isPositiveStatus(item.status);
+  return (
+    <div className="p-4 rounded-2xl bg-slate-50 border border-slate-100">
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <p className="text-sm font-bold text-slate-700 truncate" title={describeTarget(target)}>{describeTarget(target)}</p>
+        <span className={`shrink-0 text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full ${STATUS_STYLES[item.status]}`}>
+          {t(TARGET_STATUS_LABELS[item.status])}
+        </span>
+      </div>
+      <p className="text-lg font-bold text-slate-800">
+        {formatTargetValue(target.metric, item.actual)}
+        <span className="text-sm font-semibold text-slate-400"> / {isCac ? t('targets.max', { value: formatTargetValue(target.metric, target.value) }) : formatTargetValue(target.metric, target.value)}</span>
+      </p>
+      <div className="relative h-2 w-full bg-white rounded-full overflow-hidden border border-slate-100 my-2">
+        <div
+          className={`h-full rounded-full ${positive ? 'bg-emerald-500' : item.status === 'upcoming' ? 'bg-slate-300' : 'bg-amber-500'}`}
+          style={{ width: `${Math.min(100, item.percent)}%` }}
+        />
+        {!isCac && item.remainingDays > 0 && item.elapsedDays > 0 && (
+          <div className="absolute top-0 h-full w-0.5 bg-slate-400" style={{ left: `${item.expectedPercent}%` }} title={t('targets.expectedPace')} />
+        )}
+      </div>
+      <div className="space-y-0.5 text-xs font-medium text-slate-500">
+        {isCac ? (
+          <p>{tn('targets.limitUsed', item.remainingDays, { percent: formatPercent(item.percent) })}</p>
+        ) : (
+          <>
+            <p>{t('targets.achievedSoFar', { percent: formatPercent(item.percent), expected: formatPercent(item.expectedPercent) })}</p>
+            {item.remainingDays > 0 && item.requiredDaily !== null && item.percent < 100 && (
+              <p>{tn('targets.requiredDaily', item.remainingDays, { value: formatTargetValue(target.metric, item.requiredDaily) })}</p>
+            )}
+            {item.elapsedDays > 0 && item.remainingDays > 0 && (
+              <p>{t('targets.projection', { value: formatTargetValue(target.metric, item.projected), percent: formatPercent(item.projectedPercent) })}</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const TargetsPanel: React.FC<TargetsPanelProps> = ({ progress, anchor, targetsCount, onManageTargets }) => {
+  const [expanded, setExpanded] = useState(false);
+  const current = progress.filter(item => anchor >= item.target.start && anchor <= item.end);
+  const others = progress.filter(item => !current.includes(item)).sort((a, b) => b.target.start.localeCompare(a.target.start));
+  const visible = expanded ? [...current, ...others] : current;
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm mb-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Goal size={22} className="text-blue-500" /> {t('targets.title')}
+          </h3>
+          <p className="text-sm text-slate-400 font-medium">
+            {anchor ? t('targets.anchor', { date: formatISODay(anchor) }) : t('targets.noAnchor')}
+          </p>
+        </div>
+        <button onClick={onManageTargets} className="flex items-center gap-2 bg-slate-50 px-3 py-2 rounded-xl border border-slate-200 text-sm font-semibold text-slate-600 hover:border-blue-200 hover:text-blue-600 transition-all">
+          <Settings size={16} /> {t('targets.manage')}
+        </button>
+      </div>
+
+      {visible.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+          {visible.map(item => <TargetCard key={item.target.id} item={item} />)}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400 text-center py-4">
+          {t(targetsCount === 0
+            ? 'targets.empty'
+            : progress.length === 0 ? 'targets.emptyScope' : 'targets.emptyCurrent')}
+        </p>
+      )}
+      {others.length > 0 && (
+        <button onClick={() => setExpanded(prev => !prev)} className="mt-4 text-sm font-semibold text-blue-600 hover:text-blue-700">
+          {expanded ? t('targets.showCurrent') : t('targets.showOthers', { count: others.length })}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TargetsPanel;
@@ -0,0 +1,43 @@
+import React, { useEffect } from 'react';
+import { TrendingUp, X } from 'lucide-react';
+import { t } from '../utils/i18n';
+
+export interface UpdateNotice {
+  id: number;
+  message: string;
+  detail: string;
+}
+
+interface UpdateToastProps {
+  notice: UpdateNotice | null;
+  onDismiss: () => void;
+}
+
+const DISPLAY_MS = 8000;
+
+const UpdateToast: React.FC<UpdateToastProps> = ({ notice, onDismiss }) => {
+  useEffect(() => {
+    if (!notice) return;
+    const timeout = setTimeout(onDismiss, DISPLAY_MS);
+    return () => clearTimeout(timeout);
+  }, [notice?.id]);
+
+  if (!notice) return null;
+
+  return (
+    <div role="status" className="fixed bottom-6 right-6 z-50 flex items-start gap-3 max-w-sm bg-slate-900 text-white rounded-2xl shadow-2xl p-4">
+      <div className="p-2 bg-emerald-500/20 rounded-xl">
+        <TrendingUp size={20} className="text-emerald-400" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-bold">{notice.message}</p>
+        {notice.detail && <p className="text-xs font-medium text-slate-400 mt-0.5">{notice.detail}</p>}
+      </div>
+      <button onClick={onDismiss} title={t('common.close')} className="p-1 rounded-lg text-slate-400 hover:text-white hover:bg-white/10">
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
+
+export default UpdateToast;
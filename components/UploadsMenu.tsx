@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Columns, Database, FileSpreadsheet, Layers, Trash2 } from 'lucide-react';
+import { DedupKey, UploadedDataset } from '../types';
+import { DEDUP_KEYS, LIVE_PART_ID, MergeStats } from '../utils/merge';
+import { formatNumber } from '../utils/formatters';
+import { t, tn } from '../utils/i18n';
+
+interface UploadsMenuProps {
+  liveLabel: string;
+  liveCount: number;
+  includeLive: boolean;
+  uploads: UploadedDataset[];
+  stats: Record<string, MergeStats>;
+  dedupKey: DedupKey;
+  onToggleLive: () => void;
+  onToggleUpload: (id: string) => void;
+  onRemapUpload: (id: string) => void;
+  onRemoveUpload: (id: string) => void;
+  onRemoveAll: () => void;
+  onDedupKeyChange: (key: DedupKey) => void;
+}
+
+const describeStats = (stats: MergeStats | undefined, fallback: number) => {
+  if (!stats) return tn('records.count', fallback, { count: formatNumber(fallback) });
+  const kept = stats.total - stats.duplicates;
+  const records = tn('records.count', kept, { count: formatNumber(kept) });
+  return stats.duplicates > 0 ? `${records} • ${tn('uploads.duplicates', stats.duplicates, { count: formatNumber(stats.duplicates) })}` : records;
+};
+
+const UploadsMenu: React.FC<UploadsMenuProps> = ({
+  liveLabel, liveCount, includeLive, uploads, stats, dedupKey,
+  onToggleLive, onToggleUpload, onRemapUpload, onRemoveUpload, onRemoveAll, onDedupKeyChange
+}) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeCount = uploads.filter(upload => upload.enabled).length;
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="flex items-center gap-2 bg-blue-50 border border-blue-100 px-4 py-2 rounded-xl text-blue-700 hover:border-blue-200 transition-all"
+      >
+        <Layers size={18} className="text-blue-600" />
+        <span className="text-sm font-semibold">
+          {activeCount === uploads.length ? tn('uploads.files', uploads.length) : t('uploads.activeFiles', { active: activeCount, count: uploads.length })}
+        </span>
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-2xl shadow-lg border border-slate-100 p-2 z-40">
+          <p className="px-3 pt-2 pb-1 text-[10px] text-slate-400 font-bold uppercase tracking-wider">{t('uploads.merged')}</p>
+          <label className="flex items-center gap-3 px-3 py-2.5 rounded-xl hover:bg-slate-50 cursor-pointer">
+            <input type="checkbox" checked={includeLive} onChange={onToggleLive} />
+            <Database size={16} className="text-blue-500 shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-semibold text-slate-700 truncate">{liveLabel}</p>
+              <p className="text-xs font-medium text-slate-400">{t('uploads.live')} • {describeStats(stats[LIVE_PART_ID], liveCount)}</p>
+            </div>
+          </label>
+          <div className="max-h-64 overflow-y-auto">
+            {uploads.map(upload => (
+              <div key={upload.id} className="group flex items-center gap-1 rounded-xl hover:bg-slate-50">
+                <label className="flex-1 flex items-center gap-3 px-3 py-2.5 min-w-0 cursor-pointer">
+                  <input type="checkbox" checked={upload.enabled} onChange={() => onToggleUpload(upload.id)} />
+                  <FileSpreadsheet size={16} className="text-emerald-500 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-slate-700 truncate" title={upload.fileName}>{upload.fileName}</p>
+                    <p className="text-xs font-medium text-slate-400">{describeStats(upload.enabled ? stats[upload.id] : undefined, upload.count)}</p>
+                  </div>
+                </label>
+                <button onClick={() => { onRemapUpload(upload.id); setOpen(false); }} title={t('uploads.remap')} className="p-1.5 rounded-lg text-slate-300 opacity-0 group-hover:opacity-100 hover:text-blue-500 hover:bg-white">
+                  <Columns size={14} />
+                </button>
+                <button onClick={() => onRemoveUpload(upload.id)} title={t('uploads.remove')} className="p-1.5 mr-1 rounded-lg text-slate-300 opacity-0 group-hover:opacity-100 hover:text-rose-500 hover:bg-white">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="border-t border-slate-100 my-2" />
+          <div className="px-3 pb-1">
+            <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-1.5">{t('uploads.dedupBy')}</p>
+            <select
+              value={dedupKey}
+              onChange={(e) => onDedupKeyChange(e.target.value as DedupKey)}
+              className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-semibold text-slate-600 outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {DEDUP_KEYS.map(option => <option key={option.value} value={option.value}>{t(option.label)}</option>)}
+            </select>
+            {dedupKey === 'transaction' && (
+              <p className="text-[11px] font-medium text-slate-400 mt-1">{t('uploads.dedup.hint')}</p>
+            )}
+          </div>
+          <div className="border-t border-slate-100 my-2" />
+          <button
+            onClick={() => { onRemoveAll(); setOpen(false); }}
+            className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-sm font-semibold text-rose-600 hover:bg-rose-50 text-left"
+          >
+            <Trash2 size={16} /> {t('uploads.removeAll')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UploadsMenu;
@@ -2,12 +2,20 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { loadCurrencySettings, loadLocale } from './services/displaySettings';
+import { setFormatSettings } from './utils/formatters';
+import { setLocale } from './utils/i18n';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Idioma e moeda salvos valem desde a primeira renderização; trocas posteriores passam pelo App
+const locale = loadLocale();
+setLocale(locale);
+setFormatSettings({ locale, currency: loadCurrencySettings().display });
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
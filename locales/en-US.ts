@@ -0,0 +1,527 @@
+import { MessageKey } from './pt-BR';
+
+const enUS: Record<MessageKey, string> = {
+  'common.unknown': 'Unknown',
+  'common.notAvailable': 'N/A',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.remove': 'Remove',
+  'common.total': 'Total',
+  'common.others': 'Others ({count})',
+  'common.noDate': 'No date',
+  'common.noRecords': 'No records in the filtered period',
+  'common.close': 'Close',
+
+  'import.invalid': 'Could not extract valid data from this spreadsheet. Please check the format.',
+  'import.unreadable': 'Could not read this file. Please check the format.',
+  'import.noSheets': 'No sheet with data was found in this workbook.',
+  'import.reading': 'Reading file... {percent}%',
+  'import.add': 'Add File',
+  'import.start': 'Import Data',
+
+  'app.loading': 'Loading Dashboard...',
+  'app.title': 'Performance Dashboard',
+  'app.subtitle': 'Management based on real data',
+  'app.footer': 'Production Version',
+  'app.syncedVia': 'Synced via {source}',
+
+  'sources.combined': 'Combined ({count} sources)',
+  'sources.manage': 'Manage sources',
+  'sources.local': 'Local: {name}',
+  'sources.shared': 'Shared: {name}',
+  'sources.sharedTitle.one': 'Add source from link?',
+  'sources.sharedTitle.other': 'Add {count} sources from link?',
+  'sources.sharedSubtitle': 'The shared link requests data from these addresses. Only add sources you trust.',
+  'sources.sharedAccept': 'Add and load',
+  'sources.sharedDecline': 'Ignore',
+  'sources.title': 'Data Sources',
+  'sources.subtitle': 'Select more than one source to combine the data',
+  'sources.empty': 'No sources registered',
+  'sources.new': 'New source',
+  'sources.edit': 'Edit source',
+  'sources.name': 'Name (e.g. Downtown store)',
+  'sources.sheetId': 'Spreadsheet ID',
+  'sources.sheet': 'Tab: gid or name (optional)',
+  'sources.csvUrl': 'https://example.com/sales.csv',
+  'sources.jsonUrl': 'https://api.example.com/sales',
+  'sources.cancelEdit': 'Cancel editing',
+  'sources.update': 'Update source',
+  'sources.add': 'Add source',
+
+  'filters.source': 'Source',
+  'filters.product': 'Product',
+  'filters.allProducts': 'All Products',
+  'filters.channel': 'Channel',
+  'filters.allChannels': 'All Channels',
+  'filters.period': 'Period',
+  'filters.periods': 'Ranges',
+  'filters.recordsShown.one': '{count} record shown',
+  'filters.recordsShown.other': '{count} records shown',
+  'filters.active': 'Active filters',
+  'filters.remove': 'Remove filter',
+  'filters.clear': 'Clear filters',
+  'filters.addProduct': '+ Product',
+  'filters.addChannel': '+ Channel',
+  'filters.addMonth': '+ Month',
+  'filters.allMonths': 'All Months',
+
+  'report.title': 'Performance Report',
+  'report.generatedAt': 'Generated on {date}',
+
+  'kpi.totalSales': 'Total Sales',
+  'kpi.revenue': 'Gross Revenue',
+  'kpi.ticket': 'Average Ticket',
+  'kpi.cost': 'Acquisition Cost',
+  'kpi.cac': 'CAC',
+  'kpi.cacSubtitle': 'cost per sale',
+  'kpi.roas': 'ROAS',
+  'kpi.roasSubtitle': 'revenue / cost',
+  'kpi.profit': 'Net Profit',
+  'kpi.margin': '{value} margin',
+  'kpi.trendVs': 'vs {baseline} ({bounds})',
+  'kpi.targetLimit': '{period} target: {percent} of the limit • {status}',
+  'kpi.targetProgress': '{period} target: {percent} (expected {expected}) • {status}',
+
+  'baseline.none': 'no comparison',
+  'baseline.previous': 'previous period',
+  'baseline.last-year': 'same period last year',
+  'baseline.custom': 'custom period',
+  'baseline.option.none': 'No comparison',
+  'baseline.option.previous': 'vs Previous period',
+  'baseline.option.last-year': 'vs Same period last year',
+  'baseline.option.custom': 'vs Custom period',
+
+  'insight.bestMonth': 'Best Month',
+  'insight.bestSeller': 'Best Seller',
+  'insight.units.one': '{count} unit',
+  'insight.units.other': '{count} units',
+  'insight.leaderShare': 'Leader Share',
+  'insight.ofRevenue': 'of total revenue',
+  'insight.forecast': 'Forecast • {period}',
+
+  'timeline.title': 'Revenue Over Time',
+  'timeline.overlayBaseline': 'Overlay baseline period',
+  'timeline.anomalies.one': '{count} anomaly',
+  'timeline.anomalies.other': '{count} anomalies',
+  'timeline.range': '{confidence}% interval',
+  'timeline.forecast': 'Forecast',
+  'timeline.target': 'Target',
+  'timeline.baseline': 'Baseline period',
+
+  'forecast.method.linear': 'Linear trend',
+  'forecast.method.holt-winters': 'Seasonal Holt-Winters',
+  'forecast.periods': 'periods',
+  'forecast.confidence': 'CI {confidence}%',
+
+  'granularity.day': 'Day',
+  'granularity.week': 'Week',
+  'granularity.month': 'Month',
+  'granularity.quarter': 'Quarter',
+  'granularity.year': 'Year',
+
+  'bucket.week': 'Wk {day}',
+  'bucket.quarter': 'Q{quarter}/{year}',
+
+  'metric.revenue': 'Revenue',
+  'metric.sales': 'Sales',
+  'metric.cost': 'Cost',
+  'metric.profit': 'Profit',
+  'metric.ticket': 'Avg. ticket',
+  'metric.margin': 'Margin',
+
+  'channels.title': 'Sales and Revenue by Channel',
+  'channels.all': 'All channels',
+  'channels.manage': 'Channel rules and hierarchy',
+  'channels.button': 'Channels',
+  'channels.drillHint': 'Click to see the channels below',
+  'channels.match.exact': 'Equals',
+  'channels.match.ignore-case': 'Equals (ignoring case)',
+  'channels.match.regex': 'Regular expression',
+  'channels.match.utm': 'UTM parameters',
+  'channels.rule.utm': 'utm_source={source}',
+  'channels.rule.utmMedium': 'utm_source={source} and utm_medium={medium}',
+  'channels.error.pattern': 'Enter the value to compare',
+  'channels.error.channel': 'Enter the target channel',
+  'channels.error.regex': 'Invalid regular expression',
+  'channels.taxonomy.title': 'Channel Taxonomy',
+  'channels.taxonomy.subtitle': 'Rules that merge raw sources into channels, and the hierarchy used in the charts',
+  'channels.rules': 'Rules (the first match wins)',
+  'channels.origins.one': '{count} source',
+  'channels.origins.other': '{count} sources',
+  'channels.placeholder.utmSource': 'utm_source (e.g. instagram)',
+  'channels.placeholder.utmMedium': 'utm_medium (optional)',
+  'channels.placeholder.regex': 'E.g. ^(fb|facebook)',
+  'channels.placeholder.raw': 'Raw source',
+  'channels.placeholder.channel': 'Canonical channel (e.g. Instagram)',
+  'channels.placeholder.node': 'Name (e.g. Paid Social)',
+  'channels.hierarchy': 'Channel hierarchy',
+  'channels.hierarchyEmpty': 'No channels in the hierarchy',
+  'channels.node': 'Channel in the hierarchy',
+  'channels.removeNode': 'Remove channel',
+  'channels.topLevel': 'Top level',
+  'channels.below': 'Under {name}',
+  'channels.addNode': 'Add channel',
+  'channels.updateNode': 'Update channel',
+  'channels.unmapped': 'Sources without a rule ({count})',
+  'channels.createRule': 'Create a rule for this source',
+  'channels.moreOrigins.one': 'and {count} more source',
+  'channels.moreOrigins.other': 'and {count} more sources',
+  'channels.allMapped': 'All sources are mapped',
+
+  'products.title': 'Revenue Share by Product',
+  'products.withClass': '{name} • class {abcClass}',
+
+  'display.title': 'Currency and exchange rates',
+  'display.subtitle': 'Display currency and value conversion',
+  'display.language': 'Language',
+  'display.currency': 'Display currency',
+  'display.baseCurrency': 'Reference currency',
+  'display.baseHint': 'Records without a currency column are in this currency',
+  'display.rates': 'Exchange rates',
+  'display.ratesHint': 'Value of 1 unit of each currency in {base}',
+  'display.addRate': 'Add currency',
+  'display.noRates': 'No rates yet: values can only be shown in {base}',
+  'display.dataCurrencies': 'Currencies found in the data: {codes}',
+  'display.missing': 'No rate: {codes}',
+  'display.missingDetail.one': '{count} record in {code} has no exchange rate and is shown unconverted',
+  'display.missingDetail.other': '{count} records in {code} have no exchange rate and are shown unconverted',
+
+  'insights.title': 'Insights',
+  'insights.subtitle': 'Weekly summary and questions answered from the selected data',
+  'insights.provider': 'Provider',
+  'insights.provider.local': 'Local (offline)',
+  'insights.localHint': 'Answers are generated in the browser from the data. Set GEMINI_API_KEY to use Gemini.',
+  'insights.summaryTitle': 'Weekly summary',
+  'insights.generate': 'Generate summary',
+  'insights.stale': 'Filters changed since the last summary',
+  'insights.loading': 'Generating...',
+  'insights.empty': 'There is no data in the current selection to summarize.',
+  'insights.ask': 'Ask about the data, e.g.: which channel had the best ROAS in March?',
+  'insights.send': 'Ask',
+  'insights.examples': 'Examples',
+  'insights.example.1': 'Which channel had the best ROAS in March?',
+  'insights.example.2': 'Which product sold the most?',
+  'insights.example.3': 'Which channel had the lowest CAC this week?',
+  'insights.clear': 'Clear questions',
+  'insights.metric.revenue': 'revenue',
+  'insights.metric.sales': 'sales volume',
+  'insights.metric.cost': 'cost',
+  'insights.metric.roas': 'ROAS',
+  'insights.metric.cac': 'CAC',
+  'insights.metric.profit': 'profit',
+  'insights.metric.ticket': 'average ticket',
+  'insights.dimension.channel': 'channel',
+  'insights.dimension.product': 'product',
+  'insights.direction.best': 'best',
+  'insights.direction.worst': 'worst',
+  'insights.direction.highest': 'highest',
+  'insights.direction.lowest': 'lowest',
+  'insights.period.all': 'In the filtered period',
+  'insights.period.in': 'In {period}',
+  'insights.period.week': 'In the week of {start} to {end}',
+  'insights.answer.ranked': '{period}, the {dimension} with the {direction} {metric} was {name}, at {value}.',
+  'insights.answer.next': 'Followed by {items}.',
+  'insights.answer.total': '{period}, {metric}: {value}.',
+  'insights.answer.noData': '{period} there is no data in the current selection.',
+  'insights.answer.noMetric': 'No {dimension} has a computable {metric} in that period.',
+  'insights.answer.unknown': 'I could not interpret the question. Ask about revenue, sales, cost, profit, ROAS, CAC or average ticket, by channel or product, with an optional month. For example: "{example}"',
+  'insights.summary.week': 'Week of {start} to {end}: {revenue} in revenue from {sales} sales ({change} revenue vs. the previous 7 days).',
+  'insights.summary.noPrevious': 'no prior data',
+  'insights.summary.efficiency': 'ROAS of {roas} and CAC of {cac} for the week.',
+  'insights.summary.leaders': 'Leaders: {channel} among channels ({channelRevenue}) and {product} among products ({productRevenue}).',
+  'insights.summary.moverUp': '{name} was the fastest-growing channel, with {change} revenue.',
+  'insights.summary.moverDown': 'Watch {name}: revenue {change} compared with the previous week.',
+  'insights.summary.period': 'From {start} to {end}, revenue totals {revenue} from {sales} sales, with a ROAS of {roas}.',
+  'insights.summary.trend': 'Against the baseline period, revenue changed {change}.',
+  'insights.error.request': '{provider} rejected the request (HTTP {status}).',
+  'insights.error.network': 'Could not reach {provider}. Check your connection.',
+  'insights.error.empty': '{provider} returned no text.',
+
+  'records.title': 'Records',
+  'records.subtitle': 'The rows behind the numbers, with local corrections that apply to every chart',
+  'records.search': 'Search all fields',
+  'records.drill': 'Showing: {label}',
+  'records.clearDrill': 'Show all filtered records',
+  'records.column.date': 'Date',
+  'records.column.quantity': 'Qty',
+  'records.empty': 'No records found',
+  'records.original': 'Original: {value}',
+  'records.edit': 'Correct record',
+  'records.exclude': 'Exclude record',
+  'records.editHint': 'Values in the record currency ({currency}) and channel before normalization rules. Enter saves, Esc cancels.',
+  'records.count.one': '{count} record',
+  'records.count.other': '{count} records',
+  'records.pageSize': '{size} per page',
+  'records.page': 'Page {page} of {total}',
+  'records.drillHint': 'Click the indicator cards or the ranking rows, or Shift+click chart bars, slices and points, to see the matching records.',
+  'records.corrections.one': '{count} local correction',
+  'records.corrections.other': '{count} local corrections',
+  'records.exportCorrections': 'Export list (CSV)',
+  'records.revertAll': 'Undo all',
+  'records.excluded': 'Excluded',
+  'records.unmatched': 'Record not found in the current data',
+  'records.revert': 'Undo',
+  'records.showLess': 'Show less',
+  'records.showAll': 'Show all ({count})',
+  'records.error.date': 'Enter a valid date (YYYY-MM-DD)',
+  'records.error.product': 'Enter the product',
+  'records.error.channel': 'Enter the channel',
+  'records.error.number': 'Quantity, revenue and cost must be numbers',
+  'records.error.quantity': 'Quantity must be a whole number, zero or greater',
+
+  'datePreset.all': 'All time',
+  'datePreset.last7': 'Last 7 days',
+  'datePreset.last30': 'Last 30 days',
+  'datePreset.last90': 'Last 90 days',
+  'datePreset.qtd': 'Quarter to date',
+  'datePreset.ytd': 'Year to date',
+  'datePreset.month': 'Specific month',
+  'datePreset.custom': 'Custom',
+  'dateRange.until': 'to',
+  'dateRange.bounds': '{start} to {end}',
+
+  'alerts.title': 'Alerts and Anomalies',
+  'alerts.activeRules.one': '{count} active rule',
+  'alerts.activeRules.other': '{count} active rules',
+  'alerts.evaluatedAt': 'evaluated at {time}',
+  'alerts.manage': 'Manage rules',
+  'alerts.streak.one': '{count} day in a row ({bounds}) • last value {value}',
+  'alerts.streak.other': '{count} days in a row ({bounds}) • last value {value}',
+  'alerts.week': 'Week {bounds}',
+  'alerts.anomalyValue': '{metric} {value} (expected ~{expected})',
+  'alerts.noAnomalies': 'No anomalies in the filtered period',
+  'alerts.allChannels': 'all channels',
+  'alerts.allProducts': 'all products',
+  'alerts.rule.one': '{metric} for {target} {operator} {threshold} for {count} day',
+  'alerts.rule.other': '{metric} for {target} {operator} {threshold} for {count} days',
+  'alerts.rules.title': 'Alert Rules',
+  'alerts.rules.subtitle': 'Evaluated over the most recent days on every data update',
+  'alerts.rules.empty': 'No rules yet',
+  'alerts.rules.new': 'New rule',
+  'alerts.rules.edit': 'Edit rule',
+  'alerts.rules.below': 'Less than',
+  'alerts.rules.above': 'Greater than',
+  'alerts.rules.threshold': 'Threshold',
+  'alerts.rules.for': 'for',
+  'alerts.rules.days': 'days in a row',
+  'alerts.rules.cancelEdit': 'Cancel editing',
+  'alerts.rules.update': 'Update rule',
+  'alerts.rules.add': 'Add rule',
+
+  'targets.title': 'Targets',
+  'targets.editor.subtitle': 'Monthly or quarterly, overall or by product and channel',
+  'targets.maxCac': 'Maximum CAC',
+  'targets.period.month': 'Monthly',
+  'targets.period.quarter': 'Quarterly',
+  'targets.global': 'Overall',
+  'targets.status.upcoming': 'Not started',
+  'targets.status.on-track': 'On track',
+  'targets.status.behind': 'Behind pace',
+  'targets.status.achieved': 'Achieved',
+  'targets.status.missed': 'Missed',
+  'targets.import': 'Import JSON',
+  'targets.export': 'Export JSON',
+  'targets.upTo': 'up to {value}',
+  'targets.max': '{value} max.',
+  'targets.empty': 'No targets yet',
+  'targets.emptyScope': 'No targets for the filtered view',
+  'targets.emptyCurrent': 'No targets for the current period',
+  'targets.new': 'New target',
+  'targets.edit': 'Edit target',
+  'targets.month': 'Target month',
+  'targets.anyQuarterMonth': 'Any month of the quarter',
+  'targets.allData': 'All data',
+  'targets.chooseChannel': 'Choose the channel',
+  'targets.chooseProduct': 'Choose the product',
+  'targets.value': 'Target value',
+  'targets.cancelEdit': 'Cancel editing',
+  'targets.update': 'Update target',
+  'targets.add': 'Add target',
+  'targets.expectedPace': 'Expected pace to date',
+  'targets.limitUsed.one': '{percent} of the limit • {count} day left',
+  'targets.limitUsed.other': '{percent} of the limit • {count} days left',
+  'targets.achievedSoFar': '{percent} achieved • {expected} expected to date',
+  'targets.requiredDaily.one': '{value}/day needed over the {count} remaining day',
+  'targets.requiredDaily.other': '{value}/day needed over the {count} remaining days',
+  'targets.projection': 'Projection: {value} ({percent} of target)',
+  'targets.anchor': 'Pace calculated up to {date}, the last day with data',
+  'targets.noAnchor': 'No data to calculate the pace',
+  'targets.manage': 'Manage targets',
+  'targets.showCurrent': 'Show only the current period',
+  'targets.showOthers': 'See other periods ({count})',
+  'targets.error.noValid': 'No valid targets found in the file',
+  'targets.error.import': 'Could not import the targets: {reason}',
+  'targets.error.invalidFile': 'invalid file',
+
+  'autoRefresh.title': 'Auto refresh',
+  'autoRefresh.unavailable': 'Unavailable for imported files',
+  'autoRefresh.off': 'Off',
+  'autoRefresh.every': 'Every {minutes} min',
+
+  'pivot.title': 'Pivot Table',
+  'pivot.rows': 'Rows: {dimension}',
+  'pivot.columns': 'Columns: {dimension}',
+  'pivot.topRows': 'Top {limit} rows',
+  'pivot.allRows': 'All rows',
+
+  'seasonality.title': 'Seasonality',
+  'seasonality.subtitle': 'Averages per calendar day, following the product and channel filters',
+  'seasonality.calendar': 'Daily calendar',
+  'seasonality.lastWeeks': 'last {count} weeks',
+  'seasonality.weekdayMonth': 'Daily average • weekday × month',
+  'seasonality.cell.one': '{weekday} in {month}: {value} per day ({count} day)',
+  'seasonality.cell.other': '{weekday} in {month}: {value} per day ({count} days)',
+  'seasonality.outside': 'Outside the period',
+  'seasonality.dayOfMonth': 'Daily average • day of month',
+  'seasonality.day': 'Day {day}',
+  'seasonality.perDay': '{value} per day',
+  'seasonality.occurrences.one': '{count} occurrence',
+  'seasonality.occurrences.other': '{count} occurrences',
+  'seasonality.hourWeekday': 'Total by hour × weekday',
+  'seasonality.timedShare': '{percent} of records have a time',
+
+  'comparison.products': 'Products',
+  'comparison.channels': 'Channels',
+  'comparison.share': 'Share',
+  'comparison.title.products': 'Product Comparison',
+  'comparison.title.channels': 'Channel Comparison',
+  'comparison.subtitle': 'Differences from the reference item in the selected period',
+  'comparison.setReference': 'Use as reference',
+  'comparison.addProduct': '+ Add product',
+  'comparison.addChannel': '+ Add channel',
+  'comparison.addMatching': 'Add all containing...',
+  'comparison.addMatches': 'Add matches',
+  'comparison.clear': 'Clear',
+  'comparison.empty.product': 'Select at least one product to compare',
+  'comparison.empty.channel': 'Select at least one channel to compare',
+  'comparison.reference': 'Reference',
+  'comparison.radar': 'Relative Profile (100 = highest value)',
+  'comparison.timeline': 'Revenue Over Time',
+
+  'profitability.title': 'Profitability Ranking',
+  'profitability.byChannel': 'By Channel',
+  'profitability.byProduct': 'By Product',
+
+  'pareto.title': 'ABC Curve (Pareto)',
+  'pareto.subtitle.product': 'Cumulative revenue by product, ignoring the product filter to keep the classes stable',
+  'pareto.subtitle.channel': 'Cumulative revenue by channel, ignoring the channel filter to keep the classes stable',
+  'pareto.badge': 'ABC curve: class {abcClass}',
+  'pareto.class': 'Class {abcClass}',
+  'pareto.upTo': 'up to',
+  'pareto.next': 'next',
+  'pareto.rest': 'remainder ({percent})',
+  'pareto.staleFor': 'Long tail without sales for',
+  'pareto.days': 'days',
+  'pareto.items.one': '{count} item',
+  'pareto.items.other': '{count} items',
+  'pareto.revenueShare': '{percent} of revenue',
+  'pareto.cumulative': 'Cumulative',
+  'pareto.chartLimit': 'Chart shows the top {limit} of {count} items',
+  'pareto.ranking': 'Ranking by revenue',
+  'pareto.filterBy': 'Filter by {name}',
+  'pareto.staleTitle': 'Long tail • no sales for {days}+ days across the whole history',
+  'pareto.noStale': 'All items sold in the last {days} days with data',
+  'pareto.lastSale': 'Last sale on {date}',
+  'pareto.daysAgo': '{days} days ago',
+
+  'dataStatus.fetchedAt': 'data from {date}',
+  'dataStatus.refreshing': 'Fetching updated data...',
+  'dataStatus.stale': 'Showing the last copy saved on this device',
+  'dataStatus.synced': 'Data in sync with the source',
+
+  'loadError.offline': 'Could not connect to the data sources',
+  'loadError.failed': 'Failed to load the data',
+  'loadError.fallback': 'showing the last saved copy',
+  'loadError.retry': 'Try again',
+  'loadError.retrying': 'Retrying...',
+
+  'update.message.one': '{sales} sale, {revenue} since the last update',
+  'update.message.other': '{sales} sales, {revenue} since the last update',
+  'update.added.one': '{count} new record',
+  'update.added.other': '{count} new records',
+  'update.changed.one': '{count} changed',
+  'update.changed.other': '{count} changed',
+  'update.removed.one': '{count} removed',
+  'update.removed.other': '{count} removed',
+
+  'export.button': 'Export',
+  'export.busy': 'Generating...',
+  'export.error': 'Could not generate the export.',
+  'export.records-csv': 'Filtered records (CSV)',
+  'export.aggregates-csv': 'Aggregated indicators (CSV)',
+  'export.xlsx': 'Full spreadsheet (XLSX)',
+  'export.png': 'Report as image (PNG)',
+  'export.pdf': 'Printable report (PDF)',
+
+  'uploads.files.one': '{count} file',
+  'uploads.files.other': '{count} files',
+  'uploads.activeFiles': '{active} of {count} files',
+  'uploads.merged': 'Merged datasets',
+  'uploads.live': 'Live',
+  'uploads.duplicates.one': '{count} duplicate ignored',
+  'uploads.duplicates.other': '{count} duplicates ignored',
+  'uploads.remap': 'Map columns',
+  'uploads.remove': 'Remove file',
+  'uploads.removeAll': 'Remove all files',
+  'uploads.dedupBy': 'Remove duplicates by',
+  'uploads.dedup.fields': 'Date + product + source + amount',
+  'uploads.dedup.transaction': 'Transaction ID',
+  'uploads.dedup.hint': 'Records without a transaction ID use date, product, source and amount',
+
+  'sheets.title': 'Choose the Sheet',
+  'sheets.rows.one': '{count} row',
+  'sheets.rows.other': '{count} rows',
+
+  'views.button': 'Views',
+  'views.copyLink': 'Copy link to this view',
+  'views.copied': 'Link copied!',
+  'views.copyError': 'Could not copy the link. Copy the address straight from the browser bar.',
+  'views.empty': 'No saved views yet',
+  'views.delete': 'Delete view',
+  'views.name': 'View name (e.g. Meta – Q3)',
+  'views.save': 'Save current view',
+
+  'mapping.title': 'Column Mapping',
+  'mapping.ambiguous': 'The columns could not be mapped reliably',
+  'mapping.none': '— Do not map —',
+  'mapping.column': 'Column {index}',
+  'mapping.dateFormat': 'Date Format',
+  'mapping.dateFormat.DMY': 'dd/mm/yyyy',
+  'mapping.dateFormat.MDY': 'mm/dd/yyyy',
+  'mapping.dateFormat.YMD': 'yyyy-mm-dd',
+  'mapping.decimalSeparator': 'Decimal Separator',
+  'mapping.autoDetect': 'Detect automatically',
+  'mapping.decimal.comma': 'Comma (1.234,56)',
+  'mapping.decimal.dot': 'Dot (1,234.56)',
+  'mapping.duplicated': 'The same column is assigned to more than one field.',
+  'mapping.saveProfile': 'Save as profile',
+  'mapping.profileName': 'Profile name',
+  'mapping.validRecords.one': '{count} valid record',
+  'mapping.validRecords.other': '{count} valid records',
+  'mapping.apply': 'Apply Mapping',
+  'mapping.profiles': 'Saved profiles',
+  'mapping.field.data': 'Sale Date',
+  'mapping.field.produto': 'Product',
+  'mapping.field.quantidade_vendida': 'Quantity',
+  'mapping.field.receita': 'Revenue',
+  'mapping.field.origem': 'Source / Channel',
+  'mapping.field.custo_aquisicao': 'Acquisition Cost',
+  'mapping.field.id_transacao': 'Transaction ID',
+  'mapping.field.moeda': 'Currency',
+  'mapping.issue.either': '"{header}" could be {field} or {other}',
+  'mapping.issue.contested': '"{header}" and "{other}" both match the {field} field',
+  'mapping.issue.missing': 'No column found for {field}',
+
+  'source.error.columns': 'Source "{source}" is missing the columns {columns}',
+  'source.error.network': 'Could not connect to source "{source}"',
+  'source.error.http': 'Source "{source}" responded with error {status}',
+  'source.error.json': 'Source "{source}" did not return valid JSON',
+  'source.error.html': 'Source "{source}" returned a web page instead of CSV. Check that the spreadsheet is public',
+  'source.error.read': 'Could not read source "{source}"',
+
+  'currency.error.code': 'Use three-letter ISO codes, such as BRL or USD',
+  'currency.error.displayRate': 'Add a rate for the display currency',
+  'currency.error.rate': 'Rates must be greater than zero',
+};
+
+export default enUS;
@@ -0,0 +1,527 @@
+import { MessageKey } from './pt-BR';
+
+const esES: Record<MessageKey, string> = {
+  'common.unknown': 'Desconocido',
+  'common.notAvailable': 'N/D',
+  'common.cancel': 'Cancelar',
+  'common.save': 'Guardar',
+  'common.remove': 'Eliminar',
+  'common.total': 'Total',
+  'common.others': 'Otros ({count})',
+  'common.noDate': 'Sin fecha',
+  'common.noRecords': 'Ningún registro en el período filtrado',
+  'common.close': 'Cerrar',
+
+  'import.invalid': 'No se pudieron extraer datos válidos de esta hoja de cálculo. Revisa el formato.',
+  'import.unreadable': 'No se pudo leer este archivo. Revisa el formato.',
+  'import.noSheets': 'No se encontró ninguna hoja con datos en este libro.',
+  'import.reading': 'Leyendo archivo... {percent}%',
+  'import.add': 'Añadir Archivo',
+  'import.start': 'Importar Datos',
+
+  'app.loading': 'Cargando Dashboard...',
+  'app.title': 'Dashboard de Rendimiento',
+  'app.subtitle': 'Gestión basada en datos reales',
+  'app.footer': 'Versión de Producción',
+  'app.syncedVia': 'Sincronizado vía {source}',
+
+  'sources.combined': 'Combinado ({count} fuentes)',
+  'sources.manage': 'Gestionar fuentes',
+  'sources.local': 'Local: {name}',
+  'sources.shared': 'Compartida: {name}',
+  'sources.sharedTitle.one': '¿Agregar fuente del enlace?',
+  'sources.sharedTitle.other': '¿Agregar {count} fuentes del enlace?',
+  'sources.sharedSubtitle': 'El enlace compartido pide datos de estas direcciones. Agrega solo fuentes en las que confíes.',
+  'sources.sharedAccept': 'Agregar y cargar',
+  'sources.sharedDecline': 'Ignorar',
+  'sources.title': 'Fuentes de datos',
+  'sources.subtitle': 'Marque más de una fuente para combinar los datos',
+  'sources.empty': 'Ninguna fuente registrada',
+  'sources.new': 'Nueva fuente',
+  'sources.edit': 'Editar fuente',
+  'sources.name': 'Nombre (ej.: Sucursal Madrid)',
+  'sources.sheetId': 'ID de la hoja de cálculo',
+  'sources.sheet': 'Pestaña: gid o nombre (opcional)',
+  'sources.csvUrl': 'https://ejemplo.com/ventas.csv',
+  'sources.jsonUrl': 'https://api.ejemplo.com/ventas',
+  'sources.cancelEdit': 'Cancelar edición',
+  'sources.update': 'Actualizar fuente',
+  'sources.add': 'Agregar fuente',
+
+  'filters.source': 'Fuente',
+  'filters.product': 'Producto',
+  'filters.allProducts': 'Todos los Productos',
+  'filters.channel': 'Canal',
+  'filters.allChannels': 'Todos los Canales',
+  'filters.period': 'Período',
+  'filters.periods': 'Tramos',
+  'filters.recordsShown.one': '{count} registro mostrado',
+  'filters.recordsShown.other': '{count} registros mostrados',
+  'filters.active': 'Filtros activos',
+  'filters.remove': 'Quitar filtro',
+  'filters.clear': 'Limpiar filtros',
+  'filters.addProduct': '+ Producto',
+  'filters.addChannel': '+ Canal',
+  'filters.addMonth': '+ Mes',
+  'filters.allMonths': 'Todos los Meses',
+
+  'report.title': 'Informe de Rendimiento',
+  'report.generatedAt': 'Generado el {date}',
+
+  'kpi.totalSales': 'Ventas Totales',
+  'kpi.revenue': 'Ingresos Brutos',
+  'kpi.ticket': 'Ticket Medio',
+  'kpi.cost': 'Costo de Adquisición',
+  'kpi.cac': 'CAC',
+  'kpi.cacSubtitle': 'costo por venta',
+  'kpi.roas': 'ROAS',
+  'kpi.roasSubtitle': 'ingresos / costo',
+  'kpi.profit': 'Beneficio Neto',
+  'kpi.margin': 'margen de {value}',
+  'kpi.trendVs': 'vs {baseline} ({bounds})',
+  'kpi.targetLimit': 'Meta {period}: {percent} del límite • {status}',
+  'kpi.targetProgress': 'Meta {period}: {percent} (esperado {expected}) • {status}',
+
+  'baseline.none': 'sin comparación',
+  'baseline.previous': 'período anterior',
+  'baseline.last-year': 'mismo período del año anterior',
+  'baseline.custom': 'período personalizado',
+  'baseline.option.none': 'Sin comparación',
+  'baseline.option.previous': 'vs Período anterior',
+  'baseline.option.last-year': 'vs Mismo período del año anterior',
+  'baseline.option.custom': 'vs Período personalizado',
+
+  'insight.bestMonth': 'Mejor Mes',
+  'insight.bestSeller': 'Más Vendido',
+  'insight.units.one': '{count} unidad',
+  'insight.units.other': '{count} unidades',
+  'insight.leaderShare': 'Cuota del Líder',
+  'insight.ofRevenue': 'de los ingresos totales',
+  'insight.forecast': 'Previsión • {period}',
+
+  'timeline.title': 'Evolución de Ingresos',
+  'timeline.overlayBaseline': 'Superponer período base',
+  'timeline.anomalies.one': '{count} anomalía',
+  'timeline.anomalies.other': '{count} anomalías',
+  'timeline.range': 'Intervalo {confidence}%',
+  'timeline.forecast': 'Previsión',
+  'timeline.target': 'Meta',
+  'timeline.baseline': 'Período base',
+
+  'forecast.method.linear': 'Tendencia lineal',
+  'forecast.method.holt-winters': 'Holt-Winters estacional',
+  'forecast.periods': 'períodos',
+  'forecast.confidence': 'IC {confidence}%',
+
+  'granularity.day': 'Día',
+  'granularity.week': 'Semana',
+  'granularity.month': 'Mes',
+  'granularity.quarter': 'Trimestre',
+  'granularity.year': 'Año',
+
+  'bucket.week': 'Sem {day}',
+  'bucket.quarter': 'T{quarter}/{year}',
+
+  'metric.revenue': 'Ingresos',
+  'metric.sales': 'Ventas',
+  'metric.cost': 'Costo',
+  'metric.profit': 'Beneficio',
+  'metric.ticket': 'Ticket',
+  'metric.margin': 'Margen',
+
+  'channels.title': 'Ventas e Ingresos por Canal',
+  'channels.all': 'Todos los canales',
+  'channels.manage': 'Reglas y jerarquía de canales',
+  'channels.button': 'Canales',
+  'channels.drillHint': 'Haz clic para ver los canales de abajo',
+  'channels.match.exact': 'Igual a',
+  'channels.match.ignore-case': 'Igual a (sin mayúsculas)',
+  'channels.match.regex': 'Expresión regular',
+  'channels.match.utm': 'Parámetros UTM',
+  'channels.rule.utm': 'utm_source={source}',
+  'channels.rule.utmMedium': 'utm_source={source} y utm_medium={medium}',
+  'channels.error.pattern': 'Indique el valor a comparar',
+  'channels.error.channel': 'Indique el canal de destino',
+  'channels.error.regex': 'Expresión regular no válida',
+  'channels.taxonomy.title': 'Taxonomía de Canales',
+  'channels.taxonomy.subtitle': 'Reglas que unifican los orígenes brutos en canales y la jerarquía usada en los gráficos',
+  'channels.rules': 'Reglas (gana la primera que coincida)',
+  'channels.origins.one': '{count} origen',
+  'channels.origins.other': '{count} orígenes',
+  'channels.placeholder.utmSource': 'utm_source (ej.: instagram)',
+  'channels.placeholder.utmMedium': 'utm_medium (opcional)',
+  'channels.placeholder.regex': 'Ej.: ^(fb|facebook)',
+  'channels.placeholder.raw': 'Origen bruto',
+  'channels.placeholder.channel': 'Canal canónico (ej.: Instagram)',
+  'channels.placeholder.node': 'Nombre (ej.: Paid Social)',
+  'channels.hierarchy': 'Jerarquía de canales',
+  'channels.hierarchyEmpty': 'Ningún canal en la jerarquía',
+  'channels.node': 'Canal en la jerarquía',
+  'channels.removeNode': 'Quitar canal',
+  'channels.topLevel': 'Primer nivel',
+  'channels.below': 'Debajo de {name}',
+  'channels.addNode': 'Añadir canal',
+  'channels.updateNode': 'Actualizar canal',
+  'channels.unmapped': 'Orígenes sin regla ({count})',
+  'channels.createRule': 'Crear regla para este origen',
+  'channels.moreOrigins.one': 'y {count} origen más',
+  'channels.moreOrigins.other': 'y {count} orígenes más',
+  'channels.allMapped': 'Todos los orígenes están asignados',
+
+  'products.title': 'Cuota de Ingresos por Producto',
+  'products.withClass': '{name} • clase {abcClass}',
+
+  'display.title': 'Moneda y tipo de cambio',
+  'display.subtitle': 'Moneda de visualización y conversión de valores',
+  'display.language': 'Idioma',
+  'display.currency': 'Moneda de visualización',
+  'display.baseCurrency': 'Moneda de referencia',
+  'display.baseHint': 'Los registros sin columna de moneda están en esta moneda',
+  'display.rates': 'Tabla de cambio',
+  'display.ratesHint': 'Valor de 1 unidad de cada moneda en {base}',
+  'display.addRate': 'Añadir moneda',
+  'display.noRates': 'Sin tasas registradas: los valores solo pueden mostrarse en {base}',
+  'display.dataCurrencies': 'Monedas encontradas en los datos: {codes}',
+  'display.missing': 'Sin cambio: {codes}',
+  'display.missingDetail.one': '{count} registro en {code} sin tasa de cambio, mostrado sin convertir',
+  'display.missingDetail.other': '{count} registros en {code} sin tasa de cambio, mostrados sin convertir',
+
+  'insights.title': 'Insights',
+  'insights.subtitle': 'Resumen semanal y preguntas respondidas con los datos de la selección',
+  'insights.provider': 'Proveedor',
+  'insights.provider.local': 'Local (sin conexión)',
+  'insights.localHint': 'Respuestas generadas en el navegador a partir de los datos. Define GEMINI_API_KEY para usar Gemini.',
+  'insights.summaryTitle': 'Resumen de la semana',
+  'insights.generate': 'Generar resumen',
+  'insights.stale': 'Los filtros cambiaron desde el último resumen',
+  'insights.loading': 'Generando...',
+  'insights.empty': 'No hay datos en la selección actual para resumir.',
+  'insights.ask': 'Pregunta sobre los datos, p. ej.: ¿qué canal tuvo el mejor ROAS en marzo?',
+  'insights.send': 'Preguntar',
+  'insights.examples': 'Ejemplos',
+  'insights.example.1': '¿Qué canal tuvo el mejor ROAS en marzo?',
+  'insights.example.2': '¿Qué producto se vendió más?',
+  'insights.example.3': '¿Qué canal tuvo el menor CAC esta semana?',
+  'insights.clear': 'Borrar preguntas',
+  'insights.metric.revenue': 'ingresos',
+  'insights.metric.sales': 'volumen de ventas',
+  'insights.metric.cost': 'costo',
+  'insights.metric.roas': 'ROAS',
+  'insights.metric.cac': 'CAC',
+  'insights.metric.profit': 'beneficio',
+  'insights.metric.ticket': 'ticket medio',
+  'insights.dimension.channel': 'canal',
+  'insights.dimension.product': 'producto',
+  'insights.direction.best': 'mejor',
+  'insights.direction.worst': 'peor',
+  'insights.direction.highest': 'mayor',
+  'insights.direction.lowest': 'menor',
+  'insights.period.all': 'En el período filtrado',
+  'insights.period.in': 'En {period}',
+  'insights.period.week': 'En la semana del {start} al {end}',
+  'insights.answer.ranked': '{period}, el {dimension} con {direction} {metric} fue {name}, con {value}.',
+  'insights.answer.next': 'Le siguen: {items}.',
+  'insights.answer.total': '{period}, {metric}: {value}.',
+  'insights.answer.noData': '{period} no hay datos en la selección actual.',
+  'insights.answer.noMetric': 'Ningún {dimension} tiene {metric} calculable en ese período.',
+  'insights.answer.unknown': 'No pude interpretar la pregunta. Pregunta por ingresos, ventas, costo, beneficio, ROAS, CAC o ticket medio, por canal o producto y con un mes opcional. Por ejemplo: "{example}"',
+  'insights.summary.week': 'Semana del {start} al {end}: {revenue} en ingresos y {sales} ventas ({change} en ingresos frente a los 7 días anteriores).',
+  'insights.summary.noPrevious': 'sin base de comparación',
+  'insights.summary.efficiency': 'ROAS de {roas} y CAC de {cac} en la semana.',
+  'insights.summary.leaders': 'Destacados: {channel} entre los canales ({channelRevenue}) y {product} entre los productos ({productRevenue}).',
+  'insights.summary.moverUp': '{name} fue el canal que más creció, con {change} en ingresos.',
+  'insights.summary.moverDown': 'Atención a {name}: ingresos {change} respecto a la semana anterior.',
+  'insights.summary.period': 'Del {start} al {end}, los ingresos suman {revenue} en {sales} ventas, con un ROAS de {roas}.',
+  'insights.summary.trend': 'Frente al período base, los ingresos variaron {change}.',
+  'insights.error.request': '{provider} rechazó la solicitud (HTTP {status}).',
+  'insights.error.network': 'No se pudo contactar con {provider}. Revisa la conexión.',
+  'insights.error.empty': '{provider} no devolvió texto.',
+
+  'records.title': 'Registros',
+  'records.subtitle': 'Las filas detrás de los números, con correcciones locales que valen para todos los gráficos',
+  'records.search': 'Buscar en todos los campos',
+  'records.drill': 'Mostrando: {label}',
+  'records.clearDrill': 'Ver todos los registros filtrados',
+  'records.column.date': 'Fecha',
+  'records.column.quantity': 'Cant.',
+  'records.empty': 'No se encontraron registros',
+  'records.original': 'Original: {value}',
+  'records.edit': 'Corregir registro',
+  'records.exclude': 'Excluir registro',
+  'records.editHint': 'Valores en la moneda del registro ({currency}) y canal antes de las reglas de normalización. Enter guarda, Esc cancela.',
+  'records.count.one': '{count} registro',
+  'records.count.other': '{count} registros',
+  'records.pageSize': '{size} por página',
+  'records.page': 'Página {page} de {total}',
+  'records.drillHint': 'Haz clic en las tarjetas de indicadores o en las filas del ranking, o usa Shift+clic en barras, porciones y puntos de los gráficos, para ver los registros correspondientes.',
+  'records.corrections.one': '{count} corrección local',
+  'records.corrections.other': '{count} correcciones locales',
+  'records.exportCorrections': 'Exportar lista (CSV)',
+  'records.revertAll': 'Deshacer todas',
+  'records.excluded': 'Excluido',
+  'records.unmatched': 'Registro no encontrado en los datos actuales',
+  'records.revert': 'Deshacer',
+  'records.showLess': 'Mostrar menos',
+  'records.showAll': 'Ver todas ({count})',
+  'records.error.date': 'Introduce una fecha válida (AAAA-MM-DD)',
+  'records.error.product': 'Introduce el producto',
+  'records.error.channel': 'Introduce el canal',
+  'records.error.number': 'Cantidad, ingresos y costo deben ser números',
+  'records.error.quantity': 'La cantidad debe ser un número entero, cero o mayor',
+
+  'datePreset.all': 'Todo el período',
+  'datePreset.last7': 'Últimos 7 días',
+  'datePreset.last30': 'Últimos 30 días',
+  'datePreset.last90': 'Últimos 90 días',
+  'datePreset.qtd': 'Trimestre hasta hoy',
+  'datePreset.ytd': 'Año hasta hoy',
+  'datePreset.month': 'Mes específico',
+  'datePreset.custom': 'Personalizado',
+  'dateRange.until': 'hasta',
+  'dateRange.bounds': '{start} a {end}',
+
+  'alerts.title': 'Alertas y Anomalías',
+  'alerts.activeRules.one': '{count} regla activa',
+  'alerts.activeRules.other': '{count} reglas activas',
+  'alerts.evaluatedAt': 'evaluadas a las {time}',
+  'alerts.manage': 'Gestionar reglas',
+  'alerts.streak.one': '{count} día seguido ({bounds}) • último valor {value}',
+  'alerts.streak.other': '{count} días seguidos ({bounds}) • último valor {value}',
+  'alerts.week': 'Semana {bounds}',
+  'alerts.anomalyValue': '{metric} {value} (esperado ~{expected})',
+  'alerts.noAnomalies': 'Ninguna anomalía en el período filtrado',
+  'alerts.allChannels': 'todos los canales',
+  'alerts.allProducts': 'todos los productos',
+  'alerts.rule.one': '{metric} de {target} {operator} {threshold} durante {count} día',
+  'alerts.rule.other': '{metric} de {target} {operator} {threshold} durante {count} días',
+  'alerts.rules.title': 'Reglas de Alerta',
+  'alerts.rules.subtitle': 'Evaluadas sobre los días más recientes en cada actualización de los datos',
+  'alerts.rules.empty': 'Ninguna regla registrada',
+  'alerts.rules.new': 'Nueva regla',
+  'alerts.rules.edit': 'Editar regla',
+  'alerts.rules.below': 'Menor que',
+  'alerts.rules.above': 'Mayor que',
+  'alerts.rules.threshold': 'Límite',
+  'alerts.rules.for': 'durante',
+  'alerts.rules.days': 'días seguidos',
+  'alerts.rules.cancelEdit': 'Cancelar edición',
+  'alerts.rules.update': 'Actualizar regla',
+  'alerts.rules.add': 'Añadir regla',
+
+  'targets.title': 'Metas',
+  'targets.editor.subtitle': 'Mensuales o trimestrales, generales o por producto y canal',
+  'targets.maxCac': 'CAC máximo',
+  'targets.period.month': 'Mensual',
+  'targets.period.quarter': 'Trimestral',
+  'targets.global': 'General',
+  'targets.status.upcoming': 'No iniciada',
+  'targets.status.on-track': 'En ritmo',
+  'targets.status.behind': 'Por debajo del ritmo',
+  'targets.status.achieved': 'Alcanzada',
+  'targets.status.missed': 'No alcanzada',
+  'targets.import': 'Importar JSON',
+  'targets.export': 'Exportar JSON',
+  'targets.upTo': 'hasta {value}',
+  'targets.max': '{value} máx.',
+  'targets.empty': 'Ninguna meta registrada',
+  'targets.emptyScope': 'Ninguna meta para la selección filtrada',
+  'targets.emptyCurrent': 'Ninguna meta para el período en curso',
+  'targets.new': 'Nueva meta',
+  'targets.edit': 'Editar meta',
+  'targets.month': 'Mes de la meta',
+  'targets.anyQuarterMonth': 'Cualquier mes del trimestre',
+  'targets.allData': 'Todos los datos',
+  'targets.chooseChannel': 'Elija el canal',
+  'targets.chooseProduct': 'Elija el producto',
+  'targets.value': 'Valor de la meta',
+  'targets.cancelEdit': 'Cancelar edición',
+  'targets.update': 'Actualizar meta',
+  'targets.add': 'Añadir meta',
+  'targets.expectedPace': 'Ritmo esperado hasta hoy',
+  'targets.limitUsed.one': '{percent} del límite • {count} día restante',
+  'targets.limitUsed.other': '{percent} del límite • {count} días restantes',
+  'targets.achievedSoFar': '{percent} alcanzado • esperado {expected} hasta hoy',
+  'targets.requiredDaily.one': 'Necesario {value}/día en el {count} día restante',
+  'targets.requiredDaily.other': 'Necesario {value}/día en los {count} días restantes',
+  'targets.projection': 'Proyección: {value} ({percent} de la meta)',
+  'targets.anchor': 'Ritmo calculado hasta {date}, último día con datos',
+  'targets.noAnchor': 'Sin datos para calcular el ritmo',
+  'targets.manage': 'Gestionar metas',
+  'targets.showCurrent': 'Mostrar solo el período actual',
+  'targets.showOthers': 'Ver otros períodos ({count})',
+  'targets.error.noValid': 'No se encontró ninguna meta válida en el archivo',
+  'targets.error.import': 'No se pudieron importar las metas: {reason}',
+  'targets.error.invalidFile': 'archivo no válido',
+
+  'autoRefresh.title': 'Actualización automática',
+  'autoRefresh.unavailable': 'No disponible para archivos importados',
+  'autoRefresh.off': 'Desactivada',
+  'autoRefresh.every': 'Cada {minutes} min',
+
+  'pivot.title': 'Tabla Dinámica',
+  'pivot.rows': 'Filas: {dimension}',
+  'pivot.columns': 'Columnas: {dimension}',
+  'pivot.topRows': 'Top {limit} filas',
+  'pivot.allRows': 'Todas las filas',
+
+  'seasonality.title': 'Estacionalidad',
+  'seasonality.subtitle': 'Promedios por día del calendario, según los filtros de producto y canal',
+  'seasonality.calendar': 'Calendario diario',
+  'seasonality.lastWeeks': 'últimas {count} semanas',
+  'seasonality.weekdayMonth': 'Promedio diario • día de la semana × mes',
+  'seasonality.cell.one': '{weekday} en {month}: {value} por día ({count} día)',
+  'seasonality.cell.other': '{weekday} en {month}: {value} por día ({count} días)',
+  'seasonality.outside': 'Fuera del período',
+  'seasonality.dayOfMonth': 'Promedio diario • día del mes',
+  'seasonality.day': 'Día {day}',
+  'seasonality.perDay': '{value} por día',
+  'seasonality.occurrences.one': '{count} ocurrencia',
+  'seasonality.occurrences.other': '{count} ocurrencias',
+  'seasonality.hourWeekday': 'Total por hora × día de la semana',
+  'seasonality.timedShare': '{percent} de los registros tienen hora',
+
+  'comparison.products': 'Productos',
+  'comparison.channels': 'Canales',
+  'comparison.share': 'Cuota',
+  'comparison.title.products': 'Comparativo de Productos',
+  'comparison.title.channels': 'Comparativo de Canales',
+  'comparison.subtitle': 'Diferencias respecto al elemento de referencia en el período seleccionado',
+  'comparison.setReference': 'Usar como referencia',
+  'comparison.addProduct': '+ Añadir producto',
+  'comparison.addChannel': '+ Añadir canal',
+  'comparison.addMatching': 'Añadir todos los que contienen...',
+  'comparison.addMatches': 'Añadir coincidencias',
+  'comparison.clear': 'Limpiar',
+  'comparison.empty.product': 'Seleccione al menos un producto para comparar',
+  'comparison.empty.channel': 'Seleccione al menos un canal para comparar',
+  'comparison.reference': 'Referencia',
+  'comparison.radar': 'Perfil Relativo (100 = valor más alto)',
+  'comparison.timeline': 'Ingresos a lo Largo del Tiempo',
+
+  'profitability.title': 'Ranking de Rentabilidad',
+  'profitability.byChannel': 'Por Canal',
+  'profitability.byProduct': 'Por Producto',
+
+  'pareto.title': 'Curva ABC (Pareto)',
+  'pareto.subtitle.product': 'Ingresos acumulados por producto, sin el filtro de producto para mantener las clases estables',
+  'pareto.subtitle.channel': 'Ingresos acumulados por canal, sin el filtro de canal para mantener las clases estables',
+  'pareto.badge': 'Curva ABC: clase {abcClass}',
+  'pareto.class': 'Clase {abcClass}',
+  'pareto.upTo': 'hasta',
+  'pareto.next': 'siguientes',
+  'pareto.rest': 'resto ({percent})',
+  'pareto.staleFor': 'Cola larga sin ventas desde hace',
+  'pareto.days': 'días',
+  'pareto.items.one': '{count} elemento',
+  'pareto.items.other': '{count} elementos',
+  'pareto.revenueShare': '{percent} de los ingresos',
+  'pareto.cumulative': 'Acumulado',
+  'pareto.chartLimit': 'Gráfico con los {limit} primeros de {count} elementos',
+  'pareto.ranking': 'Ranking por ingresos',
+  'pareto.filterBy': 'Filtrar por {name}',
+  'pareto.staleTitle': 'Cola larga • sin ventas desde hace {days}+ días en todo el historial',
+  'pareto.noStale': 'Todos los elementos vendieron en los últimos {days} días con datos',
+  'pareto.lastSale': 'Última venta el {date}',
+  'pareto.daysAgo': 'hace {days} días',
+
+  'dataStatus.fetchedAt': 'datos de {date}',
+  'dataStatus.refreshing': 'Buscando datos actualizados...',
+  'dataStatus.stale': 'Mostrando la última copia guardada en este dispositivo',
+  'dataStatus.synced': 'Datos sincronizados con la fuente',
+
+  'loadError.offline': 'No se pudo conectar a las fuentes de datos',
+  'loadError.failed': 'Error al cargar los datos',
+  'loadError.fallback': 'mostrando la última copia guardada',
+  'loadError.retry': 'Reintentar',
+  'loadError.retrying': 'Reintentando...',
+
+  'update.message.one': '{sales} venta, {revenue} desde la última actualización',
+  'update.message.other': '{sales} ventas, {revenue} desde la última actualización',
+  'update.added.one': '{count} registro nuevo',
+  'update.added.other': '{count} registros nuevos',
+  'update.changed.one': '{count} modificado',
+  'update.changed.other': '{count} modificados',
+  'update.removed.one': '{count} eliminado',
+  'update.removed.other': '{count} eliminados',
+
+  'export.button': 'Exportar',
+  'export.busy': 'Generando...',
+  'export.error': 'No se pudo generar la exportación.',
+  'export.records-csv': 'Registros filtrados (CSV)',
+  'export.aggregates-csv': 'Indicadores agregados (CSV)',
+  'export.xlsx': 'Hoja de cálculo completa (XLSX)',
+  'export.png': 'Informe en imagen (PNG)',
+  'export.pdf': 'Informe para imprimir (PDF)',
+
+  'uploads.files.one': '{count} archivo',
+  'uploads.files.other': '{count} archivos',
+  'uploads.activeFiles': '{active} de {count} archivos',
+  'uploads.merged': 'Conjuntos combinados',
+  'uploads.live': 'En vivo',
+  'uploads.duplicates.one': '{count} duplicado ignorado',
+  'uploads.duplicates.other': '{count} duplicados ignorados',
+  'uploads.remap': 'Asignar columnas',
+  'uploads.remove': 'Quitar archivo',
+  'uploads.removeAll': 'Quitar todos los archivos',
+  'uploads.dedupBy': 'Eliminar duplicados por',
+  'uploads.dedup.fields': 'Fecha + producto + origen + valor',
+  'uploads.dedup.transaction': 'ID de la transacción',
+  'uploads.dedup.hint': 'Los registros sin ID de transacción usan fecha, producto, origen y valor',
+
+  'sheets.title': 'Elija la Hoja',
+  'sheets.rows.one': '{count} fila',
+  'sheets.rows.other': '{count} filas',
+
+  'views.button': 'Vistas',
+  'views.copyLink': 'Copiar enlace de esta vista',
+  'views.copied': '¡Enlace copiado!',
+  'views.copyError': 'No se pudo copiar el enlace. Copie la dirección directamente de la barra del navegador.',
+  'views.empty': 'Aún no hay vistas guardadas',
+  'views.delete': 'Eliminar vista',
+  'views.name': 'Nombre de la vista (ej.: Meta – T3)',
+  'views.save': 'Guardar vista actual',
+
+  'mapping.title': 'Mapeo de columnas',
+  'mapping.ambiguous': 'No fue posible mapear las columnas con seguridad',
+  'mapping.none': '— No mapear —',
+  'mapping.column': 'Columna {index}',
+  'mapping.dateFormat': 'Formato de fecha',
+  'mapping.dateFormat.DMY': 'dd/mm/aaaa',
+  'mapping.dateFormat.MDY': 'mm/dd/aaaa',
+  'mapping.dateFormat.YMD': 'aaaa-mm-dd',
+  'mapping.decimalSeparator': 'Separador decimal',
+  'mapping.autoDetect': 'Detectar automáticamente',
+  'mapping.decimal.comma': 'Coma (1.234,56)',
+  'mapping.decimal.dot': 'Punto (1,234.56)',
+  'mapping.duplicated': 'Una misma columna está asignada a más de un campo.',
+  'mapping.saveProfile': 'Guardar como perfil',
+  'mapping.profileName': 'Nombre del perfil',
+  'mapping.validRecords.one': '{count} registro válido',
+  'mapping.validRecords.other': '{count} registros válidos',
+  'mapping.apply': 'Aplicar mapeo',
+  'mapping.profiles': 'Perfiles guardados',
+  'mapping.field.data': 'Fecha de venta',
+  'mapping.field.produto': 'Producto',
+  'mapping.field.quantidade_vendida': 'Cantidad',
+  'mapping.field.receita': 'Ingresos',
+  'mapping.field.origem': 'Origen / Canal',
+  'mapping.field.custo_aquisicao': 'Costo de adquisición',
+  'mapping.field.id_transacao': 'ID de transacción',
+  'mapping.field.moeda': 'Moneda',
+  'mapping.issue.either': '"{header}" puede ser {field} o {other}',
+  'mapping.issue.contested': '"{header}" y "{other}" compiten por el campo {field}',
+  'mapping.issue.missing': 'No se encontró ninguna columna para {field}',
+
+  'source.error.columns': 'La fuente "{source}" no tiene las columnas {columns}',
+  'source.error.network': 'Sin conexión con la fuente "{source}"',
+  'source.error.http': 'La fuente "{source}" respondió con error {status}',
+  'source.error.json': 'La fuente "{source}" no devolvió un JSON válido',
+  'source.error.html': 'La fuente "{source}" devolvió una página en lugar de CSV. Verifique que la hoja sea pública',
+  'source.error.read': 'No fue posible leer la fuente "{source}"',
+
+  'currency.error.code': 'Usa códigos ISO de tres letras, como BRL o USD',
+  'currency.error.displayRate': 'Registra la tasa de la moneda de visualización',
+  'currency.error.rate': 'Las tasas deben ser mayores que cero',
+};
+
+export default esES;
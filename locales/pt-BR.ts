@@ -0,0 +1,528 @@
+// Catálogo de referência: os demais idiomas precisam ter exatamente as mesmas chaves
+const ptBR = {
+  'common.unknown': 'Desconhecido',
+  'common.notAvailable': 'N/A',
+  'common.cancel': 'Cancelar',
+  'common.save': 'Salvar',
+  'common.remove': 'Remover',
+  'common.total': 'Total',
+  'common.others': 'Outros ({count})',
+  'common.noDate': 'Sem data',
+  'common.noRecords': 'Nenhum registro no período filtrado',
+  'common.close': 'Fechar',
+
+  'import.invalid': 'Não foi possível extrair dados válidos desta planilha. Verifique o formato.',
+  'import.unreadable': 'Não foi possível ler este arquivo. Verifique o formato.',
+  'import.noSheets': 'Nenhuma aba com dados foi encontrada nesta pasta de trabalho.',
+  'import.reading': 'Lendo arquivo... {percent}%',
+  'import.add': 'Adicionar Arquivo',
+  'import.start': 'Importar Dados',
+
+  'app.loading': 'Carregando Dashboard...',
+  'app.title': 'Dashboard de Performance',
+  'app.subtitle': 'Gestão baseada em dados reais',
+  'app.footer': 'Versão Produção',
+  'app.syncedVia': 'Sincronizado via {source}',
+
+  'sources.combined': 'Combinado ({count} fontes)',
+  'sources.manage': 'Gerenciar fontes',
+  'sources.local': 'Local: {name}',
+  'sources.shared': 'Compartilhada: {name}',
+  'sources.sharedTitle.one': 'Adicionar fonte do link?',
+  'sources.sharedTitle.other': 'Adicionar {count} fontes do link?',
+  'sources.sharedSubtitle': 'O link compartilhado pede dados destes endereços. Adicione só fontes em que você confia.',
+  'sources.sharedAccept': 'Adicionar e carregar',
+  'sources.sharedDecline': 'Ignorar',
+  'sources.title': 'Fontes de Dados',
+  'sources.subtitle': 'Marque mais de uma fonte para combinar os dados',
+  'sources.empty': 'Nenhuma fonte cadastrada',
+  'sources.new': 'Nova fonte',
+  'sources.edit': 'Editar fonte',
+  'sources.name': 'Nome (ex: Unidade São Paulo)',
+  'sources.sheetId': 'ID da planilha',
+  'sources.sheet': 'Aba: gid ou nome (opcional)',
+  'sources.csvUrl': 'https://exemplo.com/vendas.csv',
+  'sources.jsonUrl': 'https://api.exemplo.com/vendas',
+  'sources.cancelEdit': 'Cancelar edição',
+  'sources.update': 'Atualizar fonte',
+  'sources.add': 'Adicionar fonte',
+
+  'filters.source': 'Fonte',
+  'filters.product': 'Produto',
+  'filters.allProducts': 'Todos os Produtos',
+  'filters.channel': 'Canal',
+  'filters.allChannels': 'Todos os Canais',
+  'filters.period': 'Período',
+  'filters.periods': 'Trechos',
+  'filters.recordsShown.one': '{count} registro exibido',
+  'filters.recordsShown.other': '{count} registros exibidos',
+  'filters.active': 'Filtros ativos',
+  'filters.remove': 'Remover filtro',
+  'filters.clear': 'Limpar filtros',
+  'filters.addProduct': '+ Produto',
+  'filters.addChannel': '+ Canal',
+  'filters.addMonth': '+ Mês',
+  'filters.allMonths': 'Todos os Meses',
+
+  'report.title': 'Relatório de Performance',
+  'report.generatedAt': 'Gerado em {date}',
+
+  'kpi.totalSales': 'Vendas Totais',
+  'kpi.revenue': 'Receita Bruta',
+  'kpi.ticket': 'Ticket Médio',
+  'kpi.cost': 'Custo de Aquisição',
+  'kpi.cac': 'CAC',
+  'kpi.cacSubtitle': 'custo por venda',
+  'kpi.roas': 'ROAS',
+  'kpi.roasSubtitle': 'receita / custo',
+  'kpi.profit': 'Lucro Líquido',
+  'kpi.margin': 'margem de {value}',
+  'kpi.trendVs': 'vs {baseline} ({bounds})',
+  'kpi.targetLimit': 'Meta {period}: {percent} do limite • {status}',
+  'kpi.targetProgress': 'Meta {period}: {percent} (esperado {expected}) • {status}',
+
+  'baseline.none': 'sem comparação',
+  'baseline.previous': 'período anterior',
+  'baseline.last-year': 'mesmo período do ano anterior',
+  'baseline.custom': 'período personalizado',
+  'baseline.option.none': 'Sem comparação',
+  'baseline.option.previous': 'vs Período anterior',
+  'baseline.option.last-year': 'vs Mesmo período do ano anterior',
+  'baseline.option.custom': 'vs Período personalizado',
+
+  'insight.bestMonth': 'Recorde Mensal',
+  'insight.bestSeller': 'Mais Vendido',
+  'insight.units.one': '{count} unidade',
+  'insight.units.other': '{count} unidades',
+  'insight.leaderShare': 'Share do Líder',
+  'insight.ofRevenue': 'do faturamento total',
+  'insight.forecast': 'Previsão • {period}',
+
+  'timeline.title': 'Evolução de Receita',
+  'timeline.overlayBaseline': 'Sobrepor período base',
+  'timeline.anomalies.one': '{count} anomalia',
+  'timeline.anomalies.other': '{count} anomalias',
+  'timeline.range': 'Intervalo {confidence}%',
+  'timeline.forecast': 'Previsão',
+  'timeline.target': 'Meta',
+  'timeline.baseline': 'Período base',
+
+  'forecast.method.linear': 'Tendência linear',
+  'forecast.method.holt-winters': 'Holt-Winters sazonal',
+  'forecast.periods': 'períodos',
+  'forecast.confidence': 'IC {confidence}%',
+
+  'granularity.day': 'Dia',
+  'granularity.week': 'Semana',
+  'granularity.month': 'Mês',
+  'granularity.quarter': 'Trimestre',
+  'granularity.year': 'Ano',
+
+  'bucket.week': 'Sem {day}',
+  'bucket.quarter': 'T{quarter}/{year}',
+
+  'metric.revenue': 'Receita',
+  'metric.sales': 'Vendas',
+  'metric.cost': 'Custo',
+  'metric.profit': 'Lucro',
+  'metric.ticket': 'Ticket',
+  'metric.margin': 'Margem',
+
+  'channels.title': 'Vendas e Receita por Canal',
+  'channels.all': 'Todos os canais',
+  'channels.manage': 'Regras e hierarquia de canais',
+  'channels.button': 'Canais',
+  'channels.drillHint': 'Clique para ver os canais abaixo',
+  'channels.match.exact': 'Igual a',
+  'channels.match.ignore-case': 'Igual a (sem maiúsculas)',
+  'channels.match.regex': 'Expressão regular',
+  'channels.match.utm': 'Parâmetros UTM',
+  'channels.rule.utm': 'utm_source={source}',
+  'channels.rule.utmMedium': 'utm_source={source} e utm_medium={medium}',
+  'channels.error.pattern': 'Informe o valor a comparar',
+  'channels.error.channel': 'Informe o canal de destino',
+  'channels.error.regex': 'Expressão regular inválida',
+  'channels.taxonomy.title': 'Taxonomia de Canais',
+  'channels.taxonomy.subtitle': 'Regras que unificam as origens brutas em canais e a hierarquia usada nos gráficos',
+  'channels.rules': 'Regras (vale a primeira que casar)',
+  'channels.origins.one': '{count} origem',
+  'channels.origins.other': '{count} origens',
+  'channels.placeholder.utmSource': 'utm_source (ex: instagram)',
+  'channels.placeholder.utmMedium': 'utm_medium (opcional)',
+  'channels.placeholder.regex': 'Ex: ^(fb|facebook)',
+  'channels.placeholder.raw': 'Origem bruta',
+  'channels.placeholder.channel': 'Canal canônico (ex: Instagram)',
+  'channels.placeholder.node': 'Nome (ex: Paid Social)',
+  'channels.hierarchy': 'Hierarquia de canais',
+  'channels.hierarchyEmpty': 'Nenhum canal na hierarquia',
+  'channels.node': 'Canal na hierarquia',
+  'channels.removeNode': 'Remover canal',
+  'channels.topLevel': 'Primeiro nível',
+  'channels.below': 'Abaixo de {name}',
+  'channels.addNode': 'Adicionar canal',
+  'channels.updateNode': 'Atualizar canal',
+  'channels.unmapped': 'Origens sem regra ({count})',
+  'channels.createRule': 'Criar regra para esta origem',
+  'channels.moreOrigins.one': 'e mais {count} origem',
+  'channels.moreOrigins.other': 'e mais {count} origens',
+  'channels.allMapped': 'Todas as origens estão mapeadas',
+
+  'products.title': 'Share de Receita por Produto',
+  'products.withClass': '{name} • classe {abcClass}',
+
+  'display.title': 'Moeda e câmbio',
+  'display.subtitle': 'Moeda de exibição e conversão dos valores',
+  'display.language': 'Idioma',
+  'display.currency': 'Moeda de exibição',
+  'display.baseCurrency': 'Moeda de referência',
+  'display.baseHint': 'Registros sem coluna de moeda estão nesta moeda',
+  'display.rates': 'Tabela de câmbio',
+  'display.ratesHint': 'Valor de 1 unidade de cada moeda em {base}',
+  'display.addRate': 'Adicionar moeda',
+  'display.noRates': 'Nenhuma taxa cadastrada: os valores só podem ser exibidos em {base}',
+  'display.dataCurrencies': 'Moedas encontradas nos dados: {codes}',
+  'display.missing': 'Sem câmbio: {codes}',
+  'display.missingDetail.one': '{count} registro em {code} sem taxa de câmbio, exibido sem conversão',
+  'display.missingDetail.other': '{count} registros em {code} sem taxa de câmbio, exibidos sem conversão',
+
+  'insights.title': 'Insights',
+  'insights.subtitle': 'Resumo semanal e perguntas respondidas a partir dos dados do recorte',
+  'insights.provider': 'Provedor',
+  'insights.provider.local': 'Local (offline)',
+  'insights.localHint': 'Respostas geradas no navegador a partir dos dados. Defina GEMINI_API_KEY para usar o Gemini.',
+  'insights.summaryTitle': 'Resumo da semana',
+  'insights.generate': 'Gerar resumo',
+  'insights.stale': 'Os filtros mudaram desde o último resumo',
+  'insights.loading': 'Gerando...',
+  'insights.empty': 'Não há dados no recorte atual para resumir.',
+  'insights.ask': 'Pergunte sobre os dados, ex.: qual canal teve melhor ROAS em março?',
+  'insights.send': 'Perguntar',
+  'insights.examples': 'Exemplos',
+  'insights.example.1': 'Qual canal teve melhor ROAS em março?',
+  'insights.example.2': 'Qual produto mais vendeu?',
+  'insights.example.3': 'Qual canal teve o menor CAC nesta semana?',
+  'insights.clear': 'Limpar perguntas',
+  'insights.metric.revenue': 'receita',
+  'insights.metric.sales': 'volume de vendas',
+  'insights.metric.cost': 'custo',
+  'insights.metric.roas': 'ROAS',
+  'insights.metric.cac': 'CAC',
+  'insights.metric.profit': 'lucro',
+  'insights.metric.ticket': 'ticket médio',
+  'insights.dimension.channel': 'canal',
+  'insights.dimension.product': 'produto',
+  'insights.direction.best': 'melhor',
+  'insights.direction.worst': 'pior',
+  'insights.direction.highest': 'maior',
+  'insights.direction.lowest': 'menor',
+  'insights.period.all': 'No período filtrado',
+  'insights.period.in': 'Em {period}',
+  'insights.period.week': 'Na semana de {start} a {end}',
+  'insights.answer.ranked': '{period}, o {dimension} com {direction} {metric} foi {name}, com {value}.',
+  'insights.answer.next': 'Na sequência: {items}.',
+  'insights.answer.total': '{period}, {metric}: {value}.',
+  'insights.answer.noData': '{period} não há dados no recorte atual.',
+  'insights.answer.noMetric': 'Nenhum {dimension} tem {metric} calculável nesse período.',
+  'insights.answer.unknown': 'Não consegui interpretar a pergunta. Pergunte sobre receita, vendas, custo, lucro, ROAS, CAC ou ticket médio, por canal ou produto e com um mês opcional. Por exemplo: "{example}"',
+  'insights.summary.week': 'Semana de {start} a {end}: {revenue} em receita e {sales} vendas ({change} na receita frente aos 7 dias anteriores).',
+  'insights.summary.noPrevious': 'sem base de comparação',
+  'insights.summary.efficiency': 'ROAS de {roas} e CAC de {cac} na semana.',
+  'insights.summary.leaders': 'Destaques: {channel} entre os canais ({channelRevenue}) e {product} entre os produtos ({productRevenue}).',
+  'insights.summary.moverUp': '{name} foi o canal que mais cresceu, com {change} na receita.',
+  'insights.summary.moverDown': 'Atenção para {name}: receita {change} em relação à semana anterior.',
+  'insights.summary.period': 'No período de {start} a {end}, a receita soma {revenue} em {sales} vendas, com ROAS de {roas}.',
+  'insights.summary.trend': 'Contra o período base, a receita variou {change}.',
+  'insights.error.request': 'O {provider} recusou a solicitação (HTTP {status}).',
+  'insights.error.network': 'Não foi possível contatar o {provider}. Verifique a conexão.',
+  'insights.error.empty': 'O {provider} não retornou texto.',
+
+  'records.title': 'Registros',
+  'records.subtitle': 'As linhas por trás dos números, com correções locais que valem para todos os gráficos',
+  'records.search': 'Buscar em todos os campos',
+  'records.drill': 'Mostrando: {label}',
+  'records.clearDrill': 'Ver todos os registros filtrados',
+  'records.column.date': 'Data',
+  'records.column.quantity': 'Qtd.',
+  'records.empty': 'Nenhum registro encontrado',
+  'records.original': 'Original: {value}',
+  'records.edit': 'Corrigir registro',
+  'records.exclude': 'Excluir registro',
+  'records.editHint': 'Valores na moeda do registro ({currency}) e canal antes das regras de normalização. Enter salva, Esc cancela.',
+  'records.count.one': '{count} registro',
+  'records.count.other': '{count} registros',
+  'records.pageSize': '{size} por página',
+  'records.page': 'Página {page} de {total}',
+  'records.drillHint': 'Clique nos cards de indicadores ou nas linhas do ranking, ou use Shift+clique nas barras, fatias e pontos dos gráficos, para ver os registros correspondentes.',
+  'records.corrections.one': '{count} correção local',
+  'records.corrections.other': '{count} correções locais',
+  'records.exportCorrections': 'Exportar lista (CSV)',
+  'records.revertAll': 'Desfazer todas',
+  'records.excluded': 'Excluído',
+  'records.unmatched': 'Registro não encontrado nos dados atuais',
+  'records.revert': 'Desfazer',
+  'records.showLess': 'Mostrar menos',
+  'records.showAll': 'Ver todas ({count})',
+  'records.error.date': 'Informe uma data válida (AAAA-MM-DD)',
+  'records.error.product': 'Informe o produto',
+  'records.error.channel': 'Informe o canal',
+  'records.error.number': 'Quantidade, receita e custo precisam ser números',
+  'records.error.quantity': 'A quantidade precisa ser um número inteiro, zero ou maior',
+
+  'datePreset.all': 'Todo o período',
+  'datePreset.last7': 'Últimos 7 dias',
+  'datePreset.last30': 'Últimos 30 dias',
+  'datePreset.last90': 'Últimos 90 dias',
+  'datePreset.qtd': 'Trimestre até hoje',
+  'datePreset.ytd': 'Ano até hoje',
+  'datePreset.month': 'Mês específico',
+  'datePreset.custom': 'Personalizado',
+  'dateRange.until': 'até',
+  'dateRange.bounds': '{start} a {end}',
+
+  'alerts.title': 'Alertas e Anomalias',
+  'alerts.activeRules.one': '{count} regra ativa',
+  'alerts.activeRules.other': '{count} regras ativas',
+  'alerts.evaluatedAt': 'avaliadas às {time}',
+  'alerts.manage': 'Gerenciar regras',
+  'alerts.streak.one': '{count} dia seguido ({bounds}) • último valor {value}',
+  'alerts.streak.other': '{count} dias seguidos ({bounds}) • último valor {value}',
+  'alerts.week': 'Semana {bounds}',
+  'alerts.anomalyValue': '{metric} {value} (esperado ~{expected})',
+  'alerts.noAnomalies': 'Nenhuma anomalia no período filtrado',
+  'alerts.allChannels': 'todos os canais',
+  'alerts.allProducts': 'todos os produtos',
+  'alerts.rule.one': '{metric} de {target} {operator} {threshold} por {count} dia',
+  'alerts.rule.other': '{metric} de {target} {operator} {threshold} por {count} dias',
+  'alerts.rules.title': 'Regras de Alerta',
+  'alerts.rules.subtitle': 'Avaliadas sobre os dias mais recentes a cada atualização dos dados',
+  'alerts.rules.empty': 'Nenhuma regra cadastrada',
+  'alerts.rules.new': 'Nova regra',
+  'alerts.rules.edit': 'Editar regra',
+  'alerts.rules.below': 'Menor que',
+  'alerts.rules.above': 'Maior que',
+  'alerts.rules.threshold': 'Limite',
+  'alerts.rules.for': 'por',
+  'alerts.rules.days': 'dias seguidos',
+  'alerts.rules.cancelEdit': 'Cancelar edição',
+  'alerts.rules.update': 'Atualizar regra',
+  'alerts.rules.add': 'Adicionar regra',
+
+  'targets.title': 'Metas',
+  'targets.editor.subtitle': 'Mensais ou trimestrais, gerais ou por produto e canal',
+  'targets.maxCac': 'CAC máximo',
+  'targets.period.month': 'Mensal',
+  'targets.period.quarter': 'Trimestral',
+  'targets.global': 'Geral',
+  'targets.status.upcoming': 'Não iniciada',
+  'targets.status.on-track': 'No ritmo',
+  'targets.status.behind': 'Abaixo do ritmo',
+  'targets.status.achieved': 'Atingida',
+  'targets.status.missed': 'Não atingida',
+  'targets.import': 'Importar JSON',
+  'targets.export': 'Exportar JSON',
+  'targets.upTo': 'até {value}',
+  'targets.max': '{value} máx.',
+  'targets.empty': 'Nenhuma meta cadastrada',
+  'targets.emptyScope': 'Nenhuma meta para o recorte filtrado',
+  'targets.emptyCurrent': 'Nenhuma meta para o período em andamento',
+  'targets.new': 'Nova meta',
+  'targets.edit': 'Editar meta',
+  'targets.month': 'Mês da meta',
+  'targets.anyQuarterMonth': 'Qualquer mês do trimestre',
+  'targets.allData': 'Todos os dados',
+  'targets.chooseChannel': 'Escolha o canal',
+  'targets.chooseProduct': 'Escolha o produto',
+  'targets.value': 'Valor da meta',
+  'targets.cancelEdit': 'Cancelar edição',
+  'targets.update': 'Atualizar meta',
+  'targets.add': 'Adicionar meta',
+  'targets.expectedPace': 'Ritmo esperado até hoje',
+  'targets.limitUsed.one': '{percent} do limite • {count} dia restante',
+  'targets.limitUsed.other': '{percent} do limite • {count} dias restantes',
+  'targets.achievedSoFar': '{percent} atingido • esperado {expected} até hoje',
+  'targets.requiredDaily.one': 'Necessário {value}/dia no {count} dia restante',
+  'targets.requiredDaily.other': 'Necessário {value}/dia nos {count} dias restantes',
+  'targets.projection': 'Projeção: {value} ({percent} da meta)',
+  'targets.anchor': 'Ritmo calculado até {date}, último dia com dados',
+  'targets.noAnchor': 'Sem dados para calcular o ritmo',
+  'targets.manage': 'Gerenciar metas',
+  'targets.showCurrent': 'Mostrar só o período atual',
+  'targets.showOthers': 'Ver outros períodos ({count})',
+  'targets.error.noValid': 'Nenhuma meta válida encontrada no arquivo',
+  'targets.error.import': 'Não foi possível importar as metas: {reason}',
+  'targets.error.invalidFile': 'arquivo inválido',
+
+  'autoRefresh.title': 'Atualização automática',
+  'autoRefresh.unavailable': 'Indisponível para arquivos importados',
+  'autoRefresh.off': 'Desligada',
+  'autoRefresh.every': 'A cada {minutes} min',
+
+  'pivot.title': 'Tabela Dinâmica',
+  'pivot.rows': 'Linhas: {dimension}',
+  'pivot.columns': 'Colunas: {dimension}',
+  'pivot.topRows': 'Top {limit} linhas',
+  'pivot.allRows': 'Todas as linhas',
+
+  'seasonality.title': 'Sazonalidade',
+  'seasonality.subtitle': 'Médias por dia do calendário, considerando os filtros de produto e canal',
+  'seasonality.calendar': 'Calendário diário',
+  'seasonality.lastWeeks': 'últimas {count} semanas',
+  'seasonality.weekdayMonth': 'Média diária • dia da semana × mês',
+  'seasonality.cell.one': '{weekday} em {month}: {value} por dia ({count} dia)',
+  'seasonality.cell.other': '{weekday} em {month}: {value} por dia ({count} dias)',
+  'seasonality.outside': 'Fora do período',
+  'seasonality.dayOfMonth': 'Média diária • dia do mês',
+  'seasonality.day': 'Dia {day}',
+  'seasonality.perDay': '{value} por dia',
+  'seasonality.occurrences.one': '{count} ocorrência',
+  'seasonality.occurrences.other': '{count} ocorrências',
+  'seasonality.hourWeekday': 'Total por hora × dia da semana',
+  'seasonality.timedShare': '{percent} dos registros têm horário',
+
+  'comparison.products': 'Produtos',
+  'comparison.channels': 'Canais',
+  'comparison.share': 'Share',
+  'comparison.title.products': 'Comparativo de Produtos',
+  'comparison.title.channels': 'Comparativo de Canais',
+  'comparison.subtitle': 'Diferenças em relação ao item de referência no período selecionado',
+  'comparison.setReference': 'Usar como referência',
+  'comparison.addProduct': '+ Adicionar produto',
+  'comparison.addChannel': '+ Adicionar canal',
+  'comparison.addMatching': 'Adicionar todos que contêm...',
+  'comparison.addMatches': 'Adicionar correspondentes',
+  'comparison.clear': 'Limpar',
+  'comparison.empty.product': 'Selecione ao menos um produto para comparar',
+  'comparison.empty.channel': 'Selecione ao menos um canal para comparar',
+  'comparison.reference': 'Referência',
+  'comparison.radar': 'Perfil Relativo (100 = maior valor)',
+  'comparison.timeline': 'Receita ao Longo do Tempo',
+
+  'profitability.title': 'Ranking de Rentabilidade',
+  'profitability.byChannel': 'Por Canal',
+  'profitability.byProduct': 'Por Produto',
+
+  'pareto.title': 'Curva ABC (Pareto)',
+  'pareto.subtitle.product': 'Receita acumulada por produto, sem o filtro de produto para manter as classes estáveis',
+  'pareto.subtitle.channel': 'Receita acumulada por canal, sem o filtro de canal para manter as classes estáveis',
+  'pareto.badge': 'Curva ABC: classe {abcClass}',
+  'pareto.class': 'Classe {abcClass}',
+  'pareto.upTo': 'até',
+  'pareto.next': 'próximos',
+  'pareto.rest': 'restante ({percent})',
+  'pareto.staleFor': 'Cauda longa sem venda há',
+  'pareto.days': 'dias',
+  'pareto.items.one': '{count} item',
+  'pareto.items.other': '{count} itens',
+  'pareto.revenueShare': '{percent} da receita',
+  'pareto.cumulative': 'Acumulado',
+  'pareto.chartLimit': 'Gráfico com os {limit} primeiros de {count} itens',
+  'pareto.ranking': 'Ranking por receita',
+  'pareto.filterBy': 'Filtrar por {name}',
+  'pareto.staleTitle': 'Cauda longa • sem venda há {days}+ dias em todo o histórico',
+  'pareto.noStale': 'Todos os itens venderam nos últimos {days} dias com dados',
+  'pareto.lastSale': 'Última venda em {date}',
+  'pareto.daysAgo': 'há {days} dias',
+
+  'dataStatus.fetchedAt': 'dados de {date}',
+  'dataStatus.refreshing': 'Buscando dados atualizados...',
+  'dataStatus.stale': 'Exibindo a última cópia salva neste dispositivo',
+  'dataStatus.synced': 'Dados sincronizados com a fonte',
+
+  'loadError.offline': 'Não foi possível conectar às fontes de dados',
+  'loadError.failed': 'Falha ao carregar os dados',
+  'loadError.fallback': 'exibindo a última cópia salva',
+  'loadError.retry': 'Tentar novamente',
+  'loadError.retrying': 'Tentando...',
+
+  'update.message.one': '{sales} venda, {revenue} desde a última atualização',
+  'update.message.other': '{sales} vendas, {revenue} desde a última atualização',
+  'update.added.one': '{count} registro novo',
+  'update.added.other': '{count} registros novos',
+  'update.changed.one': '{count} alterado',
+  'update.changed.other': '{count} alterados',
+  'update.removed.one': '{count} removido',
+  'update.removed.other': '{count} removidos',
+
+  'export.button': 'Exportar',
+  'export.busy': 'Gerando...',
+  'export.error': 'Não foi possível gerar a exportação.',
+  'export.records-csv': 'Registros filtrados (CSV)',
+  'export.aggregates-csv': 'Indicadores agregados (CSV)',
+  'export.xlsx': 'Planilha completa (XLSX)',
+  'export.png': 'Relatório em imagem (PNG)',
+  'export.pdf': 'Relatório para impressão (PDF)',
+
+  'uploads.files.one': '{count} arquivo',
+  'uploads.files.other': '{count} arquivos',
+  'uploads.activeFiles': '{active} de {count} arquivos',
+  'uploads.merged': 'Conjuntos mesclados',
+  'uploads.live': 'Ao vivo',
+  'uploads.duplicates.one': '{count} duplicado ignorado',
+  'uploads.duplicates.other': '{count} duplicados ignorados',
+  'uploads.remap': 'Mapear colunas',
+  'uploads.remove': 'Remover arquivo',
+  'uploads.removeAll': 'Remover todos os arquivos',
+  'uploads.dedupBy': 'Remover duplicados por',
+  'uploads.dedup.fields': 'Data + produto + origem + valor',
+  'uploads.dedup.transaction': 'ID da transação',
+  'uploads.dedup.hint': 'Registros sem ID da transação usam data, produto, origem e valor',
+
+  'sheets.title': 'Escolha a Aba',
+  'sheets.rows.one': '{count} linha',
+  'sheets.rows.other': '{count} linhas',
+
+  'views.button': 'Visões',
+  'views.copyLink': 'Copiar link desta visão',
+  'views.copied': 'Link copiado!',
+  'views.copyError': 'Não foi possível copiar o link. Copie o endereço direto da barra do navegador.',
+  'views.empty': 'Nenhuma visão salva ainda',
+  'views.delete': 'Excluir visão',
+  'views.name': 'Nome da visão (ex: Meta – Q3)',
+  'views.save': 'Salvar visão atual',
+
+  'mapping.title': 'Mapeamento de Colunas',
+  'mapping.ambiguous': 'Não foi possível mapear as colunas com segurança',
+  'mapping.none': '— Não mapear —',
+  'mapping.column': 'Coluna {index}',
+  'mapping.dateFormat': 'Formato de Data',
+  'mapping.dateFormat.DMY': 'dd/mm/aaaa',
+  'mapping.dateFormat.MDY': 'mm/dd/aaaa',
+  'mapping.dateFormat.YMD': 'aaaa-mm-dd',
+  'mapping.decimalSeparator': 'Separador Decimal',
+  'mapping.autoDetect': 'Detectar automaticamente',
+  'mapping.decimal.comma': 'Vírgula (1.234,56)',
+  'mapping.decimal.dot': 'Ponto (1,234.56)',
+  'mapping.duplicated': 'Uma mesma coluna está atribuída a mais de um campo.',
+  'mapping.saveProfile': 'Salvar como perfil',
+  'mapping.profileName': 'Nome do perfil',
+  'mapping.validRecords.one': '{count} registro válido',
+  'mapping.validRecords.other': '{count} registros válidos',
+  'mapping.apply': 'Aplicar Mapeamento',
+  'mapping.profiles': 'Perfis salvos',
+  'mapping.field.data': 'Data da Venda',
+  'mapping.field.produto': 'Produto',
+  'mapping.field.quantidade_vendida': 'Quantidade',
+  'mapping.field.receita': 'Receita',
+  'mapping.field.origem': 'Origem / Canal',
+  'mapping.field.custo_aquisicao': 'Custo de Aquisição',
+  'mapping.field.id_transacao': 'ID da Transação',
+  'mapping.field.moeda': 'Moeda',
+  'mapping.issue.either': '"{header}" pode ser {field} ou {other}',
+  'mapping.issue.contested': '"{header}" e "{other}" disputam o campo {field}',
+  'mapping.issue.missing': 'Nenhuma coluna encontrada para {field}',
+
+  'source.error.columns': 'A fonte "{source}" não tem as colunas {columns}',
+  'source.error.network': 'Sem conexão com a fonte "{source}"',
+  'source.error.http': 'A fonte "{source}" respondeu com erro {status}',
+  'source.error.json': 'A fonte "{source}" não devolveu um JSON válido',
+  'source.error.html': 'A fonte "{source}" devolveu uma página em vez de CSV. Verifique se a planilha está pública',
+  'source.error.read': 'Não foi possível ler a fonte "{source}"',
+
+  'currency.error.code': 'Use códigos ISO de três letras, como BRL ou USD',
+  'currency.error.displayRate': 'Cadastre a taxa da moeda de exibição',
+  'currency.error.rate': 'As taxas precisam ser maiores que zero',
+};
+
+export type MessageKey = keyof typeof ptBR;
+
+export default ptBR;
@@ -0,0 +1,30 @@
+// Servidor local que substitui as fontes remotas durante o desenvolvimento.
+// Uso: npm run fixtures -> http://localhost:3001/vendas-sp.csv
+import { createServer } from 'http';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const FIXTURES_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../fixtures');
+const PORT = Number(process.env.FIXTURES_PORT) || 3001;
+
+const CONTENT_TYPES = {
+  '.csv': 'text/csv; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+};
+
+createServer(async (req, res) => {
+  const { pathname } = new URL(req.url, `http://localhost:${PORT}`);
+  const file = path.join(FIXTURES_DIR, path.normalize(decodeURIComponent(pathname)).replace(/^(\.\.[/\\])+/, ''));
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  try {
+    const body = await readFile(file);
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] || 'text/plain' });
+    res.end(body);
+  } catch {
+    res.writeHead(404);
+    res.end('Not found');
+  }
+}).listen(PORT, () => {
+  console.log(`Fixtures disponíveis em http://localhost:${PORT}/`);
+});
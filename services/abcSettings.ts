@@ -0,0 +1,19 @@
+import { AbcConfig } from '../types';
+import { DEFAULT_ABC_CONFIG, normalizeAbcConfig } from '../utils/pareto';
+
+const STORAGE_KEY = 'dashboard:abc-settings';
+
+export const loadAbcConfig = (): AbcConfig => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? normalizeAbcConfig(JSON.parse(stored)) : DEFAULT_ABC_CONFIG;
+  } catch (error) {
+    console.error('Error loading ABC settings:', error);
+    return DEFAULT_ABC_CONFIG;
+  }
+};
+
+export const saveAbcConfig = (config: AbcConfig): AbcConfig => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  return config;
+};
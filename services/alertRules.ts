@@ -0,0 +1,22 @@
+import { AlertRule } from '../types';
+
+const STORAGE_KEY = 'dashboard:alert-rules';
+
+export const createRuleId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+export const loadAlertRules = (): AlertRule[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading alert rules:', error);
+    return [];
+  }
+};
+
+export const saveAlertRules = (rules: AlertRule[]): AlertRule[] => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  return rules;
+};
@@ -0,0 +1,118 @@
+import { CSVTable, ColumnMapping, DataSource, ParseOptions } from '../types';
+import { FormatSettings } from '../utils/formatters';
+import {
+  CachedLoadResult, DashboardQuery, DashboardResult, DatasetConfig, DatasetSummary, LiveLoadResult, RecordsPage, RecordsRequest, UploadResult, createAnalyticsEngine
+} from './analyticsEngine';
+import { streamCSVTable } from './spreadsheetService';
+
+export type AnalyticsRequest =
+  | { id: number; type: 'format'; format: FormatSettings }
+  | { id: number; type: 'configure'; config: DatasetConfig }
+  | { id: number; type: 'load-cached'; sources: DataSource[] }
+  | { id: number; type: 'fetch-sources'; sources: DataSource[] }
+  | { id: number; type: 'set-upload'; uploadId: string; table: CSVTable; mapping: ColumnMapping; options: ParseOptions }
+  | { id: number; type: 'remove-uploads'; ids: string[] }
+  | { id: number; type: 'query'; query: DashboardQuery }
+  | { id: number; type: 'records'; request: RecordsRequest }
+  | { id: number; type: 'parse-csv'; file: Blob };
+
+export type AnalyticsResponse =
+  | { id: number; type: 'done'; value: unknown }
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'error'; message: string };
+
+export interface AnalyticsClient {
+  // Idioma e moeda dos rótulos e mensagens gerados pelo motor
+  setFormat: (format: FormatSettings) => void;
+  configure: (config: DatasetConfig) => Promise<DatasetSummary>;
+  loadCachedSources: (sources: DataSource[]) => Promise<CachedLoadResult | null>;
+  fetchSources: (sources: DataSource[]) => Promise<LiveLoadResult | null>;
+  setUpload: (id: string, table: CSVTable, mapping: ColumnMapping, options: ParseOptions) => Promise<UploadResult>;
+  removeUploads: (ids: string[]) => void;
+  // Resolve com null quando uma consulta mais nova foi disparada antes desta terminar
+  query: (query: DashboardQuery) => Promise<DashboardResult | null>;
+  // Registros trafegam só por página, nunca o recorte inteiro a cada consulta
+  records: (request: RecordsRequest) => Promise<RecordsPage>;
+  parseCSVFile: (file: Blob, onProgress?: (progress: number) => void) => Promise<CSVTable>;
+  dispose: () => void;
+}
+
+interface PendingRequest {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+// Sem suporte a Web Workers o mesmo motor roda na thread principal, que já usa o idioma e a moeda da página
+const createInlineClient = (): AnalyticsClient => {
+  const engine = createAnalyticsEngine();
+  return {
+    setFormat: () => {},
+    configure: async (config) => engine.configure(config),
+    loadCachedSources: (sources) => engine.loadCachedSources(sources),
+    fetchSources: (sources) => engine.fetchSources(sources),
+    setUpload: async (id, table, mapping, options) => engine.setUpload(id, table, mapping, options),
+    removeUploads: (ids) => engine.removeUploads(ids),
+    query: async (query) => engine.query(query),
+    records: async (request) => engine.records(request),
+    parseCSVFile: (file, onProgress) => streamCSVTable(file, onProgress),
+    dispose: () => {},
+  };
+};
+
+export const createAnalyticsClient = (): AnalyticsClient => {
+  if (typeof Worker === 'undefined') return createInlineClient();
+
+  const worker = new Worker(new URL('../workers/analytics.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, PendingRequest>();
+  let nextId = 0;
+  let latestQuery = 0;
+
+  worker.onmessage = (event: MessageEvent<AnalyticsResponse>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+    if (message.type === 'progress') {
+      request.onProgress?.(message.progress);
+      return;
+    }
+    pending.delete(message.id);
+    if (message.type === 'error') request.reject(new Error(message.message));
+    else request.resolve(message.value);
+  };
+
+  worker.onerror = (event) => {
+    console.error('Analytics worker error:', event.message);
+    pending.forEach(request => request.reject(new Error(event.message)));
+    pending.clear();
+  };
+
+  // Mensagens sem resposta; o worker as processa na ordem em que chegam
+  const post = (request: AnalyticsRequest) => worker.postMessage(request);
+
+  const send = <T,>(request: AnalyticsRequest, onProgress?: (progress: number) => void): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+      pending.set(request.id, { resolve, reject, onProgress });
+      worker.postMessage(request);
+    });
+  };
+
+  return {
+    setFormat: (format) => post({ id: ++nextId, type: 'format', format }),
+    configure: (config) => send<DatasetSummary>({ id: ++nextId, type: 'configure', config }),
+    loadCachedSources: (sources) => send<CachedLoadResult | null>({ id: ++nextId, type: 'load-cached', sources }),
+    fetchSources: (sources) => send<LiveLoadResult | null>({ id: ++nextId, type: 'fetch-sources', sources }),
+    setUpload: (uploadId, table, mapping, options) => send<UploadResult>({ id: ++nextId, type: 'set-upload', uploadId, table, mapping, options }),
+    removeUploads: (ids) => post({ id: ++nextId, type: 'remove-uploads', ids }),
+    query: (query) => {
+      const id = latestQuery = ++nextId;
+      return send<DashboardResult>({ id, type: 'query', query }).then(result => id === latestQuery ? result : null);
+    },
+    records: (request) => send<RecordsPage>({ id: ++nextId, type: 'records', request }),
+    parseCSVFile: (file, onProgress) => send<CSVTable>({ id: ++nextId, type: 'parse-csv', file }, onProgress),
+    dispose: () => {
+      worker.terminate();
+      pending.clear();
+    },
+  };
+};
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { CSVTable } from '../types';
+import { DEFAULT_ABC_CONFIG } from '../utils/pareto';
+import { DEFAULT_FORECAST } from '../utils/forecast';
+import { DashboardQuery, DatasetConfig, RecordsRequest, createAnalyticsEngine } from './analyticsEngine';
+import { detectColumnMapping } from './columnMapping';
+
+const TABLE: CSVTable = {
+  headers: ['Data', 'Produto', 'Quantidade', 'Receita', 'Origem', 'Moeda'],
+  rows: [
+    ['2024-01-05', 'Ebook', '1', '100', 'ig', 'BRL'],
+    ['2024-01-06', 'Curso', '2', '40', 'Google', 'USD'],
+    ['2024-02-10', 'Ebook', '1', '100', 'ig', 'BRL'],
+  ],
+};
+
+const CONFIG: DatasetConfig = {
+  includeLive: false,
+  liveLabel: '',
+  uploads: [{ id: 'arquivo', label: 'vendas.csv', enabled: true }],
+  dedupKey: 'fields',
+  corrections: [],
+  channelRules: [{ id: 'r1', match: 'exact', pattern: 'ig', medium: '', channel: 'Instagram', enabled: true }],
+  currency: { display: 'BRL', base: 'BRL', rates: { USD: 5 } },
+};
+
+const QUERY: DashboardQuery = {
+  filters: { products: [], channels: [], periods: [] },
+  bounds: { start: '', end: '' },
+  baseline: { mode: 'none', start: '', end: '' },
+  granularity: 'month',
+  comparison: { dimension: 'produto', items: [] },
+  pivot: { rows: 'origem', columns: 'produto' },
+  alertRules: [],
+  targets: [],
+  abc: DEFAULT_ABC_CONFIG,
+  forecast: DEFAULT_FORECAST,
+  scope: '',
+  locale: 'pt-BR',
+  currency: 'BRL',
+};
+
+const RECORDS: RecordsRequest = {
+  filters: QUERY.filters,
+  bounds: QUERY.bounds,
+  drill: null,
+  search: '',
+  offset: 0,
+};
+
+const loadEngine = () => {
+  const engine = createAnalyticsEngine();
+  engine.configure(CONFIG);
+  const { count, dataset } = engine.setUpload('arquivo', TABLE, detectColumnMapping(TABLE.headers).mapping, {});
+  return { engine, count, dataset };
+};
+
+describe('createAnalyticsEngine', () => {
+  it('monta o conjunto com regras de canal e conversão de moeda', () => {
+    const { engine, count, dataset } = loadEngine();
+    expect(count).toBe(3);
+    expect(dataset.count).toBe(3);
+    expect(dataset.channels).toEqual(['Google', 'Instagram']);
+    expect(dataset.rawChannels.map(item => item.value)).toEqual(['ig', 'Google']);
+    expect(dataset.months).toEqual(['2024-02', '2024-01']);
+    expect(dataset.currencies).toEqual(['BRL', 'USD']);
+    expect(engine.query(QUERY).profitability.revenue).toBe(400);
+  });
+
+  it('responde a consulta só com índices e agregados', () => {
+    const { engine } = loadEngine();
+    const result = engine.query({ ...QUERY, filters: { products: ['Curso'], channels: [], periods: [] } });
+    expect(Array.from(result.rows)).toEqual([1]);
+    expect(result).not.toHaveProperty('records');
+    expect(result.insights.totals.revenue).toBe(200);
+  });
+
+  it('devolve páginas de registros junto com os originais, antes das regras e da conversão', () => {
+    const { engine } = loadEngine();
+    const page = engine.records({ ...RECORDS, filters: { products: ['Curso'], channels: [], periods: [] } });
+    expect(page.total).toBe(1);
+    expect(page.records.map(item => [item.origem, item.receita])).toEqual([['Google', 200]]);
+    expect(page.sources.map(item => [item.origem, item.receita, item.moeda])).toEqual([['Google', 40, 'USD']]);
+  });
+
+  it('aplica recorte, busca, ordenação e paginação nos registros', () => {
+    const { engine } = loadEngine();
+    const sorted = engine.records({ ...RECORDS, sort: { key: 'receita', desc: true }, offset: 1, limit: 1 });
+    expect(sorted.total).toBe(3);
+    expect(sorted.records.map(item => item.receita)).toEqual([100]);
+    const searched = engine.records({ ...RECORDS, search: 'instagram  CURSO' });
+    expect(searched.total).toBe(0);
+    expect(engine.records({ ...RECORDS, search: 'ébook 2024-02' }).records.map(item => item.data)).toEqual(['2024-02-10']);
+    const drill = { label: 'x', products: [], channels: ['Instagram'], period: { start: '2024-01-01', end: '2024-01-31', label: 'jan' } };
+    expect(engine.records({ ...RECORDS, drill }).records.map(item => item.data)).toEqual(['2024-01-05']);
+  });
+
+  it('aplica correções e lista as que não encontram registro', () => {
+    const { engine } = loadEngine();
+    const [first] = engine.records(RECORDS).sources;
+    const dataset = engine.configure({
+      ...CONFIG,
+      corrections: [
+        { key: first.registro as string, original: first, excluded: true, changes: {}, updatedAt: '' },
+        { key: 'sumiu', original: first, excluded: true, changes: {}, updatedAt: '' },
+      ],
+    });
+    expect(dataset.count).toBe(2);
+    expect(dataset.unmatched).toEqual(['sumiu']);
+  });
+
+  it('não guarda arquivos sem registros válidos e remove os descartados', () => {
+    const { engine } = loadEngine();
+    const empty = engine.setUpload('vazio', { headers: ['x'], rows: [['1']] }, detectColumnMapping(['x']).mapping, {});
+    expect(empty.count).toBe(0);
+    engine.removeUploads(['arquivo']);
+    expect(engine.configure(CONFIG).count).toBe(0);
+  });
+});
@@ -0,0 +1,295 @@
+import { CSVTable, ChannelRule, ColumnMapping, CurrencySettings, DashboardFilters, DataSource, DedupKey, ForecastConfig, InsightsContext, Locale, ParseOptions, RecordCorrection, RecordsDrill, RecordsSort, SaleRecord } from '../types';
+import { AnalyticsIndex, AnalyticsQuery, AnalyticsResult, buildAnalyticsIndex, runAnalyticsQuery, selectRows } from '../utils/analytics';
+import { DEFAULT_DEDUP_KEY, LIVE_PART_ID, MergePart, MergeStats, mergeDatasets } from '../utils/merge';
+import { applyCorrections } from '../utils/corrections';
+import { RawChannelSummary, normalizeChannels, summarizeRawChannels } from '../utils/channels';
+import { DEFAULT_CURRENCY_SETTINGS, collectCurrencies, convertRecords } from '../utils/currency';
+import { RecordsDiff, diffRecords, hasChanges } from '../utils/dataDiff';
+import { PeriodProjection, projectPeriodTotals } from '../utils/forecast';
+import { buildInsightsContext } from '../utils/insights';
+import { buildSearchMatcher, compareRecords, matchesDrill } from '../utils/filters';
+import { DateBounds } from '../utils/dateRanges';
+import { getMonthKey } from '../utils/parsers';
+import { applyColumnMapping } from './columnMapping';
+import { SourceErrorKind, fetchSalesData, loadCachedSalesData } from './spreadsheetService';
+
+/**
+ * Dono do conjunto exibido no dashboard: guarda os registros das fontes ao vivo e dos arquivos
+ * e monta, a cada mudança, a mescla com correções, regras de canal e conversão de moeda.
+ * Roda no Web Worker de análise; a página recebe só resumos, agregados e páginas de registros.
+ */
+
+export interface DatasetConfig {
+  includeLive: boolean;
+  liveLabel: string;
+  // Arquivos na ordem de importação; os registros de cada um ficam no motor
+  uploads: { id: string; label: string; enabled: boolean }[];
+  dedupKey: DedupKey;
+  corrections: RecordCorrection[];
+  channelRules: ChannelRule[];
+  currency: CurrencySettings;
+}
+
+export interface DatasetSummary {
+  // Muda a cada vez que o conjunto é remontado
+  revision: number;
+  count: number;
+  liveCount: number;
+  mergeStats: Record<string, MergeStats>;
+  // Correções cujo registro não está mais nos dados
+  unmatched: string[];
+  // Moedas sem taxa e a quantidade de registros afetados
+  missing: Record<string, number>;
+  currencies: string[];
+  rawChannels: RawChannelSummary[];
+  products: string[];
+  channels: string[];
+  // Mais recentes primeiro
+  months: string[];
+}
+
+// Erro de carregamento sem a classe, para atravessar o postMessage
+export interface SourceErrorInfo {
+  sourceName: string;
+  kind: SourceErrorKind;
+  message: string;
+}
+
+export interface CachedLoadResult {
+  fetchedAt: Date | null;
+  dataset: DatasetSummary;
+}
+
+export interface LiveLoadResult {
+  fetchedAt: Date | null;
+  errors: SourceErrorInfo[];
+  // Diferença contra o conjunto anterior das mesmas fontes, na moeda de exibição
+  diff: RecordsDiff | null;
+  dataset: DatasetSummary;
+}
+
+export interface UploadResult {
+  // Registros gerados pelo mapeamento; zero deixa o arquivo de fora
+  count: number;
+  dataset: DatasetSummary;
+}
+
+export interface DashboardQuery extends AnalyticsQuery {
+  forecast: ForecastConfig;
+  // Descrição dos filtros, idioma e moeda de exibição, repassados ao contexto de insights
+  scope: string;
+  locale: Locale;
+  currency: string;
+}
+
+export interface DashboardResult extends AnalyticsResult {
+  projection: { month: PeriodProjection; quarter: PeriodProjection } | null;
+  insights: InsightsContext;
+}
+
+// Página pedida pela tabela de registros; o recorte dos filtros é o da consulta exibida
+export interface RecordsPageRequest {
+  drill: RecordsDrill | null;
+  search: string;
+  // Sem ordenação, os registros seguem a ordem do conjunto
+  sort?: RecordsSort;
+  offset: number;
+  // Sem limite devolve todos os registros a partir do início, como na exportação
+  limit?: number;
+}
+
+export interface RecordsRequest extends RecordsPageRequest {
+  filters: DashboardFilters;
+  bounds: DateBounds;
+}
+
+export interface RecordsPage {
+  // Registros que passam pelo recorte e pela busca, antes da paginação
+  total: number;
+  records: SaleRecord[];
+  // Os mesmos registros antes das regras de canal e da conversão, base das correções
+  sources: SaleRecord[];
+}
+
+export interface AnalyticsEngine {
+  configure: (config: DatasetConfig) => DatasetSummary;
+  // Nulo quando o motor já tem os dados dessas fontes ou falta cache de alguma delas
+  loadCachedSources: (sources: DataSource[]) => Promise<CachedLoadResult | null>;
+  // Nulo quando outra combinação de fontes foi pedida antes da busca terminar
+  fetchSources: (sources: DataSource[]) => Promise<LiveLoadResult | null>;
+  setUpload: (id: string, table: CSVTable, mapping: ColumnMapping, options: ParseOptions) => UploadResult;
+  removeUploads: (ids: string[]) => void;
+  query: (query: DashboardQuery) => DashboardResult;
+  records: (request: RecordsRequest) => RecordsPage;
+}
+
+export const EMPTY_DATASET_SUMMARY: DatasetSummary = {
+  revision: 0,
+  count: 0,
+  liveCount: 0,
+  mergeStats: {},
+  unmatched: [],
+  missing: {},
+  currencies: [],
+  rawChannels: [],
+  products: [],
+  channels: [],
+  months: [],
+};
+
+export const EMPTY_RECORDS_PAGE: RecordsPage = { total: 0, records: [], sources: [] };
+
+const DEFAULT_CONFIG: DatasetConfig = {
+  includeLive: true,
+  liveLabel: '',
+  uploads: [],
+  dedupKey: DEFAULT_DEDUP_KEY,
+  corrections: [],
+  channelRules: [],
+  currency: DEFAULT_CURRENCY_SETTINGS,
+};
+
+const getSourcesKey = (sources: DataSource[]) => sources.map(source => source.id).join('|');
+
+const uniqueSorted = (values: string[]) => Array.from(new Set(values)).filter(Boolean).sort();
+
+export const createAnalyticsEngine = (): AnalyticsEngine => {
+  let config = DEFAULT_CONFIG;
+  let live: { key: string; records: SaleRecord[] } | null = null;
+  // Última combinação de fontes pedida; buscas de combinações anteriores são descartadas
+  let requestedKey = '';
+  const uploads = new Map<string, SaleRecord[]>();
+  // Registros corrigidos, alinhados às linhas do índice
+  let corrected: SaleRecord[] = [];
+  let index: AnalyticsIndex = buildAnalyticsIndex([]);
+  let summary = EMPTY_DATASET_SUMMARY;
+  // Linhas da última seleção da tabela, para trocar de página sem refazer busca e ordenação
+  let selection: { key: string; rows: number[] } | null = null;
+
+  // As fontes ao vivo entram primeiro e prevalecem sobre arquivos com os mesmos registros
+  const rebuild = (): DatasetSummary => {
+    const liveRecords = live?.records || [];
+    const parts: MergePart[] = [
+      ...(config.includeLive || config.uploads.length === 0 ? [{ id: LIVE_PART_ID, label: config.liveLabel, records: liveRecords }] : []),
+      ...config.uploads
+        .filter(upload => upload.enabled && uploads.has(upload.id))
+        .map(upload => ({ id: upload.id, label: upload.label, records: uploads.get(upload.id) || [] })),
+    ];
+    const merged = mergeDatasets(parts, config.dedupKey);
+    // Correções entram antes das regras de canal e da conversão, como se viessem da própria planilha
+    const correction = applyCorrections(merged.records, config.corrections);
+    corrected = correction.records;
+    // Moedas sem taxa seguem sem conversão e geram aviso
+    const conversion = convertRecords(normalizeChannels(corrected, config.channelRules), config.currency);
+    const data = conversion.records;
+    index = buildAnalyticsIndex(data);
+    summary = {
+      revision: summary.revision + 1,
+      count: data.length,
+      liveCount: liveRecords.length,
+      mergeStats: merged.stats,
+      unmatched: correction.unmatched,
+      missing: conversion.missing,
+      currencies: collectCurrencies(corrected),
+      rawChannels: summarizeRawChannels(corrected),
+      products: uniqueSorted(data.map(item => item.produto)),
+      channels: uniqueSorted(data.map(item => (item.origem || '').trim())),
+      months: uniqueSorted(data.map(item => getMonthKey(item.data))).reverse(),
+    };
+    return summary;
+  };
+
+  return {
+    configure: (next) => {
+      config = next;
+      return rebuild();
+    },
+
+    loadCachedSources: async (sources) => {
+      const key = getSourcesKey(sources);
+      requestedKey = key;
+      if (live?.key === key) return null;
+      const cached = await loadCachedSalesData(sources);
+      if (!cached || requestedKey !== key) return null;
+      live = { key, records: cached.records };
+      return { fetchedAt: cached.fetchedAt, dataset: rebuild() };
+    },
+
+    fetchSources: async (sources) => {
+      const key = getSourcesKey(sources);
+      requestedKey = key;
+      const result = await fetchSalesData(sources);
+      if (requestedKey !== key) return null;
+      const previous = live?.key === key ? live.records : null;
+      let diff: RecordsDiff | null = null;
+      // Com falha em alguma fonte o conjunto mistura cache, então não há o que comparar
+      if (previous && result.errors.length === 0) {
+        const changes = diffRecords(convertRecords(previous, config.currency).records, convertRecords(result.records, config.currency).records);
+        if (hasChanges(changes)) diff = changes;
+      }
+      live = { key, records: result.records };
+      return {
+        fetchedAt: result.fetchedAt,
+        errors: result.errors.map(({ sourceName, kind, message }) => ({ sourceName, kind, message })),
+        diff,
+        dataset: rebuild(),
+      };
+    },
+
+    setUpload: (id, table, mapping, options) => {
+      const records = applyColumnMapping(table, mapping, options);
+      if (records.length === 0) return { count: 0, dataset: summary };
+      uploads.set(id, records);
+      // Arquivo novo só entra na mescla quando a página o incluir na configuração
+      const used = config.uploads.some(upload => upload.id === id);
+      return { count: records.length, dataset: used ? rebuild() : summary };
+    },
+
+    removeUploads: (ids) => {
+      ids.forEach(id => uploads.delete(id));
+    },
+
+    query: (query) => {
+      const result = runAnalyticsQuery(index, query);
+      const records = Array.from(result.rows, id => index.records[id]);
+      return {
+        ...result,
+        projection: query.forecast.enabled ? projectPeriodTotals(records, query.forecast) : null,
+        insights: buildInsightsContext({
+          records,
+          stats: result.stats,
+          profitability: result.profitability,
+          baselineProfitability: result.baselineProfitability,
+          channels: result.channels,
+          products: result.products,
+          scope: query.scope,
+          locale: query.locale,
+          currency: query.currency,
+        }),
+      };
+    },
+
+    records: ({ offset, limit, ...request }) => {
+      const key = JSON.stringify([summary.revision, request]);
+      if (selection?.key !== key) {
+        const { filters, bounds, drill, search, sort } = request;
+        const matchesSearch = buildSearchMatcher(search);
+        const rows = Array.from(selectRows(index, filters, bounds)).filter(id => {
+          const item = index.records[id];
+          return (!drill || matchesDrill(item, drill)) && (!matchesSearch || matchesSearch(item));
+        });
+        if (sort) {
+          const compare = compareRecords(sort);
+          rows.sort((a, b) => compare(index.records[a], index.records[b]));
+        }
+        selection = { key, rows };
+      }
+      const rows = selection.rows.slice(offset, limit === undefined ? undefined : offset + limit);
+      return {
+        total: selection.rows.length,
+        records: rows.map(id => index.records[id]),
+        sources: rows.map(id => corrected[id]),
+      };
+    },
+  };
+};
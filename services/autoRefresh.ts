@@ -0,0 +1,14 @@
+const STORAGE_KEY = 'dashboard:auto-refresh';
+
+// Intervalos em minutos; 0 desliga a atualização automática
+export const AUTO_REFRESH_OPTIONS: number[] = [0, 1, 5, 15, 30];
+
+export const loadAutoRefreshInterval = (): number => {
+  const stored = Number(localStorage.getItem(STORAGE_KEY));
+  return AUTO_REFRESH_OPTIONS.includes(stored) ? stored : 0;
+};
+
+export const saveAutoRefreshInterval = (minutes: number): number => {
+  localStorage.setItem(STORAGE_KEY, String(minutes));
+  return minutes;
+};
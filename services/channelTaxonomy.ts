@@ -0,0 +1,28 @@
+import { ChannelTaxonomy } from '../types';
+import { EMPTY_CHANNEL_TAXONOMY } from '../utils/channels';
+
+const STORAGE_KEY = 'dashboard:channel-taxonomy';
+
+export const createChannelRuleId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+export const loadChannelTaxonomy = (): ChannelTaxonomy => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return EMPTY_CHANNEL_TAXONOMY;
+    const parsed = JSON.parse(stored);
+    return {
+      rules: Array.isArray(parsed?.rules) ? parsed.rules : [],
+      nodes: Array.isArray(parsed?.nodes) ? parsed.nodes : [],
+    };
+  } catch (error) {
+    console.error('Error loading channel taxonomy:', error);
+    return EMPTY_CHANNEL_TAXONOMY;
+  }
+};
+
+export const saveChannelTaxonomy = (taxonomy: ChannelTaxonomy): ChannelTaxonomy => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(taxonomy));
+  return taxonomy;
+};
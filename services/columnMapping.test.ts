@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { CSVTable } from '../types';
+import { applyColumnMapping, detectColumnMapping } from './columnMapping';
+
+const HEADERS = ['Data', 'Produto', 'Quantidade', 'Receita', 'Origem', 'Custo'];
+
+const mapTable = (rows: CSVTable['rows'], options = {}) => {
+  const { mapping } = detectColumnMapping(HEADERS);
+  return applyColumnMapping({ headers: HEADERS, rows }, mapping, options);
+};
+
+describe('applyColumnMapping', () => {
+  it('detecta a vírgula decimal olhando a coluna inteira', () => {
+    const records = mapTable([
+      ['05/01/2024', 'Ebook', '1', '1.234', 'Google', '10,50'],
+      ['06/01/2024', 'Curso', '2', '99,90', 'Instagram', '0'],
+    ]);
+    expect(records.map(item => [item.data, item.receita, item.custo_aquisicao])).toEqual([
+      ['2024-01-05', 1234, 10.5],
+      ['2024-01-06', 99.9, 0],
+    ]);
+  });
+
+  it('detecta o ponto decimal e datas mês/dia pela coluna', () => {
+    const records = mapTable([
+      ['01/05/2024', 'Ebook', '1', '1,234.50', 'Google', '3.25'],
+      ['01/25/2024', 'Curso', '1', '12.5', 'Google', '0'],
+    ]);
+    expect(records.map(item => [item.data, item.receita, item.custo_aquisicao])).toEqual([
+      ['2024-01-05', 1234.5, 3.25],
+      ['2024-01-25', 12.5, 0],
+    ]);
+  });
+
+  it('respeita os formatos informados em vez de detectar', () => {
+    const records = mapTable([['01/05/2024', 'Ebook', '1', '1.234', 'Google', '0']], { dateFormat: 'MDY', decimalSeparator: '.' });
+    expect(records[0]).toMatchObject({ data: '2024-01-05', receita: 1.234 });
+  });
+
+  it('mantém números e séries de data nativos da planilha', () => {
+    const records = mapTable([[45292, 'Ebook', 2, 1234.5, 'Google', 10]]);
+    expect(records[0]).toMatchObject({ data: '2024-01-01', quantidade_vendida: 2, receita: 1234.5, custo_aquisicao: 10 });
+  });
+
+  it('descarta linhas sem produto e sem receita', () => {
+    const records = mapTable([
+      ['05/01/2024', '', '1', '0', '', '0'],
+      ['05/01/2024', '', '1', '50,00', '', '0'],
+    ]);
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ produto: 'Produto Indefinido', origem: 'Direto', receita: 50 });
+  });
+});
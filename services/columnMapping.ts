@@ -0,0 +1,197 @@
+import { CSVCell, CSVTable, ColumnMapping, DecimalSeparator, MappedField, ParseOptions, SaleRecord } from '../types';
+import { detectDateFormat, detectDecimalSeparator, parseDateValue, parseLocaleNumber } from '../utils/parsers';
+import { normalizeCurrencyCode } from '../utils/currency';
+import { MessageKey, t } from '../utils/i18n';
+
+export const MAPPED_FIELDS: { key: MappedField; label: MessageKey; required: boolean }[] = [
+  { key: 'data', label: 'mapping.field.data', required: true },
+  { key: 'produto', label: 'mapping.field.produto', required: true },
+  { key: 'quantidade_vendida', label: 'mapping.field.quantidade_vendida', required: false },
+  { key: 'receita', label: 'mapping.field.receita', required: true },
+  { key: 'origem', label: 'mapping.field.origem', required: false },
+  { key: 'custo_aquisicao', label: 'mapping.field.custo_aquisicao', required: false },
+  { key: 'id_transacao', label: 'mapping.field.id_transacao', required: false },
+  { key: 'moeda', label: 'mapping.field.moeda', required: false },
+];
+
+export const getMappedFieldLabel = (field: MappedField): string => {
+  const entry = MAPPED_FIELDS.find(item => item.key === field);
+  return entry ? t(entry.label) : field;
+};
+
+type Rule = [RegExp, number];
+
+// Pontuação por campo: padrões mais específicos valem mais, termos que indicam outro significado descontam
+const FIELD_RULES: Record<MappedField, Rule[]> = {
+  data: [
+    [/^data$|^date$/, 100],
+    [/data (da |do |de )?(venda|compra|pedido|pagamento|transacao)|sale date|order date/, 90],
+    [/data|date|dia/, 50],
+    [/cadastro|nascimento|criacao|atualizacao|vencimento|inscricao|modificacao/, -40],
+  ],
+  produto: [
+    [/^produto$|^curso$|^product$/, 100],
+    [/produto|curso|product|item|oferta/, 60],
+    [/id |codigo|sku|categoria/, -20],
+  ],
+  quantidade_vendida: [
+    [/^(quantidade|qtd|qtde|quantity|unidades)$/, 100],
+    [/quantidade|qtd|qtde|quantity|unidades|units/, 80],
+    [/vendas/, 40],
+    [/valor|receita|r\$|faturamento/, -50],
+  ],
+  receita: [
+    [/^receita$|^revenue$/, 100],
+    [/receita|faturamento|revenue|valor/, 70],
+    [/total/, 40],
+    [/custo|cost|quantidade|qtd|frete|desconto|taxa/, -60],
+  ],
+  origem: [
+    [/^origem$|^canal$|^source$/, 100],
+    [/origem|fonte|canal|utm_source|source|midia|channel/, 70],
+    [/utm/, 50],
+  ],
+  custo_aquisicao: [
+    [/custo.?(de )?aquisicao|^cac$/, 100],
+    [/custo|cost|investimento|gasto|spend/, 70],
+  ],
+  id_transacao: [
+    [/^(id|transacao|transaction|transaction.?id|order.?id|pedido)$/, 100],
+    [/(id|codigo|numero|n) (da |do )?(transacao|venda|pedido)|transacao|transaction|pedido|order/, 60],
+    [/data|date|valor|produto|status/, -40],
+  ],
+  moeda: [
+    [/^(moeda|currency|divisa|moneda)$/, 100],
+    [/moeda|currency|divisa|moneda/, 80],
+    [/valor|receita|custo|cambio|taxa/, -40],
+  ],
+};
+
+const AMBIGUITY_MARGIN = 10;
+
+export const normalizeHeader = (header: string): string => {
+  return header.toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/["']/g, "")
+    .trim();
+};
+
+export const getHeaderSignature = (headers: string[]): string => {
+  return headers.map(normalizeHeader).join('|');
+};
+
+export const emptyMapping = (): ColumnMapping => ({
+  data: -1,
+  produto: -1,
+  quantidade_vendida: -1,
+  receita: -1,
+  origem: -1,
+  custo_aquisicao: -1,
+  id_transacao: -1,
+  moeda: -1,
+});
+
+const scoreHeader = (field: MappedField, header: string): number => {
+  let score = 0;
+  let matched = false;
+  FIELD_RULES[field].forEach(([pattern, points]) => {
+    if (!pattern.test(header)) return;
+    if (points > 0) {
+      // Apenas a regra positiva mais forte conta
+      if (!matched) score += points;
+      matched = true;
+    } else {
+      score += points;
+    }
+  });
+  return matched ? score : 0;
+};
+
+export interface MappingDetection {
+  mapping: ColumnMapping;
+  ambiguous: boolean;
+  issues: string[];
+}
+
+/**
+ * Atribui cada campo à coluna de maior pontuação (cada coluna é usada uma única vez).
+ * Marca como ambíguo quando falta um campo obrigatório ou quando duas colunas empatam.
+ */
+export const detectColumnMapping = (headers: string[]): MappingDetection => {
+  const normalized = headers.map(normalizeHeader);
+  const candidates: { field: MappedField; column: number; score: number }[] = [];
+  MAPPED_FIELDS.forEach(({ key }) => {
+    normalized.forEach((header, column) => {
+      const score = scoreHeader(key, header);
+      if (score > 0) candidates.push({ field: key, column, score });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  const mapping = emptyMapping();
+  const usedColumns = new Set<number>();
+  const issues: string[] = [];
+
+  candidates.forEach(candidate => {
+    if (mapping[candidate.field] >= 0 || usedColumns.has(candidate.column)) return;
+    mapping[candidate.field] = candidate.column;
+    usedColumns.add(candidate.column);
+
+    const rival = candidates.find(other =>
+      other !== candidate &&
+      ((other.field === candidate.field && !usedColumns.has(other.column)) ||
+       (other.column === candidate.column && mapping[other.field] < 0)) &&
+      candidate.score - other.score < AMBIGUITY_MARGIN
+    );
+    if (rival) {
+      issues.push(rival.column === candidate.column
+        ? t('mapping.issue.either', { header: headers[candidate.column], field: getMappedFieldLabel(candidate.field), other: getMappedFieldLabel(rival.field) })
+        : t('mapping.issue.contested', { header: headers[candidate.column], other: headers[rival.column], field: getMappedFieldLabel(candidate.field) }));
+    }
+  });
+
+  MAPPED_FIELDS.forEach(({ key, label, required }) => {
+    if (required && mapping[key] < 0) issues.push(t('mapping.issue.missing', { field: t(label) }));
+  });
+
+  return { mapping, ambiguous: issues.length > 0, issues };
+};
+
+// Números nativos valem como estão; texto é lido com o separador decimal da coluna
+const toNumber = (cell: CSVCell, decimalSeparator: DecimalSeparator): number => {
+  return typeof cell === 'number' ? cell : parseLocaleNumber(cell, decimalSeparator);
+};
+
+export const applyColumnMapping = (table: CSVTable, mapping: ColumnMapping, options: ParseOptions = {}): SaleRecord[] => {
+  const { rows } = table;
+  const column = (i: number) => i >= 0 ? rows.map(values => values[i]).filter((value): value is string => typeof value === 'string' && value !== '') : [];
+
+  // Formatos explícitos têm prioridade; sem eles, cada coluna de texto é analisada por inteiro
+  const dateFormat = options.dateFormat || detectDateFormat(column(mapping.data));
+  const decimalSeparator = options.decimalSeparator || detectDecimalSeparator([
+    ...column(mapping.receita),
+    ...column(mapping.custo_aquisicao)
+  ]);
+
+  return rows.map(values => {
+    const getCell = (i: number): CSVCell => (i >= 0 && i < values.length) ? values[i] : '';
+    const getVal = (i: number) => String(getCell(i));
+
+    const receita = toNumber(getCell(mapping.receita), decimalSeparator);
+    const custo = toNumber(getCell(mapping.custo_aquisicao), decimalSeparator);
+    const transactionId = getVal(mapping.id_transacao).trim();
+    const currency = normalizeCurrencyCode(getVal(mapping.moeda));
+
+    return {
+      data: parseDateValue(getVal(mapping.data), dateFormat),
+      produto: getVal(mapping.produto) || 'Produto Indefinido',
+      quantidade_vendida: Math.round(toNumber(getCell(mapping.quantidade_vendida), decimalSeparator)),
+      receita: receita,
+      origem: getVal(mapping.origem) || 'Direto',
+      custo_aquisicao: custo,
+      ...(transactionId ? { id_transacao: transactionId } : {}),
+      ...(currency ? { moeda: currency } : {})
+    } as SaleRecord;
+  }).filter(record => record.produto !== 'Produto Indefinido' || record.receita > 0);
+};
@@ -0,0 +1,57 @@
+import { DataSource } from '../types';
+
+const SOURCES_KEY = 'dashboard:data-sources';
+const ACTIVE_KEY = 'dashboard:active-sources';
+
+export const DEFAULT_DATA_SOURCE: DataSource = {
+  id: 'default',
+  name: 'Planilha Principal',
+  type: 'google-sheet',
+  sheetId: '1AJQWvfDryRJSxKXE6wKuB33JRzcAEAJb',
+};
+
+export const createSourceId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+export const buildSourceUrl = (source: DataSource): string => {
+  if (source.type !== 'google-sheet') return source.url || '';
+  const base = `https://docs.google.com/spreadsheets/d/${source.sheetId}`;
+  const sheet = (source.sheet || '').trim();
+  if (!sheet) return `${base}/export?format=csv`;
+  // Abas podem ser informadas pelo gid numérico ou pelo nome
+  return /^\d+$/.test(sheet)
+    ? `${base}/export?format=csv&gid=${sheet}`
+    : `${base}/gviz/tq?tqx=out:csv&sheet=${encodeURIComponent(sheet)}`;
+};
+
+const readStorage = <T,>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (error) {
+    console.error('Error loading data sources:', error);
+    return fallback;
+  }
+};
+
+export const loadDataSources = (): DataSource[] => {
+  const sources = readStorage<DataSource[]>(SOURCES_KEY, []);
+  return sources.length > 0 ? sources : [DEFAULT_DATA_SOURCE];
+};
+
+export const saveDataSources = (sources: DataSource[]): DataSource[] => {
+  localStorage.setItem(SOURCES_KEY, JSON.stringify(sources));
+  return sources;
+};
+
+// Mais de uma fonte ativa significa que os dados são combinados em um único conjunto
+export const loadActiveSourceIds = (sources: DataSource[]): string[] => {
+  const active = readStorage<string[]>(ACTIVE_KEY, []).filter(id => sources.some(s => s.id === id));
+  return active.length > 0 ? active : [sources[0].id];
+};
+
+export const saveActiveSourceIds = (ids: string[]): string[] => {
+  localStorage.setItem(ACTIVE_KEY, JSON.stringify(ids));
+  return ids;
+};
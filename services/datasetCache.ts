@@ -0,0 +1,74 @@
+import { DataSource, SaleRecord } from '../types';
+import { buildSourceUrl } from './dataSources';
+
+const DB_NAME = 'dashboard';
+const DB_VERSION = 1;
+const STORE_NAME = 'datasets';
+
+export interface CachedDataset {
+  key: string;
+  records: SaleRecord[];
+  // Momento (ISO) em que os dados foram baixados da fonte
+  fetchedAt: string;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    reject(new Error('IndexedDB indisponível neste navegador'));
+    return;
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// A conexão é reaproveitada; uma falha ao abrir permite nova tentativa depois
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = openDatabase().catch(error => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+// O endereço entra na chave: editar a fonte invalida o cache antigo
+const getCacheKey = (source: DataSource): string => `${source.id}|${buildSourceUrl(source)}`;
+
+export const readCachedDataset = async (source: DataSource): Promise<CachedDataset | null> => {
+  try {
+    const database = await getDatabase();
+    return await new Promise<CachedDataset | null>((resolve, reject) => {
+      const request = database.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(getCacheKey(source));
+      request.onsuccess = () => resolve((request.result as CachedDataset | undefined) || null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Error reading cached dataset:', error);
+    return null;
+  }
+};
+
+// O cache é só um atalho: falhas ao gravar são registradas e ignoradas
+export const writeCachedDataset = async (source: DataSource, records: SaleRecord[], fetchedAt: Date): Promise<void> => {
+  try {
+    const database = await getDatabase();
+    const entry: CachedDataset = { key: getCacheKey(source), records, fetchedAt: fetchedAt.toISOString() };
+    await new Promise<void>((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).put(entry);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error('Error writing cached dataset:', error);
+  }
+};
@@ -0,0 +1,32 @@
+import { CurrencySettings, Locale } from '../types';
+import { detectLocale, isLocale } from '../utils/i18n';
+import { DEFAULT_CURRENCY_SETTINGS } from '../utils/currency';
+
+const LOCALE_STORAGE_KEY = 'dashboard:locale';
+const CURRENCY_STORAGE_KEY = 'dashboard:currency';
+
+// Sem escolha salva, segue o idioma do navegador
+export const loadLocale = (): Locale => {
+  const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+  return isLocale(stored) ? stored : detectLocale(navigator.languages || [navigator.language]);
+};
+
+export const saveLocale = (locale: Locale): Locale => {
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  return locale;
+};
+
+export const loadCurrencySettings = (): CurrencySettings => {
+  try {
+    const stored = localStorage.getItem(CURRENCY_STORAGE_KEY);
+    return stored ? { ...DEFAULT_CURRENCY_SETTINGS, ...JSON.parse(stored) } : DEFAULT_CURRENCY_SETTINGS;
+  } catch (error) {
+    console.error('Error loading currency settings:', error);
+    return DEFAULT_CURRENCY_SETTINGS;
+  }
+};
+
+export const saveCurrencySettings = (settings: CurrencySettings): CurrencySettings => {
+  localStorage.setItem(CURRENCY_STORAGE_KEY, JSON.stringify(settings));
+  return settings;
+};
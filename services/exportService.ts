@@ -0,0 +1,219 @@
+import * as XLSX from 'xlsx';
+import { ComparisonItem, DashboardStats, EditableField, ProfitabilityRow, RecordCorrection, SaleRecord } from '../types';
+
+type Cell = string | number;
+
+export interface ExportSheet {
+  name: string;
+  rows: Record<string, Cell>[];
+}
+
+export interface ExportFilter {
+  label: string;
+  value: string;
+}
+
+export interface DashboardSnapshot {
+  filters: ExportFilter[];
+  records: SaleRecord[];
+  stats: DashboardStats;
+  profitability: ProfitabilityRow;
+  channels: ProfitabilityRow[];
+  products: { name: string; value: number }[];
+  comparison: ComparisonItem[];
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+export const buildExportFileName = (prefix: string, extension: string): string => {
+  const today = new Date();
+  const stamp = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+  return `${prefix}-${stamp}.${extension}`;
+};
+
+export const buildRecordsSheet = (records: SaleRecord[]): ExportSheet => ({
+  name: 'Registros',
+  rows: records.map(item => ({
+    'Data': item.data,
+    'Produto': item.produto,
+    'Quantidade': item.quantidade_vendida,
+    'Receita': round(item.receita),
+    'Origem': item.origem,
+    'Custo de Aquisição': round(item.custo_aquisicao),
+    'ID da Transação': item.id_transacao || '',
+    'Moeda': item.moeda || '',
+    'Fonte': item.fonte || '',
+  }))
+});
+
+const FIELD_LABELS: Record<EditableField, string> = {
+  data: 'Data',
+  produto: 'Produto',
+  origem: 'Origem',
+  quantidade_vendida: 'Quantidade',
+  receita: 'Receita',
+  custo_aquisicao: 'Custo de Aquisição',
+};
+
+// Uma linha por exclusão e por campo alterado, seguida dos valores originais do registro
+export const buildCorrectionsSheet = (corrections: RecordCorrection[]): ExportSheet => ({
+  name: 'Correções',
+  rows: corrections.flatMap(correction => {
+    const { original } = correction;
+    const record = {
+      'Data': original.data,
+      'Produto': original.produto,
+      'Origem': original.origem,
+      'Quantidade': original.quantidade_vendida,
+      'Receita': round(original.receita),
+      'Custo de Aquisição': round(original.custo_aquisicao),
+      'Moeda': original.moeda || '',
+      'Fonte': original.fonte || '',
+      'Corrigido em': correction.updatedAt,
+    };
+    const edits = (Object.keys(correction.changes) as EditableField[]).map(field => ({
+      'Ação': 'Edição',
+      'Campo': FIELD_LABELS[field],
+      'Valor Original': original[field],
+      'Valor Corrigido': correction.changes[field] ?? '',
+      ...record,
+    }));
+    return correction.excluded
+      ? [{ 'Ação': 'Exclusão', 'Campo': '', 'Valor Original': '', 'Valor Corrigido': '', ...record }, ...edits]
+      : edits;
+  }),
+});
+
+export const buildAggregateSheets = (snapshot: DashboardSnapshot): ExportSheet[] => {
+  const { stats, profitability, channels, products, comparison, filters } = snapshot;
+  const totalRevenue = stats.totalRevenue || 1;
+  return [
+    {
+      name: 'Resumo',
+      rows: [
+        ...filters.map(filter => ({ 'Indicador': `Filtro: ${filter.label}`, 'Valor': filter.value })),
+        { 'Indicador': 'Vendas Totais', 'Valor': stats.totalSales },
+        { 'Indicador': 'Receita Bruta', 'Valor': round(stats.totalRevenue) },
+        { 'Indicador': 'Ticket Médio', 'Valor': round(stats.averageTicket) },
+        { 'Indicador': 'Custo de Aquisição', 'Valor': round(profitability.cost) },
+        { 'Indicador': 'CAC', 'Valor': round(profitability.cac) },
+        { 'Indicador': 'ROAS', 'Valor': round(profitability.roas) },
+        { 'Indicador': 'Lucro Líquido', 'Valor': round(profitability.profit) },
+        { 'Indicador': 'Margem Líquida (%)', 'Valor': round(profitability.margin) },
+        { 'Indicador': 'Recorde Mensal', 'Valor': `${stats.bestMonth.month} (${round(stats.bestMonth.value)})` },
+        { 'Indicador': 'Mais Vendido', 'Valor': `${stats.bestProductQty.name} (${stats.bestProductQty.count})` },
+        { 'Indicador': 'Melhor Canal', 'Valor': `${stats.bestSource.name} (${round(stats.bestSource.value)})` },
+        { 'Indicador': 'Share do Líder (%)', 'Valor': round(stats.topProductShare) },
+      ]
+    },
+    {
+      name: 'Canais',
+      rows: channels.map(row => ({
+        'Canal': row.name,
+        'Receita': round(row.revenue),
+        'Vendas': row.sales,
+        'Custo': round(row.cost),
+        'CAC': round(row.cac),
+        'ROAS': round(row.roas),
+        'Lucro': round(row.profit),
+        'Margem (%)': round(row.margin),
+      }))
+    },
+    {
+      name: 'Produtos',
+      rows: products.map(row => ({
+        'Produto': row.name,
+        'Receita': round(row.value),
+        'Share (%)': round((row.value / totalRevenue) * 100),
+      }))
+    },
+    {
+      name: 'Comparativo',
+      rows: comparison.map(row => ({
+        'Item': row.name,
+        'Receita': round(row.revenue),
+        'Vendas': row.sales,
+        'Ticket Médio': round(row.ticket),
+        'Custo de Aquisição': round(row.cost),
+        'Share (%)': round(row.share),
+      }))
+    },
+  ];
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// CSV no padrão do Excel brasileiro: ponto-e-vírgula e vírgula decimal, reimportável pelo parseCSV
+const toCSVValue = (value: Cell): string => {
+  const text = typeof value === 'number' ? String(value).replace('.', ',') : value;
+  return /[;"\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const sheetToCSVLines = (sheet: ExportSheet): string[] => {
+  if (sheet.rows.length === 0) return [];
+  const headers = Object.keys(sheet.rows[0]);
+  return [
+    headers.map(toCSVValue).join(';'),
+    ...sheet.rows.map(row => headers.map(header => toCSVValue(row[header] ?? '')).join(';'))
+  ];
+};
+
+export const exportCSV = (sheets: ExportSheet[], fileName: string) => {
+  // Várias tabelas no mesmo arquivo ficam em blocos separados por uma linha em branco
+  const lines = sheets.length === 1
+    ? sheetToCSVLines(sheets[0])
+    : sheets.flatMap(sheet => [sheet.name, ...sheetToCSVLines(sheet), '']);
+  downloadBlob(new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' }), fileName);
+};
+
+export const exportXLSX = (sheets: ExportSheet[], fileName: string) => {
+  const workbook = XLSX.utils.book_new();
+  sheets.forEach(sheet => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(sheet.rows), sheet.name);
+  });
+  XLSX.writeFile(workbook, fileName);
+};
+
+export const exportReport = async (element: HTMLElement, format: 'png' | 'pdf', fileName: string) => {
+  const { default: html2canvas } = await import('html2canvas');
+  const canvas = await html2canvas(element, {
+    scale: 2,
+    backgroundColor: '#f8fafc',
+    // O cabeçalho com os filtros só aparece na versão exportada
+    onclone: (doc) => {
+      doc.querySelectorAll<HTMLElement>('[data-report-only]').forEach(node => {
+        node.style.display = 'block';
+      });
+    }
+  });
+
+  if (format === 'png') {
+    canvas.toBlob(blob => blob && downloadBlob(blob, fileName), 'image/png');
+    return;
+  }
+
+  const { jsPDF } = await import('jspdf');
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const imageHeight = (canvas.height * pageWidth) / canvas.width;
+  const image = canvas.toDataURL('image/png');
+
+  // Imagem única fatiada em páginas A4 deslocando a posição vertical
+  let offset = 0;
+  while (offset < imageHeight) {
+    if (offset > 0) pdf.addPage();
+    pdf.addImage(image, 'PNG', 0, -offset, pageWidth, imageHeight);
+    offset += pageHeight;
+  }
+  pdf.save(fileName);
+};
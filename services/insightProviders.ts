@@ -0,0 +1,80 @@
+import { InsightRequest } from '../types';
+import { answerInsightQuestion, buildInsightPrompt, summarizeInsights } from '../utils/insights';
+import { t } from '../utils/i18n';
+
+/**
+ * Provedor de texto para o painel de insights. Recebe o contexto compacto do recorte
+ * e devolve o resumo semanal ou a resposta da pergunta em texto corrido.
+ */
+export interface InsightProvider {
+  id: string;
+  label: string;
+  // Provedores remotos custam uma chamada por pedido e não rodam a cada mudança de filtro
+  remote: boolean;
+  generate: (request: InsightRequest) => Promise<string>;
+}
+
+export class InsightProviderError extends Error {
+  constructor(public providerId: string, message: string) {
+    super(message);
+    this.name = 'InsightProviderError';
+  }
+}
+
+export const LOCAL_PROVIDER_ID = 'local';
+
+// Respostas determinísticas montadas a partir do próprio contexto, sem rede nem chave
+export const createLocalProvider = (): InsightProvider => ({
+  id: LOCAL_PROVIDER_ID,
+  label: t('insights.provider.local'),
+  remote: false,
+  generate: async ({ task, question, context }) => {
+    return task === 'summary' ? summarizeInsights(context) : answerInsightQuestion(question || '', context);
+  },
+});
+
+// Modelo padrão quando GEMINI_MODEL não está no .env
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+const GEMINI_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+export const createGeminiProvider = (apiKey: string, model: string = DEFAULT_GEMINI_MODEL): InsightProvider => {
+  const label = 'Gemini';
+  return {
+    id: 'gemini',
+    label,
+    remote: true,
+    generate: async (request) => {
+      let response: Response;
+      try {
+        // A chave vai no cabeçalho para não aparecer em URLs de logs e proxies
+        response = await fetch(`${GEMINI_URL}/${encodeURIComponent(model)}:generateContent`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+          body: JSON.stringify({
+            contents: [{ role: 'user', parts: [{ text: buildInsightPrompt(request) }] }],
+            generationConfig: { temperature: 0.2 },
+          }),
+        });
+      } catch (error) {
+        throw new InsightProviderError('gemini', t('insights.error.network', { provider: label }));
+      }
+      if (!response.ok) {
+        throw new InsightProviderError('gemini', t('insights.error.request', { provider: label, status: response.status }));
+      }
+      const payload = await response.json();
+      const text = (payload?.candidates?.[0]?.content?.parts || [])
+        .map((part: { text?: string }) => part.text || '')
+        .join('')
+        .trim();
+      if (!text) throw new InsightProviderError('gemini', t('insights.error.empty', { provider: label }));
+      return text;
+    },
+  };
+};
+
+// A chave e o modelo vêm do .env via vite.config.ts; sem chave o painel usa só o provedor local
+export const getInsightProviders = (): InsightProvider[] => {
+  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+  const model = process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL;
+  return apiKey ? [createGeminiProvider(apiKey, model), createLocalProvider()] : [createLocalProvider()];
+};
@@ -0,0 +1,34 @@
+import { MappingProfile } from '../types';
+import { getHeaderSignature } from './columnMapping';
+
+const STORAGE_KEY = 'dashboard:mapping-profiles';
+
+export const loadMappingProfiles = (): MappingProfile[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading mapping profiles:', error);
+    return [];
+  }
+};
+
+const persist = (profiles: MappingProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+// Um perfil por assinatura de cabeçalho: salvar de novo com o mesmo nome ou a mesma assinatura substitui
+export const saveMappingProfile = (profile: Omit<MappingProfile, 'updatedAt'>): MappingProfile[] => {
+  const others = loadMappingProfiles().filter(p => p.name !== profile.name && p.signature !== profile.signature);
+  return persist([...others, { ...profile, updatedAt: new Date().toISOString() }]);
+};
+
+export const deleteMappingProfile = (name: string): MappingProfile[] => {
+  return persist(loadMappingProfiles().filter(p => p.name !== name));
+};
+
+export const findMappingProfile = (headers: string[]): MappingProfile | undefined => {
+  const signature = getHeaderSignature(headers);
+  return loadMappingProfiles().find(p => p.signature === signature);
+};
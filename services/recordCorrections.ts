@@ -0,0 +1,18 @@
+import { RecordCorrection } from '../types';
+
+const STORAGE_KEY = 'dashboard:record-corrections';
+
+export const loadRecordCorrections = (): RecordCorrection[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading record corrections:', error);
+    return [];
+  }
+};
+
+export const saveRecordCorrections = (corrections: RecordCorrection[]): RecordCorrection[] => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(corrections));
+  return corrections;
+};
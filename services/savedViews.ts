@@ -0,0 +1,31 @@
+import { SavedView } from '../types';
+
+const STORAGE_KEY = 'dashboard:saved-views';
+
+export const createViewId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+export const loadSavedViews = (): SavedView[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading saved views:', error);
+    return [];
+  }
+};
+
+export const saveSavedViews = (views: SavedView[]): SavedView[] => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(views));
+  return views;
+};
+
+// Salvar com um nome já existente substitui a visão anterior
+export const upsertSavedView = (views: SavedView[], name: string, query: string): SavedView[] => {
+  const existing = views.find(view => view.name.toLowerCase() === name.toLowerCase());
+  const view: SavedView = { id: existing?.id || createViewId(), name, query, createdAt: new Date().toISOString() };
+  return existing
+    ? views.map(item => item.id === existing.id ? view : item)
+    : [...views, view].sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createCSVTableParser, parseCSVTable, streamCSVTable } from './spreadsheetService';
+
+describe('createCSVTableParser', () => {
+  it('detecta a vírgula como separador e remove aspas do cabeçalho', () => {
+    const table = parseCSVTable('"Data","Produto",Receita\n2024-01-05,Ebook,100');
+    expect(table).toEqual({ headers: ['Data', 'Produto', 'Receita'], rows: [['2024-01-05', 'Ebook', '100']] });
+  });
+
+  it('detecta o ponto-e-vírgula quando predomina na primeira linha', () => {
+    const table = parseCSVTable('Data;Produto;Receita\n05/01/2024;Ebook;1.234,56\n');
+    expect(table.headers).toEqual(['Data', 'Produto', 'Receita']);
+    expect(table.rows).toEqual([['05/01/2024', 'Ebook', '1.234,56']]);
+  });
+
+  it('respeita separadores e aspas escapadas dentro de campos entre aspas', () => {
+    const table = parseCSVTable('Produto,Origem\n"Curso, módulo 1","Anúncio ""verão"""');
+    expect(table.rows).toEqual([['Curso, módulo 1', 'Anúncio "verão"']]);
+  });
+
+  it('ignora BOM, linhas em branco e quebras CRLF', () => {
+    const table = parseCSVTable('\uFEFFData,Produto\r\n\r\n2024-01-05,Ebook\r\n2024-01-06,Curso\r\n');
+    expect(table.headers).toEqual(['Data', 'Produto']);
+    expect(table.rows).toEqual([['2024-01-05', 'Ebook'], ['2024-01-06', 'Curso']]);
+  });
+
+  it('junta linhas quebradas entre os pedaços recebidos', () => {
+    const parser = createCSVTableParser();
+    ['\uFEFFDa', 'ta,Prod', 'uto\n2024-01-', '05,Ebook\n2024', '-01-06,Curso'].forEach(parser.push);
+    expect(parser.finish()).toEqual({ headers: ['Data', 'Produto'], rows: [['2024-01-05', 'Ebook'], ['2024-01-06', 'Curso']] });
+  });
+
+  it('devolve tabela vazia sem conteúdo', () => {
+    expect(parseCSVTable('')).toEqual({ headers: [], rows: [] });
+  });
+});
+
+describe('streamCSVTable', () => {
+  it('lê o arquivo em blocos e informa o progresso até o fim', async () => {
+    const lines = ['Data;Produto;Receita', ...Array.from({ length: 2000 }, (_, index) => `2024-01-${String(index % 28 + 1).padStart(2, '0')};Produto ${index};${index},50`)];
+    const file = new Blob([lines.join('\n')]);
+    const progress: number[] = [];
+    const table = await streamCSVTable(file, value => progress.push(value));
+    expect(table.headers).toEqual(['Data', 'Produto', 'Receita']);
+    expect(table.rows).toHaveLength(2000);
+    expect(table.rows[1999]).toEqual(['2024-01-12', 'Produto 1999', '1999,50']);
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(progress.every((value, index) => index === 0 || value >= progress[index - 1])).toBe(true);
+  });
+
+  it('decodifica caracteres multibyte partidos entre blocos', async () => {
+    const bytes = new TextEncoder().encode('Produto\nAção\n');
+    // Corta no meio do "ç" (dois bytes em UTF-8)
+    const file = new Blob([bytes.slice(0, 10), bytes.slice(10)]);
+    const table = await streamCSVTable(file);
+    expect(table.rows).toEqual([['Ação']]);
+  });
+});
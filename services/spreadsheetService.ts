@@ -1,89 +1,241 @@
+import { CSVCell, CSVTable, DataSource, ParseOptions, SaleRecord } from '../types';
+import { MAPPED_FIELDS, applyColumnMapping, detectColumnMapping } from './columnMapping';
+import { t } from '../utils/i18n';
+import { DEFAULT_DATA_SOURCE, buildSourceUrl } from './dataSources';
+import { readCachedDataset, writeCachedDataset } from './datasetCache';
 
-import { SaleRecord } from '../types';
+export type SourceErrorKind = 'network' | 'http' | 'malformed';
 
-const SPREADSHEET_ID = '1AJQWvfDryRJSxKXE6wKuB33JRzcAEAJb';
-const SPREADSHEET_URL = `https://docs.google.com/spreadsheets/d/${SPREADSHEET_ID}/export?format=csv`;
+// Distingue falha de carregamento de uma planilha que simplesmente está vazia
+export class SourceLoadError extends Error {
+  constructor(public sourceName: string, public kind: SourceErrorKind, message: string) {
+    super(message);
+    this.name = 'SourceLoadError';
+  }
+}
+
+// Tabela sem linhas é uma planilha vazia; sem as colunas obrigatórias, o conteúdo não é o esperado
+const tableToSourceRecords = (table: CSVTable, source: DataSource): SaleRecord[] => {
+  if (table.rows.length === 0) return [];
+  const { mapping } = detectColumnMapping(table.headers);
+  const missing = MAPPED_FIELDS.filter(field => field.required && mapping[field.key] < 0);
+  if (missing.length > 0) {
+    throw new SourceLoadError(source.name, 'malformed', t('source.error.columns', { source: source.name, columns: missing.map(field => t(field.label)).join(', ') }));
+  }
+  return applyColumnMapping(table, mapping);
+};
 
-export const fetchSalesData = async (): Promise<SaleRecord[]> => {
+export const fetchSourceData = async (source: DataSource): Promise<SaleRecord[]> => {
+  let response: Response;
   try {
-    const response = await fetch(SPREADSHEET_URL);
-    if (!response.ok) {
-      throw new Error('Falha ao buscar dados da planilha');
-    }
-    const csvText = await response.text();
-    return parseCSV(csvText);
+    response = await fetch(buildSourceUrl(source));
   } catch (error) {
-    console.error('Error fetching data:', error);
-    return [];
+    throw new SourceLoadError(source.name, 'network', t('source.error.network', { source: source.name }));
+  }
+  if (!response.ok) {
+    throw new SourceLoadError(source.name, 'http', t('source.error.http', { source: source.name, status: response.status }));
+  }
+  const text = await response.text();
+  if (source.type === 'json-url') {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      throw new SourceLoadError(source.name, 'malformed', t('source.error.json', { source: source.name }));
+    }
+    return tableToSourceRecords(jsonToTable(json), source);
+  }
+  // Planilhas privadas costumam devolver a página de login em vez do CSV
+  if (/^\s*</.test(text)) {
+    throw new SourceLoadError(source.name, 'malformed', t('source.error.html', { source: source.name }));
+  }
+  return tableToSourceRecords(parseCSVTable(text), source);
+};
+
+export interface SalesDataResult {
+  records: SaleRecord[];
+  // Busca mais antiga entre as fontes: fontes que falharam podem ter vindo do cache
+  fetchedAt: Date | null;
+  errors: SourceLoadError[];
+}
+
+const toLoadError = (error: unknown, source: DataSource): SourceLoadError => {
+  if (error instanceof SourceLoadError) return error;
+  return new SourceLoadError(source.name, 'malformed', t('source.error.read', { source: source.name }));
+};
+
+const oldest = (dates: Date[]): Date | null => {
+  return dates.length > 0 ? new Date(Math.min(...dates.map(date => date.getTime()))) : null;
+};
+
+/**
+ * Último conjunto salvo de cada fonte, para exibir antes da busca terminar.
+ * Só retorna quando todas as fontes têm cache, evitando mostrar uma combinação incompleta.
+ */
+export const loadCachedSalesData = async (sources: DataSource[] = [DEFAULT_DATA_SOURCE]): Promise<SalesDataResult | null> => {
+  const cached = await Promise.all(sources.map(readCachedDataset));
+  if (cached.some(entry => !entry)) return null;
+  const entries = cached.filter((entry): entry is NonNullable<typeof entry> => !!entry);
+  return {
+    records: entries.flatMap(entry => entry.records),
+    fetchedAt: oldest(entries.map(entry => new Date(entry.fetchedAt))),
+    errors: []
+  };
+};
+
+/**
+ * Busca todas as fontes e atualiza o cache das que responderam.
+ * Fontes com falha usam o último conjunto salvo, quando existir, e entram em "errors".
+ */
+export const fetchSalesData = async (sources: DataSource[] = [DEFAULT_DATA_SOURCE]): Promise<SalesDataResult> => {
+  const settled = await Promise.allSettled(sources.map(fetchSourceData));
+  const now = new Date();
+  const parts: SaleRecord[][] = [];
+  const fetchedAt: Date[] = [];
+  const errors: SourceLoadError[] = [];
+
+  for (let i = 0; i < sources.length; i++) {
+    const outcome = settled[i];
+    if (outcome.status === 'fulfilled') {
+      parts.push(outcome.value);
+      fetchedAt.push(now);
+      writeCachedDataset(sources[i], outcome.value, now);
+      continue;
+    }
+    console.error('Error fetching data:', outcome.reason);
+    errors.push(toLoadError(outcome.reason, sources[i]));
+    const cached = await readCachedDataset(sources[i]);
+    if (cached) {
+      parts.push(cached.records);
+      fetchedAt.push(new Date(cached.fetchedAt));
+    }
+  }
+
+  return { records: parts.flat(), fetchedAt: oldest(fetchedAt), errors };
+};
+
+const splitCSVLine = (line: string, separator: string): string[] => {
+  const result = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && line[i + 1] === '"') {
+      current += '"';
+      i++;
+    } else if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === separator && !inQuotes) {
+      result.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
   }
+  result.push(current.trim());
+  return result;
 };
 
-export const parseCSV = (csv: string): SaleRecord[] => {
-  const cleanedCsv = csv.replace(/^\uFEFF/, '');
-  const lines = cleanedCsv.split(/\r?\n/).filter(l => l.trim() !== '');
-  if (lines.length < 2) return [];
-
-  // Detecta o separador (vírgula ou ponto-e-vírgula)
-  const firstLine = lines[0];
-  const commaCount = (firstLine.match(/,/g) || []).length;
-  const semicolonCount = (firstLine.match(/;/g) || []).length;
-  const separator = semicolonCount > commaCount ? ';' : ',';
-
-  const splitLine = (line: string) => {
-    const result = [];
-    let current = '';
-    let inQuotes = false;
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      if (char === '"' && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === separator && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
+export interface CSVTableParser {
+  push: (chunk: string) => void;
+  finish: () => CSVTable;
+}
+
+/**
+ * Parser incremental: recebe o texto em partes e guarda a linha incompleta até o próximo pedaço.
+ * O separador (vírgula ou ponto-e-vírgula) é detectado na primeira linha.
+ */
+export const createCSVTableParser = (): CSVTableParser => {
+  let pending = '';
+  let started = false;
+  let separator = ',';
+  let headers: string[] | null = null;
+  const rows: string[][] = [];
+
+  const handleLine = (line: string) => {
+    if (line.trim() === '') return;
+    if (!headers) {
+      const commaCount = (line.match(/,/g) || []).length;
+      const semicolonCount = (line.match(/;/g) || []).length;
+      separator = semicolonCount > commaCount ? ';' : ',';
+      headers = splitCSVLine(line, separator).map(h => h.replace(/["']/g, ''));
+      return;
+    }
+    rows.push(splitCSVLine(line, separator));
+  };
+
+  return {
+    push: (chunk: string) => {
+      let text = pending + chunk;
+      if (!started && text) {
+        text = text.replace(/^\uFEFF/, '');
+        started = true;
       }
+      const lines = text.split(/\r?\n/);
+      pending = lines.pop() || '';
+      lines.forEach(handleLine);
+    },
+    finish: () => {
+      handleLine(pending);
+      pending = '';
+      return { headers: headers || [], rows };
     }
-    result.push(current.trim());
-    return result;
   };
+};
+
+export const parseCSVTable = (csv: string): CSVTable => {
+  const parser = createCSVTableParser();
+  parser.push(csv);
+  return parser.finish();
+};
+
+// Lê o arquivo em blocos, sem carregar o texto inteiro de uma vez, informando o progresso (0 a 1)
+export const streamCSVTable = async (file: Blob, onProgress?: (progress: number) => void): Promise<CSVTable> => {
+  const parser = createCSVTableParser();
+  const decoder = new TextDecoder();
+  const reader = file.stream().getReader();
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    loaded += value.byteLength;
+    parser.push(decoder.decode(value, { stream: true }));
+    onProgress?.(file.size > 0 ? loaded / file.size : 1);
+  }
+  parser.push(decoder.decode());
+  return parser.finish();
+};
 
-  const headers = splitLine(lines[0]).map(h => 
-    h.toLowerCase()
-     .normalize("NFD")
-     .replace(/[\u0300-\u036f]/g, "")
-     .replace(/["']/g, "")
-  );
-  
-  const idx = {
-    data: headers.findIndex(h => h.includes('data')),
-    produto: headers.findIndex(h => h.includes('produto') || h.includes('curso')),
-    quantidade: headers.findIndex(h => h.includes('quantidade') || h.includes('vendas') || h.includes('qtd')),
-    receita: headers.findIndex(h => h.includes('receita') || h.includes('valor') || h.includes('total')),
-    origem: headers.findIndex(h => h.includes('origem') || h.includes('fonte') || h.includes('utm')),
-    custo: headers.findIndex(h => h.includes('custo'))
+export const parseCSV = (csv: string, options: ParseOptions = {}): SaleRecord[] => {
+  const table = parseCSVTable(csv);
+  if (table.rows.length === 0) return [];
+  const { mapping } = detectColumnMapping(table.headers);
+  return applyColumnMapping(table, mapping, options);
+};
+
+export const toCell = (value: unknown): CSVCell => {
+  if (value === null || value === undefined) return '';
+  // Números nativos seguem como number: não votam no separador decimal nem são relidos como texto
+  if (typeof value === 'number') return Number.isFinite(value) ? value : '';
+  return String(value).trim();
+};
+
+// Aceita um array de objetos ou um envelope com o array em alguma propriedade ({ data: [...] })
+export const jsonToTable = (json: unknown): CSVTable => {
+  const items = Array.isArray(json)
+    ? json
+    : (json && typeof json === 'object' ? Object.values(json).find(Array.isArray) : null) || [];
+  const objects = (items as unknown[]).filter((item): item is Record<string, unknown> => !!item && typeof item === 'object');
+  const headers = Array.from(new Set(objects.flatMap(item => Object.keys(item))));
+  return {
+    headers,
+    rows: objects.map(item => headers.map(header => toCell(item[header])))
   };
+};
 
-  return lines.slice(1).map(line => {
-    const values = splitLine(line);
-    const getVal = (i: number) => (i >= 0 && i < values.length) ? values[i] : '';
-
-    const rawReceita = getVal(idx.receita);
-    const receita = parseFloat(rawReceita.replace(/[^\d.-]/g, '').replace(',', '.')) || 0;
-    
-    const rawCusto = getVal(idx.custo);
-    const custo = parseFloat(rawCusto.replace(/[^\d.-]/g, '').replace(',', '.')) || 0;
-
-    return {
-      data: getVal(idx.data),
-      produto: getVal(idx.produto) || 'Produto Indefinido',
-      quantidade_vendida: parseInt(getVal(idx.quantidade)) || 0,
-      receita: receita,
-      origem: getVal(idx.origem) || 'Direto',
-      custo_aquisicao: custo
-    } as SaleRecord;
-  }).filter(record => record.produto !== 'Produto Indefinido' || record.receita > 0);
+export const parseJSON = (json: unknown, options: ParseOptions = {}): SaleRecord[] => {
+  const table = jsonToTable(json);
+  if (table.rows.length === 0) return [];
+  const { mapping } = detectColumnMapping(table.headers);
+  return applyColumnMapping(table, mapping, options);
 };
@@ -0,0 +1,22 @@
+import { Target } from '../types';
+
+const STORAGE_KEY = 'dashboard:targets';
+
+export const createTargetId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+export const loadTargets = (): Target[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading targets:', error);
+    return [];
+  }
+};
+
+export const saveTargets = (targets: Target[]): Target[] => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(targets));
+  return targets;
+};
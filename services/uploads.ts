@@ -0,0 +1,18 @@
+import { DedupKey } from '../types';
+import { DEDUP_KEYS, DEFAULT_DEDUP_KEY } from '../utils/merge';
+
+const DEDUP_STORAGE_KEY = 'dashboard:dedup-key';
+
+export const createUploadId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+export const loadDedupKey = (): DedupKey => {
+  const stored = localStorage.getItem(DEDUP_STORAGE_KEY);
+  return DEDUP_KEYS.find(option => option.value === stored)?.value || DEFAULT_DEDUP_KEY;
+};
+
+export const saveDedupKey = (key: DedupKey): DedupKey => {
+  localStorage.setItem(DEDUP_STORAGE_KEY, key);
+  return key;
+};
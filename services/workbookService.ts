@@ -0,0 +1,25 @@
+import * as XLSX from 'xlsx';
+import { CSVTable } from '../types';
+import { toCell } from './spreadsheetService';
+
+export interface WorkbookSheet {
+  name: string;
+  table: CSVTable;
+}
+
+const sheetToTable = (sheet: XLSX.WorkSheet): CSVTable => {
+  // raw mantém números e datas como seriais do Excel, normalizados depois pelo mapeamento
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' });
+  const rows = matrix
+    .map(row => row.map(toCell))
+    .filter(row => row.some(value => value !== ''));
+  if (rows.length === 0) return { headers: [], rows: [] };
+  return { headers: rows[0].map(String), rows: rows.slice(1) };
+};
+
+export const readWorkbook = (buffer: ArrayBuffer): WorkbookSheet[] => {
+  const workbook = XLSX.read(buffer, { type: 'array' });
+  return workbook.SheetNames
+    .map(name => ({ name, table: sheetToTable(workbook.Sheets[name]) }))
+    .filter(sheet => sheet.table.rows.length > 0);
+};
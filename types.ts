@@ -6,13 +6,445 @@ export interface SaleRecord {
   receita: number;
   origem: string;
   custo_aquisicao: number;
+  // Identificador da venda na plataforma de origem, quando a planilha tiver essa coluna
+  id_transacao?: string;
+  // Código ISO da moeda (BRL, USD...) quando a planilha traz uma coluna de moeda
+  moeda?: string;
+  // Fonte ao vivo ou arquivo de onde o registro veio; preenchido ao mesclar os conjuntos
+  fonte?: string;
+  // Chave estável do registro no conjunto mesclado; preenchida ao aplicar as correções
+  registro?: string;
+}
+
+export type DecimalSeparator = ',' | '.';
+export type DateFormat = 'DMY' | 'MDY' | 'YMD';
+
+export interface ParseOptions {
+  decimalSeparator?: DecimalSeparator;
+  dateFormat?: DateFormat;
+}
+
+export type MappedField = Exclude<keyof SaleRecord, 'fonte' | 'registro'>;
+
+// Índice da coluna de origem para cada campo (-1 quando não mapeado)
+export type ColumnMapping = Record<MappedField, number>;
+
+// Células de CSV são sempre texto; JSON e planilhas mantêm números nativos como number
+export type CSVCell = string | number;
+
+export interface CSVTable {
+  headers: string[];
+  rows: CSVCell[][];
+}
+
+export interface MappingProfile extends ParseOptions {
+  name: string;
+  signature: string;
+  mapping: ColumnMapping;
+  updatedAt: string;
+}
+
+export type DataSourceType = 'google-sheet' | 'csv-url' | 'json-url';
+
+export interface DataSource {
+  id: string;
+  name: string;
+  type: DataSourceType;
+  // Planilha Google: ID do documento e aba (gid numérico ou nome da aba)
+  sheetId?: string;
+  sheet?: string;
+  // CSV ou JSON: endereço completo
+  url?: string;
+}
+
+// Chave de deduplicação ao mesclar arquivos com os dados ao vivo
+export type DedupKey = 'fields' | 'transaction';
+
+export interface UploadedDataset {
+  id: string;
+  fileName: string;
+  // Registros gerados pelo mapeamento; os próprios registros ficam no motor de análise
+  count: number;
+  // Desmarcado, o arquivo continua carregado mas fica fora do dashboard
+  enabled: boolean;
+  importedAt: string;
+}
+
+export type DatePreset = 'all' | 'last7' | 'last30' | 'last90' | 'qtd' | 'ytd' | 'month' | 'custom';
+
+export interface DateRange {
+  preset: DatePreset;
+  // Datas ISO (yyyy-mm-dd) usadas pelo preset "custom"; vazias significam sem limite
+  start: string;
+  end: string;
+  // Mês (yyyy-mm) usado pelo preset "month"
+  month: string;
+}
+
+export type BaselineMode = 'none' | 'previous' | 'last-year' | 'custom';
+
+export interface BaselineConfig {
+  mode: BaselineMode;
+  // Datas ISO usadas pelo modo "custom"
+  start: string;
+  end: string;
+}
+
+export type Granularity = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export type ForecastMethod = 'linear' | 'holt-winters';
+
+export interface ForecastConfig {
+  enabled: boolean;
+  method: ForecastMethod;
+  // Quantidade de períodos projetados na granularidade atual
+  horizon: number;
+  confidence: 80 | 95;
+}
+
+export interface ForecastPoint {
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+// Trecho de datas (ISO) escolhido ao clicar num ponto da linha do tempo
+export interface PeriodFilter {
+  start: string;
+  end: string;
+  label: string;
+}
+
+export interface DashboardFilters {
+  products: string[];
+  channels: string[];
+  periods: PeriodFilter[];
+}
+
+export type ComparisonDimension = 'produto' | 'origem';
+
+export interface ComparisonSelection {
+  dimension: ComparisonDimension;
+  items: string[];
+  // Item contra o qual as diferenças são calculadas
+  reference: string;
+}
+
+export interface ComparisonItem {
+  name: string;
+  revenue: number;
+  sales: number;
+  ticket: number;
+  cost: number;
+  // Participação (%) na receita total do período
+  share: number;
+}
+
+export interface ComparisonTimelineRow {
+  key: string;
+  name: string;
+  values: Record<string, number>;
+}
+
+// Estado do dashboard que pode ser compartilhado por link ou salvo como visão
+export interface DashboardView {
+  sourceIds: string[];
+  filters: DashboardFilters;
+  dateRange: DateRange;
+  baseline: BaselineConfig;
+  granularity: Granularity;
+  comparison: ComparisonSelection;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  // Query string no mesmo formato da URL compartilhável
+  query: string;
+  createdAt: string;
+}
+
+export type PivotDimension = 'origem' | 'produto' | 'month';
+
+export type PivotMeasure = 'revenue' | 'sales' | 'ticket' | 'cost' | 'roas';
+
+export interface PivotConfig {
+  rows: PivotDimension;
+  columns: PivotDimension;
+  measure: PivotMeasure;
+}
+
+export interface PivotTotals {
+  revenue: number;
+  sales: number;
+  cost: number;
+}
+
+// Somas por célula; a medida escolhida é derivada delas, então trocar a medida não exige recalcular
+export interface PivotData {
+  rows: string[];
+  columns: string[];
+  cells: Record<string, Record<string, PivotTotals>>;
+  rowTotals: Record<string, PivotTotals>;
+  columnTotals: Record<string, PivotTotals>;
+  total: PivotTotals;
+}
+
+export type SeasonalityMeasure = 'revenue' | 'sales';
+
+export interface SeasonalityCell {
+  revenue: number;
+  sales: number;
+  // Dias do calendário que a célula cobre no período, base da média diária
+  days: number;
+}
+
+export interface SeasonalityData {
+  // Primeiro e último dia (ISO) com vendas no recorte
+  start: string;
+  end: string;
+  daily: Record<string, { revenue: number; sales: number }>;
+  // [dia da semana (0 = domingo)][mês (0 = janeiro)]
+  weekdayMonth: SeasonalityCell[][];
+  // Índice 0 = dia 1 do mês
+  dayOfMonth: SeasonalityCell[];
+  // [dia da semana][hora]; nulo quando os registros não trazem horário
+  hourWeekday: { revenue: number; sales: number }[][] | null;
+  // Fração dos registros com horário, usados na grade por hora
+  timedShare: number;
+}
+
+export type Locale = 'pt-BR' | 'en-US' | 'es-ES';
+
+export interface CurrencySettings {
+  // Moeda em que os valores são exibidos
+  display: string;
+  // Moeda dos registros sem coluna de moeda; é a referência da tabela de câmbio
+  base: string;
+  // Quanto vale uma unidade de cada moeda na moeda de referência
+  rates: Record<string, number>;
+}
+
+export type InsightMetric = 'revenue' | 'sales' | 'cost' | 'roas' | 'cac' | 'profit' | 'ticket';
+
+export interface InsightPeriod {
+  // Mês (yyyy-mm) ou semana identificada pelo primeiro dia (yyyy-mm-dd)
+  key: string;
+  start: string;
+  end: string;
+  totals: ProfitabilityRow;
+  channels: ProfitabilityRow[];
+  products: ProfitabilityRow[];
+}
+
+// Resumo compacto dos agregados do recorte, enviado ao provedor de insights
+export interface InsightsContext {
+  locale: Locale;
+  currency: string;
+  scope: string;
+  start: string;
+  end: string;
+  totals: ProfitabilityRow & { ticket: number };
+  // Variação percentual contra o período base, quando há
+  trends: Partial<Record<InsightMetric, number>>;
+  highlights: { bestMonth: string; bestProduct: string; bestChannel: string };
+  channels: ProfitabilityRow[];
+  products: ProfitabilityRow[];
+  months: InsightPeriod[];
+  // Últimos 7 dias com dados e os 7 anteriores
+  week: { current: InsightPeriod; previous: InsightPeriod } | null;
+}
+
+export type InsightTask = 'summary' | 'question';
+
+export interface InsightRequest {
+  task: InsightTask;
+  question?: string;
+  context: InsightsContext;
+}
+
+export type EditableField = 'data' | 'produto' | 'origem' | 'quantidade_vendida' | 'receita' | 'custo_aquisicao';
+
+export type RecordValues = Pick<SaleRecord, EditableField>;
+
+// Correção local de um registro: campos editados e/ou exclusão, sempre reversível
+export interface RecordCorrection {
+  // Mesmo valor de "registro" no SaleRecord corrigido
+  key: string;
+  excluded: boolean;
+  changes: Partial<RecordValues>;
+  // Valores antes da correção, exibidos na lista e exportados junto com ela
+  original: RecordValues & Pick<SaleRecord, 'moeda' | 'fonte'>;
+  updatedAt: string;
+}
+
+// Registros por trás de um agregado clicado (KPI, barra, fatia, ponto da linha do tempo)
+export interface RecordsDrill {
+  label: string;
+  products: string[];
+  channels: string[];
+  period: PeriodFilter | null;
+  sort?: { key: EditableField; desc: boolean };
+}
+
+// Colunas pelas quais a tabela de registros pode ser ordenada
+export type RecordsSortKey = EditableField | 'fonte';
+
+export interface RecordsSort {
+  key: RecordsSortKey;
+  desc: boolean;
+}
+
+export type AbcClass = 'A' | 'B' | 'C';
+
+export interface AbcConfig {
+  // Percentuais da receita acumulada cobertos pelas classes A e B; o restante é C
+  a: number;
+  b: number;
+  // Dias sem venda para um item entrar na cauda longa
+  staleDays: number;
+}
+
+export interface ParetoItem {
+  name: string;
+  revenue: number;
+  // Participação na receita e participação acumulada até este item (0 a 100)
+  share: number;
+  cumulativeShare: number;
+  abcClass: AbcClass;
+}
+
+export interface StaleItem {
+  name: string;
+  dimension: ComparisonDimension;
+  // Último dia (ISO) com venda e dias desde então até o último dia com dados
+  lastSale: string;
+  days: number;
+}
+
+export type AlertMetric = 'revenue' | 'sales' | 'cost' | 'roas' | 'cac';
+
+export type AlertDimension = 'origem' | 'produto';
+
+export interface AlertRule {
+  id: string;
+  metric: AlertMetric;
+  operator: 'below' | 'above';
+  threshold: number;
+  // Dias consecutivos fora do limite até o alerta disparar
+  days: number;
+  dimension: AlertDimension;
+  // Canal ou produto monitorado; vazio considera todos os registros
+  target: string;
+  enabled: boolean;
+}
+
+export interface RuleAlert {
+  rule: AlertRule;
+  // Primeiro e último dia (ISO) da sequência que violou a regra
+  start: string;
+  end: string;
+  streak: number;
+  lastValue: number;
+}
+
+// Anomalias diárias e semanais (semanas completas, de segunda a domingo)
+export type AnomalyPeriod = 'day' | 'week';
+
+export interface Anomaly {
+  period: AnomalyPeriod;
+  // Primeiro e último dia (ISO) do período; iguais nas anomalias diárias
+  date: string;
+  end: string;
+  dimension: AlertDimension;
+  name: string;
+  metric: 'revenue' | 'cost';
+  value: number;
+  expected: number;
+  // Desvio robusto (em MADs) em relação à janela anterior da mesma série (dias ou semanas)
+  score: number;
+  direction: 'spike' | 'drop';
+}
+
+export type TargetMetric = 'revenue' | 'sales' | 'cac';
+
+export type TargetPeriod = 'month' | 'quarter';
+
+export type TargetDimension = 'global' | 'produto' | 'origem';
+
+export interface Target {
+  id: string;
+  metric: TargetMetric;
+  period: TargetPeriod;
+  // Primeiro dia (ISO) do mês ou trimestre da meta
+  start: string;
+  dimension: TargetDimension;
+  // Produto ou canal da meta; vazio quando a meta é geral
+  target: string;
+  // Receita e vendas são mínimos a atingir; CAC é o máximo aceitável
+  value: number;
+}
+
+export type TargetStatus = 'upcoming' | 'on-track' | 'behind' | 'achieved' | 'missed';
+
+export interface TargetProgress {
+  target: Target;
+  end: string;
+  actual: number;
+  // Percentual da meta já realizado (no CAC, o valor atual em relação ao máximo)
+  percent: number;
+  // Percentual do período já decorrido, referência para o ritmo
+  expectedPercent: number;
+  elapsedDays: number;
+  remainingDays: number;
+  currentDaily: number;
+  // Média diária necessária no restante do período; nula para o CAC
+  requiredDaily: number | null;
+  projected: number;
+  projectedPercent: number;
+  status: TargetStatus;
+}
+
+export type ChannelRuleMatch = 'exact' | 'ignore-case' | 'regex' | 'utm';
+
+export interface ChannelRule {
+  id: string;
+  match: ChannelRuleMatch;
+  // Valor comparado com a origem bruta; na regra UTM, o utm_source esperado
+  pattern: string;
+  // Só na regra UTM: utm_medium esperado (vazio aceita qualquer um)
+  medium: string;
+  // Canal canônico atribuído quando a regra casa
+  channel: string;
+  enabled: boolean;
+}
+
+// Canal canônico na hierarquia; parent vazio indica o primeiro nível
+export interface ChannelNode {
+  name: string;
+  parent: string;
+}
+
+export interface ChannelTaxonomy {
+  // Avaliadas em ordem: vale a primeira que casar
+  rules: ChannelRule[];
+  nodes: ChannelNode[];
+}
+
+export interface TimelinePoint {
+  key: string;
+  name: string;
+  value: number;
 }
 
 export interface DashboardStats {
   totalSales: number;
   totalRevenue: number;
+  averageTicket: number;
+  topProductShare: number;
   bestMonth: { month: string; value: number; count: number };
   bestProduct: { name: string; value: number };
+  bestProductQty: { name: string; count: number };
   bestSource: { name: string; value: number };
 }
 
@@ -20,3 +452,14 @@ export interface ChartDataPoint {
   name: string;
   value: number;
 }
+
+export interface ProfitabilityRow {
+  name: string;
+  revenue: number;
+  sales: number;
+  cost: number;
+  cac: number;
+  roas: number;
+  profit: number;
+  margin: number;
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { SaleRecord } from '../types';
+import { AnalyticsQuery, buildAnalyticsIndex, buildRowsTimeSeries, runAnalyticsQuery, selectRows } from './analytics';
+import { DEFAULT_ABC_CONFIG } from './pareto';
+import { getLocale, setLocale } from './i18n';
+import { getFormatSettings } from './formatters';
+
+const sale = (data: string, produto: string, origem: string, receita: number, quantidade_vendida = 1, custo_aquisicao = 0): SaleRecord => ({
+  data, produto, origem, receita, quantidade_vendida, custo_aquisicao,
+});
+
+// Fora de ordem de propósito: a seleção devolve as linhas na ordem original do conjunto
+const RECORDS: SaleRecord[] = [
+  sale('2024-03-10', 'Curso', 'Instagram', 300, 3, 60),
+  sale('2024-01-05', 'Ebook', 'Google', 100, 1, 20),
+  sale('2024-02-20', 'Curso', 'Google', 200, 2, 50),
+  sale('2024-01-15', 'Mentoria', ' Instagram ', 500, 1, 100),
+  sale('', 'Ebook', 'Google', 50, 1, 0),
+  sale('2024-03-01', 'Ebook', 'Instagram', 150, 1, 30),
+];
+
+const NO_FILTERS = { products: [], channels: [], periods: [] };
+const UNBOUNDED = { start: '', end: '' };
+
+const buildQuery = (changes: Partial<AnalyticsQuery> = {}): AnalyticsQuery => ({
+  filters: NO_FILTERS,
+  bounds: UNBOUNDED,
+  baseline: { mode: 'none', start: '', end: '' },
+  granularity: 'month',
+  comparison: { dimension: 'produto', items: [] },
+  pivot: { rows: 'origem', columns: 'produto' },
+  alertRules: [],
+  targets: [],
+  abc: DEFAULT_ABC_CONFIG,
+  ...changes,
+});
+
+describe('selectRows', () => {
+  const index = buildAnalyticsIndex(RECORDS);
+
+  it('sem filtros nem período devolve todas as linhas, inclusive as sem data', () => {
+    expect(Array.from(selectRows(index, NO_FILTERS, UNBOUNDED))).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it('limita ao período com os dois extremos inclusos e mantém a ordem original', () => {
+    const rows = selectRows(index, NO_FILTERS, { start: '2024-01-15', end: '2024-03-01' });
+    expect(Array.from(rows)).toEqual([2, 3, 5]);
+  });
+
+  it('aceita período aberto em uma das pontas', () => {
+    expect(Array.from(selectRows(index, NO_FILTERS, { start: '2024-02-01', end: '' }))).toEqual([0, 2, 5]);
+    expect(Array.from(selectRows(index, NO_FILTERS, { start: '', end: '2024-01-31' }))).toEqual([1, 3]);
+  });
+
+  it('filtra por produto e por canal, ignorando espaços nas pontas do canal', () => {
+    expect(Array.from(selectRows(index, { ...NO_FILTERS, products: ['Curso', 'Mentoria'] }, UNBOUNDED))).toEqual([0, 2, 3]);
+    expect(Array.from(selectRows(index, { ...NO_FILTERS, channels: ['Instagram'] }, UNBOUNDED))).toEqual([0, 3, 5]);
+  });
+
+  it('combina produto e canal', () => {
+    const rows = selectRows(index, { ...NO_FILTERS, products: ['Curso'], channels: ['Google'] }, UNBOUNDED);
+    expect(Array.from(rows)).toEqual([2]);
+  });
+
+  it('não repete linhas de períodos sobrepostos', () => {
+    const periods = [
+      { start: '2024-01-01', end: '2024-02-29', label: 'a' },
+      { start: '2024-02-01', end: '2024-03-31', label: 'b' },
+    ];
+    expect(Array.from(selectRows(index, { ...NO_FILTERS, periods }, UNBOUNDED))).toEqual([0, 1, 2, 3, 5]);
+  });
+
+  it('devolve vazio para valores que não existem nos dados', () => {
+    expect(selectRows(index, { ...NO_FILTERS, products: ['Inexistente'] }, UNBOUNDED).length).toBe(0);
+  });
+
+  it('devolve uma cópia que pode ser transferida sem afetar o índice', () => {
+    const rows = selectRows(index, NO_FILTERS, UNBOUNDED);
+    rows.fill(0);
+    expect(Array.from(selectRows(index, NO_FILTERS, UNBOUNDED))).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+});
+
+describe('buildRowsTimeSeries', () => {
+  const index = buildAnalyticsIndex(RECORDS);
+
+  it('soma a receita por período e preenche os períodos sem vendas', () => {
+    const rows = selectRows(index, { ...NO_FILTERS, products: ['Curso'] }, UNBOUNDED);
+    const series = buildRowsTimeSeries(index, rows, 'month', UNBOUNDED);
+    expect(series.map(point => [point.key, point.value])).toEqual([
+      ['2024-02-01', 200],
+      ['2024-03-01', 300],
+    ]);
+    const all = buildRowsTimeSeries(index, selectRows(index, { ...NO_FILTERS, products: ['Mentoria', 'Curso'] }, UNBOUNDED), 'month', UNBOUNDED);
+    expect(all.map(point => [point.key, point.value])).toEqual([
+      ['2024-01-01', 500],
+      ['2024-02-01', 200],
+      ['2024-03-01', 300],
+    ]);
+  });
+
+  it('estende a série até os limites informados', () => {
+    const rows = selectRows(index, { ...NO_FILTERS, products: ['Mentoria'] }, UNBOUNDED);
+    const series = buildRowsTimeSeries(index, rows, 'month', { start: '2023-12-01', end: '2024-02-15' });
+    expect(series.map(point => [point.key, point.value])).toEqual([
+      ['2023-12-01', 0],
+      ['2024-01-01', 500],
+      ['2024-02-01', 0],
+    ]);
+  });
+
+  it('ignora registros sem data e devolve vazio sem linhas', () => {
+    const rows = selectRows(index, NO_FILTERS, UNBOUNDED);
+    const total = buildRowsTimeSeries(index, rows, 'year', UNBOUNDED).reduce((sum, point) => sum + point.value, 0);
+    expect(total).toBe(1250);
+    expect(buildRowsTimeSeries(index, new Int32Array(0), 'day', UNBOUNDED)).toEqual([]);
+  });
+});
+
+describe('runAnalyticsQuery', () => {
+  const index = buildAnalyticsIndex(RECORDS);
+
+  it('resume as linhas filtradas', () => {
+    const result = runAnalyticsQuery(index, buildQuery({ bounds: { start: '2024-01-01', end: '2024-03-31' } }));
+    expect(Array.from(result.rows)).toEqual([0, 1, 2, 3, 5]);
+    expect(result.stats.totalRevenue).toBe(1250);
+    expect(result.stats.totalSales).toBe(8);
+    expect(result.stats.bestProduct).toEqual({ name: 'Curso', value: 500 });
+    expect(result.profitability).toMatchObject({ revenue: 1250, sales: 8, cost: 260, profit: 990 });
+  });
+
+  it('agrupa canais sem espaços nas pontas e ordena pela receita', () => {
+    const result = runAnalyticsQuery(index, buildQuery());
+    expect(result.channels.map(row => [row.name, row.revenue])).toEqual([['Instagram', 950], ['Google', 350]]);
+    expect(result.products.map(row => row.name)).toEqual(['Curso', 'Mentoria', 'Ebook']);
+  });
+
+  it('calcula o período base anterior com os mesmos filtros', () => {
+    const result = runAnalyticsQuery(index, buildQuery({
+      bounds: { start: '2024-03-01', end: '2024-03-31' },
+      baseline: { mode: 'previous', start: '', end: '' },
+    }));
+    expect(result.baselineBounds).toEqual({ start: '2024-01-30', end: '2024-02-29' });
+    expect(result.profitability.revenue).toBe(450);
+    expect(result.baselineProfitability?.revenue).toBe(200);
+  });
+
+  it('compara os itens selecionados trocando o filtro da própria dimensão', () => {
+    const result = runAnalyticsQuery(index, buildQuery({
+      filters: { ...NO_FILTERS, products: ['Ebook'] },
+      comparison: { dimension: 'produto', items: ['Curso', 'Ebook'] },
+    }));
+    expect(result.comparison.items.map(item => [item.name, item.revenue])).toEqual([['Curso', 500], ['Ebook', 300]]);
+    expect(result.comparison.timeline.every(row => 'Curso' in row.values && 'Ebook' in row.values)).toBe(true);
+  });
+
+  it('não altera o idioma nem a formatação globais', () => {
+    setLocale('en-US');
+    const before = getFormatSettings();
+    runAnalyticsQuery(index, buildQuery());
+    expect(getLocale()).toBe('en-US');
+    expect(getFormatSettings()).toBe(before);
+  });
+
+  it('funciona com o conjunto vazio', () => {
+    const result = runAnalyticsQuery(buildAnalyticsIndex([]), buildQuery());
+    expect(result.rows.length).toBe(0);
+    expect(result.timeline).toEqual([]);
+    expect(result.stats.bestProduct.name).toBe('N/A');
+  });
+});
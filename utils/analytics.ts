@@ -0,0 +1,399 @@
+import { AbcConfig, AlertRule, Anomaly, BaselineConfig, ComparisonDimension, ComparisonItem, ComparisonSelection, ComparisonTimelineRow, DashboardFilters, DashboardStats, Granularity, ParetoItem, PivotConfig, PivotData, ProfitabilityRow, RuleAlert, SaleRecord, SeasonalityData, StaleItem, Target, TargetProgress, TimelinePoint } from '../types';
+import { DateBounds, fillTimeSeries, getBucketStart, isUnbounded, toISODate } from './dateRanges';
+import { fillBounds, resolveBaselineBounds } from './periodComparison';
+import { buildProfitabilityRow } from './profitability';
+import { detectAnomalies, evaluateAlertRules } from './anomalies';
+import { buildPivotData } from './pivot';
+import { buildSeasonality } from './seasonality';
+import { buildPareto, buildStaleItems } from './pareto';
+import { resolvePeriodBounds } from './filters';
+import { computeTargetProgress, getTargetBounds } from './targets';
+import { getMonthName } from './formatters';
+import { parseISODate } from './parsers';
+
+/**
+ * Motor de agregação do dashboard. Funções puras, sem acesso ao DOM:
+ * rodam no Web Worker de análise e, sem suporte a workers, direto na thread principal.
+ * Rótulos de meses e períodos seguem o idioma e a moeda já configurados no escopo em que rodam.
+ */
+
+interface RowGroup {
+  // Linhas na ordem original do conjunto (inclui registros sem data)
+  all: Int32Array;
+  // Linhas com data, ordenadas pelo dia
+  sorted: Int32Array;
+}
+
+export interface AnalyticsIndex {
+  records: SaleRecord[];
+  // Dia ISO (yyyy-mm-dd) de cada linha, extraído uma única vez
+  days: string[];
+  bounds: DateBounds;
+  rows: RowGroup;
+  // Produto pelo nome exato e canal sem espaços nas pontas
+  groups: Record<ComparisonDimension, Map<string, RowGroup>>;
+  cache: { anomalies?: Anomaly[]; rulesKey?: string; ruleAlerts?: RuleAlert[] };
+}
+
+export interface AnalyticsQuery {
+  filters: DashboardFilters;
+  bounds: DateBounds;
+  baseline: BaselineConfig;
+  granularity: Granularity;
+  comparison: Pick<ComparisonSelection, 'dimension' | 'items'>;
+  pivot: Pick<PivotConfig, 'rows' | 'columns'>;
+  alertRules: AlertRule[];
+  targets: Target[];
+  abc: AbcConfig;
+}
+
+export interface AnalyticsResult {
+  // Índices (no conjunto enviado ao motor) dos registros que passam pelos filtros
+  rows: Int32Array;
+  baselineBounds: DateBounds | null;
+  stats: DashboardStats;
+  profitability: ProfitabilityRow;
+  baselineProfitability: ProfitabilityRow | null;
+  channels: ProfitabilityRow[];
+  products: ProfitabilityRow[];
+  timeline: TimelinePoint[];
+  baselineTimeline: TimelinePoint[];
+  // Itens na ordem da seleção e suas séries lado a lado
+  comparison: { items: ComparisonItem[]; timeline: ComparisonTimelineRow[] };
+  pivot: PivotData;
+  seasonality: SeasonalityData;
+  // Curvas ABC sem o filtro da própria dimensão, para a classe de um item não mudar ao filtrá-lo
+  pareto: Record<ComparisonDimension, ParetoItem[]>;
+  // Itens sem venda há "staleDays" dias em todo o conjunto, contados até o último dia com dados
+  stale: StaleItem[];
+  anomalies: Anomaly[];
+  ruleAlerts: RuleAlert[];
+  // Metas avaliadas até o último dia com dados, sem os filtros do dashboard
+  targets: { anchor: string; progress: TargetProgress[] };
+}
+
+const buildRowGroup = (ids: number[], days: string[]): RowGroup => ({
+  all: Int32Array.from(ids),
+  sorted: Int32Array.from(ids.filter(id => days[id]).sort((a, b) => days[a] < days[b] ? -1 : days[a] > days[b] ? 1 : a - b)),
+});
+
+export const buildAnalyticsIndex = (records: SaleRecord[]): AnalyticsIndex => {
+  const days = records.map(item => (item.data || '').slice(0, 10));
+  const ids: number[] = [];
+  const groupIds: Record<ComparisonDimension, Map<string, number[]>> = { produto: new Map(), origem: new Map() };
+  const addToGroup = (dimension: ComparisonDimension, key: string, id: number) => {
+    const list = groupIds[dimension].get(key);
+    if (list) list.push(id);
+    else groupIds[dimension].set(key, [id]);
+  };
+  let start = '';
+  let end = '';
+
+  records.forEach((item, id) => {
+    ids.push(id);
+    addToGroup('produto', item.produto, id);
+    addToGroup('origem', (item.origem || '').trim(), id);
+    const day = days[id];
+    if (!day) return;
+    if (!start || day < start) start = day;
+    if (!end || day > end) end = day;
+  });
+
+  const toGroups = (lists: Map<string, number[]>) => {
+    const groups = new Map<string, RowGroup>();
+    lists.forEach((list, key) => groups.set(key, buildRowGroup(list, days)));
+    return groups;
+  };
+
+  return {
+    records,
+    days,
+    bounds: { start, end },
+    rows: buildRowGroup(ids, days),
+    groups: { produto: toGroups(groupIds.produto), origem: toGroups(groupIds.origem) },
+    cache: {}
+  };
+};
+
+// Primeira posição de "sorted" cujo dia é maior (ou maior ou igual) ao informado
+const searchDay = (sorted: Int32Array, days: string[], day: string, inclusive: boolean): number => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    const current = days[sorted[middle]];
+    if (inclusive ? current < day : current <= day) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+const sliceGroup = (index: AnalyticsIndex, group: RowGroup | undefined, bounds: DateBounds): Int32Array => {
+  if (!group) return new Int32Array(0);
+  if (isUnbounded(bounds)) return group.all.slice();
+  const from = bounds.start ? searchDay(group.sorted, index.days, bounds.start, true) : 0;
+  const to = bounds.end ? searchDay(group.sorted, index.days, bounds.end, false) : group.sorted.length;
+  return group.sorted.slice(from, Math.max(from, to)).sort();
+};
+
+/**
+ * Seleciona as linhas que passam pelos filtros dentro do período, por busca binária.
+ * Parte dos grupos da dimensão filtrada e confere o canal linha a linha só quando há filtro nas duas.
+ * O resultado volta na ordem original do conjunto e é sempre uma cópia, podendo ser transferido.
+ */
+export const selectRows = (index: AnalyticsIndex, filters: DashboardFilters, bounds: DateBounds): Int32Array => {
+  const ranges = resolvePeriodBounds(filters.periods, bounds);
+  const groups = filters.products.length > 0
+    ? filters.products.map(product => index.groups.produto.get(product))
+    : filters.channels.length > 0 ? filters.channels.map(channel => index.groups.origem.get(channel)) : [index.rows];
+  const channels = filters.products.length > 0 && filters.channels.length > 0 ? new Set(filters.channels) : null;
+
+  const slices: Int32Array[] = [];
+  groups.forEach(group => ranges.forEach(range => slices.push(sliceGroup(index, group, range))));
+  if (slices.length === 1 && !channels) return slices[0];
+
+  const merged: number[] = [];
+  slices.forEach(slice => slice.forEach(id => {
+    if (!channels || channels.has((index.records[id].origem || '').trim())) merged.push(id);
+  }));
+  // Períodos sobrepostos podem repetir linhas
+  const sorted = Int32Array.from(merged).sort();
+  return sorted.filter((id, position) => position === 0 || id !== sorted[position - 1]);
+};
+
+const bestEntry = <T,>(grouped: Record<string, T>, getValue: (value: T) => number): [string, T] | undefined => {
+  return Object.entries(grouped).reduce<[string, T] | undefined>((best, entry) => !best || getValue(entry[1]) > getValue(best[1]) ? entry : best, undefined);
+};
+
+const summarizeStats = (index: AnalyticsIndex, rows: Int32Array): DashboardStats => {
+  let totalSales = 0;
+  let totalRevenue = 0;
+  const byMonth: Record<string, { value: number; count: number }> = {};
+  const byProduct: Record<string, { value: number; count: number }> = {};
+  const bySource: Record<string, number> = {};
+
+  rows.forEach(id => {
+    const item = index.records[id];
+    totalSales += item.quantidade_vendida;
+    totalRevenue += item.receita;
+    const month = index.days[id].slice(0, 7);
+    const monthTotals = byMonth[month] || (byMonth[month] = { value: 0, count: 0 });
+    monthTotals.value += item.receita;
+    monthTotals.count += item.quantidade_vendida;
+    if (item.produto) {
+      const productTotals = byProduct[item.produto] || (byProduct[item.produto] = { value: 0, count: 0 });
+      productTotals.value += item.receita;
+      productTotals.count += item.quantidade_vendida;
+    }
+    if (item.origem) bySource[item.origem] = (bySource[item.origem] || 0) + item.receita;
+  });
+
+  const bestMonth = bestEntry(byMonth, totals => totals.value);
+  const bestProduct = bestEntry(byProduct, totals => totals.value);
+  const bestProductQty = bestEntry(byProduct, totals => totals.count);
+  const bestSource = bestEntry(bySource, value => value);
+
+  return {
+    totalSales,
+    totalRevenue,
+    averageTicket: totalSales > 0 ? totalRevenue / totalSales : 0,
+    topProductShare: bestProduct ? (bestProduct[1].value / (totalRevenue || 1)) * 100 : 0,
+    // O nome do mês só é formatado para o vencedor
+    bestMonth: bestMonth ? { month: getMonthName(bestMonth[0] ? `${bestMonth[0]}-01` : ''), value: bestMonth[1].value, count: bestMonth[1].count } : { month: 'N/A', value: 0, count: 0 },
+    bestProduct: bestProduct ? { name: bestProduct[0], value: bestProduct[1].value } : { name: 'N/A', value: 0 },
+    bestProductQty: bestProductQty ? { name: bestProductQty[0], count: bestProductQty[1].count } : { name: 'N/A', count: 0 },
+    bestSource: bestSource ? { name: bestSource[0], value: bestSource[1] } : { name: 'N/A', value: 0 },
+  };
+};
+
+const groupRows = (index: AnalyticsIndex, rows: Int32Array, getKey: (item: SaleRecord) => string): ProfitabilityRow[] => {
+  const grouped: Record<string, { revenue: number; sales: number; cost: number }> = {};
+  rows.forEach(id => {
+    const item = index.records[id];
+    const key = getKey(item);
+    const totals = grouped[key] || (grouped[key] = { revenue: 0, sales: 0, cost: 0 });
+    totals.revenue += item.receita;
+    totals.sales += item.quantidade_vendida;
+    totals.cost += item.custo_aquisicao;
+  });
+  return Object.entries(grouped)
+    .map(([name, totals]) => buildProfitabilityRow(name, totals.revenue, totals.sales, totals.cost))
+    .sort((a, b) => b.revenue - a.revenue);
+};
+
+const summarizeRows = (index: AnalyticsIndex, rows: Int32Array): ProfitabilityRow => {
+  let revenue = 0;
+  let sales = 0;
+  let cost = 0;
+  rows.forEach(id => {
+    const item = index.records[id];
+    revenue += item.receita;
+    sales += item.quantidade_vendida;
+    cost += item.custo_aquisicao;
+  });
+  return buildProfitabilityRow('Total', revenue, sales, cost);
+};
+
+// Equivalente ao buildTimeSeries, mas convertendo cada dia distinto em período uma única vez
+export const buildRowsTimeSeries = (index: AnalyticsIndex, rows: Int32Array, granularity: Granularity, bounds: DateBounds): TimelinePoint[] => {
+  const bucketByDay = new Map<string, string>();
+  const grouped: Record<string, number> = {};
+  let first = bounds.start;
+  let last = bounds.end;
+
+  rows.forEach(id => {
+    const day = index.days[id];
+    if (!day) return;
+    let bucket = bucketByDay.get(day);
+    if (bucket === undefined) {
+      const date = parseISODate(day);
+      bucket = date ? toISODate(getBucketStart(date, granularity)) : '';
+      bucketByDay.set(day, bucket);
+    }
+    if (!bucket) return;
+    grouped[bucket] = (grouped[bucket] || 0) + index.records[id].receita;
+    if (!bounds.start && (!first || day < first)) first = day;
+    if (!bounds.end && (!last || day > last)) last = day;
+  });
+
+  const firstDate = parseISODate(first);
+  const lastDate = parseISODate(last);
+  return firstDate && lastDate ? fillTimeSeries(grouped, granularity, firstDate, lastDate) : [];
+};
+
+// Menor intervalo que contém todos os trechos; sem trechos, fica sem limites
+const hullBounds = (ranges: DateBounds[]): DateBounds => ranges.reduce<DateBounds>((hull, range) => ({
+  start: !hull.start || range.start < hull.start ? range.start : hull.start,
+  end: !hull.end || range.end > hull.end ? range.end : hull.end,
+}), { start: '', end: '' });
+
+/**
+ * Cada item respeita os demais filtros; o filtro da própria dimensão é trocado pelo item.
+ * As séries usam os mesmos limites para todos os itens, mantendo os períodos alinhados.
+ */
+const buildComparison = (index: AnalyticsIndex, query: AnalyticsQuery, totalRevenue: number, bounds: DateBounds): AnalyticsResult['comparison'] => {
+  const { dimension, items } = query.comparison;
+  const filterKey = dimension === 'produto' ? 'products' : 'channels';
+  const seriesBounds = fillBounds(bounds, index.bounds);
+  const rows: Record<string, ComparisonTimelineRow> = {};
+
+  const comparisonItems = items.map(name => {
+    const itemRows = selectRows(index, { ...query.filters, [filterKey]: [name] }, query.bounds);
+    const { revenue, sales, cost } = summarizeRows(index, itemRows);
+    buildRowsTimeSeries(index, itemRows, query.granularity, seriesBounds).forEach(point => {
+      const row = rows[point.key] || (rows[point.key] = { key: point.key, name: point.name, values: {} });
+      row.values[name] = point.value;
+    });
+    return { name, revenue, sales, ticket: sales > 0 ? revenue / sales : 0, cost, share: totalRevenue > 0 ? (revenue / totalRevenue) * 100 : 0 };
+  });
+
+  return { items: comparisonItems, timeline: Object.values(rows).sort((a, b) => a.key.localeCompare(b.key)) };
+};
+
+const getAnomalies = (index: AnalyticsIndex): Anomaly[] => {
+  if (!index.cache.anomalies) index.cache.anomalies = detectAnomalies(index.records);
+  return index.cache.anomalies;
+};
+
+const getRuleAlerts = (index: AnalyticsIndex, rules: AlertRule[]): RuleAlert[] => {
+  const rulesKey = JSON.stringify(rules);
+  if (index.cache.rulesKey !== rulesKey) {
+    index.cache.rulesKey = rulesKey;
+    index.cache.ruleAlerts = evaluateAlertRules(index.records, rules);
+  }
+  return index.cache.ruleAlerts || [];
+};
+
+const buildTargets = (index: AnalyticsIndex, targets: Target[]): AnalyticsResult['targets'] => {
+  const anchor = index.bounds.end;
+  const progress = targets.map(target => {
+    const bounds = getTargetBounds(target);
+    const group = target.dimension === 'global' ? index.rows : index.groups[target.dimension].get(target.target);
+    const rows = sliceGroup(index, group, { start: bounds.start, end: anchor && anchor < bounds.end ? anchor : bounds.end });
+    return computeTargetProgress(target, summarizeRows(index, rows), anchor);
+  });
+  return { anchor, progress };
+};
+
+const PRODUCT_FALLBACK = 'Produto Indefinido';
+const CHANNEL_FALLBACK = 'Desconhecido';
+
+const buildParetoCurves = (index: AnalyticsIndex, query: AnalyticsQuery): AnalyticsResult['pareto'] => {
+  const productRows = selectRows(index, { ...query.filters, products: [] }, query.bounds);
+  const channelRows = selectRows(index, { ...query.filters, channels: [] }, query.bounds);
+  return {
+    produto: buildPareto(groupRows(index, productRows, item => (item.produto || PRODUCT_FALLBACK).trim()), query.abc),
+    origem: buildPareto(groupRows(index, channelRows, item => (item.origem || CHANNEL_FALLBACK).trim()), query.abc),
+  };
+};
+
+const buildStale = (index: AnalyticsIndex, staleDays: number): StaleItem[] => {
+  const lastSales = (dimension: ComparisonDimension, fallback: string) => Array.from(index.groups[dimension], ([key, group]) => ({
+    name: key.trim() || fallback,
+    lastSale: group.sorted.length > 0 ? index.days[group.sorted[group.sorted.length - 1]] : '',
+  }));
+  return [
+    ...buildStaleItems(lastSales('produto', PRODUCT_FALLBACK), 'produto', index.bounds.end, staleDays),
+    ...buildStaleItems(lastSales('origem', CHANNEL_FALLBACK), 'origem', index.bounds.end, staleDays),
+  ];
+};
+
+export const runAnalyticsQuery = (index: AnalyticsIndex, query: AnalyticsQuery): AnalyticsResult => {
+  const { filters } = query;
+  const rows = selectRows(index, filters, query.bounds);
+  // Com períodos marcados na linha do tempo, a série e o período base acompanham esses trechos
+  const bounds = filters.periods.length > 0 ? hullBounds(resolvePeriodBounds(filters.periods, query.bounds)) : query.bounds;
+  const baselineBounds = resolveBaselineBounds(fillBounds(bounds, index.bounds), query.baseline);
+  const baselineRows = baselineBounds ? selectRows(index, { ...filters, periods: [] }, baselineBounds) : null;
+  const profitability = summarizeRows(index, rows);
+
+  return {
+    rows,
+    baselineBounds,
+    stats: summarizeStats(index, rows),
+    profitability,
+    baselineProfitability: baselineRows ? summarizeRows(index, baselineRows) : null,
+    channels: groupRows(index, rows, item => (item.origem || CHANNEL_FALLBACK).trim()),
+    products: groupRows(index, rows, item => (item.produto || PRODUCT_FALLBACK).trim()),
+    timeline: buildRowsTimeSeries(index, rows, query.granularity, bounds),
+    baselineTimeline: baselineRows && baselineBounds ? buildRowsTimeSeries(index, baselineRows, query.granularity, baselineBounds) : [],
+    comparison: buildComparison(index, query, profitability.revenue, bounds),
+    pivot: buildPivotData(query.pivot, callback => rows.forEach(id => callback(index.records[id], index.days[id]))),
+    seasonality: buildSeasonality(callback => rows.forEach(id => callback(index.records[id], index.days[id]))),
+    pareto: buildParetoCurves(index, query),
+    stale: buildStale(index, query.abc.staleDays),
+    anomalies: getAnomalies(index),
+    ruleAlerts: getRuleAlerts(index, query.alertRules),
+    targets: buildTargets(index, query.targets),
+  };
+};
+
+// Resultado sem dados, exibido antes da primeira consulta terminar
+export const EMPTY_ANALYTICS_RESULT: AnalyticsResult = {
+  rows: new Int32Array(0),
+  baselineBounds: null,
+  stats: {
+    totalSales: 0,
+    totalRevenue: 0,
+    averageTicket: 0,
+    topProductShare: 0,
+    bestMonth: { month: 'N/A', value: 0, count: 0 },
+    bestProduct: { name: 'N/A', value: 0 },
+    bestProductQty: { name: 'N/A', count: 0 },
+    bestSource: { name: 'N/A', value: 0 },
+  },
+  profitability: { name: 'Total', revenue: 0, sales: 0, cost: 0, cac: 0, roas: 0, profit: 0, margin: 0 },
+  baselineProfitability: null,
+  channels: [],
+  products: [],
+  timeline: [],
+  baselineTimeline: [],
+  comparison: { items: [], timeline: [] },
+  pivot: { rows: [], columns: [], cells: {}, rowTotals: {}, columnTotals: {}, total: { revenue: 0, sales: 0, cost: 0 } },
+  seasonality: { start: '', end: '', daily: {}, weekdayMonth: [], dayOfMonth: [], hourWeekday: null, timedShare: 0 },
+  pareto: { produto: [], origem: [] },
+  stale: [],
+  anomalies: [],
+  ruleAlerts: [],
+  targets: { anchor: '', progress: [] },
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { SaleRecord } from '../types';
+import { detectAnomalies } from './anomalies';
+import { addDays, toISODate } from './dateRanges';
+
+// Padrão semanal com variação diária grande; semanas alternam levemente o total
+const PATTERN = [100, 120, 80, 110, 90, 130, 70];
+
+const buildSales = (weeks: number, factor: (week: number, day: number) => number = () => 1): SaleRecord[] => {
+  // 01/01/2024 é uma segunda-feira
+  const start = new Date(2024, 0, 1);
+  return Array.from({ length: weeks * 7 }, (_, index) => {
+    const week = Math.floor(index / 7);
+    const day = index % 7;
+    const receita = (PATTERN[day] + (week % 2 ? 2 : -2)) * factor(week, day);
+    return { data: toISODate(addDays(start, index)), produto: 'Ebook', origem: 'Google', receita, quantidade_vendida: 1, custo_aquisicao: 0 };
+  });
+};
+
+const byProduct = (records: SaleRecord[]) => detectAnomalies(records).filter(anomaly => anomaly.dimension === 'produto');
+
+describe('detectAnomalies', () => {
+  it('não sinaliza nada num padrão estável', () => {
+    expect(byProduct(buildSales(10))).toEqual([]);
+  });
+
+  it('sinaliza a queda espalhada pela semana só no total semanal', () => {
+    const anomalies = byProduct(buildSales(10, week => week === 9 ? 0.7 : 1));
+    expect(anomalies.filter(anomaly => anomaly.period === 'day')).toEqual([]);
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({
+      period: 'week',
+      date: '2024-03-04',
+      end: '2024-03-10',
+      metric: 'revenue',
+      direction: 'drop',
+      expected: 700,
+    });
+    expect(anomalies[0].value).toBeCloseTo(499.8);
+    // Referência semanal: totais de 686 e 714 dão MAD de 14, bem abaixo da variação entre os dias
+    expect(anomalies[0].score).toBeLessThan(-3.5);
+  });
+
+  it('sinaliza um pico diário pela referência dos dias anteriores', () => {
+    const anomalies = byProduct(buildSales(4, (week, day) => week === 3 && day === 2 ? 5 : 1));
+    const daily = anomalies.filter(anomaly => anomaly.period === 'day');
+    expect(daily).toHaveLength(1);
+    expect(daily[0]).toMatchObject({ date: '2024-01-24', end: '2024-01-24', direction: 'spike', value: 410 });
+  });
+
+  it('não avalia semanas sem histórico mínimo nem semanas incompletas', () => {
+    // Só três semanas completas antes da queda, abaixo do mínimo de quatro
+    expect(byProduct(buildSales(4, week => week === 3 ? 0.7 : 1)).filter(anomaly => anomaly.period === 'week')).toEqual([]);
+    // A última semana termina na quarta-feira e fica de fora
+    const partial = buildSales(10, week => week === 9 ? 0.7 : 1).slice(0, 66);
+    expect(byProduct(partial).filter(anomaly => anomaly.period === 'week')).toEqual([]);
+  });
+});
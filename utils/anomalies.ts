@@ -0,0 +1,237 @@
+import { AlertMetric, AlertRule, Anomaly, AlertDimension, ProfitabilityRow, RuleAlert, SaleRecord } from '../types';
+import { DateBounds, addDays, getBucketStart, toISODate } from './dateRanges';
+import { getDataBounds } from './periodComparison';
+import { buildProfitabilityRow } from './profitability';
+import { formatCurrency, formatNumber, formatRoas } from './formatters';
+import { parseISODate } from './parsers';
+import { MessageKey, t, tn } from './i18n';
+
+export const ALERT_METRICS: { value: AlertMetric; label: MessageKey }[] = [
+  { value: 'revenue', label: 'metric.revenue' },
+  { value: 'sales', label: 'metric.sales' },
+  { value: 'cost', label: 'kpi.cost' },
+  { value: 'roas', label: 'kpi.roas' },
+  { value: 'cac', label: 'kpi.cac' },
+];
+
+export const ALERT_DIMENSIONS: { value: AlertDimension; label: MessageKey }[] = [
+  { value: 'origem', label: 'filters.channel' },
+  { value: 'produto', label: 'filters.product' },
+];
+
+export interface AnomalyOptions {
+  // Períodos anteriores (dias ou semanas) usados como referência
+  window: number;
+  // Histórico mínimo antes de avaliar um período
+  minHistory: number;
+  // Desvio robusto a partir do qual o período é sinalizado
+  threshold: number;
+}
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyOptions = { window: 14, minHistory: 7, threshold: 3.5 };
+
+// Quedas ou picos que se espalham pela semana não aparecem dia a dia, só no total semanal
+export const DEFAULT_WEEKLY_ANOMALY_OPTIONS: AnomalyOptions = { window: 8, minHistory: 4, threshold: 3.5 };
+
+const WEEK_DAYS = 7;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const listDays = (bounds: DateBounds): string[] => {
+  const start = parseISODate(bounds.start);
+  const end = parseISODate(bounds.end);
+  if (!start || !end) return [];
+  const days: string[] = [];
+  for (let cursor = start; cursor <= end; cursor = addDays(cursor, 1)) days.push(toISODate(cursor));
+  return days;
+};
+
+// Totais diários contínuos (dias sem registros entram zerados)
+const buildDailyRows = (records: SaleRecord[], days: string[]): ProfitabilityRow[] => {
+  const grouped: Record<string, { revenue: number; sales: number; cost: number }> = {};
+  records.forEach(item => {
+    const day = (item.data || '').slice(0, 10);
+    if (!day) return;
+    if (!grouped[day]) grouped[day] = { revenue: 0, sales: 0, cost: 0 };
+    grouped[day].revenue += item.receita;
+    grouped[day].sales += item.quantidade_vendida;
+    grouped[day].cost += item.custo_aquisicao;
+  });
+  return days.map(day => {
+    const totals = grouped[day] || { revenue: 0, sales: 0, cost: 0 };
+    return buildProfitabilityRow(day, totals.revenue, totals.sales, totals.cost);
+  });
+};
+
+const groupBy = (records: SaleRecord[], dimension: AlertDimension): Record<string, SaleRecord[]> => {
+  const grouped: Record<string, SaleRecord[]> = {};
+  records.forEach(item => {
+    const key = (item[dimension] || '').trim();
+    if (!key) return;
+    (grouped[key] = grouped[key] || []).push(item);
+  });
+  return grouped;
+};
+
+// Índices dos dias que abrem semanas completas; semanas cortadas no início ou no fim dos dados ficam de fora
+const listWeekStarts = (days: string[]): number[] => {
+  const starts: number[] = [];
+  days.forEach((day, index) => {
+    const date = parseISODate(day);
+    if (date && index + WEEK_DAYS <= days.length && toISODate(getBucketStart(date, 'week')) === day) starts.push(index);
+  });
+  return starts;
+};
+
+const sumRows = (name: string, rows: ProfitabilityRow[]): ProfitabilityRow => {
+  const totals = rows.reduce((acc, row) => ({
+    revenue: acc.revenue + row.revenue,
+    sales: acc.sales + row.sales,
+    cost: acc.cost + row.cost,
+  }), { revenue: 0, sales: 0, cost: 0 });
+  return buildProfitabilityRow(name, totals.revenue, totals.sales, totals.cost);
+};
+
+interface SeriesOutlier {
+  index: number;
+  expected: number;
+  score: number;
+}
+
+// Compara cada ponto da série com a mediana e a MAD da janela anterior
+const scanSeries = (values: number[], options: AnomalyOptions): SeriesOutlier[] => {
+  const outliers: SeriesOutlier[] = [];
+  for (let i = options.minHistory; i < values.length; i++) {
+    const reference = values.slice(Math.max(0, i - options.window), i);
+    // Séries muito esparsas não têm um padrão confiável para comparar
+    if (reference.filter(v => v > 0).length < reference.length / 2) continue;
+    const expected = median(reference);
+    const deviations = reference.map(v => Math.abs(v - expected));
+    // MAD escalado para equivaler ao desvio padrão; desvio médio quando a MAD é zero
+    const scale = 1.4826 * median(deviations) || 1.2533 * (deviations.reduce((acc, v) => acc + v, 0) / deviations.length);
+    if (!scale) continue;
+    const score = (values[i] - expected) / scale;
+    if (Math.abs(score) >= options.threshold) outliers.push({ index: i, expected, score });
+  }
+  return outliers;
+};
+
+/**
+ * Sinaliza dias e semanas fora do padrão por canal e por produto usando mediana e MAD
+ * da janela anterior; cada série (diária e semanal) tem sua própria referência.
+ * Receita é avaliada nas duas direções; custo de aquisição só quando dispara.
+ */
+export const detectAnomalies = (
+  records: SaleRecord[],
+  options: AnomalyOptions = DEFAULT_ANOMALY_OPTIONS,
+  weeklyOptions: AnomalyOptions = DEFAULT_WEEKLY_ANOMALY_OPTIONS
+): Anomaly[] => {
+  const days = listDays(getDataBounds(records));
+  if (days.length <= options.minHistory) return [];
+  const weekStarts = listWeekStarts(days);
+  const anomalies: Anomaly[] = [];
+
+  ALERT_DIMENSIONS.forEach(({ value: dimension }) => {
+    Object.entries(groupBy(records, dimension)).forEach(([name, group]) => {
+      const rows = buildDailyRows(group, days);
+      const weekRows = weekStarts.map(start => sumRows(days[start], rows.slice(start, start + WEEK_DAYS)));
+      (['revenue', 'cost'] as const).forEach(metric => {
+        const series: [Anomaly['period'], ProfitabilityRow[], AnomalyOptions, (index: number) => DateBounds][] = [
+          ['day', rows, options, index => ({ start: days[index], end: days[index] })],
+          ['week', weekRows, weeklyOptions, index => ({ start: days[weekStarts[index]], end: days[weekStarts[index] + WEEK_DAYS - 1] })],
+        ];
+        series.forEach(([period, periodRows, periodOptions, getBounds]) => {
+          const values = periodRows.map(row => row[metric]);
+          scanSeries(values, periodOptions).forEach(({ index, expected, score }) => {
+            if (metric === 'cost' && score < 0) return;
+            const bounds = getBounds(index);
+            anomalies.push({
+              period,
+              date: bounds.start,
+              end: bounds.end,
+              dimension,
+              name,
+              metric,
+              value: values[index],
+              expected,
+              score,
+              direction: score > 0 ? 'spike' : 'drop',
+            });
+          });
+        });
+      });
+    });
+  });
+
+  return anomalies.sort((a, b) => b.end.localeCompare(a.end) || Math.abs(b.score) - Math.abs(a.score));
+};
+
+// ROAS sem custo e CAC sem vendas não têm valor no dia e não contam para a regra
+const getMetricValue = (row: ProfitabilityRow, metric: AlertMetric): number | null => {
+  switch (metric) {
+    case 'roas': return row.cost > 0 ? row.roas : null;
+    case 'cac': return row.sales > 0 ? row.cac : null;
+    default: return row[metric];
+  }
+};
+
+/**
+ * Avalia as regras sobre os dias mais recentes dos dados carregados.
+ * A regra dispara quando os últimos N dias com valor ficam todos além do limite.
+ */
+export const evaluateAlertRules = (records: SaleRecord[], rules: AlertRule[]): RuleAlert[] => {
+  const days = listDays(getDataBounds(records));
+  if (days.length === 0) return [];
+  const alerts: RuleAlert[] = [];
+
+  rules.filter(rule => rule.enabled).forEach(rule => {
+    const subset = rule.target ? records.filter(item => (item[rule.dimension] || '').trim() === rule.target) : records;
+    const rows = buildDailyRows(subset, days);
+    let streak = 0;
+    let start = '';
+    let end = '';
+    let lastValue: number | null = null;
+
+    for (let i = rows.length - 1; i >= 0; i--) {
+      const value = getMetricValue(rows[i], rule.metric);
+      if (value === null) continue;
+      const violates = rule.operator === 'below' ? value < rule.threshold : value > rule.threshold;
+      if (!violates) break;
+      if (lastValue === null) {
+        lastValue = value;
+        end = rows[i].name;
+      }
+      streak++;
+      start = rows[i].name;
+    }
+
+    if (lastValue !== null && streak >= rule.days) {
+      alerts.push({ rule, start, end, streak, lastValue });
+    }
+  });
+
+  return alerts;
+};
+
+export const formatMetricValue = (metric: AlertMetric, value: number): string => {
+  switch (metric) {
+    case 'sales': return formatNumber(value);
+    case 'roas': return formatRoas(value);
+    default: return formatCurrency(value);
+  }
+};
+
+export const describeAlertRule = (rule: AlertRule): string => {
+  const option = ALERT_METRICS.find(item => item.value === rule.metric);
+  return tn('alerts.rule', rule.days, {
+    metric: option ? t(option.label) : rule.metric,
+    target: rule.target || t(rule.dimension === 'origem' ? 'alerts.allChannels' : 'alerts.allProducts'),
+    operator: rule.operator === 'below' ? '<' : '>',
+    threshold: formatMetricValue(rule.metric, rule.threshold),
+  });
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { ChannelRule, SaleRecord } from '../types';
+import { buildChannelLevel, createChannelResolver, findUnmappedChannels, getChannelPath, normalizeChannels, parseUtm, summarizeRawChannels } from './channels';
+import { buildProfitabilityRow } from './profitability';
+
+const rule = (match: ChannelRule['match'], pattern: string, channel: string, extra: Partial<ChannelRule> = {}): ChannelRule => ({
+  id: `${match}-${pattern}`, match, pattern, medium: '', channel, enabled: true, ...extra,
+});
+
+const record = (origem: string, receita = 100): SaleRecord => ({
+  data: '2024-01-05', produto: 'Ebook', quantidade_vendida: 1, receita, origem, custo_aquisicao: 0,
+});
+
+describe('parseUtm', () => {
+  it('lê utm_source e utm_medium de URLs e query strings', () => {
+    expect(parseUtm('https://loja.com/?utm_source=google&utm_medium=cpc')).toEqual({ source: 'google', medium: 'cpc' });
+    expect(parseUtm('utm_medium=social&UTM_SOURCE=Meta%20Ads')).toEqual({ source: 'Meta Ads', medium: 'social' });
+    expect(parseUtm('?utm_source=newsletter')).toEqual({ source: 'newsletter', medium: '' });
+  });
+
+  it('aceita o formato "origem / mídia" e devolve null sem UTM', () => {
+    expect(parseUtm('google / organic')).toEqual({ source: 'google', medium: 'organic' });
+    expect(parseUtm('Instagram')).toBeNull();
+    expect(parseUtm(' / cpc')).toBeNull();
+  });
+});
+
+describe('createChannelResolver', () => {
+  it('compara exato, sem caixa, por regex e por UTM, valendo a primeira regra que casa', () => {
+    const resolve = createChannelResolver([
+      rule('exact', 'ig', 'Instagram'),
+      rule('ignore-case', 'FACEBOOK', 'Meta'),
+      rule('utm', 'google', 'Google Ads', { medium: 'cpc' }),
+      rule('utm', 'google', 'Google Orgânico'),
+      rule('regex', '^tik', 'TikTok'),
+      rule('regex', 'tok', 'Outro'),
+    ]);
+    expect(resolve(' ig ')).toBe('Instagram');
+    expect(resolve('IG')).toBeNull();
+    expect(resolve('Facebook')).toBe('Meta');
+    expect(resolve('?utm_source=Google&utm_medium=CPC')).toBe('Google Ads');
+    expect(resolve('google / organic')).toBe('Google Orgânico');
+    expect(resolve('TikTok Shop')).toBe('TikTok');
+  });
+
+  it('ignora regras desativadas e inválidas', () => {
+    const resolve = createChannelResolver([
+      rule('exact', 'ig', 'Instagram', { enabled: false }),
+      rule('regex', '(', 'Quebrada'),
+      rule('exact', 'ig', ''),
+    ]);
+    expect(resolve('ig')).toBeNull();
+    expect(resolve('(')).toBeNull();
+  });
+});
+
+describe('normalizeChannels', () => {
+  it('troca a origem pelo canal e mantém a referência dos registros que não mudam', () => {
+    const records = [record('ig'), record('Google'), record(' Email ')];
+    const normalized = normalizeChannels(records, [rule('exact', 'ig', 'Instagram')]);
+    expect(normalized.map(item => item.origem)).toEqual(['Instagram', 'Google', 'Email']);
+    expect(normalized[1]).toBe(records[1]);
+  });
+
+  it('devolve o mesmo array sem regras ativas', () => {
+    const records = [record('ig')];
+    expect(normalizeChannels(records, [rule('exact', 'ig', 'Instagram', { enabled: false })])).toBe(records);
+  });
+});
+
+describe('summarizeRawChannels', () => {
+  it('agrupa as origens brutas e lista as que nenhuma regra mapeia', () => {
+    const summary = summarizeRawChannels([record('ig', 10), record('ig', 20), record('Google', 5), record('Instagram', 1), record(' ')]);
+    expect(summary).toEqual([
+      { value: 'ig', count: 2, revenue: 30 },
+      { value: 'Google', count: 1, revenue: 5 },
+      { value: 'Instagram', count: 1, revenue: 1 },
+    ]);
+    const taxonomy = { rules: [rule('exact', 'ig', 'Instagram')], nodes: [{ name: 'Instagram', parent: '' }] };
+    expect(findUnmappedChannels(summary, taxonomy).map(item => item.value)).toEqual(['Google']);
+  });
+});
+
+describe('hierarquia de canais', () => {
+  const nodes = [
+    { name: 'Pago', parent: '' },
+    { name: 'Meta', parent: 'Pago' },
+    { name: 'Instagram', parent: 'Meta' },
+    { name: 'A', parent: 'B' },
+    { name: 'B', parent: 'A' },
+  ];
+
+  it('monta o caminho até o canal e interrompe ciclos', () => {
+    expect(getChannelPath(nodes, 'Instagram')).toEqual(['Pago', 'Meta', 'Instagram']);
+    expect(getChannelPath(nodes, 'Direto')).toEqual(['Direto']);
+    expect(getChannelPath(nodes, 'A')).toEqual(['B', 'A']);
+  });
+
+  it('consolida cada nível e indica onde há canais abaixo', () => {
+    const rows = [
+      buildProfitabilityRow('Instagram', 300, 3, 30),
+      buildProfitabilityRow('Meta', 100, 1, 10),
+      buildProfitabilityRow('Direto', 50, 1, 0),
+    ];
+    expect(buildChannelLevel(rows, nodes, '').map(row => [row.name, row.revenue, row.drillable])).toEqual([
+      ['Pago', 400, true],
+      ['Direto', 50, false],
+    ]);
+    expect(buildChannelLevel(rows, nodes, 'Meta').map(row => [row.name, row.revenue, row.drillable])).toEqual([
+      ['Instagram', 300, false],
+      ['Meta', 100, false],
+    ]);
+  });
+});
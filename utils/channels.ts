@@ -0,0 +1,186 @@
+import { ChannelNode, ChannelRule, ChannelRuleMatch, ChannelTaxonomy, ProfitabilityRow, SaleRecord } from '../types';
+import { buildProfitabilityRow } from './profitability';
+import { MessageKey, t } from './i18n';
+
+export const CHANNEL_RULE_MATCHES: { value: ChannelRuleMatch; label: MessageKey }[] = [
+  { value: 'exact', label: 'channels.match.exact' },
+  { value: 'ignore-case', label: 'channels.match.ignore-case' },
+  { value: 'regex', label: 'channels.match.regex' },
+  { value: 'utm', label: 'channels.match.utm' },
+];
+
+export const EMPTY_CHANNEL_TAXONOMY: ChannelTaxonomy = { rules: [], nodes: [] };
+
+const normalizeText = (value: string) => value.trim().toLowerCase();
+
+const readParam = (raw: string, name: string): string => {
+  const match = raw.match(new RegExp(`(?:^|[?&#\\s])${name}=([^&#\\s]*)`, 'i'));
+  if (!match) return '';
+  try {
+    return decodeURIComponent(match[1].replace(/\+/g, ' ')).trim();
+  } catch {
+    return match[1].trim();
+  }
+};
+
+/**
+ * Extrai utm_source e utm_medium de uma URL ou query string. Também aceita o formato
+ * "origem / mídia" dos relatórios de aquisição. Retorna null quando não há UTM.
+ */
+export const parseUtm = (raw: string): { source: string; medium: string } | null => {
+  const source = readParam(raw, 'utm_source');
+  if (source) return { source, medium: readParam(raw, 'utm_medium') };
+  const parts = raw.split(' / ');
+  if (parts.length === 2 && parts[0].trim() && parts[1].trim()) return { source: parts[0].trim(), medium: parts[1].trim() };
+  return null;
+};
+
+// Mensagem de erro da regra, ou null quando ela é válida
+export const getChannelRuleError = (rule: Pick<ChannelRule, 'match' | 'pattern' | 'channel'>): string | null => {
+  if (!rule.pattern.trim()) return t('channels.error.pattern');
+  if (!rule.channel.trim()) return t('channels.error.channel');
+  if (rule.match === 'regex') {
+    try {
+      new RegExp(rule.pattern, 'i');
+    } catch {
+      return t('channels.error.regex');
+    }
+  }
+  return null;
+};
+
+type RuleMatcher = (raw: string) => boolean;
+
+const buildMatcher = (rule: ChannelRule): RuleMatcher | null => {
+  if (getChannelRuleError(rule)) return null;
+  switch (rule.match) {
+    case 'exact': {
+      const pattern = rule.pattern.trim();
+      return raw => raw === pattern;
+    }
+    case 'ignore-case': {
+      const pattern = normalizeText(rule.pattern);
+      return raw => normalizeText(raw) === pattern;
+    }
+    case 'regex': {
+      const regex = new RegExp(rule.pattern, 'i');
+      return raw => regex.test(raw);
+    }
+    case 'utm': {
+      const source = normalizeText(rule.pattern);
+      const medium = normalizeText(rule.medium);
+      return raw => {
+        const utm = parseUtm(raw);
+        return !!utm && normalizeText(utm.source) === source && (!medium || normalizeText(utm.medium) === medium);
+      };
+    }
+  }
+};
+
+/**
+ * Compila as regras ativas numa função que devolve o canal canônico da origem bruta,
+ * ou null quando nenhuma regra casa. Regras inválidas são ignoradas.
+ */
+export const createChannelResolver = (rules: ChannelRule[]): (raw: string) => string | null => {
+  const matchers = rules
+    .filter(rule => rule.enabled)
+    .map(rule => ({ channel: rule.channel.trim(), matches: buildMatcher(rule) }))
+    .filter((item): item is { channel: string; matches: RuleMatcher } => item.matches !== null);
+  const cache = new Map<string, string | null>();
+  return (raw: string) => {
+    const value = raw.trim();
+    if (!cache.has(value)) cache.set(value, matchers.find(item => item.matches(value))?.channel ?? null);
+    return cache.get(value) ?? null;
+  };
+};
+
+/**
+ * Substitui a origem de cada registro pelo canal canônico. Origens sem regra ficam como estão (sem espaços
+ * nas pontas); registros que não mudam mantêm a referência.
+ */
+export const normalizeChannels = (records: SaleRecord[], rules: ChannelRule[]): SaleRecord[] => {
+  if (!rules.some(rule => rule.enabled)) return records;
+  const resolve = createChannelResolver(rules);
+  return records.map(item => {
+    const channel = resolve(item.origem || '') ?? (item.origem || '').trim();
+    return channel === item.origem ? item : { ...item, origem: channel };
+  });
+};
+
+export interface RawChannelSummary {
+  value: string;
+  count: number;
+  revenue: number;
+}
+
+// Origens brutas distintas, das mais frequentes para as menos
+export const summarizeRawChannels = (records: SaleRecord[]): RawChannelSummary[] => {
+  const summary = new Map<string, RawChannelSummary>();
+  records.forEach(item => {
+    const value = (item.origem || '').trim();
+    if (!value) return;
+    const entry = summary.get(value);
+    if (entry) {
+      entry.count++;
+      entry.revenue += item.receita;
+    } else {
+      summary.set(value, { value, count: 1, revenue: item.receita });
+    }
+  });
+  return Array.from(summary.values()).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+// Origens que nenhuma regra mapeia e que também não são, elas próprias, um canal da taxonomia
+export const findUnmappedChannels = (summary: RawChannelSummary[], taxonomy: ChannelTaxonomy): RawChannelSummary[] => {
+  const resolve = createChannelResolver(taxonomy.rules);
+  const names = new Set(taxonomy.nodes.map(node => node.name));
+  return summary.filter(item => resolve(item.value) === null && !names.has(item.value));
+};
+
+/**
+ * Caminho do primeiro nível até o canal (inclusive). Canais fora da taxonomia formam um nível só;
+ * ciclos na hierarquia são interrompidos.
+ */
+export const getChannelPath = (nodes: ChannelNode[], name: string): string[] => {
+  const parents = new Map(nodes.map(node => [node.name, node.parent]));
+  const path = [name];
+  let current = parents.get(name);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = parents.get(current);
+  }
+  return path;
+};
+
+// Canais abaixo do informado, em qualquer nível
+export const getChannelDescendants = (nodes: ChannelNode[], name: string): string[] => {
+  return nodes.filter(node => node.name !== name && getChannelPath(nodes, node.name).includes(name)).map(node => node.name);
+};
+
+export interface ChannelLevelRow extends ProfitabilityRow {
+  // Há registros em canais abaixo deste
+  drillable: boolean;
+}
+
+/**
+ * Consolida a rentabilidade por canal no nível logo abaixo de "parent" (vazio = primeiro nível).
+ * Registros atribuídos ao próprio canal "parent" aparecem numa barra com o nome dele.
+ */
+export const buildChannelLevel = (rows: ProfitabilityRow[], nodes: ChannelNode[], parent: string): ChannelLevelRow[] => {
+  const grouped = new Map<string, { revenue: number; sales: number; cost: number; drillable: boolean }>();
+  rows.forEach(row => {
+    const path = getChannelPath(nodes, row.name);
+    const index = parent ? path.indexOf(parent) : -1;
+    if (parent && index < 0) return;
+    const name = path[index + 1] || parent;
+    const entry = grouped.get(name) || { revenue: 0, sales: 0, cost: 0, drillable: false };
+    entry.revenue += row.revenue;
+    entry.sales += row.sales;
+    entry.cost += row.cost;
+    entry.drillable = entry.drillable || path.length > index + 2;
+    grouped.set(name, entry);
+  });
+  return Array.from(grouped.entries())
+    .map(([name, totals]) => ({ ...buildProfitabilityRow(name, totals.revenue, totals.sales, totals.cost), drillable: totals.drillable && name !== parent }))
+    .sort((a, b) => b.revenue - a.revenue);
+};
@@ -0,0 +1,56 @@
+import { ComparisonDimension, ComparisonItem, ComparisonSelection } from '../types';
+import { computeDelta } from './periodComparison';
+import { formatCurrency, formatNumber, formatPercent } from './formatters';
+import { MessageKey } from './i18n';
+
+export const COMPARISON_DIMENSIONS: { value: ComparisonDimension; label: MessageKey }[] = [
+  { value: 'produto', label: 'comparison.products' },
+  { value: 'origem', label: 'comparison.channels' },
+];
+
+export type ComparisonMetric = Exclude<keyof ComparisonItem, 'name'>;
+
+export const COMPARISON_METRICS: { key: ComparisonMetric; label: MessageKey; format: (value: number) => string; higherIsBetter: boolean }[] = [
+  { key: 'revenue', label: 'metric.revenue', format: formatCurrency, higherIsBetter: true },
+  { key: 'sales', label: 'metric.sales', format: formatNumber, higherIsBetter: true },
+  { key: 'ticket', label: 'kpi.ticket', format: formatCurrency, higherIsBetter: true },
+  { key: 'cost', label: 'kpi.cost', format: formatCurrency, higherIsBetter: false },
+  { key: 'share', label: 'comparison.share', format: value => formatPercent(value), higherIsBetter: true },
+];
+
+export const DEFAULT_COMPARISON: ComparisonSelection = { dimension: 'produto', items: [], reference: '' };
+
+/**
+ * Mantém os itens que ainda existem nos dados; sem nenhum, volta aos dois primeiros disponíveis.
+ * Devolve a mesma seleção quando nada muda, evitando recalcular o comparativo.
+ */
+export const reconcileComparison = (selection: ComparisonSelection, options: string[]): ComparisonSelection => {
+  const kept = selection.items.filter(item => options.includes(item));
+  const items = kept.length > 0 ? kept : options.slice(0, 2);
+  const reference = items.includes(selection.reference) ? selection.reference : items[0] || '';
+  const unchanged = reference === selection.reference && items.length === selection.items.length && items.every((item, i) => item === selection.items[i]);
+  return unchanged ? selection : { ...selection, items, reference };
+};
+
+export interface ComparisonDelta {
+  absolute: string;
+  percent: string | null;
+  positive: boolean;
+}
+
+export const buildComparisonDelta = (metric: ComparisonMetric, value: number, reference: number): ComparisonDelta | null => {
+  const config = COMPARISON_METRICS.find(option => option.key === metric);
+  if (!config) return null;
+  const difference = value - reference;
+  const sign = difference > 0 ? '+' : '';
+  // Share já é percentual: a diferença vai em pontos percentuais
+  if (metric === 'share') {
+    return { absolute: `${sign}${formatNumber(Number(difference.toFixed(1)))} p.p.`, percent: null, positive: config.higherIsBetter ? difference >= 0 : difference <= 0 };
+  }
+  const delta = computeDelta(value, reference);
+  return {
+    absolute: `${sign}${config.format(difference)}`,
+    percent: delta === null ? null : `${delta > 0 ? '+' : ''}${formatPercent(delta)}`,
+    positive: config.higherIsBetter ? difference >= 0 : difference <= 0,
+  };
+};
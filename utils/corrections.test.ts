@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { RecordCorrection, SaleRecord } from '../types';
+import { applyCorrections, buildRecordKeys, parseRecordValues, pickRecordValues, upsertCorrection } from './corrections';
+import { t } from './i18n';
+
+const record = (data: string, receita: number, extra: Partial<SaleRecord> = {}): SaleRecord => ({
+  data, produto: 'Ebook', quantidade_vendida: 1, receita, origem: 'Google', custo_aquisicao: 0, ...extra,
+});
+
+const exclude = (key: string): RecordCorrection => ({
+  key, excluded: true, changes: {}, original: pickRecordValues(record('', 0)), updatedAt: '',
+});
+
+describe('buildRecordKeys', () => {
+  it('numera as ocorrências de linhas idênticas e usa o ID da transação quando há', () => {
+    const keys = buildRecordKeys([record('2024-01-05', 100), record('2024-01-05', 100), record('2024-01-05', 100, { id_transacao: 'T1' })]);
+    expect(keys[0]).not.toBe(keys[1]);
+    expect(keys[0].endsWith('\u00011')).toBe(true);
+    expect(keys[1].endsWith('\u00012')).toBe(true);
+    expect(keys[2]).toBe('t\u0001T1\u00011');
+  });
+
+  it('mantém as chaves quando a fonte é buscada de novo com linhas reordenadas ou inseridas', () => {
+    const venda = record('2024-01-05', 100);
+    const outra = record('2024-01-06', 50, { origem: 'Instagram' });
+    const before = buildRecordKeys([venda, outra, { ...venda }]);
+    const after = buildRecordKeys([record('2024-01-01', 10), outra, { ...venda }, record('2024-01-07', 70), venda]);
+    expect(after[1]).toBe(before[1]);
+    expect([after[2], after[4]]).toEqual([before[0], before[2]]);
+  });
+});
+
+describe('applyCorrections', () => {
+  it('continua aplicando as correções depois de uma nova busca e lista as que não encontram registro', () => {
+    const first = [record('2024-01-05', 100), record('2024-01-06', 50)];
+    const [edited, removed] = buildRecordKeys(first);
+    const corrections: RecordCorrection[] = [
+      { ...exclude(edited), excluded: false, changes: { receita: 120 } },
+      exclude(removed),
+      exclude('sumiu'),
+    ];
+    const refetched = [record('2024-01-04', 30), record('2024-01-06', 50), record('2024-01-05', 100)];
+    const { records, unmatched } = applyCorrections(refetched, corrections);
+    expect(records.map(item => [item.data, item.receita])).toEqual([['2024-01-04', 30], ['2024-01-05', 120]]);
+    expect(records[1].registro).toBe(corrections[0].key);
+    expect(unmatched).toEqual(['sumiu']);
+  });
+});
+
+describe('upsertCorrection', () => {
+  const [source] = applyCorrections([record('2024-01-05', 100, { moeda: 'USD', fonte: 'vendas.csv' })], []).records;
+
+  it('grava só os campos alterados e guarda o original', () => {
+    const [correction] = upsertCorrection([], source, { values: { ...pickRecordValues(source), receita: 90 } });
+    expect(correction).toMatchObject({ key: source.registro, excluded: false, changes: { receita: 90 } });
+    expect(correction.original).toMatchObject({ receita: 100, moeda: 'USD', fonte: 'vendas.csv' });
+  });
+
+  it('mantém a edição ao excluir e remove a correção que volta ao original', () => {
+    const edited = upsertCorrection([], source, { values: { ...pickRecordValues(source), produto: 'Curso' } });
+    const excluded = upsertCorrection(edited, source, { excluded: true });
+    expect(excluded).toHaveLength(1);
+    expect(excluded[0]).toMatchObject({ excluded: true, changes: { produto: 'Curso' } });
+    const restored = upsertCorrection(excluded, source, { excluded: false, values: pickRecordValues(source) });
+    expect(restored).toEqual([]);
+  });
+});
+
+describe('parseRecordValues', () => {
+  const draft = { data: '2024-01-05', produto: ' Ebook ', origem: 'Google', quantidade_vendida: '2', receita: '1.234,56', custo_aquisicao: '10' };
+
+  it('lê números no separador do idioma, com milhar', () => {
+    expect(parseRecordValues(draft).values).toEqual({ data: '2024-01-05', produto: 'Ebook', origem: 'Google', quantidade_vendida: 2, receita: 1234.56, custo_aquisicao: 10 });
+    expect(parseRecordValues({ ...draft, receita: '1,234.56' }, '.').values?.receita).toBe(1234.56);
+  });
+
+  it('explica o campo inválido', () => {
+    expect(parseRecordValues({ ...draft, data: '05/01/2024' }).error).toBe(t('records.error.date'));
+    expect(parseRecordValues({ ...draft, produto: ' ' }).error).toBe(t('records.error.product'));
+    expect(parseRecordValues({ ...draft, origem: '' }).error).toBe(t('records.error.channel'));
+    expect(parseRecordValues({ ...draft, receita: 'abc' }).error).toBe(t('records.error.number'));
+    expect(parseRecordValues({ ...draft, quantidade_vendida: '1,5' }).error).toBe(t('records.error.quantity'));
+    expect(parseRecordValues({ ...draft, quantidade_vendida: '-1' }).error).toBe(t('records.error.quantity'));
+  });
+});
@@ -0,0 +1,117 @@
+import { DecimalSeparator, EditableField, RecordCorrection, RecordValues, SaleRecord } from '../types';
+import { parseISODate, parseLocaleNumber } from './parsers';
+import { t } from './i18n';
+
+export const EDITABLE_FIELDS: EditableField[] = ['data', 'produto', 'origem', 'quantidade_vendida', 'receita', 'custo_aquisicao'];
+
+const NUMERIC_FIELDS: EditableField[] = ['quantidade_vendida', 'receita', 'custo_aquisicao'];
+
+export const isNumericField = (field: EditableField) => NUMERIC_FIELDS.includes(field);
+
+const fieldsKey = (item: SaleRecord) => [
+  'f', item.data, item.produto, (item.origem || '').trim(), item.quantidade_vendida, item.receita, item.custo_aquisicao,
+].join('\u0001');
+
+/**
+ * Chaves estáveis dos registros: o ID da transação quando há, senão os campos do registro.
+ * Linhas idênticas (uma venda duplicada, por exemplo) recebem o número da ocorrência,
+ * para que cada uma possa ser corrigida ou excluída separadamente.
+ */
+export const buildRecordKeys = (records: SaleRecord[]): string[] => {
+  const counts = new Map<string, number>();
+  return records.map(item => {
+    const base = item.id_transacao ? `t\u0001${item.id_transacao}` : fieldsKey(item);
+    const occurrence = (counts.get(base) || 0) + 1;
+    counts.set(base, occurrence);
+    return `${base}\u0001${occurrence}`;
+  });
+};
+
+/**
+ * Marca cada registro com sua chave e aplica as correções: excluídos saem do conjunto,
+ * editados recebem os campos alterados. "unmatched" lista as correções cujo registro
+ * não está mais nos dados (planilha alterada, arquivo removido).
+ */
+export const applyCorrections = (records: SaleRecord[], corrections: RecordCorrection[]): { records: SaleRecord[]; unmatched: string[] } => {
+  const byKey = new Map(corrections.map(correction => [correction.key, correction]));
+  const matched = new Set<string>();
+  const keys = buildRecordKeys(records);
+  const corrected: SaleRecord[] = [];
+  records.forEach((item, index) => {
+    const key = keys[index];
+    const correction = byKey.get(key);
+    if (correction) matched.add(key);
+    if (correction?.excluded) return;
+    corrected.push({ ...item, ...correction?.changes, registro: key });
+  });
+  return { records: corrected, unmatched: corrections.filter(correction => !matched.has(correction.key)).map(correction => correction.key) };
+};
+
+export const pickRecordValues = (item: SaleRecord): RecordValues => ({
+  data: item.data,
+  produto: item.produto,
+  origem: item.origem,
+  quantidade_vendida: item.quantidade_vendida,
+  receita: item.receita,
+  custo_aquisicao: item.custo_aquisicao,
+});
+
+// Só os campos que diferem do original entram na correção
+export const diffRecordValues = (original: RecordValues, values: RecordValues): Partial<RecordValues> => {
+  return EDITABLE_FIELDS.reduce<Partial<RecordValues>>((changes, field) => {
+    return values[field] !== original[field] ? { ...changes, [field]: values[field] } : changes;
+  }, {});
+};
+
+/**
+ * Grava a edição ou exclusão de um registro. "source" é o registro antes de qualquer correção;
+ * uma correção sem campos alterados e sem exclusão é removida da lista.
+ */
+export const upsertCorrection = (
+  corrections: RecordCorrection[],
+  source: SaleRecord,
+  update: { excluded?: boolean; values?: RecordValues }
+): RecordCorrection[] => {
+  const key = source.registro || '';
+  const existing = corrections.find(correction => correction.key === key);
+  const original = existing?.original || { ...pickRecordValues(source), moeda: source.moeda, fonte: source.fonte };
+  const next: RecordCorrection = {
+    key,
+    original,
+    excluded: update.excluded ?? existing?.excluded ?? false,
+    changes: update.values ? diffRecordValues(original, update.values) : existing?.changes || {},
+    updatedAt: new Date().toISOString(),
+  };
+  const rest = corrections.filter(correction => correction.key !== key);
+  return next.excluded || Object.keys(next.changes).length > 0 ? [...rest, next] : rest;
+};
+
+export type ParsedRecordDraft = { values: RecordValues; error: null } | { values: null; error: string };
+
+const NUMBER_PATTERN = /^[-+]?[\d.,\s]*\d[\d.,\s]*$/;
+
+/**
+ * Texto digitado no formulário de edição. Números seguem o separador decimal do idioma
+ * da página e aceitam separador de milhar ("1.234,56"); a quantidade precisa ser inteira.
+ */
+export const parseRecordValues = (draft: Record<EditableField, string>, decimalSeparator: DecimalSeparator = ','): ParsedRecordDraft => {
+  const invalid = (error: string): ParsedRecordDraft => ({ values: null, error });
+  if (!parseISODate(draft.data.trim())) return invalid(t('records.error.date'));
+  if (!draft.produto.trim()) return invalid(t('records.error.product'));
+  if (!draft.origem.trim()) return invalid(t('records.error.channel'));
+  const numbers = NUMERIC_FIELDS.map(field => draft[field].trim());
+  if (numbers.some(raw => !NUMBER_PATTERN.test(raw))) return invalid(t('records.error.number'));
+  const [quantity, revenue, cost] = numbers.map(raw => parseLocaleNumber(raw, decimalSeparator));
+  if (!Number.isInteger(quantity) || quantity < 0) return invalid(t('records.error.quantity'));
+  return {
+    values: {
+      data: draft.data.trim(),
+      produto: draft.produto.trim(),
+      origem: draft.origem.trim(),
+      quantidade_vendida: quantity,
+      receita: revenue,
+      custo_aquisicao: cost,
+    },
+    error: null,
+  };
+};
@@ -0,0 +1,71 @@
+import { CurrencySettings, SaleRecord } from '../types';
+import { t } from './i18n';
+
+// Moedas oferecidas nas listas; códigos vindos dos dados ou da tabela de câmbio também aparecem
+export const CURRENCIES = ['BRL', 'USD', 'EUR', 'GBP', 'ARS', 'CLP', 'COP', 'MXN', 'PEN', 'UYU', 'PYG', 'BOB'];
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = { display: 'BRL', base: 'BRL', rates: {} };
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  'R$': 'BRL',
+  'US$': 'USD',
+  'U$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+};
+
+// Aceita código ISO em qualquer caixa ou os símbolos sem ambiguidade; "$" sozinho não indica a moeda
+export const normalizeCurrencyCode = (value: string): string => {
+  const trimmed = (value || '').trim();
+  if (CURRENCY_SYMBOLS[trimmed.toUpperCase()]) return CURRENCY_SYMBOLS[trimmed.toUpperCase()];
+  return /^[a-z]{3}$/i.test(trimmed) ? trimmed.toUpperCase() : '';
+};
+
+// Valor de uma unidade da moeda na moeda de referência; null quando falta a taxa
+export const getCurrencyRate = (settings: CurrencySettings, code: string): number | null => {
+  if (code === settings.base) return 1;
+  const rate = settings.rates[code];
+  return rate > 0 ? rate : null;
+};
+
+export const getCurrencySettingsError = (settings: CurrencySettings): string | null => {
+  const codes = [settings.display, settings.base, ...Object.keys(settings.rates)];
+  if (codes.some(code => normalizeCurrencyCode(code) !== code)) return t('currency.error.code');
+  if (Object.values(settings.rates).some(rate => !(rate > 0))) return t('currency.error.rate');
+  if (getCurrencyRate(settings, settings.display) === null) return t('currency.error.displayRate');
+  return null;
+};
+
+/**
+ * Converte receita e custo para a moeda de exibição. Registros sem moeda estão na moeda de referência.
+ * Sem taxa para a moeda do registro (ou para a de exibição), o registro segue sem conversão
+ * e a moeda entra em "missing" com a quantidade de registros afetados.
+ * Registros que não mudam mantêm a mesma referência.
+ */
+export const convertRecords = (records: SaleRecord[], settings: CurrencySettings): { records: SaleRecord[]; missing: Record<string, number> } => {
+  const missing: Record<string, number> = {};
+  const displayRate = getCurrencyRate(settings, settings.display);
+  const factors = new Map<string, number | null>();
+
+  const converted = records.map(item => {
+    const code = item.moeda || settings.base;
+    if (code === settings.display) return item;
+    let factor = factors.get(code);
+    if (factor === undefined) {
+      const rate = getCurrencyRate(settings, code);
+      factor = rate !== null && displayRate !== null ? rate / displayRate : null;
+      factors.set(code, factor);
+    }
+    if (factor === null) {
+      missing[code] = (missing[code] || 0) + 1;
+      return item;
+    }
+    return { ...item, receita: item.receita * factor, custo_aquisicao: item.custo_aquisicao * factor, moeda: settings.display };
+  });
+
+  return { records: converted, missing };
+};
+
+export const collectCurrencies = (records: SaleRecord[]): string[] => {
+  return Array.from(new Set(records.map(item => item.moeda).filter((code): code is string => !!code))).sort();
+};
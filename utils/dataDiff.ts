@@ -0,0 +1,91 @@
+import { SaleRecord } from '../types';
+import { formatCurrency, formatNumber } from './formatters';
+import { tn } from './i18n';
+
+export interface RecordsDiff {
+  added: SaleRecord[];
+  removed: SaleRecord[];
+  // Versão nova das linhas alteradas (mesmo dia, produto e canal, valores diferentes)
+  changed: SaleRecord[];
+  salesDelta: number;
+  revenueDelta: number;
+}
+
+const recordKey = (item: SaleRecord) => [item.data, item.produto, item.origem, item.quantidade_vendida, item.receita, item.custo_aquisicao].join('\u0001');
+const identityKey = (item: SaleRecord) => [item.data, item.produto, item.origem].join('\u0001');
+
+const sumBy = (records: SaleRecord[], getValue: (item: SaleRecord) => number) => records.reduce((total, item) => total + getValue(item), 0);
+
+/**
+ * Compara dois conjuntos sem identificador de linha. Linhas idênticas se anulam (contando repetições);
+ * das que sobram, uma nova com o mesmo dia, produto e canal de uma antiga conta como alteração.
+ */
+export const diffRecords = (previous: SaleRecord[], next: SaleRecord[]): RecordsDiff => {
+  const remaining = new Map<string, number>();
+  previous.forEach(item => {
+    const key = recordKey(item);
+    remaining.set(key, (remaining.get(key) || 0) + 1);
+  });
+
+  const candidates: SaleRecord[] = [];
+  next.forEach(item => {
+    const key = recordKey(item);
+    const count = remaining.get(key) || 0;
+    if (count > 0) remaining.set(key, count - 1);
+    else candidates.push(item);
+  });
+
+  const removedByIdentity = new Map<string, SaleRecord[]>();
+  previous.forEach(item => {
+    const key = recordKey(item);
+    const count = remaining.get(key) || 0;
+    if (count === 0) return;
+    remaining.set(key, count - 1);
+    const identity = identityKey(item);
+    const list = removedByIdentity.get(identity);
+    if (list) list.push(item);
+    else removedByIdentity.set(identity, [item]);
+  });
+
+  const added: SaleRecord[] = [];
+  const changed: SaleRecord[] = [];
+  candidates.forEach(item => {
+    const match = removedByIdentity.get(identityKey(item));
+    if (match && match.length > 0) {
+      match.pop();
+      changed.push(item);
+    } else {
+      added.push(item);
+    }
+  });
+  const removed = Array.from(removedByIdentity.values()).flat();
+
+  return {
+    added,
+    removed,
+    changed,
+    salesDelta: sumBy(next, item => item.quantidade_vendida) - sumBy(previous, item => item.quantidade_vendida),
+    revenueDelta: sumBy(next, item => item.receita) - sumBy(previous, item => item.receita),
+  };
+};
+
+export const hasChanges = (diff: RecordsDiff): boolean => {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+};
+
+const signed = (value: number, format: (value: number) => string) => `${value >= 0 ? '+' : '-'}${format(Math.abs(value))}`;
+
+// Ex: "+12 vendas, +R$ 3.450,00 desde a última atualização"
+export const describeRecordsDiff = (diff: RecordsDiff): { message: string; detail: string } => {
+  const count = (key: 'update.added' | 'update.changed' | 'update.removed', items: unknown[]) => {
+    return items.length > 0 ? tn(key, items.length, { count: formatNumber(items.length) }) : '';
+  };
+  const details = [count('update.added', diff.added), count('update.changed', diff.changed), count('update.removed', diff.removed)].filter(Boolean);
+  return {
+    message: tn('update.message', Math.abs(diff.salesDelta), {
+      sales: signed(diff.salesDelta, formatNumber),
+      revenue: signed(diff.revenueDelta, formatCurrency),
+    }),
+    detail: details.join(' • '),
+  };
+};
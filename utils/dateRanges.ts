@@ -0,0 +1,158 @@
+import { DatePreset, DateRange, Granularity, SaleRecord, TimelinePoint } from '../types';
+import { parseISODate } from './parsers';
+import { formatDateTime, getMonthName } from './formatters';
+import { MessageKey, t } from './i18n';
+
+export interface DateBounds {
+  start: string;
+  end: string;
+}
+
+export const DATE_PRESETS: { value: DatePreset; label: MessageKey }[] = [
+  { value: 'all', label: 'datePreset.all' },
+  { value: 'last7', label: 'datePreset.last7' },
+  { value: 'last30', label: 'datePreset.last30' },
+  { value: 'last90', label: 'datePreset.last90' },
+  { value: 'qtd', label: 'datePreset.qtd' },
+  { value: 'ytd', label: 'datePreset.ytd' },
+  { value: 'month', label: 'datePreset.month' },
+  { value: 'custom', label: 'datePreset.custom' },
+];
+
+export const GRANULARITIES: { value: Granularity; label: MessageKey }[] = [
+  { value: 'day', label: 'granularity.day' },
+  { value: 'week', label: 'granularity.week' },
+  { value: 'month', label: 'granularity.month' },
+  { value: 'quarter', label: 'granularity.quarter' },
+  { value: 'year', label: 'granularity.year' },
+];
+
+export const DEFAULT_DATE_RANGE: DateRange = { preset: 'all', start: '', end: '', month: '' };
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toISODate = (date: Date): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+};
+
+export const resolveDateRange = (range: DateRange, today: Date = new Date()): DateBounds => {
+  const end = toISODate(today);
+  switch (range.preset) {
+    case 'last7': return { start: toISODate(addDays(today, -6)), end };
+    case 'last30': return { start: toISODate(addDays(today, -29)), end };
+    case 'last90': return { start: toISODate(addDays(today, -89)), end };
+    case 'qtd': return { start: toISODate(new Date(today.getFullYear(), Math.floor(today.getMonth() / 3) * 3, 1)), end };
+    case 'ytd': return { start: toISODate(new Date(today.getFullYear(), 0, 1)), end };
+    case 'month': {
+      const first = parseISODate(`${range.month}-01`);
+      if (!first) return { start: '', end: '' };
+      return { start: toISODate(first), end: toISODate(new Date(first.getFullYear(), first.getMonth() + 1, 0)) };
+    }
+    case 'custom': return { start: range.start, end: range.end };
+    default: return { start: '', end: '' };
+  }
+};
+
+export const isUnbounded = (bounds: DateBounds) => !bounds.start && !bounds.end;
+
+// Datas ISO são comparáveis como texto; registros sem data só entram quando não há limite
+export const isWithinBounds = (iso: string, bounds: DateBounds): boolean => {
+  if (isUnbounded(bounds)) return true;
+  const day = (iso || '').slice(0, 10);
+  if (!day) return false;
+  if (bounds.start && day < bounds.start) return false;
+  if (bounds.end && day > bounds.end) return false;
+  return true;
+};
+
+// Dia no formato curto do idioma (dd/mm/aaaa, mm/dd/aaaa...)
+export const formatISODay = (iso: string): string => {
+  const date = iso ? parseISODate(iso.slice(0, 10)) : null;
+  return date ? formatDateTime(date, { day: '2-digit', month: '2-digit', year: 'numeric' }) : '…';
+};
+
+export const formatDateBounds = (bounds: DateBounds): string => {
+  return t('dateRange.bounds', { start: formatISODay(bounds.start), end: formatISODay(bounds.end) });
+};
+
+export const describeDateRange = (range: DateRange): string => {
+  if (range.preset === 'all') return t('datePreset.all');
+  if (range.preset === 'month') return range.month ? getMonthName(`${range.month}-01`) : t('datePreset.month');
+  return formatDateBounds(resolveDateRange(range));
+};
+
+export const getBucketStart = (date: Date, granularity: Granularity): Date => {
+  switch (granularity) {
+    case 'day': return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    // Semanas começam na segunda-feira
+    case 'week': return addDays(new Date(date.getFullYear(), date.getMonth(), date.getDate()), -((date.getDay() + 6) % 7));
+    case 'month': return new Date(date.getFullYear(), date.getMonth(), 1);
+    case 'quarter': return new Date(date.getFullYear(), Math.floor(date.getMonth() / 3) * 3, 1);
+    default: return new Date(date.getFullYear(), 0, 1);
+  }
+};
+
+export const addBuckets = (date: Date, granularity: Granularity, amount: number): Date => {
+  switch (granularity) {
+    case 'day': return addDays(date, amount);
+    case 'week': return addDays(date, amount * 7);
+    case 'month': return new Date(date.getFullYear(), date.getMonth() + amount, 1);
+    case 'quarter': return new Date(date.getFullYear(), date.getMonth() + amount * 3, 1);
+    default: return new Date(date.getFullYear() + amount, 0, 1);
+  }
+};
+
+export const formatBucketLabel = (date: Date, granularity: Granularity): string => {
+  const shortYear = String(date.getFullYear()).slice(2);
+  switch (granularity) {
+    case 'day': return formatDateTime(date, { day: '2-digit', month: '2-digit' });
+    case 'week': return t('bucket.week', { day: formatDateTime(date, { day: '2-digit', month: '2-digit' }) });
+    case 'month': return `${formatDateTime(date, { month: 'short' }).replace('.', '')}/${shortYear}`;
+    case 'quarter': return t('bucket.quarter', { quarter: Math.floor(date.getMonth() / 3) + 1, year: shortYear });
+    default: return String(date.getFullYear());
+  }
+};
+
+// Preenche os períodos entre o primeiro e o último com zero quando não há valor agrupado
+export const fillTimeSeries = (grouped: Record<string, number>, granularity: Granularity, first: Date, last: Date): TimelinePoint[] => {
+  const points: TimelinePoint[] = [];
+  const end = getBucketStart(last, granularity);
+  for (let cursor = getBucketStart(first, granularity); cursor <= end; cursor = addBuckets(cursor, granularity, 1)) {
+    const key = toISODate(cursor);
+    points.push({ key, name: formatBucketLabel(cursor, granularity), value: grouped[key] || 0 });
+  }
+  return points;
+};
+
+/**
+ * Agrupa a receita em períodos contínuos e em ordem cronológica.
+ * Períodos sem vendas entram com zero; os limites do filtro têm prioridade sobre as datas dos registros.
+ */
+export const buildTimeSeries = (
+  records: SaleRecord[],
+  granularity: Granularity,
+  bounds: DateBounds = { start: '', end: '' },
+  getValue: (item: SaleRecord) => number = item => item.receita
+): TimelinePoint[] => {
+  const grouped: Record<string, number> = {};
+  let first: Date | null = bounds.start ? parseISODate(bounds.start) : null;
+  let last: Date | null = bounds.end ? parseISODate(bounds.end) : null;
+  const scanFirst = !first;
+  const scanLast = !last;
+
+  records.forEach(item => {
+    const date = parseISODate(item.data);
+    if (!date) return;
+    const key = toISODate(getBucketStart(date, granularity));
+    grouped[key] = (grouped[key] || 0) + getValue(item);
+    if (scanFirst && (!first || date < first)) first = date;
+    if (scanLast && (!last || date > last)) last = date;
+  });
+
+  if (!first || !last) return [];
+  return fillTimeSeries(grouped, granularity, first, last);
+};
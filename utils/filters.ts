@@ -0,0 +1,111 @@
+import { DashboardFilters, Granularity, PeriodFilter, RecordsDrill, RecordsSort, SaleRecord } from '../types';
+import { DateBounds, GRANULARITIES, addBuckets, addDays, formatBucketLabel, formatDateBounds, getBucketStart, isWithinBounds, toISODate } from './dateRanges';
+import { parseISODate } from './parsers';
+
+export type ValueFilterKey = 'products' | 'channels';
+
+export const EMPTY_FILTERS: DashboardFilters = { products: [], channels: [], periods: [] };
+
+export const hasActiveFilters = (filters: DashboardFilters): boolean => {
+  return filters.products.length > 0 || filters.channels.length > 0 || filters.periods.length > 0;
+};
+
+// Clicar de novo no mesmo valor remove o filtro
+export const toggleFilterValue = (filters: DashboardFilters, key: ValueFilterKey, value: string): DashboardFilters => {
+  if (!value) return filters;
+  const values = filters[key];
+  return { ...filters, [key]: values.includes(value) ? values.filter(item => item !== value) : [...values, value] };
+};
+
+export const togglePeriod = (filters: DashboardFilters, period: PeriodFilter): DashboardFilters => {
+  const exists = filters.periods.some(item => item.start === period.start && item.end === period.end);
+  return {
+    ...filters,
+    periods: exists
+      ? filters.periods.filter(item => item.start !== period.start || item.end !== period.end)
+      : [...filters.periods, period].sort((a, b) => a.start.localeCompare(b.start)),
+  };
+};
+
+// Período completo do bucket (dia, semana, mês...) que começa na data informada
+export const buildPeriodFilter = (bucketStart: string, granularity: Granularity): PeriodFilter | null => {
+  const start = parseISODate(bucketStart);
+  if (!start) return null;
+  return {
+    start: toISODate(start),
+    end: toISODate(addDays(addBuckets(start, granularity, 1), -1)),
+    label: formatBucketLabel(start, granularity),
+  };
+};
+
+// Reconstrói o rótulo de um trecho vindo da URL: o bucket exato quando houver, senão as datas
+export const resolvePeriodFilter = (start: string, end: string): PeriodFilter | null => {
+  const date = parseISODate(start);
+  if (!date || !end || start > end) return null;
+  for (const option of GRANULARITIES) {
+    if (toISODate(getBucketStart(date, option.value)) !== start) continue;
+    const period = buildPeriodFilter(start, option.value);
+    if (period && period.end === end) return period;
+  }
+  return { start, end, label: formatDateBounds({ start, end }) };
+};
+
+/**
+ * Recorta cada período selecionado pelos limites do filtro de datas.
+ * Sem períodos selecionados, vale o próprio limite; períodos fora dele são descartados.
+ */
+export const resolvePeriodBounds = (periods: PeriodFilter[], bounds: DateBounds): DateBounds[] => {
+  if (periods.length === 0) return [bounds];
+  return periods
+    .map(period => ({
+      start: bounds.start && bounds.start > period.start ? bounds.start : period.start,
+      end: bounds.end && bounds.end < period.end ? bounds.end : period.end,
+    }))
+    .filter(range => range.start <= range.end);
+};
+
+// Mesmo critério do motor de análise, aplicado a um registro avulso
+export const matchesFilters = (item: SaleRecord, filters: DashboardFilters, bounds: DateBounds): boolean => {
+  if (filters.products.length > 0 && !filters.products.includes(item.produto)) return false;
+  if (filters.channels.length > 0 && !filters.channels.includes((item.origem || '').trim())) return false;
+  return resolvePeriodBounds(filters.periods, bounds).some(range => isWithinBounds(item.data, range));
+};
+
+// Recorte de um agregado clicado, aplicado sobre registros que já passaram pelos filtros
+export const matchesDrill = (item: SaleRecord, drill: RecordsDrill): boolean => {
+  return matchesFilters(item, { products: drill.products, channels: drill.channels, periods: drill.period ? [drill.period] : [] }, { start: '', end: '' });
+};
+
+const normalizeSearch = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Busca livre da tabela de registros: cada termo precisa aparecer em algum campo, sem diferenciar acentos
+export const buildSearchMatcher = (search: string): ((item: SaleRecord) => boolean) | null => {
+  const terms = normalizeSearch(search).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return null;
+  return item => {
+    const text = normalizeSearch([item.data, item.produto, item.origem, item.fonte, item.id_transacao, item.moeda, item.quantidade_vendida, item.receita, item.custo_aquisicao].join(' '));
+    return terms.every(term => text.includes(term));
+  };
+};
+
+export const compareRecords = ({ key, desc }: RecordsSort) => (a: SaleRecord, b: SaleRecord): number => {
+  const left = a[key] ?? '';
+  const right = b[key] ?? '';
+  const result = typeof left === 'number' && typeof right === 'number' ? left - right : String(left).localeCompare(String(right));
+  return desc ? -result : result;
+};
+
+/**
+ * Remove valores que não existem mais nos dados carregados.
+ * Devolve o mesmo objeto quando nada muda, evitando uma nova consulta.
+ */
+export const reconcileFilters = (filters: DashboardFilters, products: string[], channels: string[]): DashboardFilters => {
+  const nextProducts = filters.products.filter(item => products.includes(item));
+  const nextChannels = filters.channels.filter(item => channels.includes(item));
+  if (nextProducts.length === filters.products.length && nextChannels.length === filters.channels.length) return filters;
+  return { ...filters, products: nextProducts, channels: nextChannels };
+};
+
+export const describeFilterValues = (values: string[], emptyLabel: string): string => {
+  return values.length > 0 ? values.join(', ') : emptyLabel;
+};
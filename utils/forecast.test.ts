@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { SaleRecord } from '../types';
+import { DEFAULT_FORECAST, linearForecast, projectPeriodTotals } from './forecast';
+
+const dailySales = (start: string, days: number, receita: number): SaleRecord[] => {
+  const [year, month, day] = start.split('-').map(Number);
+  return Array.from({ length: days }, (_, index) => {
+    const date = new Date(year, month - 1, day + index);
+    const iso = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    return { data: iso, produto: 'Ebook', origem: 'Google', receita, quantidade_vendida: 1, custo_aquisicao: 0 };
+  });
+};
+
+const CONFIG = { ...DEFAULT_FORECAST, enabled: true };
+
+describe('linearForecast', () => {
+  it('segue a tendência da série e abre o intervalo com o horizonte', () => {
+    const points = linearForecast([10, 20, 30, 40], 2, 1.96);
+    expect(points.map(point => point.value)).toEqual([50, 60]);
+    expect(linearForecast([10], 2, 1.96)).toEqual([]);
+  });
+});
+
+describe('projectPeriodTotals', () => {
+  it('não projeta com menos dias de histórico que o mínimo', () => {
+    expect(projectPeriodTotals(dailySales('2024-03-01', 5, 1000), CONFIG)).toBeNull();
+    expect(projectPeriodTotals(dailySales('2024-03-01', 29, 1000), CONFIG)).toBeNull();
+  });
+
+  it('conta o histórico desde o primeiro registro, mesmo com dias sem venda', () => {
+    const records = [...dailySales('2024-02-01', 1, 1000), ...dailySales('2024-03-01', 1, 1000)];
+    expect(projectPeriodTotals(records, CONFIG)).not.toBeNull();
+  });
+
+  it('soma o realizado e projeta os dias restantes do mês e do trimestre', () => {
+    const projection = projectPeriodTotals(dailySales('2024-02-01', 45, 100), { ...CONFIG, method: 'linear' });
+    expect(projection?.month.actual).toBe(1600);
+    expect(projection?.quarter.actual).toBe(4500);
+    // Série constante: cada dia restante vale o mesmo que os anteriores
+    expect(projection?.month.projected).toBeCloseTo(3100);
+    expect(projection?.quarter.projected).toBeCloseTo(6000);
+  });
+
+  it('ignora registros sem data', () => {
+    expect(projectPeriodTotals([{ ...dailySales('2024-03-01', 1, 10)[0], data: '' }], CONFIG)).toBeNull();
+  });
+});
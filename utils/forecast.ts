@@ -0,0 +1,196 @@
+import { ForecastConfig, ForecastMethod, ForecastPoint, Granularity, SaleRecord } from '../types';
+import { addDays, buildTimeSeries, toISODate } from './dateRanges';
+import { parseISODate } from './parsers';
+import { formatDateTime } from './formatters';
+import { MessageKey, t } from './i18n';
+
+export const FORECAST_METHODS: { value: ForecastMethod; label: MessageKey }[] = [
+  { value: 'linear', label: 'forecast.method.linear' },
+  { value: 'holt-winters', label: 'forecast.method.holt-winters' },
+];
+
+export const DEFAULT_FORECAST: ForecastConfig = { enabled: false, method: 'holt-winters', horizon: 3, confidence: 80 };
+
+// Tamanho do ciclo sazonal por granularidade (0 = sem sazonalidade)
+export const SEASON_LENGTHS: Record<Granularity, number> = {
+  day: 7,
+  week: 52,
+  month: 12,
+  quarter: 4,
+  year: 0,
+};
+
+const Z_SCORES: Record<ForecastConfig['confidence'], number> = { 80: 1.2816, 95: 1.96 };
+
+// Pelo menos 30 dias de histórico diário antes de projetar o fechamento do mês
+const MIN_DAILY_HISTORY = 30;
+const DAILY_HISTORY = 120;
+
+const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / (values.length || 1);
+
+const standardDeviation = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - avg) ** 2, 0) / (values.length - 1));
+};
+
+const toPoint = (value: number, spread: number): ForecastPoint => ({
+  value: Math.max(0, value),
+  lower: Math.max(0, value - spread),
+  upper: Math.max(0, value + spread),
+});
+
+export const linearForecast = (values: number[], horizon: number, z: number): ForecastPoint[] => {
+  const n = values.length;
+  if (n < 2) return [];
+  const xMean = (n - 1) / 2;
+  const yMean = mean(values);
+  let sxx = 0;
+  let sxy = 0;
+  values.forEach((y, x) => {
+    sxx += (x - xMean) ** 2;
+    sxy += (x - xMean) * (y - yMean);
+  });
+  const slope = sxy / sxx;
+  const intercept = yMean - slope * xMean;
+  const residuals = values.map((y, x) => y - (intercept + slope * x));
+  const sigma = Math.sqrt(residuals.reduce((acc, r) => acc + r * r, 0) / Math.max(1, n - 2));
+
+  return Array.from({ length: horizon }, (_, h) => {
+    const x = n + h;
+    // Intervalo de predição da regressão: abre conforme se afasta do centro do histórico
+    const spread = z * sigma * Math.sqrt(1 + 1 / n + (x - xMean) ** 2 / sxx);
+    return toPoint(intercept + slope * x, spread);
+  });
+};
+
+interface SmoothingResult {
+  level: number;
+  trend: number;
+  seasonals: number[];
+  errors: number[];
+}
+
+const runSmoothing = (values: number[], season: number, alpha: number, beta: number, gamma: number): SmoothingResult => {
+  const seasonals: number[] = [];
+  let level: number;
+  let trend: number;
+  let start: number;
+
+  if (season > 0) {
+    const first = mean(values.slice(0, season));
+    const second = mean(values.slice(season, season * 2));
+    level = first;
+    trend = (second - first) / season;
+    for (let i = 0; i < season; i++) seasonals.push(values[i] - first);
+    start = season;
+  } else {
+    level = values[0];
+    trend = values[1] - values[0];
+    start = 1;
+  }
+
+  const errors: number[] = [];
+  for (let i = start; i < values.length; i++) {
+    const seasonal = season > 0 ? seasonals[i % season] : 0;
+    const predicted = level + trend + seasonal;
+    errors.push(values[i] - predicted);
+    const previousLevel = level;
+    level = alpha * (values[i] - seasonal) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    if (season > 0) seasonals[i % season] = gamma * (values[i] - level) + (1 - gamma) * seasonal;
+  }
+  return { level, trend, seasonals, errors };
+};
+
+/**
+ * Holt-Winters aditivo com parâmetros escolhidos por busca em grade (menor erro quadrático).
+ * Sem duas temporadas completas de histórico, cai para o Holt linear (sem componente sazonal).
+ */
+export const holtWintersForecast = (values: number[], horizon: number, seasonLength: number, z: number): ForecastPoint[] => {
+  const n = values.length;
+  if (n < 3) return linearForecast(values, horizon, z);
+  const season = seasonLength > 1 && n >= seasonLength * 2 ? seasonLength : 0;
+
+  const candidates: SmoothingResult[] = [];
+  [0.1, 0.3, 0.5, 0.7, 0.9].forEach(alpha => {
+    [0.05, 0.1, 0.2].forEach(beta => {
+      (season > 0 ? [0.1, 0.3, 0.5] : [0]).forEach(gamma => {
+        candidates.push(runSmoothing(values, season, alpha, beta, gamma));
+      });
+    });
+  });
+  const sse = (result: SmoothingResult) => result.errors.reduce((acc, e) => acc + e * e, 0);
+  const { level, trend, seasonals, errors } = candidates.reduce((best, result) => sse(result) < sse(best) ? result : best);
+  const sigma = standardDeviation(errors);
+  return Array.from({ length: horizon }, (_, index) => {
+    const h = index + 1;
+    const seasonal = season > 0 ? seasonals[(n - 1 + h) % season] : 0;
+    return toPoint(level + h * trend + seasonal, z * sigma * Math.sqrt(h));
+  });
+};
+
+export const forecastSeries = (values: number[], config: ForecastConfig, seasonLength: number): ForecastPoint[] => {
+  const z = Z_SCORES[config.confidence];
+  return config.method === 'linear'
+    ? linearForecast(values, config.horizon, z)
+    : holtWintersForecast(values, config.horizon, seasonLength, z);
+};
+
+export interface PeriodProjection {
+  label: string;
+  actual: number;
+  projected: number;
+}
+
+/**
+ * Projeta o fechamento do mês e do trimestre do último registro:
+ * realizado até a data + previsão diária (sazonalidade semanal) para os dias restantes.
+ */
+export const projectPeriodTotals = (records: SaleRecord[], config: ForecastConfig): { month: PeriodProjection; quarter: PeriodProjection } | null => {
+  const range = records.reduce<{ first: Date; last: Date } | null>((acc, item) => {
+    const date = parseISODate(item.data);
+    if (!date) return acc;
+    if (!acc) return { first: date, last: date };
+    return { first: date < acc.first ? date : acc.first, last: date > acc.last ? date : acc.last };
+  }, null);
+  if (!range) return null;
+  const firstDay = new Date(range.first.getFullYear(), range.first.getMonth(), range.first.getDate());
+  const lastDay = new Date(range.last.getFullYear(), range.last.getMonth(), range.last.getDate());
+
+  // A série com limites explícitos sempre tem o tamanho pedido; o histórico conta a partir do primeiro registro
+  const days = Math.round((lastDay.getTime() - firstDay.getTime()) / 86400000) + 1;
+  if (days < MIN_DAILY_HISTORY) return null;
+  const historyStart = days > DAILY_HISTORY ? addDays(lastDay, -(DAILY_HISTORY - 1)) : firstDay;
+  const history = buildTimeSeries(records, 'day', { start: toISODate(historyStart), end: toISODate(lastDay) });
+
+  const monthEnd = new Date(lastDay.getFullYear(), lastDay.getMonth() + 1, 0);
+  const quarterStart = new Date(lastDay.getFullYear(), Math.floor(lastDay.getMonth() / 3) * 3, 1);
+  const quarterEnd = new Date(quarterStart.getFullYear(), quarterStart.getMonth() + 3, 0);
+  const daysLeft = (end: Date) => Math.round((end.getTime() - lastDay.getTime()) / 86400000);
+
+  const forecast = forecastSeries(history.map(point => point.value), { ...config, horizon: daysLeft(quarterEnd) }, SEASON_LENGTHS.day);
+  const sumForecast = (days: number) => forecast.slice(0, days).reduce((acc, point) => acc + point.value, 0);
+  const sumActual = (start: Date) => {
+    const startKey = toISODate(start);
+    return records.reduce((acc, item) => {
+      const day = (item.data || '').slice(0, 10);
+      return day && day >= startKey && day <= toISODate(lastDay) ? acc + item.receita : acc;
+    }, 0);
+  };
+
+  const monthActual = sumActual(new Date(lastDay.getFullYear(), lastDay.getMonth(), 1));
+  const quarterActual = sumActual(quarterStart);
+  return {
+    month: {
+      label: formatDateTime(lastDay, { month: 'long', year: 'numeric' }),
+      actual: monthActual,
+      projected: monthActual + sumForecast(daysLeft(monthEnd)),
+    },
+    quarter: {
+      label: t('bucket.quarter', { quarter: Math.floor(lastDay.getMonth() / 3) + 1, year: lastDay.getFullYear() }),
+      actual: quarterActual,
+      projected: quarterActual + sumForecast(daysLeft(quarterEnd)),
+    },
+  };
+};
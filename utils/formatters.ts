@@ -1,23 +1,78 @@
+import { DecimalSeparator, Locale } from '../types';
+import { parseISODate } from './parsers';
+import { t } from './i18n';
+
+export interface FormatSettings {
+  locale: Locale;
+  currency: string;
+}
+
+// Ajustado pela página ao trocar idioma ou moeda e pelo motor de análise a cada consulta
+let settings: FormatSettings = { locale: 'pt-BR', currency: 'BRL' };
+
+export const setFormatSettings = (next: FormatSettings): void => {
+  settings = next;
+};
+
+export const getFormatSettings = (): FormatSettings => settings;
 
 export const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('pt-BR', {
+  return new Intl.NumberFormat(settings.locale, {
     style: 'currency',
-    currency: 'BRL',
+    currency: settings.currency,
+  }).format(value);
+};
+
+// Ex: R$ 12,3 mil; usado nos eixos dos gráficos
+export const formatCompactCurrency = (value: number): string => {
+  return new Intl.NumberFormat(settings.locale, {
+    style: 'currency',
+    currency: settings.currency,
+    notation: 'compact',
+    maximumFractionDigits: 1,
   }).format(value);
 };
 
 export const formatNumber = (value: number): string => {
-  return new Intl.NumberFormat('pt-BR').format(value);
+  return new Intl.NumberFormat(settings.locale).format(value);
+};
+
+// Ex: 12,3 mil; usado onde o espaço não comporta o valor por extenso
+export const formatCompactNumber = (value: number): string => {
+  return new Intl.NumberFormat(settings.locale, { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+};
+
+export const formatDecimal = (value: number, digits: number): string => {
+  return new Intl.NumberFormat(settings.locale, { minimumFractionDigits: digits, maximumFractionDigits: digits, useGrouping: false }).format(value);
+};
+
+// Separador decimal do idioma atual, usado para ler e preencher números digitados
+export const getDecimalSeparator = (): DecimalSeparator => {
+  const decimal = new Intl.NumberFormat(settings.locale).formatToParts(1.5).find(part => part.type === 'decimal');
+  return decimal?.value === '.' ? '.' : ',';
+};
+
+export const formatDateTime = (date: Date, options?: Intl.DateTimeFormatOptions): string => {
+  return new Intl.DateTimeFormat(settings.locale, options || { dateStyle: 'short', timeStyle: 'short' }).format(date);
 };
 
 export const getMonthName = (dateStr: string): string => {
-  const date = new Date(dateStr);
-  if (isNaN(date.getTime())) return 'Desconhecido';
-  return new Intl.DateTimeFormat('pt-BR', { month: 'long', year: 'numeric' }).format(date);
+  const date = parseISODate(dateStr);
+  if (!date) return t('common.unknown');
+  return new Intl.DateTimeFormat(settings.locale, { month: 'long', year: 'numeric' }).format(date);
 };
 
 export const getShortMonthName = (dateStr: string): string => {
-    const date = new Date(dateStr);
-    if (isNaN(date.getTime())) return 'N/A';
-    return new Intl.DateTimeFormat('pt-BR', { month: 'short' }).format(date);
+    const date = parseISODate(dateStr);
+    if (!date) return t('common.notAvailable');
+    return new Intl.DateTimeFormat(settings.locale, { month: 'short' }).format(date);
+};
+
+export const formatPercent = (value: number, digits = 1): string => {
+  return `${formatDecimal(value, digits)}%`;
+};
+
+export const formatRoas = (value: number): string => {
+  if (!isFinite(value) || value <= 0) return t('common.notAvailable');
+  return `${formatDecimal(value, 2)}x`;
 };
@@ -0,0 +1,56 @@
+import { Locale } from '../types';
+import ptBR, { MessageKey } from '../locales/pt-BR';
+import enUS from '../locales/en-US';
+import esES from '../locales/es-ES';
+
+export type { MessageKey };
+
+// Chaves com variantes ".one" e ".other", escolhidas pela quantidade
+type PluralKey<K = MessageKey> = K extends `${infer Base}.one` ? Base : never;
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'pt-BR', label: 'Português (Brasil)' },
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'es-ES', label: 'Español' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = {
+  'pt-BR': ptBR,
+  'en-US': enUS,
+  'es-ES': esES,
+};
+
+let current: Locale = DEFAULT_LOCALE;
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(option => option.value === value);
+
+export const setLocale = (locale: Locale): void => {
+  current = isLocale(locale) ? locale : DEFAULT_LOCALE;
+};
+
+export const getLocale = (): Locale => current;
+
+// Idioma do navegador: primeiro a variante exata, depois só o idioma (es-AR usa o catálogo es-ES)
+export const detectLocale = (languages: readonly string[]): Locale => {
+  const exact = languages.find(isLocale);
+  if (exact) return exact;
+  const match = languages
+    .map(language => LOCALES.find(option => option.value.split('-')[0] === language.split('-')[0].toLowerCase()))
+    .find(Boolean);
+  return match ? match.value : DEFAULT_LOCALE;
+};
+
+/**
+ * Texto do catálogo do idioma atual, com "{nome}" substituído pelos parâmetros.
+ * Os valores já chegam formatados (moeda, número, data) por quem chama.
+ */
+export const t = (key: MessageKey, params: Record<string, string | number> = {}): string => {
+  const template = CATALOGS[current][key] ?? ptBR[key] ?? key;
+  return template.replace(/\{(\w+)\}/g, (match, name) => params[name] !== undefined ? String(params[name]) : match);
+};
+
+export const tn = (key: PluralKey, count: number, params: Record<string, string | number> = {}): string => {
+  return t(`${key}.${count === 1 ? 'one' : 'other'}` as MessageKey, { count, ...params });
+};
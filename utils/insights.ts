@@ -0,0 +1,423 @@
+import { DashboardStats, InsightMetric, InsightPeriod, InsightRequest, InsightsContext, Locale, ProfitabilityRow, SaleRecord } from '../types';
+import { addDays, toISODate } from './dateRanges';
+import { formatCurrency, formatDateTime, formatNumber, formatPercent, formatRoas, getMonthName } from './formatters';
+import { LOCALES, MessageKey, t } from './i18n';
+import { parseISODate } from './parsers';
+import { computeDelta } from './periodComparison';
+import { buildProfitabilityRow, groupProfitability, summarizeProfitability } from './profitability';
+
+// Limites que mantêm o prompt pequeno; os rankings locais usam todas as linhas
+const ROW_LIMIT = 15;
+const MONTH_LIMIT = 24;
+const WEEK_DAYS = 7;
+
+export const INSIGHT_EXAMPLES: MessageKey[] = ['insights.example.1', 'insights.example.2', 'insights.example.3'];
+
+interface InsightsContextInput {
+  records: SaleRecord[];
+  stats: DashboardStats;
+  profitability: ProfitabilityRow;
+  baselineProfitability: ProfitabilityRow | null;
+  channels: ProfitabilityRow[];
+  products: ProfitabilityRow[];
+  scope: string;
+  locale: Locale;
+  currency: string;
+}
+
+const getDay = (item: SaleRecord) => (item.data || '').slice(0, 10);
+
+const buildPeriod = (key: string, start: string, end: string, records: SaleRecord[]): InsightPeriod => ({
+  key,
+  start,
+  end,
+  totals: summarizeProfitability(records),
+  channels: groupProfitability(records, item => item.origem),
+  products: groupProfitability(records, item => item.produto),
+});
+
+const shiftDay = (iso: string, days: number): string => {
+  const date = parseISODate(iso);
+  return date ? toISODate(addDays(date, days)) : '';
+};
+
+const getTicket = (row: ProfitabilityRow) => row.sales > 0 ? row.revenue / row.sales : 0;
+
+/**
+ * Resume os registros filtrados e os agregados já calculados em um objeto compacto:
+ * totais, variações contra o período base, ranking de canais e produtos, meses recentes
+ * e os últimos 7 dias com dados contra os 7 anteriores.
+ */
+export const buildInsightsContext = (input: InsightsContextInput): InsightsContext => {
+  const { records, stats, profitability, baselineProfitability: base } = input;
+  const byMonth = new Map<string, SaleRecord[]>();
+  let start = '';
+  let end = '';
+  records.forEach(item => {
+    const day = getDay(item);
+    if (!day) return;
+    if (!start || day < start) start = day;
+    if (!end || day > end) end = day;
+    const month = day.slice(0, 7);
+    const list = byMonth.get(month);
+    if (list) list.push(item);
+    else byMonth.set(month, [item]);
+  });
+
+  const months = Array.from(byMonth.keys()).sort().slice(-MONTH_LIMIT).map(month => {
+    const monthRecords = byMonth.get(month) || [];
+    const days = monthRecords.map(getDay).sort();
+    return buildPeriod(month, days[0], days[days.length - 1], monthRecords);
+  });
+
+  let week: InsightsContext['week'] = null;
+  if (end) {
+    const currentStart = shiftDay(end, 1 - WEEK_DAYS);
+    const previousStart = shiftDay(end, 1 - WEEK_DAYS * 2);
+    const previousEnd = shiftDay(end, -WEEK_DAYS);
+    const inRange = (from: string, to: string) => records.filter(item => {
+      const day = getDay(item);
+      return day >= from && day <= to;
+    });
+    week = {
+      current: buildPeriod(currentStart, currentStart, end, inRange(currentStart, end)),
+      previous: buildPeriod(previousStart, previousStart, previousEnd, inRange(previousStart, previousEnd)),
+    };
+  }
+
+  const trends: InsightsContext['trends'] = {};
+  if (base) {
+    const pairs: [InsightMetric, number, number][] = [
+      ['revenue', profitability.revenue, base.revenue],
+      ['sales', profitability.sales, base.sales],
+      ['cost', profitability.cost, base.cost],
+      ['roas', profitability.roas, base.roas],
+      ['cac', profitability.cac, base.cac],
+      ['profit', profitability.profit, base.profit],
+      ['ticket', getTicket(profitability), getTicket(base)],
+    ];
+    pairs.forEach(([metric, current, previous]) => {
+      const delta = computeDelta(current, previous);
+      if (delta !== null) trends[metric] = delta;
+    });
+  }
+
+  return {
+    locale: input.locale,
+    currency: input.currency,
+    scope: input.scope,
+    start,
+    end,
+    totals: { ...profitability, ticket: getTicket(profitability) },
+    trends,
+    highlights: { bestMonth: stats.bestMonth.month, bestProduct: stats.bestProduct.name, bestChannel: stats.bestSource.name },
+    channels: input.channels,
+    products: input.products,
+    months,
+    week,
+  };
+};
+
+// Valores com duas casas bastam para a análise e encurtam o prompt
+const roundNumbers = (_key: string, value: unknown) => typeof value === 'number' ? Math.round(value * 100) / 100 : value;
+
+// O contexto guarda todas as linhas para os rankings locais; o prompt leva só as principais
+const truncatePeriod = (period: InsightPeriod): InsightPeriod => ({
+  ...period,
+  channels: period.channels.slice(0, ROW_LIMIT),
+  products: period.products.slice(0, ROW_LIMIT),
+});
+
+const compactContext = (context: InsightsContext): InsightsContext => ({
+  ...context,
+  channels: context.channels.slice(0, ROW_LIMIT),
+  products: context.products.slice(0, ROW_LIMIT),
+  months: context.months.map(truncatePeriod),
+  week: context.week && { current: truncatePeriod(context.week.current), previous: truncatePeriod(context.week.previous) },
+});
+
+// Prompt para provedores remotos: instruções, tarefa e o contexto serializado
+export const buildInsightPrompt = ({ task, question, context }: InsightRequest): string => {
+  const language = LOCALES.find(option => option.value === context.locale)?.label || context.locale;
+  const instructions = [
+    'Você é um analista de vendas e marketing. Use apenas os dados em JSON abaixo; se a resposta não estiver neles, diga que não há dados suficientes.',
+    `Responda em ${language}, em texto corrido sem markdown, com valores monetários em ${context.currency}.`,
+    'Campos: revenue = receita, sales = vendas, cost = custo de aquisição, cac = custo por venda, roas = receita / custo, trends = variação % contra o período base, week = últimos 7 dias com dados e os 7 anteriores.',
+    task === 'summary'
+      ? 'Escreva um resumo da última semana em até 5 frases: receita, vendas, ROAS, CAC, canais e produtos em destaque e as variações relevantes frente à semana anterior e ao período base.'
+      : `Responda em até 3 frases à pergunta: ${question || ''}`,
+  ];
+  return `${instructions.join('\n')}\n\nDados:\n${JSON.stringify(compactContext(context), roundNumbers)}`;
+};
+
+// ---------------------------------------------------------------------------
+// Respostas determinísticas, usadas pelo provedor local
+// ---------------------------------------------------------------------------
+
+const METRIC_KEYS: Record<InsightMetric, MessageKey> = {
+  revenue: 'insights.metric.revenue',
+  sales: 'insights.metric.sales',
+  cost: 'insights.metric.cost',
+  roas: 'insights.metric.roas',
+  cac: 'insights.metric.cac',
+  profit: 'insights.metric.profit',
+  ticket: 'insights.metric.ticket',
+};
+
+// Custo e CAC: quanto menor, melhor
+const LOWER_IS_BETTER: InsightMetric[] = ['cost', 'cac'];
+
+const getMetricValue = (row: ProfitabilityRow, metric: InsightMetric): number | null => {
+  if (metric === 'roas') return row.cost > 0 ? row.roas : null;
+  if (metric === 'cac') return row.sales > 0 ? row.cac : null;
+  if (metric === 'ticket') return row.sales > 0 ? getTicket(row) : null;
+  return row[metric];
+};
+
+const formatInsightValue = (metric: InsightMetric, value: number): string => {
+  if (metric === 'roas') return formatRoas(value);
+  if (metric === 'sales') return formatNumber(value);
+  return formatCurrency(value);
+};
+
+const formatSignedPercent = (delta: number) => `${delta >= 0 ? '+' : '-'}${formatPercent(Math.abs(delta))}`;
+
+const formatDay = (iso: string) => {
+  const date = parseISODate(iso);
+  return date ? formatDateTime(date, { day: '2-digit', month: '2-digit' }) : '…';
+};
+
+// Texto sem acentos e em minúsculas, para casar termos em português, inglês e espanhol
+const normalizeText = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// A ordem importa: "custo por venda" é CAC antes de ser custo, "receita de vendas" é receita
+const METRIC_PATTERNS: [InsightMetric, RegExp][] = [
+  ['roas', /\broas\b|retorno/],
+  ['cac', /\bcac\b|custo por (venda|cliente)|cost per (sale|acquisition|customer)|costo por (venta|cliente)/],
+  ['ticket', /ticket|valor medio|average order|\baov\b/],
+  ['profit', /lucr|profit|benefici|ganancia/],
+  ['cost', /custo|\bcosts?\b|costo|gast|invest|spend/],
+  ['revenue', /receita|fatur|revenue|ingreso|factur/],
+  ['sales', /vend|sales|\bsold\b|\bsell|ventas|unidades|units|quantidade|cantidad/],
+];
+
+const CHANNEL_PATTERN = /\b(canal|canais|canales|channels?|origem|origens|origen|fontes?|fuentes?|sources?|midias?|medios?)\b/;
+const PRODUCT_PATTERN = /\b(produtos?|products?|productos?|cursos?|courses?|items?|itens?|articulos?)\b/;
+const WEEK_PATTERN = /\b(semana|week)\b/;
+const YEAR_PATTERN = /\b(20\d{2})\b/;
+
+type Direction = 'best' | 'worst' | 'highest' | 'lowest';
+const LOWEST_PATTERN = /\b(menor|menores|lowest|least|fewest|menos)\b|mais baix|mas baj/;
+const WORST_PATTERN = /\b(pior|piores|worst|peor|peores)\b/;
+const BEST_PATTERN = /\b(melhor|melhores|best|mejor|mejores)\b/;
+
+// Nomes dos meses por extenso em pt/en/es, reconhecidos em qualquer posição
+const MONTH_NAMES: string[][] = [
+  ['janeiro', 'january', 'enero'],
+  ['fevereiro', 'february', 'febrero'],
+  ['marco', 'march', 'marzo'],
+  ['abril', 'april'],
+  ['maio', 'mayo'],
+  ['junho', 'june', 'junio'],
+  ['julho', 'july', 'julio'],
+  ['agosto', 'august'],
+  ['setembro', 'september', 'septiembre', 'setiembre'],
+  ['outubro', 'october', 'octubre'],
+  ['novembro', 'november', 'noviembre'],
+  ['dezembro', 'december', 'diciembre'],
+];
+
+// Abreviações e nomes que também são palavras comuns ("dez" = 10, "may" = pode) só contam
+// depois de uma preposição de tempo ("em dez", "in may") ou antes do ano ("dez/2024")
+const MONTH_ABBREVIATIONS: string[][] = [
+  ['jan'],
+  ['fev', 'feb'],
+  ['mar'],
+  ['abr', 'apr'],
+  ['mai', 'may'],
+  ['jun'],
+  ['jul'],
+  ['ago', 'aug'],
+  ['set', 'sep', 'sept'],
+  ['out', 'oct'],
+  ['nov'],
+  ['dez', 'dec', 'dic'],
+];
+
+const MONTH_PREPOSITIONS = ['em', 'no', 'in', 'en', 'durante', 'during'];
+
+const findMonth = (text: string): number => {
+  const words = text.split(/[^a-z0-9]+/);
+  const byName = MONTH_NAMES.findIndex(names => names.some(name => words.includes(name)));
+  if (byName >= 0) return byName;
+  const inContext = (index: number) => MONTH_PREPOSITIONS.includes(words[index - 1]) || /^\d{4}$/.test(words[index + 1] || '');
+  return MONTH_ABBREVIATIONS.findIndex(names => words.some((word, index) => names.includes(word) && inContext(index)));
+};
+
+const detectDirection = (text: string): Direction => {
+  if (LOWEST_PATTERN.test(text)) return 'lowest';
+  if (WORST_PATTERN.test(text)) return 'worst';
+  if (BEST_PATTERN.test(text)) return 'best';
+  return 'highest';
+};
+
+const isAscending = (direction: Direction, metric: InsightMetric) => {
+  if (direction === 'lowest') return true;
+  if (direction === 'highest') return false;
+  const lowerIsBetter = LOWER_IS_BETTER.includes(metric);
+  return direction === 'best' ? lowerIsBetter : !lowerIsBetter;
+};
+
+// Soma linhas de vários períodos pelo nome e recalcula CAC, ROAS e margem
+const mergeRows = (lists: ProfitabilityRow[][]): ProfitabilityRow[] => {
+  const totals = new Map<string, { revenue: number; sales: number; cost: number }>();
+  lists.flat().forEach(row => {
+    const entry = totals.get(row.name) || { revenue: 0, sales: 0, cost: 0 };
+    entry.revenue += row.revenue;
+    entry.sales += row.sales;
+    entry.cost += row.cost;
+    totals.set(row.name, entry);
+  });
+  return Array.from(totals, ([name, entry]) => buildProfitabilityRow(name, entry.revenue, entry.sales, entry.cost));
+};
+
+interface ResolvedPeriod {
+  label: string;
+  periods: InsightPeriod[];
+}
+
+// Mês (com ou sem ano), ano, semana ou, sem menção, todo o recorte (periods vazio)
+const resolvePeriod = (text: string, context: InsightsContext): ResolvedPeriod | null => {
+  const monthIndex = findMonth(text);
+  const year = text.match(YEAR_PATTERN)?.[1];
+  if (monthIndex >= 0) {
+    const suffix = `-${String(monthIndex + 1).padStart(2, '0')}`;
+    const candidates = context.months.filter(period => period.key.endsWith(suffix) && (!year || period.key.startsWith(year)));
+    const match = candidates[candidates.length - 1];
+    const label = getMonthName(`${match ? match.key.slice(0, 4) : year || context.end.slice(0, 4) || new Date().getFullYear()}${suffix}-01`);
+    return { label: t('insights.period.in', { period: label }), periods: match ? [match] : [] };
+  }
+  if (year) {
+    return { label: t('insights.period.in', { period: year }), periods: context.months.filter(period => period.key.startsWith(year)) };
+  }
+  if (WEEK_PATTERN.test(text) && context.week) {
+    const { current } = context.week;
+    return { label: t('insights.period.week', { start: formatDay(current.start), end: formatDay(current.end) }), periods: [current] };
+  }
+  return null;
+};
+
+/**
+ * Interpreta perguntas como "qual canal teve melhor ROAS em março?" a partir do contexto:
+ * métrica, dimensão (canal ou produto), sentido do ranking e período (mês, ano ou semana).
+ * Perguntas fora desse formato recebem uma explicação do que é possível perguntar.
+ */
+export const answerInsightQuestion = (question: string, context: InsightsContext): string => {
+  const text = normalizeText(question);
+  const metric = METRIC_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+  const dimension = CHANNEL_PATTERN.test(text) ? 'channel' : PRODUCT_PATTERN.test(text) ? 'product' : null;
+  if (!metric && !dimension) return t('insights.answer.unknown', { example: t(INSIGHT_EXAMPLES[0]) });
+
+  const target = metric || 'revenue';
+  const resolved = resolvePeriod(text, context);
+  const periodLabel = resolved ? resolved.label : t('insights.period.all');
+  if (resolved && resolved.periods.length === 0) return t('insights.answer.noData', { period: periodLabel });
+  const periods = resolved?.periods || [];
+
+  if (!dimension) {
+    const totals = periods.length > 0 ? mergeRows(periods.map(period => [period.totals]))[0] : context.totals;
+    const value = getMetricValue(totals, target);
+    return t('insights.answer.total', {
+      period: periodLabel,
+      metric: t(METRIC_KEYS[target]),
+      value: value === null ? t('common.notAvailable') : formatInsightValue(target, value),
+    });
+  }
+
+  const key = dimension === 'channel' ? 'channels' : 'products';
+  const rows = periods.length === 0 ? context[key] : periods.length === 1 ? periods[0][key] : mergeRows(periods.map(period => period[key]));
+  const direction = detectDirection(text);
+  const ascending = isAscending(direction, target);
+  const ranked = rows
+    .map(row => ({ name: row.name, value: getMetricValue(row, target) }))
+    .filter((row): row is { name: string; value: number } => row.value !== null)
+    .sort((a, b) => ascending ? a.value - b.value : b.value - a.value);
+
+  const dimensionLabel = t(dimension === 'channel' ? 'insights.dimension.channel' : 'insights.dimension.product');
+  if (ranked.length === 0) return t('insights.answer.noMetric', { dimension: dimensionLabel, metric: t(METRIC_KEYS[target]) });
+
+  const [first, ...others] = ranked;
+  const answer = t('insights.answer.ranked', {
+    period: periodLabel,
+    dimension: dimensionLabel,
+    direction: t(`insights.direction.${direction}` as MessageKey),
+    metric: t(METRIC_KEYS[target]),
+    name: first.name,
+    value: formatInsightValue(target, first.value),
+  });
+  if (others.length === 0) return answer;
+  const next = others.slice(0, 2).map(row => `${row.name} (${formatInsightValue(target, row.value)})`).join(', ');
+  return `${answer} ${t('insights.answer.next', { items: next })}`;
+};
+
+// Canal com a maior variação absoluta de receita entre as duas semanas
+const findChannelMover = (current: ProfitabilityRow[], previous: ProfitabilityRow[]): { name: string; diff: number; delta: number } | null => {
+  const previousRevenue = new Map(previous.map(row => [row.name, row.revenue]));
+  return current.reduce<{ name: string; diff: number; delta: number } | null>((mover, row) => {
+    const before = previousRevenue.get(row.name);
+    if (!before) return mover;
+    const diff = row.revenue - before;
+    return !mover || Math.abs(diff) > Math.abs(mover.diff) ? { name: row.name, diff, delta: (diff / before) * 100 } : mover;
+  }, null);
+};
+
+// Resumo semanal montado por modelos de frase do catálogo, sempre igual para o mesmo contexto
+export const summarizeInsights = (context: InsightsContext): string => {
+  if (!context.end) return t('insights.empty');
+  const sentences: string[] = [];
+
+  if (context.week) {
+    const { current, previous } = context.week;
+    const delta = computeDelta(current.totals.revenue, previous.totals.revenue);
+    sentences.push(t('insights.summary.week', {
+      start: formatDay(current.start),
+      end: formatDay(current.end),
+      revenue: formatCurrency(current.totals.revenue),
+      sales: formatNumber(current.totals.sales),
+      change: delta === null ? t('insights.summary.noPrevious') : formatSignedPercent(delta),
+    }));
+    sentences.push(t('insights.summary.efficiency', {
+      roas: formatRoas(current.totals.roas),
+      cac: current.totals.sales > 0 ? formatCurrency(current.totals.cac) : t('common.notAvailable'),
+    }));
+    const [channel] = current.channels;
+    const [product] = current.products;
+    if (channel && product) {
+      sentences.push(t('insights.summary.leaders', {
+        channel: channel.name,
+        channelRevenue: formatCurrency(channel.revenue),
+        product: product.name,
+        productRevenue: formatCurrency(product.revenue),
+      }));
+    }
+    const mover = findChannelMover(current.channels, previous.channels);
+    if (mover && mover.diff !== 0) {
+      sentences.push(t(mover.diff > 0 ? 'insights.summary.moverUp' : 'insights.summary.moverDown', {
+        name: mover.name,
+        change: formatSignedPercent(mover.delta),
+      }));
+    }
+  }
+
+  sentences.push(t('insights.summary.period', {
+    start: formatDay(context.start),
+    end: formatDay(context.end),
+    revenue: formatCurrency(context.totals.revenue),
+    sales: formatNumber(context.totals.sales),
+    roas: formatRoas(context.totals.roas),
+  }));
+  if (context.trends.revenue !== undefined) {
+    sentences.push(t('insights.summary.trend', { change: formatSignedPercent(context.trends.revenue) }));
+  }
+  return sentences.join(' ');
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { SaleRecord } from '../types';
+import { mergeDatasets } from './merge';
+
+const record = (data: string, receita: number, extra: Partial<SaleRecord> = {}): SaleRecord => ({
+  data, produto: 'Ebook', quantidade_vendida: 1, receita, origem: 'Google', custo_aquisicao: 0, ...extra,
+});
+
+describe('mergeDatasets', () => {
+  it('mantém linhas repetidas no mesmo conjunto e descarta só as que os anteriores já trouxeram', () => {
+    const live = [record('2024-01-05', 100), record('2024-01-05', 100)];
+    const upload = [record('2024-01-05', 100), record('2024-01-05', 100), record('2024-01-05', 100), record('2024-01-06', 50)];
+    const { records, stats } = mergeDatasets([
+      { id: 'live', label: 'Planilha', records: live },
+      { id: 'arquivo', label: 'vendas.csv', records: upload },
+    ], 'fields');
+    expect(records.map(item => [item.data, item.fonte])).toEqual([
+      ['2024-01-05', 'Planilha'],
+      ['2024-01-05', 'Planilha'],
+      ['2024-01-05', 'vendas.csv'],
+      ['2024-01-06', 'vendas.csv'],
+    ]);
+    expect(stats).toEqual({ live: { total: 2, duplicates: 0 }, arquivo: { total: 4, duplicates: 2 } });
+  });
+
+  it('compara origem sem espaços nas pontas e ignora quantidade e custo na chave por campos', () => {
+    const { records } = mergeDatasets([
+      { id: 'a', label: 'a', records: [record('2024-01-05', 100)] },
+      { id: 'b', label: 'b', records: [record('2024-01-05', 100, { origem: ' Google ', quantidade_vendida: 3, custo_aquisicao: 9 })] },
+    ], 'fields');
+    expect(records).toHaveLength(1);
+  });
+
+  it('pelo ID da transação, descarta repetições até no mesmo conjunto', () => {
+    const { records, stats } = mergeDatasets([
+      { id: 'a', label: 'a', records: [record('2024-01-05', 100, { id_transacao: 'T1' }), record('2024-01-05', 100, { id_transacao: 'T1' })] },
+      { id: 'b', label: 'b', records: [record('2024-02-01', 80, { id_transacao: 'T1' }), record('2024-02-01', 80, { id_transacao: 'T2' })] },
+    ], 'transaction');
+    expect(records.map(item => item.id_transacao)).toEqual(['T1', 'T2']);
+    expect(stats).toEqual({ a: { total: 2, duplicates: 1 }, b: { total: 2, duplicates: 1 } });
+  });
+
+  it('cai na chave por campos quando o registro não tem ID da transação', () => {
+    const { records } = mergeDatasets([
+      { id: 'a', label: 'a', records: [record('2024-01-05', 100), record('2024-01-05', 100)] },
+      { id: 'b', label: 'b', records: [record('2024-01-05', 100)] },
+    ], 'transaction');
+    expect(records).toHaveLength(2);
+  });
+
+  it('preserva a referência quando a fonte já está marcada', () => {
+    const item = record('2024-01-05', 100, { fonte: 'a' });
+    expect(mergeDatasets([{ id: 'a', label: 'a', records: [item] }], 'fields').records[0]).toBe(item);
+  });
+});
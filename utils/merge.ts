@@ -0,0 +1,62 @@
+import { DedupKey, SaleRecord } from '../types';
+import { MessageKey } from './i18n';
+
+export const DEDUP_KEYS: { value: DedupKey; label: MessageKey }[] = [
+  { value: 'fields', label: 'uploads.dedup.fields' },
+  { value: 'transaction', label: 'uploads.dedup.transaction' },
+];
+
+export const DEFAULT_DEDUP_KEY: DedupKey = 'fields';
+
+// Identificador do conjunto das fontes ao vivo, sempre o primeiro na mesclagem
+export const LIVE_PART_ID = 'live';
+
+export interface MergePart {
+  id: string;
+  // Nome gravado em "fonte" em cada registro do conjunto
+  label: string;
+  records: SaleRecord[];
+}
+
+export interface MergeStats {
+  total: number;
+  duplicates: number;
+}
+
+const fieldsKey = (item: SaleRecord) => ['f', item.data, item.produto, (item.origem || '').trim(), item.receita].join('\u0001');
+
+// Sem ID da transação, o registro cai na chave por campos
+const getRecordKey = (item: SaleRecord, key: DedupKey) => {
+  return key === 'transaction' && item.id_transacao ? `t\u0001${item.id_transacao}` : fieldsKey(item);
+};
+
+/**
+ * Junta os conjuntos na ordem recebida (o primeiro tem prioridade) e marca a fonte de cada registro.
+ * Por ID da transação a chave é única; por campos, linhas repetidas dentro do mesmo conjunto são vendas
+ * distintas, então um conjunto só descarta as ocorrências que os anteriores já trouxeram.
+ */
+export const mergeDatasets = (parts: MergePart[], key: DedupKey): { records: SaleRecord[]; stats: Record<string, MergeStats> } => {
+  const seen = new Map<string, number>();
+  const records: SaleRecord[] = [];
+  const stats: Record<string, MergeStats> = {};
+
+  parts.forEach(part => {
+    const counts = new Map<string, number>();
+    let duplicates = 0;
+    part.records.forEach(item => {
+      const recordKey = getRecordKey(item, key);
+      const occurrence = (counts.get(recordKey) || 0) + 1;
+      counts.set(recordKey, occurrence);
+      const isTransaction = recordKey.startsWith('t\u0001');
+      if (isTransaction ? occurrence > 1 || seen.has(recordKey) : occurrence <= (seen.get(recordKey) || 0)) {
+        duplicates++;
+        return;
+      }
+      records.push(item.fonte === part.label ? item : { ...item, fonte: part.label });
+    });
+    counts.forEach((count, recordKey) => seen.set(recordKey, Math.max(count, seen.get(recordKey) || 0)));
+    stats[part.id] = { total: part.records.length, duplicates };
+  });
+
+  return { records, stats };
+};
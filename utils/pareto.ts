@@ -0,0 +1,82 @@
+import { AbcClass, AbcConfig, ComparisonDimension, ParetoItem, ProfitabilityRow, StaleItem } from '../types';
+import { parseISODate } from './parsers';
+
+export const ABC_CLASSES: AbcClass[] = ['A', 'B', 'C'];
+
+export const DEFAULT_ABC_CONFIG: AbcConfig = { a: 80, b: 15, staleDays: 30 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Number.isFinite(value) ? value : min));
+
+// Mantém A e B dentro de 100% e a cauda longa com pelo menos um dia
+export const normalizeAbcConfig = (config: Partial<AbcConfig>): AbcConfig => {
+  const a = clamp(config.a ?? DEFAULT_ABC_CONFIG.a, 1, 100);
+  return {
+    a,
+    b: clamp(config.b ?? DEFAULT_ABC_CONFIG.b, 0, 100 - a),
+    staleDays: Math.round(clamp(config.staleDays ?? DEFAULT_ABC_CONFIG.staleDays, 1, 3650)),
+  };
+};
+
+/**
+ * Curva de Pareto: itens por receita decrescente com a participação acumulada.
+ * A classe usa o acumulado antes do item, então o item que cruza o corte ainda fica na
+ * classe de cima e o primeiro colocado é sempre A. Receitas negativas entram como zero.
+ */
+export const buildPareto = (rows: ProfitabilityRow[], config: AbcConfig): ParetoItem[] => {
+  const sorted = rows
+    .map(row => ({ name: row.name, revenue: Math.max(0, row.revenue) }))
+    .sort((a, b) => b.revenue - a.revenue || a.name.localeCompare(b.name));
+  const total = sorted.reduce((sum, row) => sum + row.revenue, 0);
+  let cumulative = 0;
+
+  return sorted.map(row => {
+    const before = total > 0 ? (cumulative / total) * 100 : 100;
+    cumulative += row.revenue;
+    const share = total > 0 ? (row.revenue / total) * 100 : 0;
+    const abcClass: AbcClass = row.revenue > 0 && before < config.a ? 'A' : row.revenue > 0 && before < config.a + config.b ? 'B' : 'C';
+    return { name: row.name, revenue: row.revenue, share, cumulativeShare: total > 0 ? (cumulative / total) * 100 : 0, abcClass };
+  });
+};
+
+export const buildAbcClassMap = (items: ParetoItem[]): Record<string, AbcClass> => {
+  return items.reduce<Record<string, AbcClass>>((map, item) => {
+    map[item.name] = item.abcClass;
+    return map;
+  }, {});
+};
+
+export const countAbcClasses = (items: ParetoItem[]): Record<AbcClass, { items: number; revenue: number }> => {
+  const counts = { A: { items: 0, revenue: 0 }, B: { items: 0, revenue: 0 }, C: { items: 0, revenue: 0 } };
+  items.forEach(item => {
+    counts[item.abcClass].items++;
+    counts[item.abcClass].revenue += item.revenue;
+  });
+  return counts;
+};
+
+/**
+ * Cauda longa: itens cuja última venda ficou pelo menos "staleDays" antes do último dia com dados.
+ * Nomes repetidos ficam com a venda mais recente. Os mais antigos aparecem primeiro.
+ */
+export const buildStaleItems = (
+  lastSales: { name: string; lastSale: string }[],
+  dimension: ComparisonDimension,
+  anchor: string,
+  staleDays: number
+): StaleItem[] => {
+  const anchorDate = parseISODate(anchor);
+  if (!anchorDate) return [];
+  const latest = new Map<string, string>();
+  lastSales.forEach(({ name, lastSale }) => {
+    if (lastSale && lastSale > (latest.get(name) || '')) latest.set(name, lastSale);
+  });
+
+  const items: StaleItem[] = [];
+  latest.forEach((lastSale, name) => {
+    const date = parseISODate(lastSale);
+    if (!date) return;
+    const days = Math.round((anchorDate.getTime() - date.getTime()) / 86400000);
+    if (days >= staleDays) items.push({ name, dimension, lastSale, days });
+  });
+  return items.sort((a, b) => b.days - a.days || a.name.localeCompare(b.name));
+};
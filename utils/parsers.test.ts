@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { detectDateFormat, detectDecimalSeparator, getMonthKey, parseDateValue, parseISODate, parseLocaleNumber } from './parsers';
+
+describe('parseLocaleNumber', () => {
+  it('lê o padrão brasileiro com milhar e símbolo de moeda', () => {
+    expect(parseLocaleNumber('R$ 1.234,56')).toBe(1234.56);
+    expect(parseLocaleNumber('1.234.567')).toBe(1234567);
+    expect(parseLocaleNumber('0,5')).toBe(0.5);
+  });
+
+  it('lê o padrão com ponto decimal quando o separador é informado', () => {
+    expect(parseLocaleNumber('$1,234.56', '.')).toBe(1234.56);
+    expect(parseLocaleNumber('1,234,567', '.')).toBe(1234567);
+    expect(parseLocaleNumber('12.5', '.')).toBe(12.5);
+  });
+
+  it('reconhece negativos com sinal antes, depois ou entre parênteses', () => {
+    expect(parseLocaleNumber('-1.234,56')).toBe(-1234.56);
+    expect(parseLocaleNumber('R$ -10,00')).toBe(-10);
+    expect(parseLocaleNumber('10,00-')).toBe(-10);
+    expect(parseLocaleNumber('(1,234.50)', '.')).toBe(-1234.5);
+  });
+
+  it('devolve zero para vazio ou texto sem número', () => {
+    expect(parseLocaleNumber('')).toBe(0);
+    expect(parseLocaleNumber('   ')).toBe(0);
+    expect(parseLocaleNumber('N/A')).toBe(0);
+  });
+});
+
+describe('detectDecimalSeparator', () => {
+  it('decide pela última ocorrência quando os dois separadores aparecem', () => {
+    expect(detectDecimalSeparator(['1.234,56', '99,90'])).toBe(',');
+    expect(detectDecimalSeparator(['1,234.56', '99.90'])).toBe('.');
+  });
+
+  it('trata separador repetido como milhar', () => {
+    expect(detectDecimalSeparator(['1,234,567'])).toBe('.');
+    expect(detectDecimalSeparator(['1.234.567'])).toBe(',');
+  });
+
+  it('não conta valores ambíguos com três casas e, na dúvida, fica com a vírgula', () => {
+    expect(detectDecimalSeparator(['1.234', '5.678'])).toBe(',');
+    expect(detectDecimalSeparator(['1.234', '12.5'])).toBe('.');
+    expect(detectDecimalSeparator([])).toBe(',');
+  });
+
+  it('ignora símbolos de moeda e espaços', () => {
+    expect(detectDecimalSeparator(['US$ 10.50', '$ 3.99', 'R$ 2,00'])).toBe('.');
+  });
+});
+
+describe('detectDateFormat', () => {
+  it('usa dia/mês sem evidência em contrário', () => {
+    expect(detectDateFormat(['01/02/2024', '05/06/2024'])).toBe('DMY');
+  });
+
+  it('reconhece mês/dia quando o segundo número passa de 12', () => {
+    expect(detectDateFormat(['01/02/2024', '03/25/2024'])).toBe('MDY');
+  });
+
+  it('reconhece datas ISO', () => {
+    expect(detectDateFormat(['2024-01-05', '2024-02-10T10:30'])).toBe('YMD');
+  });
+});
+
+describe('parseDateValue', () => {
+  it('normaliza datas brasileiras, com ano curto e horário', () => {
+    expect(parseDateValue('05/01/2024')).toBe('2024-01-05');
+    expect(parseDateValue('5-1-24')).toBe('2024-01-05');
+    expect(parseDateValue('05/01/2024 14:30')).toBe('2024-01-05T14:30:00');
+    expect(parseDateValue('05.01.2024, 08:05:09')).toBe('2024-01-05T08:05:09');
+  });
+
+  it('inverte dia e mês no formato americano', () => {
+    expect(parseDateValue('01/05/2024', 'MDY')).toBe('2024-01-05');
+  });
+
+  it('mantém datas ISO, com ou sem horário', () => {
+    expect(parseDateValue('2024-03-15')).toBe('2024-03-15');
+    expect(parseDateValue('2024/3/5')).toBe('2024-03-05');
+    expect(parseDateValue('2024-03-15T09:15:00Z')).toBe('2024-03-15T09:15:00');
+  });
+
+  it('converte números de série do Excel, inclusive a fração de horário', () => {
+    expect(parseDateValue('45292')).toBe('2024-01-01');
+    expect(parseDateValue('45292,5')).toBe('2024-01-01T12:00:00');
+    expect(parseDateValue('1')).toBe('1899-12-31');
+  });
+
+  it('rejeita séries fora do intervalo e datas inexistentes', () => {
+    expect(parseDateValue('0')).toBe('');
+    expect(parseDateValue('99999999')).toBe('');
+    expect(parseDateValue('31/02/2024')).toBe('');
+    expect(parseDateValue('2023-02-29')).toBe('');
+    expect(parseDateValue('29/02/2024')).toBe('2024-02-29');
+  });
+
+  it('devolve vazio para texto que não é data', () => {
+    expect(parseDateValue('')).toBe('');
+    expect(parseDateValue('sem data')).toBe('');
+  });
+});
+
+describe('parseISODate', () => {
+  it('monta a data no fuso local, sem voltar um dia', () => {
+    const date = parseISODate('2024-03-15');
+    expect([date?.getFullYear(), date?.getMonth(), date?.getDate(), date?.getHours()]).toEqual([2024, 2, 15, 0]);
+    expect(parseISODate('2024-03-15T18:45')?.getHours()).toBe(18);
+    expect(parseISODate('15/03/2024')).toBeNull();
+  });
+
+  it('extrai a chave do mês só de datas normalizadas', () => {
+    expect(getMonthKey('2024-03-15T10:00:00')).toBe('2024-03');
+    expect(getMonthKey('')).toBe('');
+  });
+});
@@ -0,0 +1,155 @@
+import { DateFormat, DecimalSeparator } from '../types';
+
+// Datas do Excel contam dias a partir de 30/12/1899 (considerando o bug do ano bissexto de 1900)
+const EXCEL_EPOCH_UTC = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 86400000;
+const MAX_EXCEL_SERIAL = 2958465;
+
+const ISO_PATTERN = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+const DAY_MONTH_PATTERN = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})(?:[,T\s]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const isValidDate = (year: number, month: number, day: number) => {
+  if (month < 1 || month > 12 || day < 1) return false;
+  return day <= new Date(year, month, 0).getDate();
+};
+
+const toISO = (year: number, month: number, day: number, hours?: number, minutes?: number, seconds?: number): string => {
+  if (!isValidDate(year, month, day)) return '';
+  const date = `${year}-${pad(month)}-${pad(day)}`;
+  if (hours === undefined || isNaN(hours)) return date;
+  return `${date}T${pad(hours)}:${pad(minutes || 0)}:${pad(seconds || 0)}`;
+};
+
+/**
+ * Decide o separador decimal de uma coluna olhando para todos os valores.
+ * Valores ambíguos (ex: "1.234") não votam; na dúvida vale o padrão brasileiro.
+ */
+export const detectDecimalSeparator = (values: string[]): DecimalSeparator => {
+  let comma = 0;
+  let dot = 0;
+  values.forEach(raw => {
+    const cleaned = raw.replace(/[^\d.,]/g, '');
+    const lastComma = cleaned.lastIndexOf(',');
+    const lastDot = cleaned.lastIndexOf('.');
+    if (lastComma >= 0 && lastDot >= 0) {
+      if (lastComma > lastDot) comma++; else dot++;
+      return;
+    }
+    const separator = lastComma >= 0 ? ',' : lastDot >= 0 ? '.' : null;
+    if (!separator) return;
+    const parts = cleaned.split(separator);
+    const decimals = parts[parts.length - 1].length;
+    if (parts.length > 2) {
+      // Separador repetido só pode ser de milhar
+      if (separator === ',') dot++; else comma++;
+    } else if (decimals !== 3) {
+      if (separator === ',') comma++; else dot++;
+    }
+  });
+  return dot > comma ? '.' : ',';
+};
+
+export const parseLocaleNumber = (raw: string, decimalSeparator: DecimalSeparator = ','): number => {
+  const trimmed = (raw || '').trim();
+  if (!trimmed) return 0;
+  const negative = /^\(.*\)$/.test(trimmed) || /^-|-$|^[^\d]*-/.test(trimmed);
+  let cleaned = trimmed.replace(/[^\d.,]/g, '');
+  if (decimalSeparator === ',') {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+  const value = parseFloat(cleaned);
+  if (isNaN(value)) return 0;
+  return negative ? -value : value;
+};
+
+/**
+ * Descobre se datas no formato xx/xx/xxxx são dia/mês ou mês/dia.
+ * Sem evidência em contrário, assume dia/mês (dd/mm/yyyy).
+ */
+export const detectDateFormat = (values: string[]): DateFormat => {
+  let dmy = 0;
+  let mdy = 0;
+  let ymd = 0;
+  values.forEach(raw => {
+    const value = raw.trim();
+    if (ISO_PATTERN.test(value)) {
+      ymd++;
+      return;
+    }
+    const match = value.match(DAY_MONTH_PATTERN);
+    if (!match) return;
+    const first = parseInt(match[1]);
+    const second = parseInt(match[2]);
+    if (first > 12 && second <= 12) dmy++;
+    else if (second > 12 && first <= 12) mdy++;
+  });
+  if (ymd > 0 && dmy === 0 && mdy === 0) return 'YMD';
+  return mdy > dmy ? 'MDY' : 'DMY';
+};
+
+const fromExcelSerial = (serial: number): string => {
+  const date = new Date(EXCEL_EPOCH_UTC + Math.round(serial * MS_PER_DAY));
+  const hasTime = serial % 1 !== 0;
+  return toISO(
+    date.getUTCFullYear(),
+    date.getUTCMonth() + 1,
+    date.getUTCDate(),
+    hasTime ? date.getUTCHours() : undefined,
+    date.getUTCMinutes(),
+    date.getUTCSeconds()
+  );
+};
+
+/**
+ * Normaliza uma data em qualquer formato aceito para ISO local:
+ * "yyyy-mm-dd" ou "yyyy-mm-ddTHH:mm:ss" quando há horário. Retorna '' se inválida.
+ */
+export const parseDateValue = (raw: string, dateFormat: DateFormat = 'DMY'): string => {
+  const value = (raw || '').trim();
+  if (!value) return '';
+
+  if (/^\d+([.,]\d+)?$/.test(value)) {
+    const serial = parseFloat(value.replace(',', '.'));
+    if (serial >= 1 && serial <= MAX_EXCEL_SERIAL) return fromExcelSerial(serial);
+    return '';
+  }
+
+  const iso = value.match(ISO_PATTERN);
+  if (iso) {
+    const [, y, m, d, h, mi, sec] = iso;
+    return toISO(parseInt(y), parseInt(m), parseInt(d), h ? parseInt(h) : undefined, parseInt(mi), parseInt(sec));
+  }
+
+  const dayMonth = value.match(DAY_MONTH_PATTERN);
+  if (dayMonth) {
+    const [, a, b, y, h, mi, sec] = dayMonth;
+    let year = parseInt(y);
+    if (y.length === 2) year += 2000;
+    const day = dateFormat === 'MDY' ? parseInt(b) : parseInt(a);
+    const month = dateFormat === 'MDY' ? parseInt(a) : parseInt(b);
+    return toISO(year, month, day, h ? parseInt(h) : undefined, parseInt(mi), parseInt(sec));
+  }
+
+  const fallback = new Date(value);
+  if (isNaN(fallback.getTime())) return '';
+  return toISO(fallback.getFullYear(), fallback.getMonth() + 1, fallback.getDate());
+};
+
+/**
+ * Converte uma data ISO normalizada em Date no fuso local.
+ * `new Date('2024-03-15')` interpreta como UTC e volta um dia no Brasil.
+ */
+export const parseISODate = (iso: string): Date | null => {
+  const match = (iso || '').match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!match) return null;
+  const [, y, m, d, h, mi, sec] = match;
+  return new Date(parseInt(y), parseInt(m) - 1, parseInt(d), parseInt(h || '0'), parseInt(mi || '0'), parseInt(sec || '0'));
+};
+
+export const getMonthKey = (iso: string): string => {
+  return /^\d{4}-\d{2}/.test(iso || '') ? iso.slice(0, 7) : '';
+};
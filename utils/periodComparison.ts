@@ -0,0 +1,78 @@
+import { BaselineConfig, BaselineMode, SaleRecord } from '../types';
+import { DateBounds, addDays, toISODate } from './dateRanges';
+import { parseISODate } from './parsers';
+import { formatPercent } from './formatters';
+import { MessageKey } from './i18n';
+
+export const BASELINE_MODES: { value: BaselineMode; label: MessageKey }[] = [
+  { value: 'none', label: 'baseline.option.none' },
+  { value: 'previous', label: 'baseline.option.previous' },
+  { value: 'last-year', label: 'baseline.option.last-year' },
+  { value: 'custom', label: 'baseline.option.custom' },
+];
+
+export const DEFAULT_BASELINE: BaselineConfig = { mode: 'previous', start: '', end: '' };
+
+export const getDataBounds = (records: SaleRecord[]): DateBounds => {
+  let start = '';
+  let end = '';
+  records.forEach(item => {
+    const day = (item.data || '').slice(0, 10);
+    if (!day) return;
+    if (!start || day < start) start = day;
+    if (!end || day > end) end = day;
+  });
+  return { start, end };
+};
+
+// Filtros sem limite ("Todo o período") usam as datas extremas dos próprios dados
+export const fillBounds = (bounds: DateBounds, fallback: DateBounds): DateBounds => ({
+  start: bounds.start || fallback.start,
+  end: bounds.end || fallback.end,
+});
+
+const shiftYear = (iso: string, years: number): string => {
+  const date = parseISODate(iso);
+  if (!date) return '';
+  const shifted = new Date(date.getFullYear() + years, date.getMonth(), 1);
+  // 29/02 vira 28/02 quando o ano de destino não é bissexto
+  const lastDay = new Date(shifted.getFullYear(), shifted.getMonth() + 1, 0).getDate();
+  return toISODate(new Date(shifted.getFullYear(), shifted.getMonth(), Math.min(date.getDate(), lastDay)));
+};
+
+export const resolveBaselineBounds = (current: DateBounds, baseline: BaselineConfig): DateBounds | null => {
+  if (baseline.mode === 'none') return null;
+  if (baseline.mode === 'custom') {
+    return baseline.start && baseline.end ? { start: baseline.start, end: baseline.end } : null;
+  }
+  const start = parseISODate(current.start);
+  const end = parseISODate(current.end);
+  if (!start || !end) return null;
+  if (baseline.mode === 'last-year') {
+    return { start: shiftYear(current.start, -1), end: shiftYear(current.end, -1) };
+  }
+  const days = Math.round((end.getTime() - start.getTime()) / 86400000) + 1;
+  return { start: toISODate(addDays(start, -days)), end: toISODate(addDays(start, -1)) };
+};
+
+export const computeDelta = (current: number, baseline: number): number | null => {
+  if (!baseline) return null;
+  return ((current - baseline) / Math.abs(baseline)) * 100;
+};
+
+export interface Trend {
+  trend: string;
+  trendPositive: boolean;
+  trendUp: boolean;
+}
+
+export const buildTrend = (current: number, baseline: number | undefined, higherIsBetter = true): Trend | undefined => {
+  if (baseline === undefined) return undefined;
+  const delta = computeDelta(current, baseline);
+  if (delta === null) return undefined;
+  return {
+    trend: formatPercent(Math.abs(delta)),
+    trendUp: delta >= 0,
+    trendPositive: higherIsBetter ? delta >= 0 : delta <= 0,
+  };
+};
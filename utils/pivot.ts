@@ -0,0 +1,95 @@
+import { PivotConfig, PivotData, PivotDimension, PivotMeasure, PivotTotals, SaleRecord } from '../types';
+import { formatCurrency, formatNumber, formatRoas } from './formatters';
+import { formatBucketLabel } from './dateRanges';
+import { parseISODate } from './parsers';
+import { MessageKey, t } from './i18n';
+
+export const PIVOT_DIMENSIONS: { value: PivotDimension; label: MessageKey }[] = [
+  { value: 'origem', label: 'filters.channel' },
+  { value: 'produto', label: 'filters.product' },
+  { value: 'month', label: 'granularity.month' },
+];
+
+export const PIVOT_MEASURES: { value: PivotMeasure; label: MessageKey; format: (value: number) => string }[] = [
+  { value: 'revenue', label: 'metric.revenue', format: formatCurrency },
+  { value: 'sales', label: 'metric.sales', format: formatNumber },
+  { value: 'ticket', label: 'metric.ticket', format: formatCurrency },
+  { value: 'cost', label: 'metric.cost', format: formatCurrency },
+  { value: 'roas', label: 'kpi.roas', format: formatRoas },
+];
+
+export const DEFAULT_PIVOT: PivotConfig = { rows: 'origem', columns: 'produto', measure: 'revenue' };
+
+export const emptyTotals = (): PivotTotals => ({ revenue: 0, sales: 0, cost: 0 });
+
+// Razões (ticket e ROAS) saem das somas, nunca da média das células
+export const getMeasureValue = (totals: PivotTotals | undefined, measure: PivotMeasure): number => {
+  if (!totals) return 0;
+  switch (measure) {
+    case 'sales': return totals.sales;
+    case 'ticket': return totals.sales > 0 ? totals.revenue / totals.sales : 0;
+    case 'cost': return totals.cost;
+    case 'roas': return totals.cost > 0 ? totals.revenue / totals.cost : 0;
+    default: return totals.revenue;
+  }
+};
+
+export const addTotals = (target: PivotTotals, source: PivotTotals): PivotTotals => {
+  target.revenue += source.revenue;
+  target.sales += source.sales;
+  target.cost += source.cost;
+  return target;
+};
+
+export const getPivotKey = (dimension: PivotDimension, item: SaleRecord, day: string): string => {
+  switch (dimension) {
+    case 'produto': return (item.produto || 'Produto Indefinido').trim();
+    case 'month': return day ? day.slice(0, 7) : '';
+    default: return (item.origem || 'Desconhecido').trim();
+  }
+};
+
+export const formatPivotKey = (dimension: PivotDimension, key: string): string => {
+  if (dimension !== 'month') return key;
+  const date = parseISODate(`${key}-01`);
+  return date ? formatBucketLabel(date, 'month') : t('common.noDate');
+};
+
+/**
+ * Cruza duas dimensões somando receita, vendas e custo por célula.
+ * Meses ficam em ordem cronológica; canais e produtos, pela receita total.
+ */
+export const buildPivotData = (
+  config: Pick<PivotConfig, 'rows' | 'columns'>,
+  forEachRecord: (callback: (item: SaleRecord, day: string) => void) => void
+): PivotData => {
+  const cells: PivotData['cells'] = {};
+  const rowTotals: PivotData['rowTotals'] = {};
+  const columnTotals: PivotData['columnTotals'] = {};
+  const total = emptyTotals();
+
+  forEachRecord((item, day) => {
+    const row = getPivotKey(config.rows, item, day);
+    const column = getPivotKey(config.columns, item, day);
+    const totals = { revenue: item.receita, sales: item.quantidade_vendida, cost: item.custo_aquisicao };
+    const rowCells = cells[row] || (cells[row] = {});
+    addTotals(rowCells[column] || (rowCells[column] = emptyTotals()), totals);
+    addTotals(rowTotals[row] || (rowTotals[row] = emptyTotals()), totals);
+    addTotals(columnTotals[column] || (columnTotals[column] = emptyTotals()), totals);
+    addTotals(total, totals);
+  });
+
+  const order = (dimension: PivotDimension, grouped: Record<string, PivotTotals>) => {
+    const keys = Object.keys(grouped);
+    return dimension === 'month' ? keys.sort() : keys.sort((a, b) => grouped[b].revenue - grouped[a].revenue);
+  };
+
+  return {
+    rows: order(config.rows, rowTotals),
+    columns: order(config.columns, columnTotals),
+    cells,
+    rowTotals,
+    columnTotals,
+    total,
+  };
+};
@@ -0,0 +1,43 @@
+import { SaleRecord, ProfitabilityRow } from '../types';
+
+export const buildProfitabilityRow = (name: string, revenue: number, sales: number, cost: number): ProfitabilityRow => {
+  const profit = revenue - cost;
+  return {
+    name,
+    revenue,
+    sales,
+    cost,
+    cac: sales > 0 ? cost / sales : 0,
+    roas: cost > 0 ? revenue / cost : 0,
+    profit,
+    margin: revenue > 0 ? (profit / revenue) * 100 : 0,
+  };
+};
+
+export const summarizeProfitability = (records: SaleRecord[], name = 'Total'): ProfitabilityRow => {
+  let revenue = 0;
+  let sales = 0;
+  let cost = 0;
+  records.forEach(item => {
+    revenue += item.receita;
+    sales += item.quantidade_vendida;
+    cost += item.custo_aquisicao;
+  });
+  return buildProfitabilityRow(name, revenue, sales, cost);
+};
+
+export const groupProfitability = (records: SaleRecord[], getKey: (item: SaleRecord) => string): ProfitabilityRow[] => {
+  const grouped: Record<string, { revenue: number, sales: number, cost: number }> = {};
+  records.forEach(item => {
+    const key = getKey(item);
+    if (!grouped[key]) {
+      grouped[key] = { revenue: 0, sales: 0, cost: 0 };
+    }
+    grouped[key].revenue += item.receita;
+    grouped[key].sales += item.quantidade_vendida;
+    grouped[key].cost += item.custo_aquisicao;
+  });
+  return Object.entries(grouped)
+    .map(([name, totals]) => buildProfitabilityRow(name, totals.revenue, totals.sales, totals.cost))
+    .sort((a, b) => b.revenue - a.revenue);
+};
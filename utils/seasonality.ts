@@ -0,0 +1,118 @@
+import { SaleRecord, SeasonalityCell, SeasonalityData, SeasonalityMeasure } from '../types';
+import { addDays, toISODate } from './dateRanges';
+import { formatCurrency, formatDateTime, formatNumber } from './formatters';
+import { parseISODate } from './parsers';
+import { MessageKey } from './i18n';
+
+export const SEASONALITY_MEASURES: { value: SeasonalityMeasure; label: MessageKey; format: (value: number) => string }[] = [
+  { value: 'revenue', label: 'metric.revenue', format: formatCurrency },
+  { value: 'sales', label: 'metric.sales', format: formatNumber },
+];
+
+const WEEKDAYS = 7;
+const MONTHS = 12;
+
+const toShortLabel = (text: string) => {
+  const label = text.replace('.', '');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+// Nomes curtos no idioma atual, de domingo a sábado (7/1/2024 foi um domingo)
+export const getWeekdayLabels = (): string[] => {
+  return Array.from({ length: WEEKDAYS }, (_, day) => toShortLabel(formatDateTime(new Date(2024, 0, 7 + day), { weekday: 'short' })));
+};
+
+export const getMonthLabels = (): string[] => {
+  return Array.from({ length: MONTHS }, (_, month) => toShortLabel(formatDateTime(new Date(2024, month, 1), { month: 'short' })));
+};
+
+const emptyCell = (): SeasonalityCell => ({ revenue: 0, sales: 0, days: 0 });
+
+// Média por dia do calendário: dias sem venda contam como zero
+export const getSeasonalityAverage = (cell: SeasonalityCell | undefined, measure: SeasonalityMeasure): number => {
+  if (!cell || cell.days === 0) return 0;
+  return cell[measure] / cell.days;
+};
+
+// Horário à meia-noite costuma ser só a data exportada como data e hora, então não conta como horário
+const getHour = (value: string): number | null => {
+  const match = value.match(/T(\d{2}):(\d{2})/);
+  if (!match || (match[1] === '00' && match[2] === '00')) return null;
+  return parseInt(match[1]);
+};
+
+/**
+ * Sazonalidade do recorte: totais por dia, médias diárias por dia da semana × mês e por dia do mês,
+ * e a grade hora × dia da semana quando há horário. As médias dividem pelos dias do calendário
+ * entre a primeira e a última venda, para meses e dias da semana com mais ocorrências não pesarem mais.
+ */
+export const buildSeasonality = (forEachRecord: (callback: (item: SaleRecord, day: string) => void) => void): SeasonalityData => {
+  const daily: SeasonalityData['daily'] = {};
+  const hourWeekday = Array.from({ length: WEEKDAYS }, () => Array.from({ length: 24 }, () => ({ revenue: 0, sales: 0 })));
+  let records = 0;
+  let timed = 0;
+
+  forEachRecord((item, day) => {
+    if (!day) return;
+    records++;
+    const totals = daily[day] || (daily[day] = { revenue: 0, sales: 0 });
+    totals.revenue += item.receita;
+    totals.sales += item.quantidade_vendida;
+    const hour = getHour(item.data);
+    const date = hour !== null ? parseISODate(day) : null;
+    if (hour === null || !date) return;
+    timed++;
+    const cell = hourWeekday[date.getDay()][hour];
+    cell.revenue += item.receita;
+    cell.sales += item.quantidade_vendida;
+  });
+
+  const days = Object.keys(daily).sort();
+  const weekdayMonth = Array.from({ length: WEEKDAYS }, () => Array.from({ length: MONTHS }, emptyCell));
+  const dayOfMonth = Array.from({ length: 31 }, emptyCell);
+  const first = parseISODate(days[0]);
+  const last = parseISODate(days[days.length - 1]);
+
+  if (first && last) {
+    for (let date = first; date <= last; date = addDays(date, 1)) {
+      const totals = daily[toISODate(date)];
+      [weekdayMonth[date.getDay()][date.getMonth()], dayOfMonth[date.getDate() - 1]].forEach(cell => {
+        cell.days++;
+        if (!totals) return;
+        cell.revenue += totals.revenue;
+        cell.sales += totals.sales;
+      });
+    }
+  }
+
+  return {
+    start: days[0] || '',
+    end: days[days.length - 1] || '',
+    daily,
+    weekdayMonth,
+    dayOfMonth,
+    hourWeekday: timed > 0 ? hourWeekday : null,
+    timedShare: records > 0 ? timed / records : 0,
+  };
+};
+
+/**
+ * Semanas (domingo a sábado) do calendário de calor, limitadas às mais recentes.
+ * Dias fora do intervalo ficam vazios para manter o alinhamento das colunas.
+ */
+export const buildCalendarWeeks = (start: string, end: string, maxWeeks: number): (string | null)[][] => {
+  const first = parseISODate(start);
+  const last = parseISODate(end);
+  if (!first || !last) return [];
+  const lastWeekStart = addDays(last, -last.getDay());
+  const firstWeekStart = addDays(first, -first.getDay());
+  const earliest = addDays(lastWeekStart, -(maxWeeks - 1) * 7);
+  const weeks: (string | null)[][] = [];
+  for (let week = firstWeekStart > earliest ? firstWeekStart : earliest; week <= lastWeekStart; week = addDays(week, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, index) => {
+      const date = addDays(week, index);
+      return date < first || date > last ? null : toISODate(date);
+    }));
+  }
+  return weeks;
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { Target } from '../types';
+import { buildTargetLine, computeTargetProgress, findCurrentProgress, getTargetBounds } from './targets';
+
+const target = (changes: Partial<Target> = {}): Target => ({
+  id: 't1',
+  metric: 'revenue',
+  period: 'month',
+  start: '2024-02-01',
+  dimension: 'global',
+  target: '',
+  value: 2900,
+  ...changes,
+});
+
+const totals = (revenue: number, sales = 0, cost = 0) => ({ revenue, sales, cost });
+
+describe('computeTargetProgress', () => {
+  it('calcula o ritmo pelos dias decorridos até o último dia com dados', () => {
+    const progress = computeTargetProgress(target(), totals(1000), '2024-02-10');
+    expect(progress).toMatchObject({ end: '2024-02-29', elapsedDays: 10, remainingDays: 19, currentDaily: 100, projected: 2900, status: 'on-track' });
+    expect(progress.expectedPercent).toBeCloseTo((10 / 29) * 100);
+    expect(progress.requiredDaily).toBeCloseTo(100);
+  });
+
+  it('no primeiro dia do mês já conta um dia decorrido', () => {
+    const progress = computeTargetProgress(target(), totals(50), '2024-02-01');
+    expect(progress).toMatchObject({ elapsedDays: 1, remainingDays: 28, projected: 1450, status: 'behind' });
+  });
+
+  it('no último dia do mês fecha o período como cumprida ou perdida', () => {
+    const done = computeTargetProgress(target(), totals(2900), '2024-02-29');
+    expect(done).toMatchObject({ elapsedDays: 29, remainingDays: 0, expectedPercent: 100, requiredDaily: 0, status: 'achieved' });
+    expect(computeTargetProgress(target(), totals(2000), '2024-02-29').status).toBe('missed');
+  });
+
+  it('não conta os dias de outros meses', () => {
+    expect(computeTargetProgress(target(), totals(0), '2024-01-31')).toMatchObject({ elapsedDays: 0, remainingDays: 29, expectedPercent: 0, status: 'upcoming' });
+    expect(computeTargetProgress(target(), totals(2000), '2024-03-01')).toMatchObject({ elapsedDays: 29, remainingDays: 0, status: 'missed' });
+  });
+
+  it('trata meta zerada como cumprida', () => {
+    const progress = computeTargetProgress(target({ value: 0 }), totals(0), '2024-02-10');
+    expect(progress).toMatchObject({ percent: 100, projectedPercent: 100, requiredDaily: 0, status: 'achieved' });
+  });
+
+  it('avalia o CAC zerado como limite estourado quando há custo', () => {
+    const over = computeTargetProgress(target({ metric: 'cac', value: 0 }), totals(0, 10, 50), '2024-02-10');
+    expect(over).toMatchObject({ actual: 5, percent: 100, status: 'behind' });
+    const free = computeTargetProgress(target({ metric: 'cac', value: 0 }), totals(0, 10, 0), '2024-02-29');
+    expect(free).toMatchObject({ actual: 0, percent: 0, status: 'achieved' });
+  });
+});
+
+describe('findCurrentProgress', () => {
+  it('prefere a meta mensal em andamento à trimestral', () => {
+    const monthly = computeTargetProgress(target(), totals(100), '2024-02-29');
+    const quarterly = computeTargetProgress(target({ id: 't2', period: 'quarter', start: '2024-01-01', value: 9000 }), totals(100), '2024-02-29');
+    expect(findCurrentProgress([quarterly, monthly], 'revenue', '2024-02-29')).toBe(monthly);
+    expect(findCurrentProgress([quarterly, monthly], 'revenue', '2024-03-01')).toBe(quarterly);
+  });
+});
+
+describe('buildTargetLine', () => {
+  it('normaliza o início da meta para o período inteiro', () => {
+    expect(getTargetBounds({ period: 'quarter', start: '2024-02-15' })).toEqual({ start: '2024-01-01', end: '2024-03-31' });
+  });
+
+  it('usa a mensal nos dias cobertos por ela e a trimestral nos demais, dia a dia na virada do mês', () => {
+    // Trimestre de 91 dias a 91.000 (1.000/dia); fevereiro de 29 dias a 5.800 (200/dia)
+    const targets = [target({ value: 5800 }), target({ id: 't2', period: 'quarter', start: '2024-01-01', value: 91000 })];
+    const line = buildTargetLine(targets, ['2024-01-31', '2024-02-01', '2024-02-29', '2024-03-01'], 'day');
+    expect(line['2024-01-31']).toBeCloseTo(1000);
+    expect(line['2024-02-01']).toBeCloseTo(200);
+    expect(line['2024-02-29']).toBeCloseTo(200);
+    expect(line['2024-03-01']).toBeCloseTo(1000);
+  });
+
+  it('soma os dias de cada período em granularidades maiores e ignora períodos sem meta', () => {
+    const targets = [target({ value: 5800 }), target({ id: 't2', period: 'quarter', start: '2024-01-01', value: 91000 })];
+    const line = buildTargetLine(targets, ['2024-01-01', '2024-02-01', '2024-03-01', '2024-04-01'], 'month');
+    expect(line['2024-01-01']).toBeCloseTo(31000);
+    expect(line['2024-02-01']).toBeCloseTo(5800);
+    expect(line['2024-03-01']).toBeCloseTo(31000);
+    expect(line).not.toHaveProperty('2024-04-01');
+  });
+
+  it('semana que cruza o mês soma a mensal e a trimestral nos respectivos dias', () => {
+    // Semana de 26/02 a 03/03/2024: quatro dias de fevereiro e três de março
+    const targets = [target({ value: 5800 }), target({ id: 't2', period: 'quarter', start: '2024-01-01', value: 91000 })];
+    expect(buildTargetLine(targets, ['2024-02-26'], 'week')['2024-02-26']).toBeCloseTo(4 * 200 + 3 * 1000);
+  });
+});
@@ -0,0 +1,183 @@
+import { DashboardFilters, Granularity, Target, TargetDimension, TargetMetric, TargetPeriod, TargetProgress, TargetStatus } from '../types';
+import { DateBounds, addBuckets, addDays, formatBucketLabel, getBucketStart, toISODate } from './dateRanges';
+import { formatCurrency, formatNumber } from './formatters';
+import { parseISODate } from './parsers';
+import { MessageKey, t } from './i18n';
+
+export const TARGET_METRICS: { value: TargetMetric; label: MessageKey; format: (value: number) => string }[] = [
+  { value: 'revenue', label: 'metric.revenue', format: formatCurrency },
+  { value: 'sales', label: 'metric.sales', format: formatNumber },
+  { value: 'cac', label: 'targets.maxCac', format: formatCurrency },
+];
+
+export const TARGET_PERIODS: { value: TargetPeriod; label: MessageKey }[] = [
+  { value: 'month', label: 'targets.period.month' },
+  { value: 'quarter', label: 'targets.period.quarter' },
+];
+
+export const TARGET_DIMENSIONS: { value: TargetDimension; label: MessageKey }[] = [
+  { value: 'global', label: 'targets.global' },
+  { value: 'produto', label: 'filters.product' },
+  { value: 'origem', label: 'filters.channel' },
+];
+
+export const TARGET_STATUS_LABELS: Record<TargetStatus, MessageKey> = {
+  upcoming: 'targets.status.upcoming',
+  'on-track': 'targets.status.on-track',
+  behind: 'targets.status.behind',
+  achieved: 'targets.status.achieved',
+  missed: 'targets.status.missed',
+};
+
+const DAY_MS = 86400000;
+
+const daysBetween = (start: Date, end: Date) => Math.round((end.getTime() - start.getTime()) / DAY_MS);
+
+export const formatTargetValue = (metric: TargetMetric, value: number): string => {
+  return (TARGET_METRICS.find(option => option.value === metric) || TARGET_METRICS[0]).format(value);
+};
+
+export const getTargetBounds = (target: Pick<Target, 'period' | 'start'>): DateBounds => {
+  const start = parseISODate(target.start);
+  if (!start) return { start: '', end: '' };
+  const first = getBucketStart(start, target.period);
+  return { start: toISODate(first), end: toISODate(addDays(addBuckets(first, target.period, 1), -1)) };
+};
+
+export const formatTargetPeriod = (target: Pick<Target, 'period' | 'start'>): string => {
+  const start = parseISODate(target.start);
+  return start ? formatBucketLabel(getBucketStart(start, target.period), target.period) : '—';
+};
+
+// Ex: "Receita • Google Ads • jul/24"
+export const describeTarget = (target: Target): string => {
+  const option = TARGET_METRICS.find(item => item.value === target.metric);
+  const metric = option ? t(option.label) : target.metric;
+  const scope = target.dimension === 'global' ? t('targets.global') : target.target;
+  return `${metric} • ${scope} • ${formatTargetPeriod(target)}`;
+};
+
+/**
+ * Calcula realizado, ritmo e projeção da meta até o dia de referência (último dia com dados).
+ * A projeção estende a média diária atual até o fim do período; o CAC projetado é o atual.
+ */
+export const computeTargetProgress = (target: Target, totals: { revenue: number; sales: number; cost: number }, anchor: string): TargetProgress => {
+  const bounds = getTargetBounds(target);
+  const start = parseISODate(bounds.start);
+  const end = parseISODate(bounds.end);
+  const reference = parseISODate(anchor);
+  const totalDays = start && end ? daysBetween(start, end) + 1 : 0;
+  const elapsedDays = !start || !end || !reference || reference < start ? 0 : reference >= end ? totalDays : daysBetween(start, reference) + 1;
+  const remainingDays = totalDays - elapsedDays;
+  const expectedPercent = totalDays > 0 ? (elapsedDays / totalDays) * 100 : 0;
+
+  if (target.metric === 'cac') {
+    const actual = totals.sales > 0 ? totals.cost / totals.sales : 0;
+    // Limite zerado só é respeitado sem custo; qualquer CAC acima dele enche a barra
+    const percent = target.value > 0 ? (actual / target.value) * 100 : actual > 0 ? 100 : 0;
+    const withinLimit = actual <= target.value;
+    const status: TargetStatus = elapsedDays === 0 || totals.sales === 0
+      ? 'upcoming'
+      : remainingDays === 0 ? (withinLimit ? 'achieved' : 'missed') : withinLimit ? 'on-track' : 'behind';
+    return {
+      target, end: bounds.end, actual, percent, expectedPercent, elapsedDays, remainingDays,
+      currentDaily: elapsedDays > 0 ? totals.cost / elapsedDays : 0,
+      requiredDaily: null,
+      projected: actual,
+      projectedPercent: percent,
+      status,
+    };
+  }
+
+  const actual = target.metric === 'revenue' ? totals.revenue : totals.sales;
+  // Mínimo zerado já está cumprido, em vez de aparecer como atrasado
+  const percent = target.value > 0 ? (actual / target.value) * 100 : 100;
+  const currentDaily = elapsedDays > 0 ? actual / elapsedDays : 0;
+  const projected = currentDaily * totalDays;
+  const projectedPercent = target.value > 0 ? (projected / target.value) * 100 : 100;
+  const status: TargetStatus = percent >= 100
+    ? 'achieved'
+    : elapsedDays === 0 ? 'upcoming' : remainingDays === 0 ? 'missed' : projectedPercent >= 100 ? 'on-track' : 'behind';
+  return {
+    target, end: bounds.end, actual, percent, expectedPercent, elapsedDays, remainingDays, currentDaily,
+    requiredDaily: remainingDays > 0 ? Math.max(0, target.value - actual) / remainingDays : 0,
+    projected,
+    projectedPercent,
+    status,
+  };
+};
+
+export const isPositiveStatus = (status: TargetStatus) => status === 'on-track' || status === 'achieved';
+
+// Metas que correspondem ao recorte atual: geral sem filtros, ou o único produto ou canal filtrado
+export const selectScopeTargets = <T extends { target: Target }>(items: T[], filters: DashboardFilters): T[] => {
+  const { products, channels } = filters;
+  if (products.length === 0 && channels.length === 0) return items.filter(item => item.target.dimension === 'global');
+  if (products.length === 1 && channels.length === 0) return items.filter(item => item.target.dimension === 'produto' && item.target.target === products[0]);
+  if (channels.length === 1 && products.length === 0) return items.filter(item => item.target.dimension === 'origem' && item.target.target === channels[0]);
+  return [];
+};
+
+// Meta do período em andamento para a métrica; a mensal tem prioridade sobre a trimestral
+export const findCurrentProgress = (items: TargetProgress[], metric: TargetMetric, anchor: string): TargetProgress | undefined => {
+  const current = items.filter(item => item.target.metric === metric && anchor >= item.target.start && anchor <= item.end);
+  return current.find(item => item.target.period === 'month') || current[0];
+};
+
+/**
+ * Valor de meta de receita em cada período da linha do tempo.
+ * Cada meta vira um valor diário (rateado pelos dias do seu período) e os dias são somados
+ * por período, então funciona em qualquer granularidade. Nos dias cobertos por meta mensal,
+ * a trimestral não é somada; nos demais dias do trimestre, ela continua valendo.
+ */
+export const buildTargetLine = (targets: Target[], keys: string[], granularity: Granularity): Record<string, number> => {
+  const revenueTargets = targets.filter(target => target.metric === 'revenue').flatMap(target => {
+    const bounds = getTargetBounds(target);
+    const start = parseISODate(bounds.start);
+    const end = parseISODate(bounds.end);
+    if (!start || !end) return [];
+    return [{ period: target.period, daily: target.value / (daysBetween(start, end) + 1), start, end }];
+  });
+  const line: Record<string, number> = {};
+  keys.forEach(key => {
+    const bucketStart = parseISODate(key);
+    if (!bucketStart) return;
+    const bucketEnd = addDays(addBuckets(bucketStart, granularity, 1), -1);
+    let total = 0;
+    let covered = false;
+    for (let day = bucketStart; day <= bucketEnd; day = addDays(day, 1)) {
+      const active = revenueTargets.filter(({ start, end }) => day >= start && day <= end);
+      if (active.length === 0) continue;
+      const monthly = active.filter(target => target.period === 'month');
+      (monthly.length > 0 ? monthly : active).forEach(target => { total += target.daily; });
+      covered = true;
+    }
+    if (covered) line[key] = total;
+  });
+  return line;
+};
+
+export const serializeTargets = (targets: Target[]): string => JSON.stringify({ version: 1, targets }, null, 2);
+
+/**
+ * Lê metas exportadas (envelope { targets } ou array puro), descartando entradas inválidas.
+ * Lança erro quando o arquivo não contém nenhuma meta aproveitável.
+ */
+export const parseTargetsJSON = (text: string, createId: () => string): Target[] => {
+  const json = JSON.parse(text);
+  const items: unknown[] = Array.isArray(json) ? json : Array.isArray(json?.targets) ? json.targets : [];
+  const isOneOf = <T extends string>(value: unknown, options: { value: T }[]): value is T => options.some(option => option.value === value);
+  const targets = items.flatMap((item): Target[] => {
+    if (!item || typeof item !== 'object') return [];
+    const raw = item as Record<string, unknown>;
+    if (!isOneOf(raw.metric, TARGET_METRICS) || !isOneOf(raw.period, TARGET_PERIODS) || !isOneOf(raw.dimension, TARGET_DIMENSIONS)) return [];
+    const value = Number(raw.value);
+    const start = typeof raw.start === 'string' ? getTargetBounds({ period: raw.period, start: raw.start }).start : '';
+    if (!start || !Number.isFinite(value) || value <= 0) return [];
+    const target = raw.dimension === 'global' ? '' : String(raw.target || '').trim();
+    if (raw.dimension !== 'global' && !target) return [];
+    return [{ id: typeof raw.id === 'string' && raw.id ? raw.id : createId(), metric: raw.metric, period: raw.period, start, dimension: raw.dimension, target, value }];
+  });
+  if (targets.length === 0) throw new Error(t('targets.error.noValid'));
+  return targets;
+};
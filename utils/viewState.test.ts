@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { DashboardView, DataSource } from '../types';
+import { buildPeriodFilter } from './filters';
+import { buildDefaultView, findViewSources, parseView, serializeView } from './viewState';
+
+const SOURCES: DataSource[] = [
+  { id: 'planilha', name: 'Planilha', type: 'google-sheet', sheetId: 'abc123', sheet: 'Vendas' },
+  { id: 'api', name: 'API', type: 'json-url', url: 'https://api.exemplo.com/vendas' },
+];
+
+const DEFAULTS = buildDefaultView(['planilha']);
+
+describe('serializeView / parseView', () => {
+  it('omite os valores padrão', () => {
+    expect(serializeView({ ...DEFAULTS, sourceIds: [] }, SOURCES)).toBe('');
+    expect(parseView('', DEFAULTS, SOURCES)).toEqual(DEFAULTS);
+  });
+
+  it('reconstrói a mesma visão a partir da query string', () => {
+    const view: DashboardView = {
+      sourceIds: ['api', 'planilha'],
+      filters: {
+        products: ['Curso', 'Ebook'],
+        channels: ['Instagram'],
+        periods: [buildPeriodFilter('2024-03-01', 'month')!],
+      },
+      dateRange: { preset: 'custom', start: '2024-01-01', end: '2024-06-30', month: '' },
+      baseline: { mode: 'custom', start: '2023-01-01', end: '2023-06-30' },
+      granularity: 'week',
+      comparison: { dimension: 'origem', items: ['Instagram', 'Google'], reference: 'Google' },
+    };
+    const query = serializeView(view, SOURCES);
+    expect(query).toContain('fonte=json-url%3Ahttps%3A%2F%2Fapi.exemplo.com%2Fvendas');
+    expect(query).toContain('fonte=google-sheet%3Aabc123%3AVendas');
+    expect(parseView(`?${query}`, DEFAULTS, SOURCES)).toEqual(view);
+  });
+
+  it('aceita links antigos com o id local da fonte', () => {
+    expect(parseView('?fonte=api', DEFAULTS, SOURCES).sourceIds).toEqual(['api']);
+  });
+
+  it('ignora fontes desconhecidas ou malformadas e valores inválidos', () => {
+    const view = parseView('?fonte=csv-url:https://outro.com/a.csv&fonte=ftp:x&fonte=google-sheet:&fonte=lixo&grupo=hora&base=nada&trecho=2024-05-10_2024-05-01', DEFAULTS, SOURCES);
+    expect(view.sourceIds).toEqual(DEFAULTS.sourceIds);
+    expect(view.granularity).toBe(DEFAULTS.granularity);
+    expect(view.baseline.mode).toBe(DEFAULTS.baseline.mode);
+    expect(view.filters.periods).toEqual([]);
+  });
+});
+
+describe('findViewSources', () => {
+  it('lista só as definições válidas que não estão cadastradas, sem repetições', () => {
+    const search = [
+      'fonte=google-sheet:abc123:Vendas',
+      'fonte=api',
+      'fonte=csv-url:https://outro.com/a.csv',
+      'fonte=csv-url:https://outro.com/a.csv',
+      'fonte=google-sheet:xyz:Aba:2024',
+      'fonte=ftp:https://outro.com',
+      'fonte=json-url:',
+      'fonte=id-local-desconhecido',
+    ].join('&');
+    expect(findViewSources(search, SOURCES)).toEqual([
+      { type: 'csv-url', url: 'https://outro.com/a.csv' },
+      { type: 'google-sheet', sheetId: 'xyz', sheet: 'Aba:2024' },
+    ]);
+  });
+
+  it('devolve vazio quando todas as fontes já existem', () => {
+    expect(findViewSources(`?${serializeView({ ...DEFAULTS, sourceIds: ['planilha', 'api'] }, SOURCES)}`, SOURCES)).toEqual([]);
+  });
+});
@@ -0,0 +1,172 @@
+import { BaselineMode, ComparisonDimension, DashboardView, DataSource, DataSourceType, DatePreset, Granularity, PeriodFilter } from '../types';
+import { DATE_PRESETS, DEFAULT_DATE_RANGE, GRANULARITIES } from './dateRanges';
+import { BASELINE_MODES, DEFAULT_BASELINE } from './periodComparison';
+import { COMPARISON_DIMENSIONS, DEFAULT_COMPARISON } from './comparison';
+import { EMPTY_FILTERS, resolvePeriodFilter } from './filters';
+
+export const DEFAULT_GRANULARITY: Granularity = 'month';
+
+// Nomes curtos e em português para a URL continuar legível ao ser compartilhada
+const PARAMS = {
+  source: 'fonte',
+  product: 'produto',
+  channel: 'canal',
+  period: 'trecho',
+  preset: 'periodo',
+  start: 'de',
+  end: 'ate',
+  month: 'mes',
+  baseline: 'base',
+  baselineStart: 'base_de',
+  baselineEnd: 'base_ate',
+  granularity: 'grupo',
+  comparison: 'comparar',
+  item: 'item',
+  reference: 'ref',
+};
+
+const PERIOD_SEPARATOR = '_';
+const SOURCE_SEPARATOR = ':';
+
+const SOURCE_TYPES: DataSourceType[] = ['google-sheet', 'csv-url', 'json-url'];
+
+export type SourceDefinition = Omit<DataSource, 'id' | 'name'>;
+
+/**
+ * Fontes vão para a URL pela definição ("google-sheet:<id>:<aba>", "csv-url:<endereço>"),
+ * não pelo id local, para que o link reproduza as mesmas fontes em outro navegador.
+ */
+export const encodeSourceRef = (source: SourceDefinition): string => {
+  if (source.type !== 'google-sheet') return `${source.type}${SOURCE_SEPARATOR}${(source.url || '').trim()}`;
+  const sheet = (source.sheet || '').trim();
+  return [source.type, (source.sheetId || '').trim(), ...(sheet ? [sheet] : [])].join(SOURCE_SEPARATOR);
+};
+
+const decodeSourceRef = (value: string): SourceDefinition | null => {
+  const index = value.indexOf(SOURCE_SEPARATOR);
+  if (index < 0) return null;
+  const type = value.slice(0, index) as DataSourceType;
+  const rest = value.slice(index + 1).trim();
+  if (!SOURCE_TYPES.includes(type) || !rest) return null;
+  if (type !== 'google-sheet') return { type, url: rest };
+  const [sheetId, ...sheet] = rest.split(SOURCE_SEPARATOR);
+  return { type, sheetId, ...(sheet.length > 0 ? { sheet: sheet.join(SOURCE_SEPARATOR) } : {}) };
+};
+
+// Links antigos guardavam o id local; ele continua valendo quando existe neste navegador
+const findSource = (value: string, sources: DataSource[]): DataSource | undefined => {
+  return sources.find(source => source.id === value || encodeSourceRef(source) === value);
+};
+
+/**
+ * Definições de fontes da URL que ainda não estão cadastradas neste navegador, sem repetições.
+ * Valores malformados ou ids locais desconhecidos ficam de fora.
+ */
+export const findViewSources = (search: string, sources: DataSource[]): SourceDefinition[] => {
+  const found = new Map<string, SourceDefinition>();
+  new URLSearchParams(search).getAll(PARAMS.source).forEach(value => {
+    if (findSource(value, sources)) return;
+    const definition = decodeSourceRef(value);
+    if (definition) found.set(encodeSourceRef(definition), definition);
+  });
+  return Array.from(found.values());
+};
+
+const isOneOf = <T extends string>(value: string | null, options: { value: T }[]): value is T => {
+  return value !== null && options.some(option => option.value === value);
+};
+
+/**
+ * Serializa o estado compartilhável em query string.
+ * Valores iguais ao padrão ficam de fora; listas viram parâmetros repetidos.
+ */
+export const serializeView = (view: DashboardView, sources: DataSource[]): string => {
+  const params = new URLSearchParams();
+  view.sourceIds.forEach(id => {
+    const source = sources.find(item => item.id === id);
+    if (source) params.append(PARAMS.source, encodeSourceRef(source));
+  });
+  view.filters.products.forEach(product => params.append(PARAMS.product, product));
+  view.filters.channels.forEach(channel => params.append(PARAMS.channel, channel));
+  view.filters.periods.forEach(period => params.append(PARAMS.period, `${period.start}${PERIOD_SEPARATOR}${period.end}`));
+
+  const { dateRange, baseline, comparison } = view;
+  if (dateRange.preset !== DEFAULT_DATE_RANGE.preset) params.set(PARAMS.preset, dateRange.preset);
+  if (dateRange.preset === 'month' && dateRange.month) params.set(PARAMS.month, dateRange.month);
+  if (dateRange.preset === 'custom') {
+    if (dateRange.start) params.set(PARAMS.start, dateRange.start);
+    if (dateRange.end) params.set(PARAMS.end, dateRange.end);
+  }
+  if (baseline.mode !== DEFAULT_BASELINE.mode) params.set(PARAMS.baseline, baseline.mode);
+  if (baseline.mode === 'custom') {
+    if (baseline.start) params.set(PARAMS.baselineStart, baseline.start);
+    if (baseline.end) params.set(PARAMS.baselineEnd, baseline.end);
+  }
+  if (view.granularity !== DEFAULT_GRANULARITY) params.set(PARAMS.granularity, view.granularity);
+
+  if (comparison.dimension !== DEFAULT_COMPARISON.dimension) params.set(PARAMS.comparison, comparison.dimension);
+  comparison.items.forEach(item => params.append(PARAMS.item, item));
+  if (comparison.reference && comparison.reference !== comparison.items[0]) params.set(PARAMS.reference, comparison.reference);
+
+  return params.toString();
+};
+
+/**
+ * Lê o estado de uma query string. Parâmetros ausentes ou inválidos caem nos valores de "defaults";
+ * fontes que não estão em "sources" são ignoradas (findViewSources lista as que faltam cadastrar).
+ */
+export const parseView = (search: string, defaults: DashboardView, sources: DataSource[]): DashboardView => {
+  const params = new URLSearchParams(search);
+  const sourceIds = Array.from(new Set(params.getAll(PARAMS.source)
+    .map(value => findSource(value, sources)?.id)
+    .filter((id): id is string => !!id)));
+
+  const periods = params.getAll(PARAMS.period)
+    .map(value => {
+      const [start, end] = value.split(PERIOD_SEPARATOR);
+      return resolvePeriodFilter(start || '', end || '');
+    })
+    .filter((period): period is PeriodFilter => period !== null);
+
+  const preset = params.get(PARAMS.preset);
+  const baselineMode = params.get(PARAMS.baseline);
+  const granularity = params.get(PARAMS.granularity);
+  const dimension = params.get(PARAMS.comparison);
+  const items = params.getAll(PARAMS.item);
+
+  return {
+    sourceIds: sourceIds.length > 0 ? sourceIds : defaults.sourceIds,
+    filters: {
+      ...EMPTY_FILTERS,
+      products: params.getAll(PARAMS.product),
+      channels: params.getAll(PARAMS.channel),
+      periods,
+    },
+    dateRange: {
+      preset: isOneOf<DatePreset>(preset, DATE_PRESETS) ? preset : defaults.dateRange.preset,
+      start: params.get(PARAMS.start) || '',
+      end: params.get(PARAMS.end) || '',
+      month: params.get(PARAMS.month) || '',
+    },
+    baseline: {
+      mode: isOneOf<BaselineMode>(baselineMode, BASELINE_MODES) ? baselineMode : defaults.baseline.mode,
+      start: params.get(PARAMS.baselineStart) || '',
+      end: params.get(PARAMS.baselineEnd) || '',
+    },
+    granularity: isOneOf<Granularity>(granularity, GRANULARITIES) ? granularity : defaults.granularity,
+    comparison: {
+      dimension: isOneOf<ComparisonDimension>(dimension, COMPARISON_DIMENSIONS) ? dimension : defaults.comparison.dimension,
+      items,
+      reference: params.get(PARAMS.reference) || items[0] || '',
+    },
+  };
+};
+
+export const buildDefaultView = (sourceIds: string[]): DashboardView => ({
+  sourceIds,
+  filters: EMPTY_FILTERS,
+  dateRange: DEFAULT_DATE_RANGE,
+  baseline: DEFAULT_BASELINE,
+  granularity: DEFAULT_GRANULARITY,
+  comparison: DEFAULT_COMPARISON,
+});
@@ -0,0 +1,60 @@
+import { AnalyticsRequest, AnalyticsResponse } from '../services/analyticsClient';
+import { createAnalyticsEngine } from '../services/analyticsEngine';
+import { streamCSVTable } from '../services/spreadsheetService';
+import { setFormatSettings } from '../utils/formatters';
+import { setLocale } from '../utils/i18n';
+
+const ctx = self as unknown as Worker;
+const engine = createAnalyticsEngine();
+
+const reply = (message: AnalyticsResponse, transfer: Transferable[] = []) => ctx.postMessage(message, transfer);
+
+ctx.onmessage = async (event: MessageEvent<AnalyticsRequest>) => {
+  const request = event.data;
+  const done = (value: unknown, transfer: Transferable[] = []) => reply({ id: request.id, type: 'done', value }, transfer);
+  try {
+    switch (request.type) {
+      case 'format':
+        // O worker não enxerga as configurações da página: idioma e moeda chegam por mensagem
+        setLocale(request.format.locale);
+        setFormatSettings(request.format);
+        break;
+      case 'configure':
+        done(engine.configure(request.config));
+        break;
+      case 'load-cached':
+        done(await engine.loadCachedSources(request.sources));
+        break;
+      case 'fetch-sources':
+        done(await engine.fetchSources(request.sources));
+        break;
+      case 'set-upload':
+        done(engine.setUpload(request.uploadId, request.table, request.mapping, request.options));
+        break;
+      case 'remove-uploads':
+        engine.removeUploads(request.ids);
+        break;
+      case 'query': {
+        const result = engine.query(request.query);
+        done(result, [result.rows.buffer]);
+        break;
+      }
+      case 'records':
+        done(engine.records(request.request));
+        break;
+      case 'parse-csv': {
+        // Progresso enviado no máximo a cada 1% para não inundar a thread principal
+        let reported = 0;
+        const table = await streamCSVTable(request.file, progress => {
+          if (progress - reported < 0.01 && progress < 1) return;
+          reported = progress;
+          reply({ id: request.id, type: 'progress', progress });
+        });
+        done(table);
+        break;
+      }
+    }
+  } catch (error) {
+    reply({ id: request.id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};